@@ -1,13 +1,63 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import Controls from './components/Controls';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import Controls, { GenerationSource } from './components/Controls';
 import Flowchart from './components/Flowchart';
-import { generateFlowchartJson, generateEnhancedDescription, generateSubnodes } from './services/geminiService';
-import { FlowchartData, DepthLevel, Position, Node as NodeType, DiagramType, Size } from './types';
+import ChatPanel, { ChatMessage } from './components/ChatPanel';
+import ConnectorInspector from './components/ConnectorInspector';
+import SelectionToolbar from './components/SelectionToolbar';
+import AnnotationInspector from './components/AnnotationInspector';
+import PanelInspector from './components/PanelInspector';
+import InsertToolbar from './components/InsertToolbar';
+import PanelItemInspector from './components/PanelItemInspector';
+import SideBoxInspector from './components/SideBoxInspector';
+import Breadcrumbs from './components/Breadcrumbs';
+import { buildHierarchyHtml, buildHierarchyPdf } from './components/hierarchyExport';
+import { generateFlowchartJson, generateEnhancedDescription, generateSubnodes, generateDiagramRefinement, isAbortError } from './services/geminiService';
+import { getDiagramAIProvider } from './services/providers';
+import { computeAutoLayout, AutoLayoutType } from './services/layout';
+import { toMermaid, fromMermaid } from './services/mermaid';
+import { getDefaultRouting } from './services/routing';
+import { NODE_SHAPES, NODE_SHAPE_LABELS } from './services/shapes';
+import { SnapSettings, DEFAULT_SNAP_SETTINGS } from './services/snapping';
+import { DiagramTrailEntry, foldTrail, setSubDiagram, buildSubDiagramTopic } from './services/subDiagrams';
+import { getVisibleDiagram, getHiddenNodeIds, toggleCollapsed, withHiddenDescendants } from './services/folding';
+import { assignLanesByPosition } from './services/lanes';
+import { buildPdf, PdfExportOptions } from './services/pdf';
+import { buildStandaloneSvg } from './services/svgExport';
+import { svgToVectorShapes } from './services/svgVector';
+import { toDrawioXml, fromDrawioXml } from './services/drawio';
+import { fromDot } from './services/dot';
+import { fromJsonCanvas } from './services/jsonCanvas';
+import { applyOutline } from './services/outline';
+import { toExcalidraw } from './services/excalidraw';
+import { toPptx } from './services/pptx';
+import { ShareBundle, createShareUrl, isShareFragment, readShareFragment, clearShareFragment, toShareBundleFile, isShareBundleFile, fromShareBundleFile, MAX_SHARE_URL_LENGTH, SHARE_BUNDLE_EXTENSION } from './services/shareLink';
+import { migrateLegacyPanel, createAnnotation, ANNOTATION_DEFAULTS, createSupportingPanel, addSideBox, updateSideBox, removeSideBox, updatePanel, removePanel, createPanelItem, addPanelItem, updatePanelItem, removePanelItem, updateAnnotation, removeAnnotation, SIDE_BOX_SIDES } from './services/annotations';
+import { moveNodes, removeNodes, copyNodes, pasteClipboard, alignNodes, distributeNodes, AlignMode, DistributeAxis, DiagramClipboard } from './services/selection';
+import { applyDiagramDiff, getDiffHighlights, isEmptyDiff, DiffHighlight } from './services/diagramDiff';
+import {
+  listDocuments, saveDocument, deleteDocument, renameDocument, duplicateDocument,
+  createDocumentId, getLastDocumentId, setLastDocumentId,
+} from './services/documentStore';
+import { validateFlowchartData, repairFlowchartData, hasBlockingIssues, ValidationIssue } from './services/flowchartValidation';
+import { FlowchartData, DepthLevel, Position, Node as NodeType, DiagramType, Size, DiagramDocument, ConnectorRouting, Connector as ConnectorType, NodeShape, Annotation, AnnotationKind, SupportingPanel, SupportingPanelItem, SideBox, SideBoxSide } from './types';
 import { DEFAULT_FLOWCHART_DATA, THEMES } from './constants';
 
+const AUTOSAVE_DELAY_MS = 800;
+
+// Handles, guides, grid and selection outlines are only drawn for editing, never exported.
+const stripEditorOverlays = (svg: SVGSVGElement) => {
+  svg.querySelectorAll('[data-editor-only]').forEach(el => el.remove());
+};
+
+// Keyboard shortcuts must not fire while the user is typing into a field.
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 const App: React.FC = () => {
   const [topic, setTopic] = useState<string>('How a gasoline engine works');
+  const [generationSource, setGenerationSource] = useState<GenerationSource>('topic');
+  const [sourceText, setSourceText] = useState('');
   const [depth, setDepth] = useState<DepthLevel>(DepthLevel.DETAILED);
   const [diagramType, setDiagramType] = useState<DiagramType>(DiagramType.FLOWCHART);
   const [jsonText, setJsonText] = useState<string>(JSON.stringify(DEFAULT_FLOWCHART_DATA, null, 2));
@@ -17,17 +67,57 @@ const App: React.FC = () => {
   const [isDarkMode, setDarkMode] = useState<boolean>(false);
   const [isControlsVisible, setControlsVisible] = useState(true);
   const svgRef = useRef<SVGSVGElement>(null);
+  const exportHostRef = useRef<HTMLDivElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [streamedNodeCount, setStreamedNodeCount] = useState(0);
 
   // New Feature States
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState<Position>({ x: 0, y: 0 });
   const [theme, setTheme] = useState<string>('default');
   const [editingNode, setEditingNode] = useState<NodeType | null>(null);
+  const [editingConnectorId, setEditingConnectorId] = useState<string | null>(null);
+  const [editingPanelId, setEditingPanelId] = useState<string | null>(null);
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
+  const [editingPanelItem, setEditingPanelItem] = useState<{ panelId: string; itemId: string } | null>(null);
+  const [editingSideBoxId, setEditingSideBoxId] = useState<string | null>(null);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const clipboardRef = useRef<DiagramClipboard | null>(null);
   const [isDescriptionGenerating, setIsDescriptionGenerating] = useState(false);
   const [isSubnodesGenerating, setIsSubnodesGenerating] = useState(false);
+  const [isSubDiagramGenerating, setIsSubDiagramGenerating] = useState(false);
   const [backgroundColor, setBackgroundColor] = useState('#f8fafc');
   const [nodeCount, setNodeCount] = useState<number>(15);
   const [subnodeAspect, setSubnodeAspect] = useState<string>('');
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+
+  // Conversational Refinement State
+  const [isChatOpen, setChatOpen] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [pendingRefinement, setPendingRefinement] = useState<{ preview: FlowchartData; highlights: Record<string, DiffHighlight>; messageId: string } | null>(null);
+
+  // Document Library State
+  const [documents, setDocuments] = useState<DiagramDocument[]>([]);
+  const [currentDocumentId, setCurrentDocumentId] = useState<string | null>(null);
+  const [isWorkspaceReady, setWorkspaceReady] = useState(false);
+  // A diagram opened from a share link or bundle file: shown read-only and never autosaved.
+  const [isSharedView, setSharedView] = useState(false);
+  const documentsRef = useRef<DiagramDocument[]>([]);
+  documentsRef.current = documents;
+
+  // A refinement is computed from the diagram as it was when it was sent, and applying it replaces
+  // the diagram, so edits made in the meantime would be lost. A shared diagram has no document to
+  // save edits to until it is copied.
+  const isEditLocked = isRefining || !!pendingRefinement || isSharedView;
+
+  // Sub-diagram Navigation: parents of the diagram currently on the canvas, root first
+  const [diagramTrail, setDiagramTrail] = useState<DiagramTrailEntry[]>([]);
+  // The whole document with the current sub-diagram folded back in; this is what gets saved.
+  const rootData = useMemo(
+    () => flowchartData && diagramTrail.length > 0 ? foldTrail(diagramTrail, flowchartData) : flowchartData,
+    [flowchartData, diagramTrail]
+  );
 
   // Undo/Redo History State
   const [history, setHistory] = useState<FlowchartData[]>([DEFAULT_FLOWCHART_DATA]);
@@ -62,9 +152,101 @@ const App: React.FC = () => {
       }
   }, [historyIndex, history]);
 
+  const handleDeleteConnector = useCallback(() => {
+      if (!flowchartData || !editingConnectorId) return;
+      pushToHistory({ ...flowchartData, connectors: flowchartData.connectors.filter(c => c.id !== editingConnectorId) });
+      setEditingConnectorId(null);
+  }, [flowchartData, editingConnectorId, pushToHistory]);
+
+  const handleDeleteAnnotation = useCallback(() => {
+      if (!flowchartData || !editingAnnotationId) return;
+      pushToHistory(removeAnnotation(flowchartData, editingAnnotationId));
+      setEditingAnnotationId(null);
+  }, [flowchartData, editingAnnotationId, pushToHistory]);
+
+  const handleSelectionChange = useCallback((ids: string[]) => {
+      setSelectedNodeIds(ids);
+      if (ids.length > 0) setEditingConnectorId(null);
+  }, []);
+
+  // Drop ids of nodes that no longer exist or were folded away (undo, document switch, regeneration).
+  useEffect(() => {
+      const existing = new Set(flowchartData?.nodes.map(n => n.id) || []);
+      const hidden = flowchartData ? getHiddenNodeIds(flowchartData) : new Set<string>();
+      setSelectedNodeIds(ids => {
+          const kept = ids.filter(id => existing.has(id) && !hidden.has(id));
+          return kept.length === ids.length ? ids : kept;
+      });
+  }, [flowchartData]);
+
+  const handleDeleteSelection = useCallback(() => {
+      if (!flowchartData || selectedNodeIds.length === 0) return;
+      pushToHistory(removeNodes(flowchartData, selectedNodeIds));
+      setSelectedNodeIds([]);
+      setEditingNode(null);
+  }, [flowchartData, selectedNodeIds, pushToHistory]);
+
+  const handleCopySelection = useCallback(() => {
+      if (!flowchartData) return;
+      const copied = copyNodes(flowchartData, selectedNodeIds);
+      if (copied) clipboardRef.current = copied;
+  }, [flowchartData, selectedNodeIds]);
+
+  const handlePaste = useCallback(() => {
+      if (!flowchartData || !clipboardRef.current) return;
+      const result = pasteClipboard(flowchartData, clipboardRef.current, { x: 40, y: 40 });
+      pushToHistory(result.data);
+      setSelectedNodeIds(result.nodeIds);
+      // Pasting again should cascade rather than stack on the same spot.
+      clipboardRef.current = copyNodes(result.data, result.nodeIds);
+  }, [flowchartData, pushToHistory]);
+
+  const handleDuplicateSelection = useCallback(() => {
+      if (!flowchartData) return;
+      const copied = copyNodes(flowchartData, selectedNodeIds);
+      if (!copied) return;
+      const result = pasteClipboard(flowchartData, copied, { x: 40, y: 40 });
+      pushToHistory(result.data);
+      setSelectedNodeIds(result.nodeIds);
+  }, [flowchartData, selectedNodeIds, pushToHistory]);
+
+  const handleAlignSelection = (mode: AlignMode) => {
+      if (!flowchartData) return;
+      pushToHistory(alignNodes(flowchartData, selectedNodeIds, mode));
+  };
+
+  const handleDistributeSelection = (axis: DistributeAxis) => {
+      if (!flowchartData) return;
+      pushToHistory(distributeNodes(flowchartData, selectedNodeIds, axis));
+  };
+
   // Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && editingNode) {
+          setEditingNode(null);
+      }
+      if (e.key === 'Escape' && editingConnectorId) {
+          setEditingConnectorId(null);
+      }
+      if (e.key === 'Escape') {
+          setEditingPanelId(null);
+          setEditingAnnotationId(null);
+          setEditingPanelItem(null);
+          setEditingSideBoxId(null);
+      }
+      if (e.key === 'Escape' && !editingNode && !editingConnectorId) {
+          setSelectedNodeIds([]);
+      }
+      // Selecting and copying leave the diagram alone, so they work while editing is locked.
+      if ((e.metaKey || e.ctrlKey) && e.key === 'c' && selectedNodeIds.length > 0 && !isTypingTarget(e.target)) {
+          handleCopySelection();
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'a' && flowchartData && !isTypingTarget(e.target)) {
+          e.preventDefault();
+          handleSelectionChange(flowchartData.nodes.map(n => n.id));
+      }
+      if (isEditLocked) return;
       if ((e.metaKey || e.ctrlKey) && e.key === 'z') {
         e.preventDefault();
         if (e.shiftKey) {
@@ -77,13 +259,40 @@ const App: React.FC = () => {
         e.preventDefault();
         handleRedo();
       }
-      if (e.key === 'Escape' && editingNode) {
-          setEditingNode(null);
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+          if (editingConnectorId) {
+              e.preventDefault();
+              handleDeleteConnector();
+          } else if (editingAnnotationId) {
+              e.preventDefault();
+              handleDeleteAnnotation();
+          } else if (selectedNodeIds.length > 0) {
+              e.preventDefault();
+              handleDeleteSelection();
+          }
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'v' && clipboardRef.current) {
+          e.preventDefault();
+          handlePaste();
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'd' && selectedNodeIds.length > 0) {
+          e.preventDefault();
+          handleDuplicateSelection();
+      }
+      if (e.key === 'Enter' && selectedNodeIds.length === 1 && flowchartData) {
+          // The keyboard route into the editor, needed for nodes whose double-click opens a sub-diagram.
+          const node = flowchartData.nodes.find(n => n.id === selectedNodeIds[0]);
+          if (node) {
+              e.preventDefault();
+              setEditingConnectorId(null);
+              setEditingNode(node);
+          }
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleUndo, handleRedo, editingNode]);
+  }, [handleUndo, handleRedo, editingNode, editingConnectorId, handleDeleteConnector, editingAnnotationId, handleDeleteAnnotation, selectedNodeIds, flowchartData, handleDeleteSelection, handleCopySelection, handlePaste, handleDuplicateSelection, handleSelectionChange, isEditLocked]);
 
   useEffect(() => {
     if (isDarkMode) {
@@ -95,17 +304,235 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
+  // --- Document Library ---
+
+  const applyDocument = useCallback((doc: DiagramDocument) => {
+      // Documents saved before multiple panels existed still carry a single `supportingPanel`.
+      const data = migrateLegacyPanel(doc.data);
+      setDiagramTrail([]);
+      setFlowchartData(data);
+      setJsonText(JSON.stringify(data, null, 2));
+      setHistory([data]);
+      setHistoryIndex(0);
+      setTheme(doc.theme);
+      setBackgroundColor(doc.backgroundColor);
+      setDiagramType(doc.diagramType);
+      if (doc.topic) setTopic(doc.topic);
+      setEditingNode(null);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      setCurrentDocumentId(doc.id);
+      setLastDocumentId(doc.id);
+      setSharedView(false);
+      clearShareFragment();
+  }, []);
+
+  // Shows a shared diagram without making it a document, so autosave has nothing to write to.
+  const showSharedDiagram = useCallback((bundle: ShareBundle) => {
+      setDiagramTrail([]);
+      setFlowchartData(bundle.data);
+      setJsonText(JSON.stringify(bundle.data, null, 2));
+      setHistory([bundle.data]);
+      setHistoryIndex(0);
+      setTheme(bundle.theme);
+      setBackgroundColor(bundle.backgroundColor);
+      setDiagramType(bundle.diagramType);
+      setTopic(bundle.data.title);
+      setEditingNode(null);
+      setSelectedNodeIds([]);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      setCurrentDocumentId(null);
+      setSharedView(true);
+  }, []);
+
+  const openShareFragment = useCallback(async (hash: string): Promise<boolean> => {
+      try {
+          showSharedDiagram(await readShareFragment(hash));
+          return true;
+      } catch (err) {
+          clearShareFragment();
+          setError(err instanceof Error ? err.message : 'Failed to open the share link.');
+          return false;
+      }
+  }, [showSharedDiagram]);
+
+  const createDocument = async (name: string, data: FlowchartData, type: DiagramType = diagramType): Promise<DiagramDocument> => {
+      const now = Date.now();
+      const doc: DiagramDocument = {
+          id: createDocumentId(),
+          name,
+          data,
+          topic,
+          theme,
+          backgroundColor,
+          diagramType: type,
+          createdAt: now,
+          updatedAt: now,
+      };
+      // Switch to the new document before the write so autosave never targets the previous one.
+      setDocuments(prev => [doc, ...prev]);
+      setCurrentDocumentId(doc.id);
+      setLastDocumentId(doc.id);
+      setSharedView(false);
+      clearShareFragment();
+      await saveDocument(doc);
+      return doc;
+  };
+
+  // Open the last used document (or create the first one) once on startup, unless the page was
+  // opened from a share link.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const isShared = isShareFragment(window.location.hash) && await openShareFragment(window.location.hash);
+      try {
+        const docs = await listDocuments();
+        if (cancelled) return;
+        setDocuments(docs);
+        if (isShared) return;
+        const lastId = getLastDocumentId();
+        const initial = docs.find(d => d.id === lastId) || docs[0];
+        if (initial) {
+            applyDocument(initial);
+        } else {
+            await createDocument('Untitled Diagram', DEFAULT_FLOWCHART_DATA);
+        }
+      } catch (err) {
+        console.warn('Document library unavailable, changes will not be saved:', err);
+      } finally {
+        if (!cancelled) setWorkspaceReady(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // A share link pasted into the address bar of an open tab only changes the fragment.
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (isShareFragment(window.location.hash)) openShareFragment(window.location.hash);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [openShareFragment]);
+
+  // Autosave the current document. Skipped while a generation is streaming partial previews.
+  useEffect(() => {
+    if (!isWorkspaceReady || !currentDocumentId || !rootData || isLoading) return;
+    const timer = setTimeout(() => {
+        const existing = documentsRef.current.find(d => d.id === currentDocumentId);
+        if (!existing) return;
+        // Opening a document runs this effect too; saving then would only bump updatedAt and
+        // reorder the library.
+        const unchanged = (existing.topic ?? topic) === topic && existing.theme === theme
+            && existing.backgroundColor === backgroundColor && existing.diagramType === diagramType
+            && (existing.data === rootData || JSON.stringify(existing.data) === JSON.stringify(rootData));
+        if (unchanged) return;
+        const doc: DiagramDocument = { ...existing, data: rootData, topic, theme, backgroundColor, diagramType, updatedAt: Date.now() };
+        saveDocument(doc)
+            .then(saved => setDocuments(prev => [saved, ...prev.filter(d => d.id !== saved.id)]))
+            .catch(err => console.error('Autosave failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [rootData, topic, theme, backgroundColor, diagramType, currentDocumentId, isWorkspaceReady, isLoading]);
+
+  const handleNewDocument = async () => {
+      try {
+          const doc = await createDocument('Untitled Diagram', DEFAULT_FLOWCHART_DATA, DiagramType.FLOWCHART);
+          applyDocument(doc);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to create document.');
+      }
+  };
+
+  const handleOpenDocument = (id: string) => {
+      const doc = documents.find(d => d.id === id);
+      if (doc && doc.id !== currentDocumentId) applyDocument(doc);
+  };
+
+  const handleRenameDocument = async (id: string) => {
+      const doc = documents.find(d => d.id === id);
+      if (!doc) return;
+      const name = window.prompt('Rename document', doc.name);
+      if (!name || !name.trim() || name === doc.name) return;
+      try {
+          const renamed = await renameDocument(id, name.trim());
+          setDocuments(prev => prev.map(d => d.id === id ? renamed : d));
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to rename document.');
+      }
+  };
+
+  const handleDuplicateDocument = async (id: string) => {
+      try {
+          const latest = id === currentDocumentId && rootData
+              ? { data: rootData, topic, theme, backgroundColor, diagramType }
+              : undefined;
+          const copy = await duplicateDocument(id, latest);
+          setDocuments(prev => [copy, ...prev]);
+          applyDocument(copy);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to duplicate document.');
+      }
+  };
+
+  const handleMakeEditableCopy = async () => {
+      if (!rootData) return;
+      try {
+          const doc = await createDocument(rootData.title || 'Shared Diagram', rootData, diagramType);
+          applyDocument(doc);
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to copy the shared diagram.');
+      }
+  };
+
+  const handleDeleteDocument = async (id: string) => {
+      const doc = documents.find(d => d.id === id);
+      if (!doc || !window.confirm(`Delete "${doc.name}"? This cannot be undone.`)) return;
+      try {
+          await deleteDocument(id);
+          const remaining = documents.filter(d => d.id !== id);
+          setDocuments(remaining);
+          if (id === currentDocumentId) {
+              if (remaining.length > 0) applyDocument(remaining[0]);
+              else applyDocument(await createDocument('Untitled Diagram', DEFAULT_FLOWCHART_DATA, DiagramType.FLOWCHART));
+          }
+      } catch (err) {
+          setError(err instanceof Error ? err.message : 'Failed to delete document.');
+      }
+  };
+
   const handleGenerate = async () => {
-    if (!topic) {
+    const fromText = generationSource === 'text';
+    if (fromText && !sourceText.trim()) {
+      setError("Please paste or drop a source document.");
+      return;
+    }
+    if (!fromText && !topic) {
       setError("Please enter a topic.");
       return;
     }
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
     setIsLoading(true);
     setError(null);
+    setStreamedNodeCount(0);
     try {
-      // 1. Generate the Structure
-      const data = await generateFlowchartJson(topic, depth, diagramType, nodeCount);
+      // 1. Generate the Structure, rendering nodes as they stream in. From a source document the
+      // topic field may still hold an earlier, unrelated topic, so only the document is sent.
+      const data = await generateFlowchartJson(fromText ? '' : topic, depth, diagramType, nodeCount, {
+        signal: controller.signal,
+        sourceText: fromText ? sourceText : undefined,
+        onPartial: (preview) => {
+          if (controller.signal.aborted) return;
+          setFlowchartData(preview);
+          setStreamedNodeCount(preview.nodes.length);
+        },
+      });
       
+      setDiagramTrail([]);
       setFlowchartData(data);
       setJsonText(JSON.stringify(data, null, 2));
       setHistory([data]);
@@ -114,19 +541,46 @@ const App: React.FC = () => {
       setPan({ x: 0, y: 0 });
       setIsLoading(false); 
 
+      // Generated diagrams go into a new document so the previous one is never overwritten.
+      createDocument(data.title || topic || 'Untitled', data, diagramType)
+          .catch(err => console.warn('Could not save generated diagram to the library:', err));
+
     } catch (err) {
       setIsLoading(false);
+      // Drop the partial preview and go back to the last committed diagram.
+      setFlowchartData(history[historyIndex]);
+      if (isAbortError(err)) return;
       if (err instanceof Error) {
         setError(err.message);
       } else {
         setError("An unknown error occurred while generating the flowchart.");
       }
+    } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
     }
   };
 
+  const handleCancelGenerate = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Issues are recomputed as the user types so the JSON editor can show them inline.
+  const jsonIssues = useMemo<ValidationIssue[]>(() => {
+    try {
+      return validateFlowchartData(JSON.parse(jsonText));
+    } catch (err) {
+      return [{ path: '$', message: err instanceof Error ? err.message : 'Invalid JSON format.', severity: 'error', fixable: false }];
+    }
+  }, [jsonText]);
+
   const handleRender = () => {
     try {
-      const data = JSON.parse(jsonText);
+      const parsed = JSON.parse(jsonText);
+      if (hasBlockingIssues(validateFlowchartData(parsed))) {
+        setError("The JSON has validation errors. Fix them or use Auto-repair.");
+        return;
+      }
+      const data = migrateLegacyPanel(parsed);
       setFlowchartData(data);
       pushToHistory(data);
       setError(null);
@@ -134,8 +588,18 @@ const App: React.FC = () => {
       setError("Invalid JSON format.");
     }
   };
+
+  const handleRepairJson = () => {
+    try {
+      const { data } = repairFlowchartData(JSON.parse(jsonText));
+      pushToHistory(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid JSON format.");
+    }
+  };
   
-  const downloadFile = (content: string, fileName: string, contentType: string) => {
+  const downloadFile = (content: BlobPart, fileName: string, contentType: string) => {
       const a = document.createElement("a");
       const file = new Blob([content], { type: contentType });
       a.href = URL.createObjectURL(file);
@@ -146,38 +610,141 @@ const App: React.FC = () => {
       URL.revokeObjectURL(a.href);
   };
   
-  const handleDownloadSVG = () => {
+  const handleDownloadSVG = async (embedFont: boolean) => {
     if (!svgRef.current || !flowchartData) return;
+    try {
+      const canvas = { w: flowchartData.canvas.width, h: flowchartData.canvas.height };
+      const svg = await buildStandaloneSvg(svgRef.current, canvas, { background: backgroundColor, embedFont });
+      downloadFile(svg, "flowchart.svg", "image/svg+xml;charset=utf-8");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export the SVG.");
+    }
+  };
 
-    // Use strictly the canvas dimensions to ensure WYSIWYG relative to canvas border
-    const width = flowchartData.canvas.width;
-    const height = flowchartData.canvas.height;
+  const handleExportPdf = (options: PdfExportOptions) => {
+    if (!svgRef.current || !flowchartData) return;
+    try {
+      const canvas = { w: flowchartData.canvas.width, h: flowchartData.canvas.height };
+      const shapes = svgToVectorShapes(svgRef.current, canvas, backgroundColor);
+      const pdf = buildPdf(shapes, canvas, options, flowchartData.title);
+      downloadFile(pdf, "flowchart.pdf", "application/pdf");
+    } catch (err) {
+      console.error(err);
+      setError("Could not create the PDF.");
+    }
+  };
 
-    const serializer = new XMLSerializer();
-    const svgClone = svgRef.current.cloneNode(true) as SVGSVGElement;
-    
-    svgClone.setAttribute('width', width.toString());
-    svgClone.setAttribute('height', height.toString());
-    svgClone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  const handleExportHierarchy = async () => {
+    if (!rootData || !exportHostRef.current) return;
+    try {
+      const html = await buildHierarchyHtml(rootData, { diagramType, backgroundColor, host: exportHostRef.current });
+      downloadFile(html, "flowchart-hierarchy.html", "text/html;charset=utf-8");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export the diagram hierarchy.");
+    }
+  };
 
-    const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-    bgRect.setAttribute('width', width.toString());
-    bgRect.setAttribute('height', height.toString());
-    bgRect.setAttribute('fill', backgroundColor);
-    svgClone.insertBefore(bgRect, svgClone.firstChild);
+  const handleExportHierarchyPdf = async (options: PdfExportOptions) => {
+    if (!rootData || !exportHostRef.current) return;
+    try {
+      const pdf = await buildHierarchyPdf(rootData, { diagramType, backgroundColor, host: exportHostRef.current }, options);
+      downloadFile(pdf, "flowchart-hierarchy.pdf", "application/pdf");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export the diagram hierarchy.");
+    }
+  };
 
-    const styleEl = document.createElement('style');
-    const themeColors = THEMES[theme as keyof typeof THEMES].colors;
-    let cssRules = ':root { ';
-    Object.entries(themeColors).forEach(([key, val]) => {
-        cssRules += `${key}: ${val}; `;
-    });
-    cssRules += '}';
-    styleEl.textContent = cssRules;
-    svgClone.prepend(styleEl);
+  const handleExportMermaid = () => {
+    if (!flowchartData) return;
+    downloadFile(toMermaid(getVisibleDiagram(flowchartData)), "flowchart.mmd", "text/plain;charset=utf-8");
+  };
 
-    const svgString = serializer.serializeToString(svgClone);
-    downloadFile(svgString, "flowchart.svg", "image/svg+xml;charset=utf-8");
+  const handleExportDrawio = () => {
+    if (!flowchartData) return;
+    downloadFile(toDrawioXml(getVisibleDiagram(flowchartData), diagramType), "flowchart.drawio", "application/xml;charset=utf-8");
+  };
+
+  const handleExportExcalidraw = () => {
+    if (!flowchartData) return;
+    downloadFile(toExcalidraw(getVisibleDiagram(flowchartData), diagramType), "flowchart.excalidraw", "application/json;charset=utf-8");
+  };
+
+  const handleExportPptx = () => {
+    if (!flowchartData) return;
+    try {
+      downloadFile(toPptx(getVisibleDiagram(flowchartData), diagramType), "flowchart.pptx", "application/vnd.openxmlformats-officedocument.presentationml.presentation");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to export the PowerPoint file.");
+    }
+  };
+
+  // Resolves to whether the link was copied; diagrams too big for a link are downloaded as a bundle file.
+  const handleCopyShareLink = async (): Promise<boolean> => {
+    if (!rootData) return false;
+    const bundle: ShareBundle = { data: rootData, theme, backgroundColor, diagramType };
+    try {
+      const url = await createShareUrl(bundle, window.location.href);
+      if (url.length > MAX_SHARE_URL_LENGTH) {
+        downloadFile(toShareBundleFile(bundle), `flowchart${SHARE_BUNDLE_EXTENSION}`, "application/json;charset=utf-8");
+        setError(`This diagram is too large for a share link (${url.length.toLocaleString()} of ${MAX_SHARE_URL_LENGTH.toLocaleString()} characters), so it was downloaded as a ${SHARE_BUNDLE_EXTENSION} file instead. Send that file; it opens with "Import draw.io / DOT / Canvas…".`);
+        return false;
+      }
+      await navigator.clipboard.writeText(url);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to copy the share link.");
+      return false;
+    }
+  };
+
+  const handleImportMermaid = (text: string) => {
+    try {
+      const data = fromMermaid(text);
+      // Imports replace the whole diagram, not the sub-diagram currently open.
+      setDiagramTrail([]);
+      pushToHistory(data);
+      if (data.diagramType) setDiagramType(data.diagramType);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import Mermaid text.");
+    }
+  };
+
+  // draw.io, Graphviz DOT or JSON Canvas, picked by extension and then by content. A shared
+  // bundle file opens like a share link.
+  const handleImportDiagramFile = async (fileName: string, text: string) => {
+    const name = fileName.replace(/\.[^.]+$/, '');
+    const start = text.trimStart();
+    try {
+      if (isShareBundleFile(fileName, text)) {
+        showSharedDiagram(fromShareBundleFile(text));
+        setError(null);
+        return;
+      }
+      const data = /\.canvas$/i.test(fileName) || (!/\.(drawio|xml|dot|gv)$/i.test(fileName) && start.startsWith('{'))
+        ? fromJsonCanvas(text, name)
+        : /\.(drawio|xml)$/i.test(fileName) || start.startsWith('<')
+          ? await fromDrawioXml(text, name)
+          : fromDot(text, name);
+      setDiagramTrail([]);
+      pushToHistory(data);
+      if (data.diagramType) setDiagramType(data.diagramType);
+      // The AI tools work from the topic, so it follows the imported diagram.
+      setTopic(name);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import the diagram file.");
+    }
   };
 
   const handleDownloadPNG = () => {
@@ -189,6 +756,7 @@ const App: React.FC = () => {
     
     const serializer = new XMLSerializer();
     const svgClone = svgRef.current.cloneNode(true) as SVGSVGElement;
+    stripEditorOverlays(svgClone);
     
     svgClone.setAttribute('width', width.toString());
     svgClone.setAttribute('height', height.toString());
@@ -259,58 +827,40 @@ const App: React.FC = () => {
     img.src = url;
   };
   
-  const handlePanelPositionChange = useCallback((newPosition: Position, commit: boolean = true) => {
+  const handlePanelPositionChange = useCallback((panelId: string, newPosition: Position, commit: boolean = true) => {
     if (!flowchartData) return;
-    const newData = { ...flowchartData, supportingPanel: flowchartData.supportingPanel ? { ...flowchartData.supportingPanel, position: newPosition } : undefined };
-    if (flowchartData.supportingPanel) {
-         if (commit) {
-            pushToHistory(newData);
-         } else {
-            setFlowchartData(newData);
-         }
+    const newData = updatePanel(flowchartData, panelId, { position: newPosition });
+    if (commit) {
+        pushToHistory(newData);
+    } else {
+        setFlowchartData(newData);
     }
   }, [flowchartData, pushToHistory]);
 
   const handleNodePositionChange = useCallback((nodeId: string, newPosition: Position, commit: boolean = true) => {
     if (!flowchartData) return;
 
-    let newNodes = [...flowchartData.nodes];
+    const draggingNode = flowchartData.nodes.find(n => n.id === nodeId);
+    if (!draggingNode) return;
 
-    // Check if dragging Root Node in Mind Map
+    // Dragging the Root Node of a Mind Map moves the whole map; dragging a selected node moves the selection
     const isMindMap = flowchartData.diagramType === DiagramType.MINDMAP || diagramType === DiagramType.MINDMAP;
     const isRootNode = isMindMap && !flowchartData.connectors.some(c => c.to === nodeId);
+    const movingIds = isRootNode
+        ? flowchartData.nodes.map(n => n.id)
+        : withHiddenDescendants(flowchartData, selectedNodeIds.includes(nodeId) ? selectedNodeIds : [nodeId]);
 
-    if (isRootNode) {
-        const draggingNode = flowchartData.nodes.find(n => n.id === nodeId);
-        if (draggingNode) {
-            // Calculate Delta
-            const oldPos = draggingNode.position;
-            const dx = newPosition.x - oldPos.x;
-            const dy = newPosition.y - oldPos.y;
-
-            // Move all nodes by delta
-            newNodes = newNodes.map(node => ({
-                ...node,
-                position: {
-                    x: node.position.x + dx,
-                    y: node.position.y + dy
-                }
-            }));
-        }
-    } else {
-        newNodes = newNodes.map(node => 
-            node.id === nodeId ? { ...node, position: newPosition } : node
-        );
-    }
-    
-    const newData = { ...flowchartData, nodes: newNodes };
+    const dx = newPosition.x - draggingNode.position.x;
+    const dy = newPosition.y - draggingNode.position.y;
+    const newData = moveNodes(flowchartData, movingIds, dx, dy);
     
     if (commit) {
-        pushToHistory(newData);
+        // Dropping a node into another swimlane moves it to that lane.
+        pushToHistory(assignLanesByPosition(newData, movingIds));
     } else {
         setFlowchartData(newData);
     }
-  }, [flowchartData, pushToHistory, diagramType]);
+  }, [flowchartData, pushToHistory, diagramType, selectedNodeIds]);
 
   const handleNodeSizeChange = useCallback((nodeId: string, newSize: Size) => {
       setFlowchartData(prev => {
@@ -342,9 +892,9 @@ const App: React.FC = () => {
     }
   }, [flowchartData, pushToHistory]);
 
-  const handleNodeEditSave = (newTitle: string, newDesc: string) => {
+  const handleNodeEditSave = (newTitle: string, newDesc: string, newType: NodeShape = editingNode?.type || 'main') => {
       if (!editingNode || !flowchartData) return;
-      const newNodes = flowchartData.nodes.map(n => n.id === editingNode.id ? { ...n, title: newTitle, description: newDesc } : n);
+      const newNodes = flowchartData.nodes.map(n => n.id === editingNode.id ? { ...n, title: newTitle, description: newDesc, type: newType } : n);
       const newData = { ...flowchartData, nodes: newNodes };
       pushToHistory(newData);
       setEditingNode(null);
@@ -369,6 +919,67 @@ const App: React.FC = () => {
       }
   };
 
+  // --- Sub-diagrams ---
+
+  // Shows one level of the hierarchy. Undo history is per level: a child starts with its own, and a
+  // parent gets back the history it had when the user drilled in.
+  const showDiagramLevel = (data: FlowchartData, trail: DiagramTrailEntry[], levelHistory: FlowchartData[] = [data]) => {
+      setDiagramTrail(trail);
+      setFlowchartData(data);
+      setJsonText(JSON.stringify(data, null, 2));
+      setHistory(levelHistory);
+      setHistoryIndex(levelHistory.length - 1);
+      setEditingNode(null);
+      setEditingConnectorId(null);
+      setSelectedNodeIds([]);
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+  };
+
+  const handleOpenSubDiagram = (nodeId: string, parent: FlowchartData | null = flowchartData) => {
+      // A refinement belongs to the level it was asked on.
+      if (isRefining || pendingRefinement) return;
+      const child = parent?.nodes.find(n => n.id === nodeId)?.subDiagram;
+      if (!parent || !child) return;
+      // Redo steps are dropped as on any edit. A parent that is not the current step, such as one
+      // with a freshly generated sub-diagram, becomes a step of its own so it can be undone.
+      const parentHistory = history.slice(0, historyIndex + 1);
+      if (parent !== parentHistory[parentHistory.length - 1]) parentHistory.push(parent);
+      showDiagramLevel(child, [...diagramTrail, { nodeId, data: parent, history: parentHistory }], [child]);
+  };
+
+  const handleNavigateTrail = (depth: number) => {
+      if (isRefining || pendingRefinement) return;
+      if (!flowchartData || depth >= diagramTrail.length) return;
+      const target = diagramTrail[depth];
+      const data = foldTrail(diagramTrail, flowchartData, depth);
+      // Whatever changed below comes back as a single undoable step.
+      const unchanged = JSON.stringify(data) === JSON.stringify(target.data);
+      showDiagramLevel(unchanged ? target.data : data, diagramTrail.slice(0, depth), unchanged ? target.history : [...target.history, data]);
+  };
+
+  const handleGenerateSubDiagram = async () => {
+      if (!editingNode || !flowchartData) return;
+      setIsSubDiagramGenerating(true);
+      try {
+          const topicForNode = buildSubDiagramTopic(flowchartData, editingNode.title, editingNode.description);
+          const child = await generateFlowchartJson(topicForNode, depth, diagramType, nodeCount);
+          handleOpenSubDiagram(editingNode.id, setSubDiagram(flowchartData, editingNode.id, child));
+      } catch (err) {
+          console.error(err);
+          setError(err instanceof Error ? err.message : "Failed to generate the sub-diagram.");
+      } finally {
+          setIsSubDiagramGenerating(false);
+      }
+  };
+
+  const handleRemoveSubDiagram = () => {
+      if (!editingNode || !flowchartData) return;
+      if (!window.confirm(`Remove the sub-diagram of "${editingNode.title}"? You can undo this.`)) return;
+      pushToHistory(setSubDiagram(flowchartData, editingNode.id, undefined));
+      setEditingNode(null);
+  };
+
   const handleGenerateSubnodes = async () => {
       if (!editingNode || !flowchartData) return;
       setIsSubnodesGenerating(true);
@@ -479,127 +1090,95 @@ const App: React.FC = () => {
       }
   };
 
-  const handleAutoLayout = useCallback((type: 'radial' | 'tree' | 'horizontal') => {
+  // --- Conversational Refinement ---
+
+  const handleRefineSend = async (instruction: string) => {
       if (!flowchartData) return;
-      
-      const nodes = [...flowchartData.nodes];
-      // Build Adjacency List
-      const adj: Record<string, string[]> = {};
-      flowchartData.connectors.forEach(c => {
-          if (!adj[c.from]) adj[c.from] = [];
-          adj[c.from].push(c.to);
-      });
+      const base = flowchartData;
+      setChatMessages(prev => [...prev, { id: `m-${Date.now()}`, role: 'user', text: instruction }]);
+      setIsRefining(true);
+      try {
+          const diff = await generateDiagramRefinement(base, instruction);
+          const messageId = `m-${Date.now()}-reply`;
+          if (isEmptyDiff(diff)) {
+              setChatMessages(prev => [...prev, { id: messageId, role: 'assistant', text: diff.summary || 'No changes were needed.' }]);
+              return;
+          }
+          const preview = applyDiagramDiff(base, diff);
+          setPendingRefinement({ preview, highlights: getDiffHighlights(base, diff, preview), messageId });
+          setChatMessages(prev => [...prev, { id: messageId, role: 'assistant', text: diff.summary || 'Preview ready.', status: 'pending' }]);
+      } catch (err) {
+          setChatMessages(prev => [...prev, { id: `m-${Date.now()}-error`, role: 'assistant', text: err instanceof Error ? err.message : 'Something went wrong.', status: 'error' }]);
+      } finally {
+          setIsRefining(false);
+      }
+  };
 
-      // Find Root (Simplistic: first node or node with 0 incoming)
-      const incoming = new Set(flowchartData.connectors.map(c => c.to));
-      const roots = nodes.filter(n => !incoming.has(n.id));
-      const rootId = roots.length > 0 ? roots[0].id : nodes[0].id;
-      
-      const visited = new Set<string>();
-      const newPositions: Record<string, Position> = {};
-      
-      // BFS for Levels
-      const queue: { id: string, level: number, parentId: string | null }[] = [{ id: rootId, level: 0, parentId: null }];
-      const levels: Record<number, string[]> = {};
+  const resolvePendingRefinement = (status: 'applied' | 'discarded') => {
+      if (!pendingRefinement) return;
+      if (status === 'applied') pushToHistory(pendingRefinement.preview);
+      setChatMessages(prev => prev.map(m => m.id === pendingRefinement.messageId ? { ...m, status } : m));
+      setPendingRefinement(null);
+  };
 
-      while (queue.length > 0) {
-          const { id, level } = queue.shift()!;
-          if (visited.has(id)) continue;
-          visited.add(id);
+  const handleAutoLayout = useCallback((type: AutoLayoutType) => {
+      if (!flowchartData) return;
+      pushToHistory(computeAutoLayout(flowchartData, type));
+  }, [flowchartData, pushToHistory]);
 
-          if (!levels[level]) levels[level] = [];
-          levels[level].push(id);
+  const handleApplyOutline = (text: string) => {
+      if (!flowchartData) return;
+      const updated = applyOutline(flowchartData, text);
+      if (updated !== flowchartData) pushToHistory(updated);
+  };
 
-          if (adj[id]) {
-              adj[id].forEach(childId => {
-                  queue.push({ id: childId, level: level + 1, parentId: id });
-              });
-          }
-      }
-      
-      const centerX = flowchartData.canvas.width / 2;
-      const centerY = flowchartData.canvas.height / 2;
-
-      // Apply Layouts
-      if (type === 'tree') {
-          // Standard Hierarchical Top-Down
-          const levelHeight = 200;
-          Object.keys(levels).forEach(lvlKey => {
-              const lvl = parseInt(lvlKey);
-              const nodesInLevel = levels[lvl];
-              const totalWidth = nodesInLevel.length * 360; 
-              const startX = centerX - totalWidth / 2;
-              
-              nodesInLevel.forEach((nid, idx) => {
-                  newPositions[nid] = {
-                      x: startX + idx * 360,
-                      y: 100 + lvl * levelHeight
-                  };
-              });
-          });
-      } else if (type === 'horizontal') {
-          // Left-to-Right
-          const levelWidth = 400;
-          Object.keys(levels).forEach(lvlKey => {
-              const lvl = parseInt(lvlKey);
-              const nodesInLevel = levels[lvl];
-              const totalHeight = nodesInLevel.length * 150; 
-              const startY = centerY - totalHeight / 2;
-              
-              nodesInLevel.forEach((nid, idx) => {
-                  newPositions[nid] = {
-                      x: 100 + lvl * levelWidth,
-                      y: startY + idx * 150
-                  };
-              });
-          });
-      } else if (type === 'radial') {
-          // Concentric Circles
-          newPositions[rootId] = { x: centerX - 150, y: centerY - 50 }; // Root Center
-          
-          Object.keys(levels).forEach(lvlKey => {
-              const lvl = parseInt(lvlKey);
-              if (lvl === 0) return;
-              
-              const radius = lvl * 350;
-              const nodesInLevel = levels[lvl];
-              const angleStep = (2 * Math.PI) / nodesInLevel.length;
-
-              nodesInLevel.forEach((nid, idx) => {
-                  const angle = idx * angleStep;
-                  newPositions[nid] = {
-                      x: centerX + Math.cos(angle) * radius - 150,
-                      y: centerY + Math.sin(angle) * radius - 50
-                  };
-              });
+  const handleConnectorChange = (patch: Partial<ConnectorType>) => {
+      if (!flowchartData || !editingConnectorId) return;
+      const connectors = flowchartData.connectors.map(c => {
+          if (c.id !== editingConnectorId) return c;
+          const updated = { ...c, ...patch };
+          // Cleared fields fall back to their defaults, so drop them instead of storing undefined.
+          (Object.keys(patch) as (keyof ConnectorType)[]).forEach(key => {
+              if (updated[key] === undefined) delete updated[key];
           });
+          return updated;
+      });
+      pushToHistory({ ...flowchartData, connectors });
+  };
+
+  const handleConnectorCreate = (from: string, to: string) => {
+      if (!flowchartData) return;
+      const existing = flowchartData.connectors.find(c => c.from === from && c.to === to);
+      setEditingNode(null);
+      if (existing) {
+          setEditingConnectorId(existing.id);
+          return;
       }
+      const id = `c-${Date.now()}`;
+      pushToHistory({ ...flowchartData, connectors: [...flowchartData.connectors, { id, from, to, type: 'flow' }] });
+      setEditingConnectorId(id);
+  };
 
-      // Update Nodes
-      const updatedNodes = nodes.map(n => {
-          if (newPositions[n.id]) {
-              return { ...n, position: newPositions[n.id] };
-          }
-          return n;
-      });
+  const handleConnectorReconnect = (id: string, end: 'from' | 'to', nodeId: string) => {
+      if (!flowchartData) return;
+      const connectors = flowchartData.connectors.map(c => c.id === id ? { ...c, [end]: nodeId } : c);
+      pushToHistory({ ...flowchartData, connectors });
+  };
 
-      const newData = { ...flowchartData, nodes: updatedNodes };
-      pushToHistory(newData);
+  const handleToggleCollapse = (id: string) => {
+      if (!flowchartData) return;
+      pushToHistory(toggleCollapsed(flowchartData, id));
+  };
 
-  }, [flowchartData, pushToHistory]);
+  const handleRoutingChange = (routing: ConnectorRouting) => {
+      if (!flowchartData) return;
+      pushToHistory({ ...flowchartData, routing });
+  };
 
   const handleDeleteNode = () => {
     if (!editingNode || !flowchartData) return;
-    const newNodes = flowchartData.nodes.filter(n => n.id !== editingNode.id);
-    const newConnectors = flowchartData.connectors.filter(c => c.from !== editingNode.id && c.to !== editingNode.id);
-    const newSideBoxes = flowchartData.sideBoxes ? flowchartData.sideBoxes.filter(s => s.attachToNode !== editingNode.id) : [];
-    const newData = {
-        ...flowchartData,
-        nodes: newNodes,
-        connectors: newConnectors,
-        sideBoxes: newSideBoxes
-    };
-    pushToHistory(newData);
+    pushToHistory(removeNodes(flowchartData, [editingNode.id]));
+    setSelectedNodeIds(ids => ids.filter(id => id !== editingNode.id));
     setEditingNode(null);
   };
 
@@ -625,10 +1204,128 @@ const App: React.FC = () => {
       pushToHistory(newData);
   };
 
+  // --- Panels, Side Boxes & Annotations ---
+
+  // Only one inspector is open at a time; they all slide in from the right.
+  const closeInspectors = () => {
+      setEditingNode(null);
+      setEditingConnectorId(null);
+      setEditingPanelId(null);
+      setEditingAnnotationId(null);
+      setEditingPanelItem(null);
+      setEditingSideBoxId(null);
+  };
+
+  const getViewportCenter = (): Position => ({
+      x: -pan.x / zoom + (window.innerWidth / 2) / zoom,
+      y: -pan.y / zoom + (window.innerHeight / 2) / zoom,
+  });
+
+  const handleInsertAnnotation = (kind: AnnotationKind) => {
+      if (!flowchartData) return;
+      const center = getViewportCenter();
+      const { size } = ANNOTATION_DEFAULTS[kind];
+      const position = { x: Math.max(0, center.x - size.w / 2), y: Math.max(0, center.y - size.h / 2) };
+      // A callout points at the selected node when there is one.
+      const annotation = createAnnotation(kind, position, kind === 'callout' ? selectedNodeIds[0] : undefined);
+      pushToHistory({ ...flowchartData, annotations: [...(flowchartData.annotations || []), annotation] });
+      closeInspectors();
+      setEditingAnnotationId(annotation.id);
+  };
+
+  const handleInsertPanel = () => {
+      if (!flowchartData) return;
+      const center = getViewportCenter();
+      const panel = createSupportingPanel({ x: Math.max(0, center.x - 150), y: Math.max(0, center.y - 100) });
+      pushToHistory({ ...flowchartData, supportingPanels: [...(flowchartData.supportingPanels || []), panel] });
+      closeInspectors();
+      setEditingPanelId(panel.id);
+  };
+
+  const handleAnnotationPositionChange = (id: string, position: Position) => {
+      if (!flowchartData) return;
+      pushToHistory(updateAnnotation(flowchartData, id, { position }));
+  };
+
+  const handleAnnotationChange = (patch: Partial<Annotation>) => {
+      if (!flowchartData || !editingAnnotationId) return;
+      pushToHistory(updateAnnotation(flowchartData, editingAnnotationId, patch));
+  };
+
+  const handlePanelChange = (patch: Partial<SupportingPanel>) => {
+      if (!flowchartData || !editingPanelId) return;
+      pushToHistory(updatePanel(flowchartData, editingPanelId, patch));
+  };
+
+  const handleDeletePanel = () => {
+      if (!flowchartData || !editingPanelId) return;
+      pushToHistory(removePanel(flowchartData, editingPanelId));
+      setEditingPanelId(null);
+  };
+
+  const handleAddPanelItem = () => {
+      if (!flowchartData || !editingPanelId) return;
+      const item = createPanelItem();
+      pushToHistory(addPanelItem(flowchartData, editingPanelId, item));
+      const panelId = editingPanelId;
+      closeInspectors();
+      setEditingPanelItem({ panelId, itemId: item.id });
+  };
+
+  const handleEditPanelItem = (itemId: string) => {
+      if (!editingPanelId) return;
+      const panelId = editingPanelId;
+      closeInspectors();
+      setEditingPanelItem({ panelId, itemId });
+  };
+
+  const handleRemovePanelItem = (itemId: string) => {
+      if (!flowchartData || !editingPanelId) return;
+      pushToHistory(removePanelItem(flowchartData, editingPanelId, itemId));
+  };
+
+  const handlePanelItemSave = (patch: Partial<SupportingPanelItem>) => {
+      if (!flowchartData || !editingPanelItem) return;
+      pushToHistory(updatePanelItem(flowchartData, editingPanelItem.panelId, editingPanelItem.itemId, patch));
+  };
+
+  const handleDeletePanelItem = () => {
+      if (!flowchartData || !editingPanelItem) return;
+      pushToHistory(removePanelItem(flowchartData, editingPanelItem.panelId, editingPanelItem.itemId));
+      setEditingPanelItem(null);
+  };
+
+  // Panel items and side boxes get the same AI rewrite as node descriptions.
+  const handleEnhanceText = (title: string, text: string) => generateEnhancedDescription(title, text, topic);
+
+  const handleSideBoxOffsetChange = (id: string, offset: Position) => {
+      if (!flowchartData) return;
+      pushToHistory(updateSideBox(flowchartData, id, { offset: offset.x || offset.y ? offset : undefined }));
+  };
+
+  const handleSideBoxChange = (id: string, patch: Partial<SideBox>) => {
+      if (!flowchartData) return;
+      pushToHistory(updateSideBox(flowchartData, id, patch));
+  };
+
+  const handleAddSideBox = () => {
+      if (!flowchartData || !editingNode) return;
+      pushToHistory(addSideBox(flowchartData, editingNode.id, 'Note'));
+  };
+
+  const handleDeleteSideBox = (id: string) => {
+      if (!flowchartData) return;
+      pushToHistory(removeSideBox(flowchartData, id));
+      if (editingSideBoxId === id) setEditingSideBoxId(null);
+  };
+
   const themeStyles = THEMES[theme as keyof typeof THEMES].colors;
 
   return (
     <div className="relative h-screen w-screen transition-colors duration-300 overflow-hidden" style={{ ...themeStyles, '--bg': backgroundColor } as unknown as React.CSSProperties}>
+      {/* Diagrams are rendered in here for a moment while the hierarchy is exported. */}
+      <div ref={exportHostRef} aria-hidden="true" className="pointer-events-none" />
+
       {error && (
         <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg shadow-lg z-50">
           <strong>Error:</strong> {error}
@@ -636,6 +1333,59 @@ const App: React.FC = () => {
         </div>
       )}
 
+      <ConnectorInspector
+        connector={flowchartData?.connectors.find(c => c.id === editingConnectorId) || null}
+        nodes={flowchartData?.nodes || []}
+        diagramType={diagramType}
+        defaultRouting={flowchartData ? getDefaultRouting(flowchartData, diagramType) : 'curved'}
+        onChange={handleConnectorChange}
+        onDelete={handleDeleteConnector}
+        readOnly={isEditLocked}
+        onClose={() => setEditingConnectorId(null)}
+      />
+
+      <AnnotationInspector
+        annotation={flowchartData?.annotations?.find(a => a.id === editingAnnotationId) || null}
+        nodes={flowchartData?.nodes || []}
+        onChange={handleAnnotationChange}
+        onDelete={handleDeleteAnnotation}
+        readOnly={isEditLocked}
+        onClose={() => setEditingAnnotationId(null)}
+      />
+
+      <PanelInspector
+        panel={flowchartData?.supportingPanels?.find(p => p.id === editingPanelId) || null}
+        onChange={handlePanelChange}
+        onAddItem={handleAddPanelItem}
+        onEditItem={handleEditPanelItem}
+        onRemoveItem={handleRemovePanelItem}
+        onDelete={handleDeletePanel}
+        readOnly={isEditLocked}
+        onClose={() => setEditingPanelId(null)}
+      />
+
+      <PanelItemInspector
+        item={editingPanelItem
+            ? flowchartData?.supportingPanels?.find(p => p.id === editingPanelItem.panelId)?.items.find(i => i.id === editingPanelItem.itemId) || null
+            : null}
+        nodes={flowchartData?.nodes || []}
+        onSave={handlePanelItemSave}
+        onEnhance={handleEnhanceText}
+        onDelete={handleDeletePanelItem}
+        readOnly={isEditLocked}
+        onClose={() => setEditingPanelItem(null)}
+      />
+
+      <SideBoxInspector
+        box={flowchartData?.sideBoxes?.find(b => b.id === editingSideBoxId) || null}
+        node={flowchartData?.nodes.find(n => n.id === flowchartData.sideBoxes?.find(b => b.id === editingSideBoxId)?.attachToNode) || null}
+        onSave={(patch) => editingSideBoxId && handleSideBoxChange(editingSideBoxId, patch)}
+        onEnhance={handleEnhanceText}
+        onDelete={() => editingSideBoxId && handleDeleteSideBox(editingSideBoxId)}
+        readOnly={isEditLocked}
+        onClose={() => setEditingSideBoxId(null)}
+      />
+
       {/* Floating Node Editor Panel (Right Side) */}
       <div className={`fixed inset-y-0 right-0 z-[100] w-96 bg-[var(--bg-panel)]/95 backdrop-blur-xl border-l border-[var(--border-light)] shadow-2xl transform transition-transform duration-300 ease-in-out ${editingNode ? 'translate-x-0' : 'translate-x-full'}`}>
           {editingNode && (
@@ -647,89 +1397,198 @@ const App: React.FC = () => {
                     </button>
                 </div>
 
-                <div className="space-y-6 flex-grow">
-                    <div>
-                        <label className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Title</label>
-                        <input 
-                            autoFocus
-                            type="text" 
-                            defaultValue={editingNode.title} 
-                            id="edit-title"
-                            className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)] text-lg font-bold"
-                        />
-                    </div>
-
-                    <div>
-                        <div className="flex justify-between items-center mb-2">
-                            <label className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Description</label>
-                            <button 
-                                onClick={handleGenerateDescription}
-                                disabled={isDescriptionGenerating}
-                                className="text-xs font-bold text-[var(--text-accent)] hover:underline disabled:opacity-50 flex items-center gap-1"
-                            >
-                                {isDescriptionGenerating ? 'Expanding...' : '✨ Enhance w/ AI'}
-                            </button>
+                <fieldset disabled={isEditLocked} className="flex-grow flex flex-col min-w-0 disabled:opacity-60">
+                    <div className="space-y-6 flex-grow">
+                        <div>
+                            <label className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Title</label>
+                            <input 
+                                autoFocus
+                                type="text" 
+                                defaultValue={editingNode.title} 
+                                id="edit-title"
+                                className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)] text-lg font-bold"
+                            />
                         </div>
-                        <textarea 
-                            defaultValue={editingNode.description} 
-                            id="edit-desc"
-                            className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)] h-32 resize-none"
-                        />
-                    </div>
 
-                    <div className="p-4 bg-[var(--bg-alt)] rounded-xl border border-[var(--border-med)]">
-                        <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-3">AI Sub-nodes</h4>
-                        
-                        <div className="mb-4">
-                            <label className="block text-[10px] font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Focus Aspect (Optional)</label>
-                            <input
-                                type="text"
-                                placeholder="e.g. Cost, Efficiency, History..."
-                                value={subnodeAspect}
-                                onChange={(e) => setSubnodeAspect(e.target.value)}
-                                className="w-full px-3 py-2 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)]"
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <label className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Description</label>
+                                <button 
+                                    onClick={handleGenerateDescription}
+                                    disabled={isDescriptionGenerating}
+                                    className="text-xs font-bold text-[var(--text-accent)] hover:underline disabled:opacity-50 flex items-center gap-1"
+                                >
+                                    {isDescriptionGenerating ? 'Expanding...' : '✨ Enhance w/ AI'}
+                                </button>
+                            </div>
+                            <textarea 
+                                defaultValue={editingNode.description} 
+                                id="edit-desc"
+                                className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)] h-32 resize-none"
                             />
                         </div>
 
-                        <button
-                            onClick={handleGenerateSubnodes}
-                            disabled={isSubnodesGenerating}
-                            className="w-full py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2 text-sm font-semibold text-[var(--text-accent)]"
-                        >
-                            {isSubnodesGenerating ? (
-                                <>
-                                    <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                    Generating...
-                                </>
+                        {flowchartData?.diagramType !== DiagramType.MINDMAP && (
+                            <div>
+                                <label htmlFor="edit-type" className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Shape</label>
+                                <select
+                                    defaultValue={editingNode.type}
+                                    id="edit-type"
+                                    className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)]"
+                                >
+                                    {NODE_SHAPES.map(shape => <option key={shape} value={shape}>{NODE_SHAPE_LABELS[shape]}</option>)}
+                                </select>
+                            </div>
+                        )}
+
+                        {editingNode.sourceRef && (
+                            <div>
+                                <label className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Source Passage</label>
+                                <blockquote className="px-4 py-3 border-l-4 border-[var(--text-accent)] bg-[var(--bg-alt)] rounded-r-xl text-sm italic text-[var(--text)] whitespace-pre-wrap">
+                                    {editingNode.sourceRef}
+                                </blockquote>
+                            </div>
+                        )}
+
+                        <div className="p-4 bg-[var(--bg-alt)] rounded-xl border border-[var(--border-med)]">
+                            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-3">Sub-diagram</h4>
+                            {editingNode.subDiagram ? (
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleOpenSubDiagram(editingNode.id)}
+                                        className="flex-1 py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all text-sm font-semibold text-[var(--text-accent)]"
+                                    >
+                                        Open "{editingNode.subDiagram.title}" →
+                                    </button>
+                                    <button onClick={handleRemoveSubDiagram} className="py-2 px-3 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-sm font-semibold" title="Remove sub-diagram">
+                                        Remove
+                                    </button>
+                                </div>
                             ) : (
-                                <>
-                                    <span>🌱</span> Generate Sub-nodes
-                                </>
+                                <button
+                                    onClick={handleGenerateSubDiagram}
+                                    disabled={isSubDiagramGenerating}
+                                    className="w-full py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2 text-sm font-semibold text-[var(--text-accent)] disabled:opacity-50"
+                                >
+                                    {isSubDiagramGenerating ? 'Generating...' : <><span>✨</span> Generate Sub-diagram</>}
+                                </button>
                             )}
-                        </button>
-                    </div>
+                        </div>
 
-                </div>
+                        <div className="p-4 bg-[var(--bg-alt)] rounded-xl border border-[var(--border-med)]">
+                            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-3">Side Boxes</h4>
+                            <div className="space-y-3">
+                                {(flowchartData?.sideBoxes || []).filter(b => b.attachToNode === editingNode.id).map(box => (
+                                    <div key={box.id} className="space-y-2">
+                                        <input
+                                            key={`${box.id}-${box.text}`}
+                                            type="text"
+                                            defaultValue={box.text}
+                                            onBlur={(e) => { if (e.target.value !== box.text) handleSideBoxChange(box.id, { text: e.target.value }); }}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                            className="w-full px-3 py-2 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)]"
+                                        />
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={box.position || 'right'}
+                                                // A new side starts from its default spot; the old offset would be meaningless there.
+                                                onChange={(e) => handleSideBoxChange(box.id, { position: e.target.value as SideBoxSide, offset: undefined })}
+                                                className="flex-1 px-2 py-1 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded-lg text-xs"
+                                            >
+                                                {SIDE_BOX_SIDES.map(side => <option key={side} value={side}>{side.charAt(0).toUpperCase() + side.slice(1)}</option>)}
+                                            </select>
+                                            <select
+                                                value={box.lineStyle || 'solid'}
+                                                onChange={(e) => handleSideBoxChange(box.id, { lineStyle: e.target.value as SideBox['lineStyle'] })}
+                                                className="flex-1 px-2 py-1 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded-lg text-xs"
+                                            >
+                                                <option value="solid">Solid line</option>
+                                                <option value="dotted">Dotted line</option>
+                                            </select>
+                                            <button onClick={() => handleDeleteSideBox(box.id)} className="px-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-xs font-semibold" title="Remove side box">
+                                                Remove
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={handleAddSideBox}
+                                    className="w-full py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all text-sm font-semibold text-[var(--text-accent)]"
+                                >
+                                    + Add Side Box
+                                </button>
+                            </div>
+                        </div>
 
-                <div className="mt-6 space-y-3">
-                     <button 
-                        onClick={() => {
-                            const t = (document.getElementById('edit-title') as HTMLInputElement).value;
-                            const d = (document.getElementById('edit-desc') as HTMLTextAreaElement).value;
-                            handleNodeEditSave(t, d);
-                        }}
-                        className="w-full py-3 px-4 bg-[var(--text-accent)] text-white font-bold rounded-xl shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all"
-                    >
-                        Save Changes
-                    </button>
-                    <button onClick={handleDeleteNode} className="w-full py-3 px-4 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 font-semibold rounded-xl transition-colors border border-transparent hover:border-red-200">
-                        Delete Node
-                    </button>
-                </div>
+                        <div className="p-4 bg-[var(--bg-alt)] rounded-xl border border-[var(--border-med)]">
+                            <h4 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-3">AI Sub-nodes</h4>
+                        
+                            <div className="mb-4">
+                                <label className="block text-[10px] font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2">Focus Aspect (Optional)</label>
+                                <input
+                                    type="text"
+                                    placeholder="e.g. Cost, Efficiency, History..."
+                                    value={subnodeAspect}
+                                    onChange={(e) => setSubnodeAspect(e.target.value)}
+                                    className="w-full px-3 py-2 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)]"
+                                />
+                            </div>
+
+                            <button
+                                onClick={handleGenerateSubnodes}
+                                disabled={isSubnodesGenerating}
+                                className="w-full py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all flex items-center justify-center gap-2 text-sm font-semibold text-[var(--text-accent)]"
+                            >
+                                {isSubnodesGenerating ? (
+                                    <>
+                                        <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                        Generating...
+                                    </>
+                                ) : (
+                                    <>
+                                        <span>🌱</span> Generate Sub-nodes
+                                    </>
+                                )}
+                            </button>
+                        </div>
+
+                    </div>
+
+                    <div className="mt-6 space-y-3">
+                         <button 
+                            onClick={() => {
+                                const t = (document.getElementById('edit-title') as HTMLInputElement).value;
+                                const d = (document.getElementById('edit-desc') as HTMLTextAreaElement).value;
+                                const typeSelect = document.getElementById('edit-type') as HTMLSelectElement | null;
+                                handleNodeEditSave(t, d, typeSelect ? typeSelect.value as NodeShape : undefined);
+                            }}
+                            className="w-full py-3 px-4 bg-[var(--text-accent)] text-white font-bold rounded-xl shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all"
+                        >
+                            Save Changes
+                        </button>
+                        <button onClick={handleDeleteNode} className="w-full py-3 px-4 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 font-semibold rounded-xl transition-colors border border-transparent hover:border-red-200">
+                            Delete Node
+                        </button>
+                    </div>
+                </fieldset>
             </div>
           )}
       </div>
 
+      <ChatPanel
+        isOpen={isChatOpen}
+        onClose={() => {
+            resolvePendingRefinement('discarded');
+            setChatOpen(false);
+        }}
+        messages={chatMessages}
+        onSend={handleRefineSend}
+        isBusy={isRefining}
+        readOnly={isSharedView}
+        onApply={() => resolvePendingRefinement('applied')}
+        onDiscard={() => resolvePendingRefinement('discarded')}
+      />
+
       <button 
         onClick={() => setControlsVisible(v => !v)}
         className="fixed top-6 z-30 bg-[var(--bg-panel)] hover:bg-[var(--bg-panel-alt)] border border-l-0 border-[var(--border-med)] rounded-r-lg px-2 py-3 transition-all duration-300 ease-in-out shadow-md"
@@ -747,18 +1606,40 @@ const App: React.FC = () => {
           <Controls
             topic={topic}
             setTopic={setTopic}
+            generationSource={generationSource}
+            setGenerationSource={setGenerationSource}
+            sourceText={sourceText}
+            setSourceText={setSourceText}
             depth={depth}
             setDepth={setDepth}
             diagramType={diagramType}
             setDiagramType={setDiagramType}
             jsonText={jsonText}
+            outlineData={flowchartData && (flowchartData.diagramType === DiagramType.MINDMAP || diagramType === DiagramType.MINDMAP) ? flowchartData : null}
+            onApplyOutline={handleApplyOutline}
             setJsonText={setJsonText}
             isDarkMode={isDarkMode}
             setDarkMode={setDarkMode}
             onGenerate={handleGenerate}
+            onCancelGenerate={handleCancelGenerate}
+            streamedNodeCount={streamedNodeCount}
             onRender={handleRender}
+            jsonIssues={jsonIssues}
+            onRepairJson={handleRepairJson}
             onDownloadSVG={handleDownloadSVG}
+            onExportPdf={handleExportPdf}
+            onExportMermaid={handleExportMermaid}
+            onExportDrawio={handleExportDrawio}
+            onExportExcalidraw={handleExportExcalidraw}
+            onExportPptx={handleExportPptx}
+            onExportHierarchy={handleExportHierarchy}
+            onExportHierarchyPdf={handleExportHierarchyPdf}
+            onCopyShareLink={handleCopyShareLink}
+            onImportMermaid={handleImportMermaid}
+            onImportDiagramFile={handleImportDiagramFile}
+            onError={setError}
             onAddNode={handleAddNode}
+            readOnly={isEditLocked}
             isLoading={isLoading}
             canvasWidth={flowchartData?.canvas.width ?? 1200}
             canvasHeight={flowchartData?.canvas.height ?? 1000}
@@ -776,6 +1657,18 @@ const App: React.FC = () => {
             nodeCount={nodeCount}
             setNodeCount={setNodeCount}
             onAutoLayout={handleAutoLayout}
+            routing={flowchartData ? getDefaultRouting(flowchartData, diagramType) : 'curved'}
+            onRoutingChange={handleRoutingChange}
+            snapSettings={snapSettings}
+            onSnapSettingsChange={setSnapSettings}
+            providerLabel={getDiagramAIProvider().label}
+            documents={documents}
+            currentDocumentId={currentDocumentId}
+            onNewDocument={handleNewDocument}
+            onOpenDocument={handleOpenDocument}
+            onRenameDocument={handleRenameDocument}
+            onDuplicateDocument={handleDuplicateDocument}
+            onDeleteDocument={handleDeleteDocument}
           />
       </div>
       
@@ -785,10 +1678,10 @@ const App: React.FC = () => {
             <div className="absolute top-4 right-4 z-10 flex flex-col gap-2">
                  <div className="bg-[var(--bg-panel)]/90 backdrop-blur-md border border-[var(--border-med)] rounded-xl shadow-lg p-1 flex flex-col items-center">
                     <div className="flex border-b border-[var(--border-med)] w-full justify-center pb-1 mb-1">
-                        <button onClick={handleUndo} disabled={historyIndex <= 0} className="p-2 text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30" title="Undo (Ctrl+Z)">
+                        <button onClick={handleUndo} disabled={historyIndex <= 0 || isEditLocked} className="p-2 text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30" title="Undo (Ctrl+Z)">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
                         </button>
-                        <button onClick={handleRedo} disabled={historyIndex >= history.length - 1} className="p-2 text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30" title="Redo (Ctrl+Y)">
+                        <button onClick={handleRedo} disabled={historyIndex >= history.length - 1 || isEditLocked} className="p-2 text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30" title="Redo (Ctrl+Y)">
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10h-10a8 8 0 00-8 8v2M21 10l-6 6m6-6l-6-6" /></svg>
                         </button>
                     </div>
@@ -811,25 +1704,112 @@ const App: React.FC = () => {
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4 3a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V5a2 2 0 00-2-2H4zm12 12H4l4-8 3 6 2-4 3 6z" clipRule="evenodd" /></svg>
                     PNG
                 </button>
+
+                 <button
+                    onClick={() => setChatOpen(o => !o)}
+                    className={`bg-[var(--bg-panel)]/90 backdrop-blur-md border text-xs font-bold py-2 px-3 rounded-xl transition-colors flex items-center justify-center gap-2 shadow-lg ${isChatOpen ? 'border-[var(--text-accent)] text-[var(--text-accent)]' : 'border-[var(--border-med)] text-[var(--text)] hover:bg-[var(--border-light)]'}`}
+                    title="Refine the whole diagram with natural-language instructions"
+                >
+                    <span>✨</span>
+                    Refine
+                </button>
+
+                <InsertToolbar
+                    onInsertAnnotation={handleInsertAnnotation}
+                    onInsertPanel={handleInsertPanel}
+                    disabled={isEditLocked}
+                />
             </div>
 
+            {flowchartData && (
+                <Breadcrumbs
+                    parents={diagramTrail.map(entry => entry.data.title)}
+                    current={flowchartData.title}
+                    onNavigate={handleNavigateTrail}
+                />
+            )}
+
+            {isSharedView && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-[var(--bg-panel)]/90 backdrop-blur-md border border-[var(--border-med)] rounded-xl shadow-lg pl-4 pr-1 py-1 flex items-center gap-3 text-xs">
+                    <span className="font-semibold text-[var(--text-muted)]">Shared diagram · read-only</span>
+                    <button
+                        onClick={handleMakeEditableCopy}
+                        className="bg-[var(--text-accent)] text-white font-bold py-1.5 px-3 rounded-lg hover:opacity-90 transition-opacity"
+                        title="Save a copy to your document library and edit it"
+                    >
+                        Make editable copy
+                    </button>
+                </div>
+            )}
+
+            {!isEditLocked && (
+                <SelectionToolbar
+                    count={selectedNodeIds.length}
+                    onAlign={handleAlignSelection}
+                    onDistribute={handleDistributeSelection}
+                    onDuplicate={handleDuplicateSelection}
+                    onDelete={handleDeleteSelection}
+                    onClear={() => setSelectedNodeIds([])}
+                />
+            )}
+
             <div className="absolute bottom-4 left-4 z-10 bg-[var(--bg-panel)]/80 backdrop-blur-sm border border-[var(--border-med)] px-4 py-2 rounded-full text-xs font-medium text-[var(--text-muted)] shadow-md pointer-events-none">
-                Double-click node to edit • Drag to pan • Ctrl+Z Undo
+                Double-click a node, panel, item, side box or note to edit • Enter edits selection • Shift-click or Shift-drag to select • Drag a node's handle to connect • Drag to pan • Ctrl+Z Undo
             </div>
 
             <Flowchart 
-                data={flowchartData} 
+                data={pendingRefinement ? pendingRefinement.preview : flowchartData} 
                 svgRef={svgRef} 
                 onPanelPositionChange={handlePanelPositionChange} 
                 onNodePositionChange={handleNodePositionChange} 
                 onNodeSizeChange={handleNodeSizeChange}
-                onNodeDoubleClick={setEditingNode}
+                onNodeDoubleClick={(node) => {
+                    if (node.subDiagram) {
+                        handleOpenSubDiagram(node.id);
+                        return;
+                    }
+                    closeInspectors();
+                    setEditingNode(node);
+                }}
+                onOpenSubDiagram={(id) => handleOpenSubDiagram(id)}
+                onConnectorClick={(id) => {
+                    closeInspectors();
+                    setSelectedNodeIds([]);
+                    setEditingConnectorId(id);
+                }}
+                onPanelDoubleClick={(id) => {
+                    closeInspectors();
+                    setEditingPanelId(id);
+                }}
+                onSideBoxOffsetChange={handleSideBoxOffsetChange}
+                onSideBoxDoubleClick={(id) => {
+                    closeInspectors();
+                    setEditingSideBoxId(id);
+                }}
+                onPanelItemDoubleClick={(panelId, itemId) => {
+                    closeInspectors();
+                    setEditingPanelItem({ panelId, itemId });
+                }}
+                onAnnotationPositionChange={handleAnnotationPositionChange}
+                onAnnotationDoubleClick={(id) => {
+                    closeInspectors();
+                    setEditingAnnotationId(id);
+                }}
+                selectedConnectorId={editingConnectorId}
+                onConnectorCreate={handleConnectorCreate}
+                onConnectorReconnect={handleConnectorReconnect}
+                selectedNodeIds={selectedNodeIds}
+                onSelectionChange={handleSelectionChange}
+                snapSettings={snapSettings}
+                onToggleCollapse={handleToggleCollapse}
                 onCanvasResize={handleCanvasResize}
                 zoom={zoom}
                 onZoomChange={setZoom}
                 pan={pan}
                 onPanChange={setPan}
                 diagramType={diagramType}
+                readOnly={isEditLocked}
+                highlights={pendingRefinement?.highlights}
             />
           </main>
       </div>
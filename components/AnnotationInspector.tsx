@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Annotation, AnnotationKind, Node } from '../types';
+import { ANNOTATION_KINDS, ANNOTATION_LABELS } from '../services/annotations';
+import InspectorShell, { ColorSwatches, InspectorBody, NOTE_COLOR_PRESETS, deleteButtonClass, fieldClass, labelClass } from './InspectorShell';
+
+interface AnnotationInspectorProps {
+  annotation: Annotation | null;
+  nodes: Node[];
+  // `undefined` values clear the field.
+  onChange: (patch: Partial<Annotation>) => void;
+  onDelete: () => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const AnnotationInspector: React.FC<AnnotationInspectorProps> = ({ annotation, nodes, onChange, onDelete, readOnly, onClose }) => {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    setText(annotation?.text || '');
+  }, [annotation?.id, annotation?.text]);
+
+  const commitText = () => {
+    if (!annotation || text === annotation.text) return;
+    onChange({ text });
+  };
+
+  const commitSize = (dimension: 'w' | 'h', value: number) => {
+    if (!annotation || !Number.isFinite(value) || value < 20 || value === annotation.size[dimension]) return;
+    onChange({ size: { ...annotation.size, [dimension]: value } });
+  };
+
+  return (
+    <InspectorShell isOpen={!!annotation}>
+        {annotation && (
+            <InspectorBody
+                title={`Edit ${ANNOTATION_LABELS[annotation.kind]}`}
+                readOnly={readOnly}
+                onClose={onClose}
+                footer={
+                    <button onClick={onDelete} className={deleteButtonClass}>
+                        Delete {ANNOTATION_LABELS[annotation.kind]}
+                    </button>
+                }
+            >
+                <div>
+                    <label htmlFor="annotation-text" className={labelClass}>Text</label>
+                    <textarea
+                        id="annotation-text"
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onBlur={commitText}
+                        rows={5}
+                        className={`${fieldClass} resize-none`}
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="annotation-kind" className={labelClass}>Style</label>
+                    <select
+                        id="annotation-kind"
+                        value={annotation.kind}
+                        onChange={(e) => onChange({ kind: e.target.value as AnnotationKind })}
+                        className={fieldClass}
+                    >
+                        {ANNOTATION_KINDS.map(kind => <option key={kind} value={kind}>{ANNOTATION_LABELS[kind]}</option>)}
+                    </select>
+                </div>
+
+                {annotation.kind === 'callout' && (
+                    <div>
+                        <label htmlFor="annotation-target" className={labelClass}>Points At</label>
+                        <select
+                            id="annotation-target"
+                            value={annotation.targetNode || ''}
+                            onChange={(e) => onChange({ targetNode: e.target.value || undefined })}
+                            className={fieldClass}
+                        >
+                            <option value="">Nothing</option>
+                            {nodes.map(n => <option key={n.id} value={n.id}>{n.title || n.id}</option>)}
+                        </select>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                    {(['w', 'h'] as const).map(dimension => (
+                        <div key={dimension}>
+                            <label htmlFor={`annotation-${dimension}`} className={labelClass}>{dimension === 'w' ? 'Width' : 'Height'}</label>
+                            <input
+                                key={`${annotation.id}-${annotation.size[dimension]}`}
+                                id={`annotation-${dimension}`}
+                                type="number"
+                                min={20}
+                                defaultValue={annotation.size[dimension]}
+                                onBlur={(e) => commitSize(dimension, parseInt(e.target.value, 10))}
+                                onKeyDown={(e) => { if (e.key === 'Enter') commitSize(dimension, parseInt(e.currentTarget.value, 10)); }}
+                                className={fieldClass}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div>
+                    <label className={labelClass}>{annotation.kind === 'text' ? 'Text Color' : 'Fill'}</label>
+                    <ColorSwatches value={annotation.color} presets={NOTE_COLOR_PRESETS} defaultLabel="Default" fallback="#fef08a" onChange={color => onChange({ color })} />
+                </div>
+            </InspectorBody>
+        )}
+    </InspectorShell>
+  );
+};
+
+export default AnnotationInspector;
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface BreadcrumbsProps {
+  // Titles of the parent diagrams, root first.
+  parents: string[];
+  current: string;
+  onNavigate: (depth: number) => void;
+}
+
+// Path from the root diagram down to the sub-diagram being edited.
+const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ parents, current, onNavigate }) => {
+  if (parents.length === 0) return null;
+
+  return (
+    <nav aria-label="Diagram hierarchy" className="absolute top-4 left-4 z-10 max-w-[50%] bg-[var(--bg-panel)]/90 backdrop-blur-md border border-[var(--border-med)] rounded-xl shadow-lg px-3 py-2 flex items-center gap-1 text-xs font-semibold overflow-hidden">
+        {parents.map((title, depth) => (
+            <React.Fragment key={depth}>
+                <button
+                    onClick={() => onNavigate(depth)}
+                    className="text-[var(--text-accent)] hover:underline truncate max-w-[160px]"
+                    title={title}
+                >
+                    {title || 'Untitled'}
+                </button>
+                <span className="text-[var(--text-muted)]">›</span>
+            </React.Fragment>
+        ))}
+        <span className="text-[var(--text)] truncate max-w-[200px]" title={current}>{current || 'Untitled'}</span>
+    </nav>
+  );
+};
+
+export default Breadcrumbs;
@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  // Only assistant messages that carry a change set have a status.
+  status?: 'pending' | 'applied' | 'discarded' | 'error';
+}
+
+interface ChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: ChatMessage[];
+  onSend: (instruction: string) => void;
+  isBusy: boolean;
+  // The diagram cannot be changed, e.g. a shared diagram that has not been copied yet.
+  readOnly?: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const SUGGESTIONS = [
+  'Merge steps 2 and 3',
+  'Add an error-handling branch after the second step',
+  'Translate everything to Spanish',
+];
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, messages, onSend, isBusy, readOnly, onApply, onDiscard }) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const hasPending = messages.some(m => m.status === 'pending');
+  const canSend = !isBusy && !hasPending && !readOnly;
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages.length, isBusy]);
+
+  const send = () => {
+    const instruction = draft.trim();
+    if (!instruction || !canSend) return;
+    onSend(instruction);
+    setDraft('');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-96 max-h-[70vh] flex flex-col bg-[var(--bg-panel)]/95 backdrop-blur-xl border border-[var(--border-med)] rounded-2xl shadow-2xl">
+        <div className="flex justify-between items-center px-4 py-3 border-b border-[var(--border-light)]">
+            <h3 className="text-sm font-black uppercase text-[var(--text)] tracking-tight">Refine with AI</h3>
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-[var(--bg-alt)] transition-colors" aria-label="Close refine panel">
+                <svg className="w-5 h-5 text-[var(--text-muted)]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+        </div>
+
+        <div ref={listRef} className="flex-grow overflow-y-auto p-4 space-y-3">
+            {messages.length === 0 && (
+                <div className="space-y-2">
+                    <p className="text-xs text-[var(--text-muted)]">Describe a change to the whole diagram. Each instruction is previewed first and becomes one undoable step.</p>
+                    {SUGGESTIONS.map(s => (
+                        <button key={s} onClick={() => setDraft(s)} className="block w-full text-left text-xs px-3 py-2 bg-[var(--bg-alt)] border border-[var(--border-light)] rounded-lg hover:border-[var(--text-accent)] text-[var(--text)] transition-colors">
+                            {s}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {messages.map(message => (
+                <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[85%] px-3 py-2 rounded-xl text-sm ${message.role === 'user' ? 'bg-[var(--text-accent)] text-white' : 'bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-light)]'}`}>
+                        <p className="whitespace-pre-wrap">{message.text}</p>
+                        {message.status === 'pending' && (
+                            <div className="flex gap-2 mt-2">
+                                <button onClick={onApply} className="flex-1 py-1 px-2 bg-[var(--text-accent)] text-white text-xs font-bold rounded-lg hover:opacity-90">Apply</button>
+                                <button onClick={onDiscard} className="flex-1 py-1 px-2 border border-[var(--border-med)] text-xs font-semibold rounded-lg hover:bg-[var(--border-light)]">Discard</button>
+                            </div>
+                        )}
+                        {message.status === 'applied' && <p className="mt-1 text-[10px] font-bold text-emerald-500 uppercase">Applied</p>}
+                        {message.status === 'discarded' && <p className="mt-1 text-[10px] font-bold text-[var(--text-muted)] uppercase">Discarded</p>}
+                        {message.status === 'error' && <p className="mt-1 text-[10px] font-bold text-red-500 uppercase">Failed</p>}
+                    </div>
+                </div>
+            ))}
+
+            {isBusy && <p className="text-xs text-[var(--text-muted)] animate-pulse">Thinking...</p>}
+        </div>
+
+        <div className="p-3 border-t border-[var(--border-light)] flex gap-2">
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        send();
+                    }
+                }}
+                placeholder={readOnly ? 'Make an editable copy to refine this diagram' : hasPending ? 'Apply or discard the preview first' : 'e.g. Add a cooling step after Exhaust'}
+                disabled={!canSend}
+                rows={2}
+                className="flex-grow px-3 py-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] disabled:opacity-50"
+            />
+            <button
+                onClick={send}
+                disabled={!canSend || !draft.trim()}
+                className="px-3 bg-[var(--text-accent)] text-white font-bold rounded-lg disabled:opacity-50 text-sm"
+            >
+                Send
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Connector, Node, DiagramType, ConnectorKind, ArrowHead, ConnectorRouting } from '../types';
+import { CONNECTOR_KINDS, ARROW_HEADS, resolveConnectorStyle } from '../services/connectorStyle';
+import InspectorShell, { ColorSwatches, InspectorBody, LINE_COLOR_PRESETS, deleteButtonClass, fieldClass, labelClass } from './InspectorShell';
+
+interface ConnectorInspectorProps {
+  connector: Connector | null;
+  nodes: Node[];
+  diagramType: DiagramType;
+  defaultRouting: ConnectorRouting;
+  // `undefined` values mean "reset to the default" and are removed from the connector.
+  onChange: (patch: Partial<Connector>) => void;
+  onDelete: () => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<ConnectorKind, string> = {
+  flow: 'Flow',
+  dependency: 'Dependency',
+  association: 'Association',
+  data: 'Data',
+};
+
+const ROUTING_LABELS: Record<ConnectorRouting, string> = {
+  straight: 'Straight',
+  curved: 'Curved',
+  orthogonal: 'Elbow',
+};
+
+const ConnectorInspector: React.FC<ConnectorInspectorProps> = ({ connector, nodes, diagramType, defaultRouting, onChange, onDelete, readOnly, onClose }) => {
+  const [label, setLabel] = useState('');
+
+  useEffect(() => {
+    setLabel(connector?.label || '');
+  }, [connector?.id, connector?.label]);
+
+  const commitLabel = () => {
+    if (!connector || label === (connector.label || '')) return;
+    onChange({ label: label.trim() ? label : undefined });
+  };
+
+  const titleOf = (id: string) => nodes.find(n => n.id === id)?.title || id;
+  const resolved = connector ? resolveConnectorStyle({ ...connector, arrowStart: undefined, arrowEnd: undefined }, diagramType) : null;
+
+  return (
+    <InspectorShell isOpen={!!connector}>
+        {connector && resolved && (
+            <InspectorBody
+                title="Edit Connector"
+                subtitle={`${titleOf(connector.from)} → ${titleOf(connector.to)}`}
+                readOnly={readOnly}
+                onClose={onClose}
+                footer={
+                    <button onClick={onDelete} className={deleteButtonClass}>
+                        Delete Connector
+                    </button>
+                }
+            >
+                <div>
+                    <label htmlFor="connector-label" className={labelClass}>Label</label>
+                    <input
+                        id="connector-label"
+                        type="text"
+                        value={label}
+                        onChange={(e) => setLabel(e.target.value)}
+                        onBlur={commitLabel}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitLabel(); }}
+                        placeholder="e.g. Yes"
+                        className={fieldClass}
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="connector-kind" className={labelClass}>Kind</label>
+                    <select
+                        id="connector-kind"
+                        value={connector.kind || 'flow'}
+                        onChange={(e) => onChange({ kind: e.target.value as ConnectorKind })}
+                        className={fieldClass}
+                    >
+                        {CONNECTOR_KINDS.map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+                    </select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    {(['arrowStart', 'arrowEnd'] as const).map(end => (
+                        <div key={end}>
+                            <label htmlFor={`connector-${end}`} className={labelClass}>{end === 'arrowStart' ? 'Start' : 'End'}</label>
+                            <select
+                                id={`connector-${end}`}
+                                value={connector[end] || ''}
+                                onChange={(e) => onChange({ [end]: (e.target.value || undefined) as ArrowHead | undefined })}
+                                className={fieldClass}
+                            >
+                                <option value="">Default ({resolved[end]})</option>
+                                {ARROW_HEADS.map(head => <option key={head} value={head}>{head}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <div>
+                    <label htmlFor="connector-routing" className={labelClass}>Routing</label>
+                    <select
+                        id="connector-routing"
+                        value={connector.routing || ''}
+                        onChange={(e) => onChange({ routing: (e.target.value || undefined) as ConnectorRouting | undefined })}
+                        className={fieldClass}
+                    >
+                        <option value="">Diagram default ({ROUTING_LABELS[defaultRouting]})</option>
+                        {(Object.keys(ROUTING_LABELS) as ConnectorRouting[]).map(r => <option key={r} value={r}>{ROUTING_LABELS[r]}</option>)}
+                    </select>
+                </div>
+
+                <div>
+                    <label className={labelClass}>Color</label>
+                    <ColorSwatches value={connector.color} presets={LINE_COLOR_PRESETS} defaultLabel="Theme" fallback="#64748b" onChange={color => onChange({ color })} />
+                </div>
+            </InspectorBody>
+        )}
+    </InspectorShell>
+  );
+};
+
+export default ConnectorInspector;
@@ -1,23 +1,53 @@
 
-import React from 'react';
-import { DepthLevel, DiagramType } from '../types';
+import React, { useState } from 'react';
+import { DepthLevel, DiagramType, DiagramDocument, ConnectorRouting, FlowchartData } from '../types';
 import { THEMES } from '../constants';
+import { ValidationIssue } from '../services/flowchartValidation';
+import { MAX_SOURCE_TEXT_CHARS } from '../services/providers';
+import { SnapSettings, GRID_SIZES } from '../services/snapping';
+import { PdfExportOptions, PdfPageSize, PdfOrientation, PdfLayout, PDF_PAGE_SIZES, DEFAULT_PDF_OPTIONS } from '../services/pdf';
+import OutlineEditor from './OutlineEditor';
+
+export type GenerationSource = 'topic' | 'text';
 
 interface ControlsProps {
   topic: string;
   setTopic: (topic: string) => void;
+  generationSource: GenerationSource;
+  setGenerationSource: (source: GenerationSource) => void;
+  sourceText: string;
+  setSourceText: (text: string) => void;
   depth: DepthLevel;
   setDepth: (depth: DepthLevel) => void;
   diagramType: DiagramType;
   setDiagramType: (type: DiagramType) => void;
   jsonText: string;
+  outlineData: FlowchartData | null; // Set for mind maps, which can be edited as an outline
+  onApplyOutline: (text: string) => void;
   setJsonText: (json: string) => void;
   isDarkMode: boolean;
   setDarkMode: (isDark: boolean) => void;
   onGenerate: () => void;
+  onCancelGenerate: () => void;
+  streamedNodeCount: number;
   onRender: () => void;
-  onDownloadSVG: () => void;
+  jsonIssues: ValidationIssue[];
+  onRepairJson: () => void;
+  onDownloadSVG: (embedFont: boolean) => void;
+  onExportPdf: (options: PdfExportOptions) => void;
+  onExportMermaid: () => void;
+  onExportDrawio: () => void;
+  onExportExcalidraw: () => void;
+  onExportPptx: () => void;
+  onExportHierarchy: () => void;
+  onExportHierarchyPdf: (options: PdfExportOptions) => void;
+  onCopyShareLink: () => Promise<boolean>;
+  onImportMermaid: (text: string) => void;
+  onImportDiagramFile: (fileName: string, text: string) => void;
+  onError: (message: string) => void;
   onAddNode: () => void;
+  // Locks everything that edits the current diagram; generating, documents and exports stay available.
+  readOnly: boolean;
   isLoading: boolean;
   canvasWidth: number;
   canvasHeight: number;
@@ -29,25 +59,84 @@ interface ControlsProps {
   nodeCount: number;
   setNodeCount: (count: number) => void;
   onAutoLayout: (type: 'radial' | 'tree' | 'horizontal') => void;
+  routing: ConnectorRouting;
+  onRoutingChange: (routing: ConnectorRouting) => void;
+  snapSettings: SnapSettings;
+  onSnapSettingsChange: (settings: SnapSettings) => void;
+  providerLabel: string;
+  documents: DiagramDocument[];
+  currentDocumentId: string | null;
+  onNewDocument: () => void;
+  onOpenDocument: (id: string) => void;
+  onRenameDocument: (id: string) => void;
+  onDuplicateDocument: (id: string) => void;
+  onDeleteDocument: (id: string) => void;
 }
 
+const RECENT_DOCUMENTS_LIMIT = 8;
+
+const formatUpdatedAt = (timestamp: number) => {
+    const minutes = Math.round((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+const SOURCE_FILE_ACCEPT = '.txt,.md,.markdown,text/plain,text/markdown';
+const DIAGRAM_FILE_ACCEPT = '.drawio,.xml,.dot,.gv,.canvas,.json';
+
+const ROUTING_OPTIONS: { value: ConnectorRouting; label: string }[] = [
+    { value: 'straight', label: 'Straight' },
+    { value: 'curved', label: 'Curved' },
+    { value: 'orthogonal', label: 'Elbow' },
+];
+
+const SNAP_TOGGLES: { key: 'showGrid' | 'snapToGrid' | 'showGuides'; label: string }[] = [
+    { key: 'showGrid', label: 'Show grid' },
+    { key: 'snapToGrid', label: 'Snap to grid' },
+    { key: 'showGuides', label: 'Smart guides' },
+];
+
 const PRESET_COLORS = ['#f8fafc', '#ffffff', '#f0f9ff', '#fef2f2', '#f0fdf4', '#fffbeb', '#f3e8ff', '#1e293b'];
 
 const Controls: React.FC<ControlsProps> = ({
   topic,
   setTopic,
+  generationSource,
+  setGenerationSource,
+  sourceText,
+  setSourceText,
   depth,
   setDepth,
   diagramType,
   setDiagramType,
   jsonText,
+  outlineData,
+  onApplyOutline,
   setJsonText,
   isDarkMode,
   setDarkMode,
   onGenerate,
+  onCancelGenerate,
+  streamedNodeCount,
   onRender,
+  jsonIssues,
+  onRepairJson,
   onDownloadSVG,
+  onExportPdf,
+  onExportMermaid,
+  onExportDrawio,
+  onExportExcalidraw,
+  onExportPptx,
+  onExportHierarchy,
+  onExportHierarchyPdf,
+  onCopyShareLink,
+  onImportMermaid,
+  onImportDiagramFile,
+  onError,
   onAddNode,
+  readOnly,
   isLoading,
   canvasWidth,
   canvasHeight,
@@ -58,29 +147,114 @@ const Controls: React.FC<ControlsProps> = ({
   setBackgroundColor,
   nodeCount,
   setNodeCount,
-  onAutoLayout
+  onAutoLayout,
+  routing,
+  onRoutingChange,
+  snapSettings,
+  onSnapSettingsChange,
+  providerLabel,
+  documents,
+  currentDocumentId,
+  onNewDocument,
+  onOpenDocument,
+  onRenameDocument,
+  onDuplicateDocument,
+  onDeleteDocument
 }) => {
+  const [mermaidText, setMermaidText] = useState('');
+  const [embedSvgFont, setEmbedSvgFont] = useState(false);
+  const [pdfOptions, setPdfOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+  const [isDraggingSource, setDraggingSource] = useState(false);
+  const [isLinkCopied, setLinkCopied] = useState(false);
+
+  const loadSourceFile = async (file: File | undefined) => {
+      if (!file) return;
+      try {
+          setSourceText(await file.text());
+          if (!topic.trim()) setTopic(file.name.replace(/\.(txt|md|markdown)$/i, ''));
+      } catch (err) {
+          onError(err instanceof Error ? err.message : 'Failed to read the source file.');
+      }
+  };
+
+  const loadDiagramFile = async (file: File | undefined) => {
+      if (!file) return;
+      let text: string;
+      try {
+          text = await file.text();
+      } catch (err) {
+          onError(err instanceof Error ? err.message : 'Failed to read the diagram file.');
+          return;
+      }
+      onImportDiagramFile(file.name, text);
+  };
+
+  const canGenerate = generationSource === 'text' ? sourceText.trim().length > 0 : !!topic;
+
   return (
     <div className="w-full h-full flex flex-col p-6 overflow-y-auto bg-[var(--bg-panel)]/90 backdrop-blur-xl border-r border-[var(--border-light)] shadow-2xl">
         <div className="flex-grow flex flex-col space-y-6">
             <h1 className="text-2xl font-black bg-clip-text text-transparent bg-gradient-to-r from-[var(--text-accent)] to-[var(--text)] tracking-tight">
                 AI GEN
             </h1>
+            <p className="-mt-5 text-[10px] font-mono text-[var(--text-muted)]" title="Configured via AI_PROVIDER">{providerLabel}</p>
 
             {/* Section: Generation */}
             <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-1 p-1 bg-[var(--bg-alt)] border border-[var(--border-light)] rounded-xl">
+                    {(['topic', 'text'] as GenerationSource[]).map(source => (
+                        <button
+                            key={source}
+                            onClick={() => setGenerationSource(source)}
+                            className={`py-1.5 text-xs font-bold rounded-lg transition-colors ${generationSource === source ? 'bg-[var(--bg-panel)] text-[var(--text-accent)] shadow-sm' : 'text-[var(--text-muted)] hover:text-[var(--text)]'}`}
+                        >
+                            {source === 'topic' ? 'From topic' : 'From text'}
+                        </button>
+                    ))}
+                </div>
+
                 <div className="group">
-                    <label htmlFor="topic" className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-1">Topic</label>
+                    <label htmlFor="topic" className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-1">{generationSource === 'text' ? 'Title (optional)' : 'Topic'}</label>
                     <input
                         id="topic"
                         type="text"
                         value={topic}
                         onChange={(e) => setTopic(e.target.value)}
-                        placeholder="e.g., The water cycle"
+                        placeholder={generationSource === 'text' ? 'e.g., Incident response runbook' : 'e.g., The water cycle'}
                         className="w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] transition-all"
                     />
                 </div>
 
+                {generationSource === 'text' && (
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label htmlFor="sourceText" className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Source Document</label>
+                            <label className="text-xs font-bold text-[var(--text-accent)] hover:underline cursor-pointer">
+                                Open file…
+                                <input type="file" accept={SOURCE_FILE_ACCEPT} className="hidden" onChange={(e) => { loadSourceFile(e.target.files?.[0]); e.target.value = ''; }} />
+                            </label>
+                        </div>
+                        <textarea
+                            id="sourceText"
+                            value={sourceText}
+                            onChange={(e) => setSourceText(e.target.value)}
+                            onDragOver={(e) => { e.preventDefault(); setDraggingSource(true); }}
+                            onDragLeave={() => setDraggingSource(false)}
+                            onDrop={(e) => {
+                                e.preventDefault();
+                                setDraggingSource(false);
+                                loadSourceFile(e.dataTransfer.files[0]);
+                            }}
+                            placeholder="Paste meeting notes, an RFC or a procedure, or drop a .txt / .md file here."
+                            className={`w-full h-40 px-3 py-2 bg-[var(--bg-alt)] border rounded-xl text-xs resize-y focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] transition-colors ${isDraggingSource ? 'border-[var(--text-accent)] border-dashed' : 'border-[var(--border-med)]'}`}
+                        />
+                        <p className={`text-[10px] mt-1 ${sourceText.length > MAX_SOURCE_TEXT_CHARS ? 'text-amber-500' : 'text-[var(--text-muted)]'}`}>
+                            {sourceText.length.toLocaleString()} characters
+                            {sourceText.length > MAX_SOURCE_TEXT_CHARS && ` • only the first ${MAX_SOURCE_TEXT_CHARS.toLocaleString()} will be used`}
+                        </p>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-3">
                     <div>
                          <label htmlFor="diagramType" className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-1">Type</label>
@@ -131,12 +305,53 @@ const Controls: React.FC<ControlsProps> = ({
 
                  <button
                     onClick={onGenerate}
-                    disabled={isLoading || !topic}
+                    disabled={isLoading || !canGenerate}
                     className="w-full bg-gradient-to-r from-[var(--text-accent)] to-[var(--bg-panel-header-dark)] text-white font-bold py-3 px-4 rounded-xl shadow-lg hover:shadow-xl hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none transition-all flex items-center justify-center"
                 >
                     {isLoading && <svg className="animate-spin -ml-1 mr-3 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>}
-                    {isLoading ? 'GENERATING...' : 'GENERATE DIAGRAM'}
+                    {isLoading ? (streamedNodeCount > 0 ? `GENERATING... (${streamedNodeCount} NODES)` : 'GENERATING...') : 'GENERATE DIAGRAM'}
                 </button>
+                {isLoading && (
+                    <button
+                        onClick={onCancelGenerate}
+                        className="w-full -mt-2 bg-[var(--bg-alt)] text-red-500 border border-[var(--border-med)] hover:border-red-300 font-semibold py-2 px-4 rounded-xl transition-colors text-sm"
+                    >
+                        Cancel
+                    </button>
+                )}
+            </div>
+
+            <hr className="border-[var(--border-light)]" />
+
+            {/* Section: Documents */}
+            <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Recent Documents</h2>
+                    <button onClick={onNewDocument} className="text-xs font-bold text-[var(--text-accent)] hover:underline">+ New</button>
+                </div>
+                {documents.length === 0 ? (
+                    <p className="text-xs text-[var(--text-muted)]">No saved documents yet.</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {documents.slice(0, RECENT_DOCUMENTS_LIMIT).map(doc => (
+                            <li
+                                key={doc.id}
+                                className={`group flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${doc.id === currentDocumentId ? 'border-[var(--text-accent)] bg-[var(--bg-alt)]' : 'border-transparent hover:bg-[var(--bg-alt)]'}`}
+                                onClick={() => onOpenDocument(doc.id)}
+                            >
+                                <div className="flex-grow min-w-0">
+                                    <div className="text-sm font-semibold text-[var(--text)] truncate">{doc.name}</div>
+                                    <div className="text-[10px] text-[var(--text-muted)]">{doc.diagramType} • {formatUpdatedAt(doc.updatedAt)}</div>
+                                </div>
+                                <div className="hidden group-hover:flex gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+                                    <button onClick={() => onRenameDocument(doc.id)} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-accent)]" title="Rename">✎</button>
+                                    <button onClick={() => onDuplicateDocument(doc.id)} className="p-1 text-[var(--text-muted)] hover:text-[var(--text-accent)]" title="Duplicate">⧉</button>
+                                    <button onClick={() => onDeleteDocument(doc.id)} className="p-1 text-[var(--text-muted)] hover:text-red-500" title="Delete">✕</button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </div>
 
             <hr className="border-[var(--border-light)]" />
@@ -144,31 +359,76 @@ const Controls: React.FC<ControlsProps> = ({
             {/* Section: Auto Layout */}
             <div className="space-y-3">
                 <h2 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Auto Layout</h2>
-                <div className="grid grid-cols-3 gap-2">
-                    <button 
-                        onClick={() => onAutoLayout('tree')}
-                        className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
-                        title="Tree Layout"
-                    >
-                         <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 3v18M8 8l4-4 4 4M8 16l4 4 4-4" strokeLinecap="round" strokeLinejoin="round"/></svg>
-                         <span className="text-[10px] font-medium text-[var(--text)]">Tree</span>
-                    </button>
-                     <button 
-                        onClick={() => onAutoLayout('horizontal')}
-                        className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
-                        title="Horizontal Tree"
-                    >
-                         <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 12h18M8 8l-4 4 4 4M16 8l4 4-4 4" strokeLinecap="round" strokeLinejoin="round"/></svg>
-                         <span className="text-[10px] font-medium text-[var(--text)]">Horiz.</span>
-                    </button>
-                    <button 
-                        onClick={() => onAutoLayout('radial')}
-                        className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
-                        title="Radial Mind Map"
-                    >
-                         <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="3"/><path d="M12 9V3M12 15v6M9 12H3M15 12h6M4.9 4.9l2.1 2.1M17 17l2.1 2.1M4.9 19.1l2.1-2.1M17 7l2.1-2.1"/></svg>
-                         <span className="text-[10px] font-medium text-[var(--text)]">Radial</span>
-                    </button>
+                <fieldset disabled={readOnly} className="space-y-3 disabled:opacity-50">
+                    <div className="grid grid-cols-3 gap-2">
+                        <button 
+                            onClick={() => onAutoLayout('tree')}
+                            className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
+                            title="Tree Layout"
+                        >
+                             <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 3v18M8 8l4-4 4 4M8 16l4 4 4-4" strokeLinecap="round" strokeLinejoin="round"/></svg>
+                             <span className="text-[10px] font-medium text-[var(--text)]">Tree</span>
+                        </button>
+                         <button 
+                            onClick={() => onAutoLayout('horizontal')}
+                            className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
+                            title="Horizontal Tree"
+                        >
+                             <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 12h18M8 8l-4 4 4 4M16 8l4 4-4 4" strokeLinecap="round" strokeLinejoin="round"/></svg>
+                             <span className="text-[10px] font-medium text-[var(--text)]">Horiz.</span>
+                        </button>
+                        <button 
+                            onClick={() => onAutoLayout('radial')}
+                            className="flex flex-col items-center justify-center p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg hover:border-[var(--text-accent)] transition-colors"
+                            title="Radial Mind Map"
+                        >
+                             <svg className="w-5 h-5 mb-1 text-[var(--text-muted)]" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="3"/><path d="M12 9V3M12 15v6M9 12H3M15 12h6M4.9 4.9l2.1 2.1M17 17l2.1 2.1M4.9 19.1l2.1-2.1M17 7l2.1-2.1"/></svg>
+                             <span className="text-[10px] font-medium text-[var(--text)]">Radial</span>
+                        </button>
+                    </div>
+
+                    <div>
+                        <label className="block text-[10px] font-bold text-[var(--text-muted)] uppercase tracking-wider mb-1">Connectors</label>
+                        <div className="grid grid-cols-3 gap-1 p-1 bg-[var(--bg-alt)] border border-[var(--border-light)] rounded-lg">
+                            {ROUTING_OPTIONS.map(option => (
+                                <button
+                                    key={option.value}
+                                    onClick={() => onRoutingChange(option.value)}
+                                    className={`py-1 text-[10px] font-bold rounded-md transition-colors ${routing === option.value ? 'bg-[var(--bg-panel)] text-[var(--text-accent)] shadow-sm' : 'text-[var(--text-muted)] hover:text-[var(--text)]'}`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </fieldset>
+
+                <div>
+                    <label htmlFor="gridSize" className="block text-[10px] font-bold text-[var(--text-muted)] uppercase tracking-wider mb-1">Grid & Snapping</label>
+                    <div className="p-2 bg-[var(--bg-alt)] border border-[var(--border-light)] rounded-lg space-y-1">
+                        {SNAP_TOGGLES.map(toggle => (
+                            <label key={toggle.key} className="flex items-center justify-between text-xs text-[var(--text)] cursor-pointer">
+                                {toggle.label}
+                                <input
+                                    type="checkbox"
+                                    checked={snapSettings[toggle.key]}
+                                    onChange={(e) => onSnapSettingsChange({ ...snapSettings, [toggle.key]: e.target.checked })}
+                                    className="accent-[var(--text-accent)]"
+                                />
+                            </label>
+                        ))}
+                        <div className="flex items-center justify-between text-xs text-[var(--text)]">
+                            Grid size
+                            <select
+                                id="gridSize"
+                                value={snapSettings.gridSize}
+                                onChange={(e) => onSnapSettingsChange({ ...snapSettings, gridSize: parseInt(e.target.value, 10) })}
+                                className="px-2 py-0.5 bg-[var(--bg-panel)] border border-[var(--border-med)] rounded text-xs"
+                            >
+                                {GRID_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+                            </select>
+                        </div>
+                    </div>
                 </div>
             </div>
 
@@ -226,52 +486,196 @@ const Controls: React.FC<ControlsProps> = ({
                  <h2 className="text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">Tools</h2>
                  <button
                     onClick={onAddNode}
-                    className="w-full bg-[var(--bg-alt)] text-[var(--text-accent)] border border-[var(--border-med)] hover:border-[var(--text-accent)] font-semibold py-2 px-4 rounded-lg transition-all flex items-center justify-center gap-2 text-sm"
+                    disabled={readOnly}
+                    className="w-full bg-[var(--bg-alt)] text-[var(--text-accent)] border border-[var(--border-med)] hover:border-[var(--text-accent)] font-semibold py-2 px-4 rounded-lg transition-all flex items-center justify-center gap-2 text-sm disabled:opacity-50"
                 >
                     <span className="text-lg">+</span> Add Node Manually
                 </button>
-                 <button onClick={onDownloadSVG} className="w-full bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm">
+                 <button onClick={() => onDownloadSVG(embedSvgFont)} className="w-full bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm" title="Standalone SVG that opens correctly in other tools">
                     Download SVG
                  </button>
-                 
-                 <div className="pt-2">
-                    <label htmlFor="canvasWidth" className="text-xs text-[var(--text-muted)] block mb-1">Canvas Size</label>
-                    <div className="flex gap-2">
-                        <input
-                            type="number"
-                            value={canvasWidth}
-                            onChange={(e) => onCanvasSizeChange('width', parseInt(e.target.value, 10) || 0)}
-                            className="w-1/2 px-2 py-1 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded text-xs"
-                            placeholder="W"
-                        />
-                        <input
-                            type="number"
-                            value={canvasHeight}
-                            onChange={(e) => onCanvasSizeChange('height', parseInt(e.target.value, 10) || 0)}
-                            className="w-1/2 px-2 py-1 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded text-xs"
-                            placeholder="H"
-                        />
+                 <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                    <input
+                        type="checkbox"
+                        checked={embedSvgFont}
+                        onChange={(e) => setEmbedSvgFont(e.target.checked)}
+                        className="accent-[var(--text-accent)]"
+                    />
+                    Embed font in SVG
+                 </label>
+                 <details className="text-xs text-[var(--text-muted)]">
+                    <summary className="cursor-pointer hover:text-[var(--text-accent)] mb-2 list-none font-bold">Export PDF</summary>
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={pdfOptions.pageSize}
+                                onChange={(e) => setPdfOptions(o => ({ ...o, pageSize: e.target.value as PdfPageSize }))}
+                                className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-1.5 text-xs text-[var(--text)]"
+                                title="Page size"
+                            >
+                                {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => <option key={size} value={size}>{PDF_PAGE_SIZES[size].label}</option>)}
+                            </select>
+                            <select
+                                value={pdfOptions.orientation}
+                                onChange={(e) => setPdfOptions(o => ({ ...o, orientation: e.target.value as PdfOrientation }))}
+                                className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-1.5 text-xs text-[var(--text)]"
+                                title="Orientation"
+                            >
+                                <option value="portrait">Portrait</option>
+                                <option value="landscape">Landscape</option>
+                            </select>
+                        </div>
+                        <select
+                            value={pdfOptions.layout}
+                            onChange={(e) => setPdfOptions(o => ({ ...o, layout: e.target.value as PdfLayout }))}
+                            className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-1.5 text-xs text-[var(--text)]"
+                        >
+                            <option value="fit">Fit to one page</option>
+                            <option value="tile">Actual size, tiled across pages</option>
+                        </select>
+                        <label className="flex items-center gap-2 text-[var(--text)]">
+                            <input
+                                type="checkbox"
+                                checked={pdfOptions.cropMarks}
+                                onChange={(e) => setPdfOptions(o => ({ ...o, cropMarks: e.target.checked }))}
+                                className="accent-[var(--text-accent)]"
+                            />
+                            Crop marks
+                        </label>
+                        <button
+                            onClick={() => onExportPdf(pdfOptions)}
+                            className="w-full bg-[var(--bg-panel-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] transition-colors text-xs"
+                        >
+                            Download PDF
+                        </button>
+                        <button
+                            onClick={() => onExportHierarchyPdf(pdfOptions)}
+                            className="w-full bg-[var(--bg-panel-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] transition-colors text-xs"
+                            title="Every diagram and sub-diagram, each starting on a new page"
+                        >
+                            Download PDF with sub-diagrams
+                        </button>
+                    </div>
+                 </details>
+                 <button
+                    onClick={async () => {
+                        if (!(await onCopyShareLink())) return;
+                        setLinkCopied(true);
+                        setTimeout(() => setLinkCopied(false), 2000);
+                    }}
+                    className="w-full bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm"
+                    title="A link that opens this diagram read-only, with its theme and background"
+                 >
+                    {isLinkCopied ? 'Link copied ✓' : 'Copy share link'}
+                 </button>
+                 <button onClick={onExportMermaid} className="w-full bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm">
+                    Export Mermaid
+                 </button>
+                 <div className="space-y-1">
+                    <p className="text-xs text-[var(--text-muted)]">Export as editable</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        <button onClick={onExportDrawio} className="bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-2 rounded-lg hover:bg-[var(--border-light)] transition-colors text-xs" title="draw.io / diagrams.net">
+                            draw.io
+                        </button>
+                        <button onClick={onExportExcalidraw} className="bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-2 rounded-lg hover:bg-[var(--border-light)] transition-colors text-xs">
+                            Excalidraw
+                        </button>
+                        <button onClick={onExportPptx} className="bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-2 rounded-lg hover:bg-[var(--border-light)] transition-colors text-xs" title="One PowerPoint slide with native shapes and connectors">
+                            PowerPoint
+                        </button>
                     </div>
                  </div>
+                 <button onClick={onExportHierarchy} className="w-full bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm" title="All diagrams and sub-diagrams in one linked HTML page">
+                    Export Hierarchy (HTML)
+                 </button>
+                 <fieldset disabled={readOnly} className="space-y-3 disabled:opacity-50">
+                     <details className="text-xs text-[var(--text-muted)]">
+                        <summary className="cursor-pointer hover:text-[var(--text-accent)] mb-2 list-none font-bold">Import Mermaid</summary>
+                        <textarea
+                            spellCheck="false"
+                            value={mermaidText}
+                            onChange={(e) => setMermaidText(e.target.value)}
+                            placeholder={'flowchart TD\n    A[Start] --> B[Finish]'}
+                            className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-2 font-mono text-xs resize-y min-h-[100px]"
+                        />
+                        <button
+                            onClick={() => onImportMermaid(mermaidText)}
+                            disabled={!mermaidText.trim()}
+                            className="w-full mt-2 bg-[var(--bg-panel-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] disabled:opacity-50 transition-colors text-xs"
+                        >
+                            Import from Mermaid
+                        </button>
+                     </details>
+                     <label className="block w-full text-center bg-[var(--bg-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-2 px-4 rounded-lg hover:bg-[var(--border-light)] transition-colors text-sm cursor-pointer" title="draw.io (.drawio), Graphviz (.dot, .gv), JSON Canvas (.canvas) or a shared diagram (.flow.json)">
+                        Import draw.io / DOT / Canvas…
+                        <input type="file" accept={DIAGRAM_FILE_ACCEPT} className="hidden" onChange={(e) => { loadDiagramFile(e.target.files?.[0]); e.target.value = ''; }} />
+                     </label>
+                 
+                     <div className="pt-2">
+                        <label htmlFor="canvasWidth" className="text-xs text-[var(--text-muted)] block mb-1">Canvas Size</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="number"
+                                value={canvasWidth}
+                                onChange={(e) => onCanvasSizeChange('width', parseInt(e.target.value, 10) || 0)}
+                                className="w-1/2 px-2 py-1 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded text-xs"
+                                placeholder="W"
+                            />
+                            <input
+                                type="number"
+                                value={canvasHeight}
+                                onChange={(e) => onCanvasSizeChange('height', parseInt(e.target.value, 10) || 0)}
+                                className="w-1/2 px-2 py-1 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded text-xs"
+                                placeholder="H"
+                            />
+                        </div>
+                     </div>
+                 </fieldset>
             </div>
 
-            <div className="mt-auto pt-4">
-                 <details className="text-xs text-[var(--text-muted)]">
-                    <summary className="cursor-pointer hover:text-[var(--text-accent)] mb-2 list-none font-bold">Edit JSON Data</summary>
-                    <textarea
-                        spellCheck="false"
-                        value={jsonText}
-                        onChange={(e) => setJsonText(e.target.value)}
-                        className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-2 font-mono text-xs resize-y min-h-[100px]"
-                    />
-                     <button
-                        onClick={onRender}
-                        className="w-full mt-2 bg-[var(--bg-panel-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] transition-colors text-xs"
-                    >
-                        Update from JSON
-                    </button>
-                </details>
-            </div>
+            <fieldset disabled={readOnly} className="mt-auto pt-4 space-y-3 disabled:opacity-50">
+                     {outlineData && (
+                        <details className="text-xs text-[var(--text-muted)]">
+                            <summary className="cursor-pointer hover:text-[var(--text-accent)] mb-2 list-none font-bold">Edit as Outline</summary>
+                            <OutlineEditor data={outlineData} onApply={onApplyOutline} />
+                            <p className="mt-1">One bullet per node as <span className="font-mono">Title: Description</span>; indent with Tab to nest.</p>
+                        </details>
+                     )}
+                     <details className="text-xs text-[var(--text-muted)]">
+                        <summary className="cursor-pointer hover:text-[var(--text-accent)] mb-2 list-none font-bold">Edit JSON Data</summary>
+                        <textarea
+                            spellCheck="false"
+                            value={jsonText}
+                            onChange={(e) => setJsonText(e.target.value)}
+                            className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-2 font-mono text-xs resize-y min-h-[100px]"
+                        />
+                        {jsonIssues.length > 0 && (
+                            <div className="mt-2 max-h-40 overflow-y-auto rounded-md border border-[var(--border-med)] bg-[var(--bg-alt)] divide-y divide-[var(--border-light)]">
+                                {jsonIssues.map((issue, idx) => (
+                                    <div key={idx} className="px-2 py-1 flex gap-2">
+                                        <span className={issue.severity === 'error' ? 'text-red-500 font-bold' : 'text-amber-500 font-bold'}>{issue.severity === 'error' ? '✕' : '!'}</span>
+                                        <span className="font-mono text-[var(--text-accent)] shrink-0">{issue.path}</span>
+                                        <span className="text-[var(--text)]">{issue.message}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {jsonIssues.some(i => i.fixable) && (
+                            <button
+                                onClick={onRepairJson}
+                                className="w-full mt-2 bg-[var(--bg-panel-alt)] text-[var(--text-accent)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] transition-colors text-xs"
+                            >
+                                Auto-repair {jsonIssues.filter(i => i.fixable).length} issue(s)
+                            </button>
+                        )}
+                         <button
+                            onClick={onRender}
+                            className="w-full mt-2 bg-[var(--bg-panel-alt)] text-[var(--text)] border border-[var(--border-med)] font-semibold py-1 px-2 rounded-md hover:bg-[var(--border-light)] transition-colors text-xs"
+                        >
+                            Update from JSON
+                        </button>
+                    </details>
+            </fieldset>
 
         </div>
     </div>
@@ -1,13 +1,26 @@
 
 import React, { useState, useEffect, useCallback, useLayoutEffect, useRef, useMemo } from 'react';
-import { FlowchartData, Position, Node as NodeType, Connector as ConnectorType, SideBox as SideBoxType, SupportingPanel as SupportingPanelType, DiagramType, Size } from '../types';
+import { FlowchartData, Position, Node as NodeType, Connector as ConnectorType, SideBox as SideBoxType, SupportingPanel as SupportingPanelType, Annotation as AnnotationType, DiagramType, Size, ArrowHead } from '../types';
+import { DiffHighlight } from '../services/diagramDiff';
+import { createRouteCache, getRouteMidpoint } from '../services/routing';
+import { resolveConnectorStyle, getMarkerId } from '../services/connectorStyle';
+import { rectFromPoints, getNodesInRect } from '../services/selection';
+import { getVisibleDiagram, getHiddenCounts } from '../services/folding';
+import { computeSnap, snapValueToGrid, SnapSettings, AlignmentGuide, SpacingHint } from '../services/snapping';
+import { getNodeShapePath, getNodeShapeDetailPath, getNodeContentBox, getHeightForContent, getNodeAnchor, AnchorSide } from '../services/shapes';
+import { getLaneBands, getGroupFrame, isHorizontalLanes } from '../services/lanes';
+import { getSideBoxRect, getSideBoxLink, getSideBoxOffset, getCalloutTail } from '../services/annotations';
+import { ICONS } from '../constants';
 
 // --- Draggable Hook ---
 const useDraggable = (
     initialPosition: Position, 
     onDragEnd: (p: Position) => void, 
     scale: number = 1,
-    onDrag?: (p: Position) => void
+    onDrag?: (p: Position) => void,
+    disabled: boolean = false,
+    // Adjusts the raw dragged position, e.g. to snap it to a grid or to alignment guides.
+    constrain?: (p: Position) => Position
 ) => {
     const [position, setPosition] = useState(initialPosition);
     const [dragState, setDragState] = useState({ isDragging: false, start: { x: 0, y: 0 }, elStart: { x: 0, y: 0 } });
@@ -15,11 +28,13 @@ const useDraggable = (
     // Use refs to keep callbacks and state stable in event handlers
     const onDragRef = useRef(onDrag);
     const onDragEndRef = useRef(onDragEnd);
+    const constrainRef = useRef(constrain);
     const positionRef = useRef(position);
 
     useLayoutEffect(() => {
         onDragRef.current = onDrag;
         onDragEndRef.current = onDragEnd;
+        constrainRef.current = constrain;
         positionRef.current = position;
     });
 
@@ -47,7 +62,8 @@ const useDraggable = (
         const dx = (clientX - dragState.start.x) / scale;
         const dy = (clientY - dragState.start.y) / scale;
         
-        const newPos = { x: dragState.elStart.x + dx, y: dragState.elStart.y + dy };
+        const rawPos = { x: dragState.elStart.x + dx, y: dragState.elStart.y + dy };
+        const newPos = constrainRef.current ? constrainRef.current(rawPos) : rawPos;
         setPosition(newPos);
         
         if (onDragRef.current) {
@@ -81,6 +97,7 @@ const useDraggable = (
     }, [dragState.isDragging, handleMove, handleEnd]);
 
     const handleStart = (e: React.MouseEvent | React.TouchEvent) => {
+        if (disabled) return;
         e.stopPropagation();
         if ('button' in e && e.button !== 0) return;
         if ('touches' in e && e.touches.length > 1) return;
@@ -101,16 +118,40 @@ const useDraggable = (
 
 // --- Helper Functions and Components ---
 
-const getIcon = (iconName?: string): string => {
-  switch (iconName) {
-    case 'droplet': return '💧'; case 'spring': return '➰'; case 'spark': return '⚡️';
-    case 'exhaust': return '💨'; case 'gear': return '⚙️'; case 'pump': return '⛽️';
-    case 'bolt': return '⚡️'; case 'idea': return '💡'; case 'check': return '✅';
-    case 'warning': return '⚠️'; case 'search': return '🔍';
-    default: return '📄';
-  }
+const getIcon = (iconName?: string): string => (iconName && ICONS[iconName]) || '📄';
+
+const getClientPoint = (e: MouseEvent | TouchEvent | React.MouseEvent | React.TouchEvent) => {
+    if ('touches' in e) {
+        const touch = e.touches[0] || e.changedTouches[0];
+        return { x: touch.clientX, y: touch.clientY };
+    }
+    return { x: e.clientX, y: e.clientY };
+};
+
+// Converts a pointer position to canvas coordinates, accounting for pan and zoom.
+const clientToCanvas = (svg: SVGSVGElement | null, client: Position): Position => {
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return client;
+    const pt = svg.createSVGPoint();
+    pt.x = client.x;
+    pt.y = client.y;
+    const local = pt.matrixTransform(ctm.inverse());
+    return { x: local.x, y: local.y };
+};
+
+// Topmost node under a canvas point, matching the paint order of the node layer.
+const findNodeAt = (nodes: NodeType[], p: Position): NodeType | null => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+        const { position, size } = nodes[i];
+        if (p.x >= position.x && p.x <= position.x + size.w && p.y >= position.y && p.y <= position.y + size.h) {
+            return nodes[i];
+        }
+    }
+    return null;
 };
 
+const ANCHOR_SIDES: AnchorSide[] = ['top', 'right', 'bottom', 'left'];
+
 const MIND_MAP_PALETTE = [
     '#ef4444', // Red
     '#f97316', // Orange
@@ -127,21 +168,26 @@ const MIND_MAP_PALETTE = [
 interface DraggableSupportingPanelProps {
     panel: SupportingPanelType;
     nodes: NodeType[];
-    onPositionChange: (newPosition: Position, commit?: boolean) => void;
+    onPositionChange: (panelId: string, newPosition: Position, commit?: boolean) => void;
+    onDoubleClick?: (panelId: string) => void;
+    onItemDoubleClick?: (panelId: string, itemId: string) => void;
     fontFamily: string;
     scale: number;
+    readOnly?: boolean;
+    snapPosition?: (pos: Position, size: Size) => Position;
 }
 
-const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ panel, nodes, onPositionChange, fontFamily, scale }) => {
+const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ panel, nodes, onPositionChange, onDoubleClick, onItemDoubleClick, fontFamily, scale, readOnly, snapPosition }) => {
     const handleDrag = useCallback((newPos: Position) => {
-        onPositionChange(newPos, false);
-    }, [onPositionChange]);
+        onPositionChange(panel.id, newPos, false);
+    }, [panel.id, onPositionChange]);
 
     const handleDragEnd = useCallback((newPos: Position) => {
-        onPositionChange(newPos, true);
-    }, [onPositionChange]);
+        onPositionChange(panel.id, newPos, true);
+    }, [panel.id, onPositionChange]);
 
-    const { position, dragHandlers } = useDraggable(panel.position, handleDragEnd, scale, handleDrag);
+    const constrain = useMemo(() => snapPosition ? (p: Position) => snapPosition(p, panel.size) : undefined, [snapPosition, panel.size]);
+    const { position, dragHandlers } = useDraggable(panel.position, handleDragEnd, scale, handleDrag, readOnly, constrain);
     const textRefs = React.useRef<(HTMLDivElement | null)[]>([]);
     const [itemLayouts, setItemLayouts] = useState<{y: number, height: number}[]>([]);
     
@@ -149,6 +195,8 @@ const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ pan
         const newLayouts: {y: number, height: number}[] = [];
         let yOffset = position.y + 56; // Header height 48 + spacing 8
         
+        // Refs of removed items linger past the end of the list.
+        textRefs.current.length = panel.items.length;
         textRefs.current.forEach((el) => {
             const textHeight = el?.scrollHeight ?? 0;
             const itemHeight = Math.max(50, textHeight + 20);
@@ -184,6 +232,7 @@ const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ pan
                 d={`M ${px} ${py+12} a 12 12 0 0 1 12 -12 h ${pw-24} a 12 12 0 0 1 12 12 v 36 h -${pw} z`} 
                 fill="var(--bg-panel-header)" 
                 {...dragHandlers} 
+                onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) onDoubleClick?.(panel.id); }}
                 className="svg-draggable" 
             />
             <text x={px + 16} y={py + 30} fontSize={15} fontWeight="700" fill="var(--text-header)" style={{ pointerEvents: 'none', letterSpacing: '0.05em' }}>
@@ -202,7 +251,7 @@ const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ pan
                 const dPath = node ? `M ${fromX} ${fromY} C ${fromX - 60} ${fromY}, ${toX} ${toY - 60}, ${toX} ${toY}` : '';
 
                 return (
-                    <g key={item.id}>
+                    <g key={item.id} onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) onItemDoubleClick?.(panel.id, item.id); }}>
                          {node && (
                             <path d={dPath} stroke={item.color || '#64748b'} strokeWidth="1.5" strokeDasharray="4 4" fill="none" markerEnd="url(#arrowhead)" opacity="0.5" />
                         )}
@@ -231,6 +280,114 @@ const DraggableSupportingPanel: React.FC<DraggableSupportingPanelProps> = ({ pan
     );
 };
 
+// --- Side Boxes & Annotations ---
+
+interface DraggableSideBoxProps {
+    box: SideBoxType;
+    node: NodeType;
+    scale: number;
+    readOnly?: boolean;
+    onOffsetChange?: (boxId: string, offset: Position) => void;
+    onDoubleClick?: (boxId: string) => void;
+}
+
+const DraggableSideBox: React.FC<DraggableSideBoxProps> = ({ box, node, scale, readOnly, onOffsetChange, onDoubleClick }) => {
+    const rect = getSideBoxRect(box, node);
+    const handleDragEnd = useCallback((p: Position) => {
+        onOffsetChange?.(box.id, getSideBoxOffset(box, node, p));
+    }, [box, node, onOffsetChange]);
+    const { position, dragHandlers } = useDraggable({ x: rect.x, y: rect.y }, handleDragEnd, scale, undefined, readOnly || !onOffsetChange);
+    const { from, to } = getSideBoxLink({ ...box, offset: getSideBoxOffset(box, node, position) }, node);
+
+    return (
+        <g>
+             <path d={`M ${from.x} ${from.y} L ${to.x} ${to.y}`} stroke="var(--border-dark)" strokeWidth="1" strokeDasharray={box.lineStyle === 'dotted' ? '3 3' : ''} vectorEffect="non-scaling-stroke" />
+             <g
+                 {...dragHandlers}
+                 onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) onDoubleClick?.(box.id); }}
+                 className={readOnly || !onOffsetChange ? undefined : 'svg-draggable'}
+             >
+                 <rect x={position.x} y={position.y} width={box.size.w} height={box.size.h} rx={4} fill="var(--bg-panel-alt)" stroke="var(--border-med)" vectorEffect="non-scaling-stroke" />
+                 <foreignObject x={position.x} y={position.y} width={box.size.w} height={box.size.h}>
+                     <div className="flex items-center justify-center h-full text-xs text-center p-2 text-[var(--text-muted)]">
+                         {box.text}
+                     </div>
+                 </foreignObject>
+             </g>
+        </g>
+    );
+};
+
+const STICKY_COLOR = '#fef08a';
+
+interface DraggableAnnotationProps {
+    annotation: AnnotationType;
+    // The node a callout points at.
+    target?: NodeType;
+    scale: number;
+    readOnly?: boolean;
+    snapPosition?: (pos: Position, size: Size) => Position;
+    onPositionChange?: (id: string, pos: Position) => void;
+    onDoubleClick?: (id: string) => void;
+}
+
+const DraggableAnnotation: React.FC<DraggableAnnotationProps> = ({ annotation, target, scale, readOnly, snapPosition, onPositionChange, onDoubleClick }) => {
+    const [isHovered, setIsHovered] = useState(false);
+    const handleDragEnd = useCallback((p: Position) => {
+        onPositionChange?.(annotation.id, { x: Math.round(p.x), y: Math.round(p.y) });
+    }, [annotation.id, onPositionChange]);
+    const constrain = useMemo(() => snapPosition ? (p: Position) => snapPosition(p, annotation.size) : undefined, [snapPosition, annotation.size]);
+    const { position, dragHandlers } = useDraggable(annotation.position, handleDragEnd, scale, undefined, readOnly || !onPositionChange, constrain);
+    const { w, h } = annotation.size;
+    const tail = annotation.kind === 'callout' && target ? getCalloutTail({ ...annotation, position }, target) : null;
+    const fill = annotation.kind === 'sticky' ? annotation.color || STICKY_COLOR : annotation.color || 'var(--bg-panel)';
+
+    return (
+        <g
+            {...dragHandlers}
+            onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) onDoubleClick?.(annotation.id); }}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+            className={readOnly || !onPositionChange ? undefined : 'svg-draggable'}
+        >
+            {tail && (
+                <polygon points={tail.map(p => `${p.x},${p.y}`).join(' ')} fill={fill} stroke="var(--border-dark)" strokeWidth="1" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+            )}
+            {annotation.kind === 'sticky' && (
+                <>
+                    <rect x={position.x} y={position.y} width={w} height={h} rx={3} fill={fill} filter="url(#ds-sm)" />
+                    <path d={`M ${position.x + w - 18} ${position.y + h} L ${position.x + w} ${position.y + h - 18} L ${position.x + w - 18} ${position.y + h - 18} Z`} fill="#000" opacity="0.08" />
+                </>
+            )}
+            {annotation.kind === 'callout' && (
+                <rect x={position.x} y={position.y} width={w} height={h} rx={10} fill={fill} stroke="var(--border-dark)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            )}
+            {annotation.kind === 'text' && (
+                // Transparent hit area so plain text can be grabbed between the letters.
+                <rect x={position.x} y={position.y} width={w} height={h} fill="transparent" />
+            )}
+            {annotation.kind === 'text' && isHovered && !readOnly && (
+                <rect data-editor-only x={position.x} y={position.y} width={w} height={h} rx={4} fill="none" stroke="var(--text-accent)" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+            )}
+            <foreignObject x={position.x} y={position.y} width={w} height={h} style={{ pointerEvents: 'none' }}>
+                <div
+                    className="h-full overflow-hidden whitespace-pre-wrap break-words"
+                    style={{
+                        padding: annotation.kind === 'text' ? '4px' : '10px 12px',
+                        fontSize: annotation.kind === 'text' ? '16px' : '13px',
+                        fontWeight: annotation.kind === 'text' ? 600 : 500,
+                        lineHeight: 1.35,
+                        // Sticky notes keep dark text on their light paper in every theme.
+                        color: annotation.kind === 'sticky' ? '#1f2937' : annotation.kind === 'text' ? annotation.color || 'var(--text)' : 'var(--text)',
+                    }}
+                >
+                    {annotation.text}
+                </div>
+            </foreignObject>
+        </g>
+    );
+};
+
 // --- Draggable Node Component ---
 
 interface DraggableNodeProps {
@@ -242,9 +399,28 @@ interface DraggableNodeProps {
     zoom: number;
     diagramType: DiagramType;
     accentColor?: string;
+    highlight?: DiffHighlight;
+    readOnly?: boolean;
+    // Called when the user presses one of the hover handles to start drawing a connector.
+    onConnectStart?: (nodeId: string, side: AnchorSide, e: React.MouseEvent | React.TouchEvent) => void;
+    selected?: boolean;
+    onSelect?: (nodeId: string, additive: boolean) => void;
+    snapPosition?: (nodeId: string, pos: Position) => Position;
+    // Present only for nodes with outgoing connectors.
+    onToggleCollapse?: (nodeId: string) => void;
+    hiddenCount?: number;
+    onOpenSubDiagram?: (nodeId: string) => void;
+    // Static exports turn the sub-diagram badge into a link to the child diagram.
+    subDiagramHref?: string;
 }
 
-const DraggableNode: React.FC<DraggableNodeProps> = ({ node, index, onPositionChange, onSizeChange, onDoubleClick, zoom, diagramType, accentColor }) => {
+const HIGHLIGHT_COLORS: Record<DiffHighlight, string> = {
+    added: '#10b981',
+    modified: '#f59e0b',
+};
+
+const DraggableNode: React.FC<DraggableNodeProps> = ({ node, index, onPositionChange, onSizeChange, onDoubleClick, zoom, diagramType, accentColor, highlight, readOnly, onConnectStart, selected, onSelect, snapPosition, onToggleCollapse, hiddenCount = 0, onOpenSubDiagram, subDiagramHref }) => {
+    const [isHovered, setIsHovered] = useState(false);
     const handleDrag = useCallback((newPos: Position) => {
         onPositionChange(node.id, newPos, false);
     }, [node.id, onPositionChange]);
@@ -253,57 +429,104 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({ node, index, onPositionCh
         onPositionChange(node.id, newPos, true);
     }, [node.id, onPositionChange]);
 
-    const { position, dragHandlers } = useDraggable(node.position, handleDragEnd, zoom, handleDrag);
+    const constrain = useMemo(() => snapPosition ? (p: Position) => snapPosition(node.id, p) : undefined, [snapPosition, node.id]);
+    const { position, dragHandlers } = useDraggable(node.position, handleDragEnd, zoom, handleDrag, readOnly, constrain);
     const contentRef = React.useRef<HTMLDivElement>(null);
 
     // Auto-resize node based on text content
     useLayoutEffect(() => {
-        if (contentRef.current) {
+        if (contentRef.current && !readOnly) {
             const contentHeight = contentRef.current.scrollHeight;
-            const newHeight = Math.max(86, contentHeight + 40); 
+            const newHeight = getHeightForContent(node.type, contentHeight);
             if (Math.abs(newHeight - node.size.h) > 5) {
                onSizeChange(node.id, { w: node.size.w, h: newHeight });
             }
         }
-    }, [node.description, node.title, node.size.w, onSizeChange, node.id, diagramType]);
+    }, [node.description, node.title, node.size.w, node.type, onSizeChange, node.id, diagramType, readOnly]);
 
     const { x, y } = position;
     const { w, h } = node.size;
-    const iconY = diagramType === DiagramType.MINDMAP ? 43 : h / 2;
-
-    const strokeColor = accentColor || (node.type === 'output' ? 'var(--text-accent)' : 'var(--border-med)');
-    const strokeWidth = accentColor ? 2 : (node.type === 'output' ? 2 : 1);
+    const cornerRadius = diagramType === DiagramType.MINDMAP ? 20 : 8;
+    const shapePath = getNodeShapePath(node.type, w, h, cornerRadius);
+    const detailPath = getNodeShapeDetailPath(node.type, w, h);
+    const box = getNodeContentBox(node.type, w, h);
+    const iconY = diagramType === DiagramType.MINDMAP ? box.y + 43 : box.y + box.h / 2;
+    const emphasised = node.type === 'output' || node.type === 'terminator';
+
+    const strokeColor = accentColor || (emphasised ? 'var(--text-accent)' : 'var(--border-med)');
+    const strokeWidth = accentColor ? 2 : (emphasised ? 2 : 1);
+    // Diamonds have no room for the index badge, so their text is centred instead.
+    const textX = box.showIndex ? box.x + 80 : box.x + 4;
+    const textWidth = box.showIndex ? box.w - 90 : box.w - 8;
+
+    // Select on press so a drag that starts on an unselected node moves just that node.
+    const handlePress = (e: React.MouseEvent | React.TouchEvent) => {
+        if (!readOnly && onSelect && !('button' in e && e.button !== 0)) {
+            onSelect(node.id, e.shiftKey);
+        }
+        dragHandlers.onMouseDown(e);
+    };
 
     return (
-        <g transform={`translate(${x}, ${y})`} className="svg-draggable" onDoubleClick={(e) => { e.stopPropagation(); onDoubleClick(node); }}>
+        <g 
+            transform={`translate(${x}, ${y})`} 
+            className={readOnly ? undefined : 'svg-draggable'} 
+            onDoubleClick={(e) => { e.stopPropagation(); if (!readOnly) onDoubleClick(node); }}
+            onMouseEnter={() => setIsHovered(true)}
+            onMouseLeave={() => setIsHovered(false)}
+        >
              <defs>
                 <clipPath id={`clip-${node.id}`}>
-                    <rect width={w} height={h} rx={diagramType === DiagramType.MINDMAP ? 20 : 8} />
+                    <path d={shapePath} />
                 </clipPath>
             </defs>
             
-            <rect 
-                width={w} 
-                height={h} 
-                rx={diagramType === DiagramType.MINDMAP ? 20 : 8} 
-                fill={`url(#grad-node-${node.type === 'output' ? 'output' : 'main'})`} 
+            <path 
+                d={shapePath}
+                fill={`url(#grad-node-${emphasised ? 'output' : 'main'})`} 
                 stroke={strokeColor}
                 strokeWidth={strokeWidth}
                 style={{ filter: 'url(#ds-sm)' }}
-                {...dragHandlers}
+                onMouseDown={handlePress}
+                onTouchStart={handlePress}
             />
+            {detailPath && <path d={detailPath} fill="none" stroke={strokeColor} strokeWidth={strokeWidth} pointerEvents="none" />}
+
+            {selected && (
+                <rect
+                    data-editor-only
+                    x={-4} y={-4} width={w + 8} height={h + 8}
+                    rx={cornerRadius + 4}
+                    fill="none" stroke="var(--text-accent)" strokeWidth={2}
+                    pointerEvents="none"
+                />
+            )}
+
+            {highlight && (
+                <rect
+                    x={-6} y={-6} width={w + 12} height={h + 12}
+                    rx={cornerRadius + 6}
+                    fill="none" stroke={HIGHLIGHT_COLORS[highlight]} strokeWidth={3} strokeDasharray="8 4"
+                    pointerEvents="none"
+                />
+            )}
             
             {/* Index Number Circle */}
-            <circle cx={40} cy={iconY} r={20} fill="var(--bg-panel)" stroke={accentColor || "var(--border-dark)"} strokeWidth={2} />
-            <text x={40} y={iconY + 6} fontSize="18" fontWeight="bold" textAnchor="middle" fill="var(--text)" pointerEvents="none">{index}</text>
+            {box.showIndex && (
+                <>
+                    <circle cx={box.x + 40} cy={iconY} r={20} fill="var(--bg-panel)" stroke={accentColor || "var(--border-dark)"} strokeWidth={2} />
+                    <text x={box.x + 40} y={iconY + 6} fontSize="18" fontWeight="bold" textAnchor="middle" fill="var(--text)" pointerEvents="none">{index}</text>
+                </>
+            )}
 
             {/* Text Content */}
-            <foreignObject x={80} y={10} width={w - 90} height={h - 20} style={{ pointerEvents: 'none' }}>
+            <foreignObject x={textX} y={box.y + 10} width={Math.max(0, textWidth)} height={Math.max(0, box.h - 20)} style={{ pointerEvents: 'none' }}>
                 <div ref={contentRef} style={{ 
                     fontFamily: 'var(--font)', 
                     display: 'flex', 
                     flexDirection: 'column', 
                     justifyContent: diagramType === DiagramType.MINDMAP ? 'flex-start' : 'center',
+                    textAlign: box.showIndex ? undefined : 'center',
                     height: '100%',
                     paddingTop: diagramType === DiagramType.MINDMAP ? '12px' : '0'
                 }}>
@@ -311,6 +534,74 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({ node, index, onPositionCh
                     <div style={{ fontSize: '13px', color: 'var(--text-muted)', lineHeight: '1.4' }}>{node.description}</div>
                 </div>
             </foreignObject>
+
+            {/* Sub-diagram Badge */}
+            {node.subDiagram && (() => {
+                const badge = (
+                    <g transform={`translate(${w - 18}, 0)`}>
+                        <rect x={-26} y={-12} width={52} height={24} rx={12} fill="var(--bg-panel)" stroke={accentColor || 'var(--text-accent)'} strokeWidth={2} />
+                        <path d="M -16 -4 h 8 v 8 h -8 z M -13 -7 h 8 v 8" fill="none" stroke={accentColor || 'var(--text-accent)'} strokeWidth={1.5} />
+                        <text x={6} y={4} textAnchor="middle" fontSize="11" fontWeight="bold" fill="var(--text)" pointerEvents="none">{node.subDiagram.nodes.length}</text>
+                        <title>{`Open sub-diagram "${node.subDiagram.title}"`}</title>
+                    </g>
+                );
+                if (subDiagramHref) return <a href={subDiagramHref}>{badge}</a>;
+                return (
+                    <g
+                        style={{ cursor: onOpenSubDiagram ? 'pointer' : 'default' }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => { e.stopPropagation(); onOpenSubDiagram?.(node.id); }}
+                    >
+                        {badge}
+                    </g>
+                );
+            })()}
+
+            {/* Collapse / Expand Toggle */}
+            {node.collapsed && hiddenCount > 0 ? (
+                <g
+                    transform={`translate(${w}, ${h})`}
+                    style={{ cursor: readOnly || !onToggleCollapse ? 'default' : 'pointer' }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => { e.stopPropagation(); if (!readOnly) onToggleCollapse?.(node.id); }}
+                >
+                    <rect x={-22} y={-12} width={44} height={24} rx={12} fill={accentColor || 'var(--text-accent)'} />
+                    <text x={0} y={5} textAnchor="middle" fontSize="12" fontWeight="bold" fill="#ffffff" pointerEvents="none">+{hiddenCount}</text>
+                    <title>{`Expand ${hiddenCount} hidden node${hiddenCount === 1 ? '' : 's'}`}</title>
+                </g>
+            ) : isHovered && !readOnly && onToggleCollapse && (
+                <g
+                    data-editor-only
+                    transform={`translate(${w}, ${h})`}
+                    style={{ cursor: 'pointer' }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={(e) => { e.stopPropagation(); onToggleCollapse(node.id); }}
+                >
+                    <circle r={10} fill="var(--bg-panel)" stroke={accentColor || 'var(--text-accent)'} strokeWidth={2} />
+                    <path d={node.collapsed ? 'M -5 0 H 5 M 0 -5 V 5' : 'M -5 0 H 5'} stroke={accentColor || 'var(--text-accent)'} strokeWidth={2} strokeLinecap="round" />
+                    <title>{node.collapsed ? 'Expand branch' : 'Collapse branch'}</title>
+                </g>
+            )}
+
+            {/* Connection Handles */}
+            {isHovered && !readOnly && onConnectStart && ANCHOR_SIDES.map(side => {
+                const anchor = getNodeAnchor({ type: node.type, position: { x: 0, y: 0 }, size: node.size }, side);
+                return (
+                    <circle
+                        key={side}
+                        data-editor-only
+                        cx={anchor.x}
+                        cy={anchor.y}
+                        r={7}
+                        fill="var(--bg-panel)"
+                        stroke="var(--text-accent)"
+                        strokeWidth={2}
+                        style={{ cursor: 'crosshair' }}
+                        onMouseDown={(e) => { if (e.button === 0) onConnectStart(node.id, side, e); }}
+                        onTouchStart={(e) => onConnectStart(node.id, side, e)}
+                    />
+                );
+            })}
         </g>
     );
 };
@@ -321,7 +612,13 @@ const DraggableNode: React.FC<DraggableNodeProps> = ({ node, index, onPositionCh
 interface FlowchartProps {
   data: FlowchartData | null;
   svgRef: React.RefObject<SVGSVGElement | null>;
-  onPanelPositionChange: (pos: Position, commit?: boolean) => void;
+  onPanelPositionChange: (panelId: string, pos: Position, commit?: boolean) => void;
+  onPanelDoubleClick?: (panelId: string) => void;
+  onSideBoxOffsetChange?: (boxId: string, offset: Position) => void;
+  onSideBoxDoubleClick?: (boxId: string) => void;
+  onPanelItemDoubleClick?: (panelId: string, itemId: string) => void;
+  onAnnotationPositionChange?: (id: string, pos: Position) => void;
+  onAnnotationDoubleClick?: (id: string) => void;
   onNodePositionChange: (id: string, pos: Position, commit?: boolean) => void;
   onNodeSizeChange: (id: string, size: Size) => void;
   onNodeDoubleClick: (node: NodeType) => void;
@@ -331,12 +628,66 @@ interface FlowchartProps {
   pan: Position;
   onPanChange: (p: Position) => void;
   diagramType: DiagramType;
+  // Disables every editing interaction; panning and zooming still work.
+  readOnly?: boolean;
+  highlights?: Record<string, DiffHighlight>;
+  onConnectorClick?: (id: string) => void;
+  selectedConnectorId?: string | null;
+  onConnectorCreate?: (from: string, to: string) => void;
+  onConnectorReconnect?: (id: string, end: 'from' | 'to', nodeId: string) => void;
+  selectedNodeIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  snapSettings?: SnapSettings;
+  onToggleCollapse?: (id: string) => void;
+  onOpenSubDiagram?: (id: string) => void;
+  subDiagramHref?: (nodeId: string) => string | undefined;
 }
 
+interface ConnectDrag {
+    // End of the preview line that stays put, and the node it belongs to.
+    origin: Position;
+    anchorNodeId: string;
+    pointer: Position;
+    // Set when an existing connector's endpoint is being moved rather than a new one drawn.
+    reconnect?: { connectorId: string; end: 'from' | 'to' };
+}
+
+const DEFAULT_MARKER_COLOR = 'var(--border-dark)';
+const GUIDE_COLOR = '#ec4899';
+
+// Line-end shapes; orient="auto-start-reverse" lets the same marker serve as markerStart and markerEnd.
+const ConnectorMarker: React.FC<{ head: ArrowHead; color: string }> = ({ head, color }) => {
+    const id = getMarkerId(head, color);
+    if (head === 'diamond') {
+        return (
+            <marker id={id} markerWidth="12" markerHeight="8" refX="11" refY="4" orient="auto-start-reverse">
+                <polygon points="0 4, 6 0, 12 4, 6 8" fill={color} />
+            </marker>
+        );
+    }
+    if (head === 'circle') {
+        return (
+            <marker id={id} markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto-start-reverse">
+                <circle cx="4" cy="4" r="3" fill="var(--bg-alt)" stroke={color} strokeWidth="1.5" />
+            </marker>
+        );
+    }
+    return (
+        <marker id={id} markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto-start-reverse">
+            <polygon points="0 0, 10 3.5, 0 7" fill={color} />
+        </marker>
+    );
+};
+
 const Flowchart: React.FC<FlowchartProps> = ({ 
-    data, svgRef, onPanelPositionChange, onNodePositionChange, onNodeSizeChange, onNodeDoubleClick, onCanvasResize, zoom, onZoomChange, pan, onPanChange, diagramType
+    data: sourceData, svgRef, onPanelPositionChange, onPanelDoubleClick, onSideBoxOffsetChange, onSideBoxDoubleClick, onPanelItemDoubleClick, onAnnotationPositionChange, onAnnotationDoubleClick, onNodePositionChange, onNodeSizeChange, onNodeDoubleClick, onCanvasResize, zoom, onZoomChange, pan, onPanChange, diagramType, readOnly = false, highlights, onConnectorClick, selectedConnectorId, onConnectorCreate, onConnectorReconnect, selectedNodeIds = [], onSelectionChange, snapSettings, onToggleCollapse, onOpenSubDiagram, subDiagramHref
 }) => {
-  if (!data) return <div className="w-full h-full flex items-center justify-center text-[var(--text-muted)]">No data to render</div>;
+  if (!sourceData) return <div className="w-full h-full flex items-center justify-center text-[var(--text-muted)]">No data to render</div>;
+
+  // Everything below works on the visible diagram; folded branches are not drawn at all.
+  const data = useMemo(() => getVisibleDiagram(sourceData), [sourceData]);
+  const hiddenCounts = useMemo(() => getHiddenCounts(sourceData), [sourceData]);
+  const parentIds = useMemo(() => new Set(sourceData.connectors.map(c => c.from)), [sourceData.connectors]);
 
   // Compute Mind Map Colors
   const nodeColorMap = useMemo(() => {
@@ -406,8 +757,229 @@ const Flowchart: React.FC<FlowchartProps> = ({
 
   }, [data.nodes, data.connectors, diagramType, data.canvas]);
 
+  // Recomputed whenever anything that can block a connector moves, so exports always match the canvas.
+  // The cache only re-routes the connectors such a change can affect.
+  const routeCache = useMemo(() => createRouteCache(), []);
+  const connectorRoutes = useMemo(
+    () => routeCache(data, diagramType),
+    [data.nodes, data.connectors, data.sideBoxes, data.supportingPanels, data.routing, diagramType]
+  );
+
+  const connectorStyles = useMemo(
+    () => Object.fromEntries(data.connectors.map(c => [c.id, resolveConnectorStyle(c, diagramType)])),
+    [data.connectors, diagramType]
+  );
+
+  // One marker definition per (head, colour) pair actually in use.
+  const markers = useMemo(() => {
+    const unique = new Map<string, { head: ArrowHead; color: string }>();
+    data.connectors.forEach(c => {
+        const style = connectorStyles[c.id];
+        const color = style.stroke || DEFAULT_MARKER_COLOR;
+        [style.arrowStart, style.arrowEnd].forEach(head => {
+            if (head !== 'none') unique.set(getMarkerId(head, color), { head, color });
+        });
+    });
+    return [...unique.values()];
+  }, [data.connectors, connectorStyles]);
+
+  const laneBands = useMemo(() => getLaneBands(data), [data.nodes, data.lanes, data.laneOrientation]);
+  const groupFrames = useMemo(
+    () => (data.groups || []).map(group => ({ group, rect: getGroupFrame(data, group) })).filter(g => g.rect),
+    [data.nodes, data.groups]
+  );
+
+  // --- Connector Drawing & Reconnecting ---
+  const [connectDrag, setConnectDrag] = useState<ConnectDrag | null>(null);
+  const connectDragRef = useRef(connectDrag);
+  const nodesRef = useRef(data.nodes);
+  const connectCallbacks = useRef({ onConnectorCreate, onConnectorReconnect });
+
+  useLayoutEffect(() => {
+      connectDragRef.current = connectDrag;
+      nodesRef.current = data.nodes;
+      connectCallbacks.current = { onConnectorCreate, onConnectorReconnect };
+  });
+
+  const isConnecting = connectDrag !== null;
+
+  useEffect(() => {
+      if (!isConnecting) return;
+
+      const handleMove = (e: MouseEvent | TouchEvent) => {
+          e.preventDefault();
+          const pointer = clientToCanvas(svgRef.current, getClientPoint(e));
+          setConnectDrag(d => d ? { ...d, pointer } : d);
+      };
+
+      const handleEnd = (e: MouseEvent | TouchEvent) => {
+          const drag = connectDragRef.current;
+          setConnectDrag(null);
+          if (!drag) return;
+          const target = findNodeAt(nodesRef.current, clientToCanvas(svgRef.current, getClientPoint(e)));
+          if (!target || target.id === drag.anchorNodeId) return;
+          const { onConnectorCreate: create, onConnectorReconnect: reconnect } = connectCallbacks.current;
+          if (drag.reconnect) {
+              reconnect?.(drag.reconnect.connectorId, drag.reconnect.end, target.id);
+          } else {
+              create?.(drag.anchorNodeId, target.id);
+          }
+      };
+
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('touchmove', handleMove, { passive: false });
+      window.addEventListener('mouseup', handleEnd);
+      window.addEventListener('touchend', handleEnd);
+      return () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('touchmove', handleMove);
+          window.removeEventListener('mouseup', handleEnd);
+          window.removeEventListener('touchend', handleEnd);
+      };
+  }, [isConnecting, svgRef]);
+
+  const handleConnectStart = useCallback((nodeId: string, side: AnchorSide, e: React.MouseEvent | React.TouchEvent) => {
+      e.stopPropagation();
+      const node = data.nodes.find(n => n.id === nodeId);
+      if (!node) return;
+      const origin = getNodeAnchor(node, side);
+      setConnectDrag({ origin, anchorNodeId: nodeId, pointer: clientToCanvas(svgRef.current, getClientPoint(e)) });
+  }, [data.nodes, svgRef]);
+
+  const startReconnect = (conn: ConnectorType, end: 'from' | 'to', e: React.MouseEvent | React.TouchEvent) => {
+      e.stopPropagation();
+      if ('button' in e && e.button !== 0) return;
+      const route = connectorRoutes[conn.id];
+      if (!route) return;
+      // The opposite end stays attached while the grabbed one follows the pointer.
+      const fixed = end === 'to' ? route.points[0] : route.points[route.points.length - 1];
+      setConnectDrag({
+          origin: fixed,
+          anchorNodeId: end === 'to' ? conn.from : conn.to,
+          pointer: clientToCanvas(svgRef.current, getClientPoint(e)),
+          reconnect: { connectorId: conn.id, end },
+      });
+  };
+
+  const connectTarget = connectDrag ? findNodeAt(data.nodes, connectDrag.pointer) : null;
+  const selectedConnector = selectedConnectorId ? data.connectors.find(c => c.id === selectedConnectorId) : undefined;
+  const selectedRoute = selectedConnector ? connectorRoutes[selectedConnector.id] : undefined;
+
+  // --- Selection ---
+  const selectedSet = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
+  const [marquee, setMarquee] = useState<{ start: Position; current: Position } | null>(null);
+  const marqueeRef = useRef(marquee);
+  const selectionRef = useRef({ selectedNodeIds, onSelectionChange });
+  // Where a press on the empty canvas began; a click that barely moved from it clears the selection.
+  const canvasPressRef = useRef<Position | null>(null);
+
+  useLayoutEffect(() => {
+      marqueeRef.current = marquee;
+      selectionRef.current = { selectedNodeIds, onSelectionChange };
+  });
+
+  const handleNodeSelect = useCallback((id: string, additive: boolean) => {
+      if (!onSelectionChange) return;
+      if (additive) {
+          onSelectionChange(selectedSet.has(id) ? selectedNodeIds.filter(s => s !== id) : [...selectedNodeIds, id]);
+      } else if (!selectedSet.has(id)) {
+          onSelectionChange([id]);
+      }
+  }, [onSelectionChange, selectedNodeIds, selectedSet]);
+
+  const isMarqueeActive = marquee !== null;
+
+  useEffect(() => {
+      if (!isMarqueeActive) return;
+
+      const handleMove = (e: MouseEvent) => {
+          const current = clientToCanvas(svgRef.current, getClientPoint(e));
+          setMarquee(m => m ? { ...m, current } : m);
+      };
+
+      const handleEnd = () => {
+          const box = marqueeRef.current;
+          setMarquee(null);
+          const { selectedNodeIds: existing, onSelectionChange: change } = selectionRef.current;
+          if (!box || !change) return;
+          const hits = getNodesInRect(nodesRef.current, rectFromPoints(box.start, box.current));
+          change([...new Set([...existing, ...hits])]);
+      };
+
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleEnd);
+      return () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleEnd);
+      };
+  }, [isMarqueeActive, svgRef]);
+
+  const marqueeRect = marquee ? rectFromPoints(marquee.start, marquee.current) : null;
+
+  // --- Snapping & Guides ---
+  const [snapFeedback, setSnapFeedback] = useState<{ guides: AlignmentGuide[]; spacing: SpacingHint[] } | null>(null);
+  // Guides catch within a fixed on-screen distance regardless of zoom.
+  const snapThreshold = 6 / zoom;
+  const snapEnabled = !!snapSettings && (snapSettings.snapToGrid || snapSettings.showGuides);
+
+  const snapNodePosition = useCallback((id: string, pos: Position): Position => {
+      const node = data.nodes.find(n => n.id === id);
+      if (!snapSettings || !node) return pos;
+      // Everything that moves along with the dragged node is excluded from the targets.
+      const isMindMapRoot = diagramType === DiagramType.MINDMAP && !data.connectors.some(c => c.to === id);
+      const moving = isMindMapRoot ? null : selectedSet.has(id) ? selectedSet : new Set([id]);
+      const others = moving
+          ? data.nodes.filter(n => !moving.has(n.id)).map(n => ({ ...n.position, ...n.size }))
+          : [];
+      const result = computeSnap({ ...pos, ...node.size }, others, snapSettings, snapThreshold);
+      setSnapFeedback({ guides: result.guides, spacing: result.spacing });
+      return result.position;
+  }, [data.nodes, data.connectors, diagramType, selectedSet, snapSettings, snapThreshold]);
+
+  // Panels and annotations snap against the nodes.
+  const snapBoxPosition = useCallback((pos: Position, size: Size): Position => {
+      if (!snapSettings) return pos;
+      const others = data.nodes.map(n => ({ ...n.position, ...n.size }));
+      const result = computeSnap({ ...pos, ...size }, others, snapSettings, snapThreshold);
+      setSnapFeedback({ guides: result.guides, spacing: result.spacing });
+      return result.position;
+  }, [data.nodes, snapSettings, snapThreshold]);
+
+  const handleNodePositionChange = useCallback((id: string, pos: Position, commit?: boolean) => {
+      if (commit) setSnapFeedback(null);
+      onNodePositionChange(id, pos, commit);
+  }, [onNodePositionChange]);
+
+  const handlePanelPositionChange = useCallback((id: string, pos: Position, commit?: boolean) => {
+      if (commit) setSnapFeedback(null);
+      onPanelPositionChange(id, pos, commit);
+  }, [onPanelPositionChange]);
+
+  const handleAnnotationPositionChange = useCallback((id: string, pos: Position) => {
+      setSnapFeedback(null);
+      onAnnotationPositionChange?.(id, pos);
+  }, [onAnnotationPositionChange]);
+
   // Canvas Draggable (Panning)
   const { position: canvasPan, dragHandlers: canvasDrag } = useDraggable(pan, (p) => onPanChange(p), 1, (p) => onPanChange(p));
+
+  // Shift-dragging the empty canvas draws a selection marquee; a plain drag pans.
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+      canvasPressRef.current = { x: e.clientX, y: e.clientY };
+      if (e.shiftKey && e.button === 0 && onSelectionChange && !readOnly) {
+          const start = clientToCanvas(svgRef.current, { x: e.clientX, y: e.clientY });
+          setMarquee({ start, current: start });
+          return;
+      }
+      canvasDrag.onMouseDown(e);
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent) => {
+      const press = canvasPressRef.current;
+      canvasPressRef.current = null;
+      if (!press || e.shiftKey || !onSelectionChange || selectedNodeIds.length === 0) return;
+      if (Math.hypot(e.clientX - press.x, e.clientY - press.y) < 4) onSelectionChange([]);
+  };
   
   // Canvas Resizer
   const handleResizeDrag = (p: Position) => {
@@ -416,11 +988,16 @@ const Flowchart: React.FC<FlowchartProps> = ({
   const handleResizeEnd = (p: Position) => {
       onCanvasResize({ w: Math.max(100, p.x), h: Math.max(100, p.y) }, true);
   };
+  const snapResize = useMemo(() => snapSettings?.snapToGrid
+      ? (p: Position) => ({ x: snapValueToGrid(p.x, snapSettings.gridSize), y: snapValueToGrid(p.y, snapSettings.gridSize) })
+      : undefined, [snapSettings]);
   const { position: resizeHandle, dragHandlers: resizeDrag } = useDraggable(
       { x: data.canvas.width, y: data.canvas.height }, 
       handleResizeEnd, 
       zoom, 
-      handleResizeDrag
+      handleResizeDrag,
+      readOnly,
+      snapResize
   );
 
   // --- Pinch Zoom Logic ---
@@ -504,7 +1081,9 @@ const Flowchart: React.FC<FlowchartProps> = ({
     <div 
         ref={containerRef}
         className="w-full h-full overflow-hidden cursor-grab active:cursor-grabbing bg-[var(--bg-alt)] relative" 
-        {...canvasDrag}
+        onMouseDown={handleCanvasMouseDown}
+        onTouchStart={canvasDrag.onTouchStart}
+        onClick={handleCanvasClick}
     >
       <svg
         ref={svgRef}
@@ -563,6 +1142,12 @@ const Flowchart: React.FC<FlowchartProps> = ({
           <marker id="arrowhead" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
             <polygon points="0 0, 10 3.5, 0 7" fill="var(--border-dark)" />
           </marker>
+          {markers.map(m => <ConnectorMarker key={getMarkerId(m.head, m.color)} head={m.head} color={m.color} />)}
+          {snapSettings?.showGrid && (
+            <pattern id="canvas-grid" width={snapSettings.gridSize} height={snapSettings.gridSize} patternUnits="userSpaceOnUse">
+                <path d={`M ${snapSettings.gridSize} 0 L 0 0 0 ${snapSettings.gridSize}`} fill="none" stroke="var(--border-med)" strokeWidth="0.5" opacity="0.6" />
+            </pattern>
+          )}
         </defs>
 
         <g>
@@ -590,6 +1175,19 @@ const Flowchart: React.FC<FlowchartProps> = ({
                 rx="16"
                 opacity="0.3"
             />
+
+            {/* Background Grid */}
+            {snapSettings?.showGrid && (
+                <rect
+                    data-editor-only
+                    x="8" y="8"
+                    width={data.canvas.width - 16}
+                    height={data.canvas.height - 16}
+                    rx="16"
+                    fill="url(#canvas-grid)"
+                    pointerEvents="none"
+                />
+            )}
             
             {/* Header: Neon Ring with Text */}
              <g transform={`translate(${data.canvas.width/2}, 80)`}>
@@ -646,27 +1244,46 @@ const Flowchart: React.FC<FlowchartProps> = ({
                 </text>
              </g>
             
+            {/* Swimlanes */}
+            {laneBands.map(({ lane, rect, header }, i) => {
+                const horizontal = isHorizontalLanes(data);
+                return (
+                    <g key={lane.id}>
+                        <rect x={rect.x} y={rect.y} width={rect.w} height={rect.h} fill={lane.color || (i % 2 === 0 ? 'var(--bg-alt)' : 'var(--bg)')} fillOpacity={lane.color ? 0.12 : 0.7} stroke="var(--border-med)" strokeWidth="1" />
+                        <rect x={header.x} y={header.y} width={header.w} height={header.h} fill={lane.color || 'var(--bg-panel-header)'} fillOpacity={lane.color ? 0.35 : 0.9} stroke="var(--border-med)" strokeWidth="1" />
+                        <text
+                            x={header.x + header.w / 2}
+                            y={header.y + header.h / 2}
+                            textAnchor="middle"
+                            dominantBaseline="central"
+                            fontSize="14"
+                            fontWeight="700"
+                            fill={lane.color ? 'var(--text)' : 'var(--text-header)'}
+                            letterSpacing="0.05em"
+                            transform={horizontal ? `rotate(-90 ${header.x + header.w / 2} ${header.y + header.h / 2})` : undefined}
+                            style={{ pointerEvents: 'none' }}
+                        >
+                            {lane.title}
+                        </text>
+                    </g>
+                );
+            })}
+
+            {/* Group Frames */}
+            {groupFrames.map(({ group, rect }) => (
+                <g key={group.id}>
+                    <rect x={rect!.x} y={rect!.y} width={rect!.w} height={rect!.h} rx="14" fill={group.color || 'var(--text-accent)'} fillOpacity="0.05" stroke={group.color || 'var(--text-accent)'} strokeWidth="1.5" strokeDasharray="8 5" />
+                    <text x={rect!.x + 14} y={rect!.y + 20} fontSize="13" fontWeight="700" fill={group.color || 'var(--text-accent)'} letterSpacing="0.05em" style={{ pointerEvents: 'none' }}>
+                        {group.title}
+                    </text>
+                </g>
+            ))}
+
             {/* Connectors */}
             {data.connectors.map(conn => {
-                const fromNode = data.nodes.find(n => n.id === conn.from);
-                const toNode = data.nodes.find(n => n.id === conn.to);
-                if (!fromNode || !toNode) return null;
-
-                const from = { x: fromNode.position.x + fromNode.size.w / 2, y: fromNode.position.y + fromNode.size.h };
-                const to = { x: toNode.position.x + toNode.size.w / 2, y: toNode.position.y };
-                
-                let d = '';
-                if (diagramType === DiagramType.MINDMAP) {
-                     const fc = { x: fromNode.position.x + fromNode.size.w/2, y: fromNode.position.y + fromNode.size.h/2 };
-                     const tc = { x: toNode.position.x + toNode.size.w/2, y: toNode.position.y + toNode.size.h/2 };
-                     d = `M ${fc.x} ${fc.y} L ${tc.x} ${tc.y}`;
-                } else {
-                    if (fromNode.position.y > toNode.position.y + 50) {
-                         d = `M ${fromNode.position.x + fromNode.size.w} ${fromNode.position.y + fromNode.size.h/2} C ${fromNode.position.x + fromNode.size.w + 100} ${fromNode.position.y + fromNode.size.h/2}, ${toNode.position.x + toNode.size.w + 100} ${toNode.position.y + toNode.size.h/2}, ${toNode.position.x + toNode.size.w} ${toNode.position.y + toNode.size.h/2}`;
-                    } else {
-                        d = `M ${from.x} ${from.y} C ${from.x} ${from.y + 60}, ${to.x} ${to.y - 60}, ${to.x} ${to.y}`;
-                    }
-                }
+                const route = connectorRoutes[conn.id];
+                if (!route) return null;
+                const style = connectorStyles[conn.id];
 
                 // Determine Connector Color
                 let stroke = "var(--border-accent)";
@@ -675,20 +1292,40 @@ const Flowchart: React.FC<FlowchartProps> = ({
                     if (nodeColorMap[conn.to]) stroke = nodeColorMap[conn.to];
                     else if (nodeColorMap[conn.from]) stroke = nodeColorMap[conn.from];
                 }
+                if (style.stroke) stroke = style.stroke;
+                const markerColor = style.stroke || DEFAULT_MARKER_COLOR;
+                const isSelected = conn.id === selectedConnectorId;
 
                 return (
-                    <path 
-                        key={conn.id} 
-                        d={d} 
-                        stroke={stroke} 
-                        strokeWidth={conn.style?.strokeWidth || (diagramType === DiagramType.MINDMAP ? 3 : 2)} 
-                        strokeDasharray={conn.style?.strokeDasharray}
-                        strokeLinecap="round"
-                        fill="none" 
-                        markerEnd={diagramType === DiagramType.MINDMAP ? "" : "url(#arrowhead)"} 
-                        vectorEffect="non-scaling-stroke"
-                        opacity={diagramType === DiagramType.MINDMAP ? 0.7 : 1}
-                    />
+                    <g key={conn.id}>
+                        {isSelected && (
+                            <path data-editor-only d={route.d} stroke="var(--text-accent)" strokeWidth={8} strokeLinecap="round" fill="none" opacity={0.25} vectorEffect="non-scaling-stroke" />
+                        )}
+                        <path 
+                            d={route.d} 
+                            stroke={stroke} 
+                            strokeWidth={style.strokeWidth || (diagramType === DiagramType.MINDMAP ? 3 : 2)} 
+                            strokeDasharray={style.strokeDasharray}
+                            strokeLinecap="round"
+                            fill="none" 
+                            markerStart={style.arrowStart !== 'none' ? `url(#${getMarkerId(style.arrowStart, markerColor)})` : undefined}
+                            markerEnd={style.arrowEnd !== 'none' ? `url(#${getMarkerId(style.arrowEnd, markerColor)})` : undefined} 
+                            vectorEffect="non-scaling-stroke"
+                            opacity={diagramType === DiagramType.MINDMAP ? 0.7 : 1}
+                        />
+                        {/* Wide invisible hit area so thin lines are easy to click */}
+                        {onConnectorClick && !readOnly && (
+                            <path
+                                d={route.d}
+                                stroke="transparent"
+                                strokeWidth={14}
+                                fill="none"
+                                style={{ cursor: 'pointer', pointerEvents: 'stroke' }}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                onClick={(e) => { e.stopPropagation(); onConnectorClick(conn.id); }}
+                            />
+                        )}
+                    </g>
                 );
             })}
 
@@ -698,12 +1335,22 @@ const Flowchart: React.FC<FlowchartProps> = ({
                     key={node.id} 
                     node={node} 
                     index={i + 1}
-                    onPositionChange={onNodePositionChange} 
+                    onPositionChange={handleNodePositionChange} 
                     onSizeChange={onNodeSizeChange}
                     onDoubleClick={onNodeDoubleClick}
                     zoom={zoom}
                     diagramType={diagramType}
                     accentColor={nodeColorMap[node.id]}
+                    highlight={highlights?.[node.id]}
+                    readOnly={readOnly}
+                    onConnectStart={onConnectorCreate ? handleConnectStart : undefined}
+                    selected={selectedSet.has(node.id)}
+                    onSelect={onSelectionChange ? handleNodeSelect : undefined}
+                    snapPosition={snapEnabled ? snapNodePosition : undefined}
+                    onToggleCollapse={onToggleCollapse && (parentIds.has(node.id) || node.collapsed) ? onToggleCollapse : undefined}
+                    hiddenCount={hiddenCounts[node.id]}
+                    onOpenSubDiagram={onOpenSubDiagram}
+                    subDiagramHref={subDiagramHref?.(node.id)}
                 />
             ))}
 
@@ -711,37 +1358,159 @@ const Flowchart: React.FC<FlowchartProps> = ({
             {data.sideBoxes?.map(box => {
                 const anchorNode = data.nodes.find(n => n.id === box.attachToNode);
                 if (!anchorNode) return null;
-                const ax = anchorNode.position.x + anchorNode.size.w;
-                const ay = anchorNode.position.y + anchorNode.size.h / 2;
-                const bx = anchorNode.position.x + anchorNode.size.w + 60;
-                const by = ay - box.size.h/2;
-                
                 return (
-                    <g key={box.id}>
-                         <path d={`M ${ax} ${ay} L ${bx} ${ay}`} stroke="var(--border-dark)" strokeWidth="1" strokeDasharray={box.lineStyle === 'dotted' ? '3 3' : ''} vectorEffect="non-scaling-stroke" />
-                         <rect x={bx} y={by} width={box.size.w} height={box.size.h} rx={4} fill="var(--bg-panel-alt)" stroke="var(--border-med)" vectorEffect="non-scaling-stroke" />
-                         <foreignObject x={bx} y={by} width={box.size.w} height={box.size.h}>
-                             <div className="flex items-center justify-center h-full text-xs text-center p-2 text-[var(--text-muted)]">
-                                 {box.text}
-                             </div>
-                         </foreignObject>
+                    <DraggableSideBox
+                        key={box.id}
+                        box={box}
+                        node={anchorNode}
+                        scale={zoom}
+                        readOnly={readOnly}
+                        onOffsetChange={onSideBoxOffsetChange}
+                        onDoubleClick={onSideBoxDoubleClick}
+                    />
+                );
+            })}
+
+            {/* Connector Labels (above nodes so they are never hidden) */}
+            {data.connectors.map(conn => {
+                const route = connectorRoutes[conn.id];
+                if (!route || !conn.label) return null;
+                const mid = getRouteMidpoint(route);
+                const width = conn.label.length * 7 + 16;
+                return (
+                    <g
+                        key={`label-${conn.id}`}
+                        transform={`translate(${mid.x}, ${mid.y})`}
+                        style={onConnectorClick && !readOnly ? { cursor: 'pointer' } : undefined}
+                        onMouseDown={(e) => onConnectorClick && e.stopPropagation()}
+                        onClick={(e) => { if (onConnectorClick && !readOnly) { e.stopPropagation(); onConnectorClick(conn.id); } }}
+                    >
+                        <rect x={-width / 2} y={-11} width={width} height={22} rx={6} fill="var(--bg-panel)" stroke={conn.color || 'var(--border-light)'} vectorEffect="non-scaling-stroke" />
+                        <text x="0" y="4" textAnchor="middle" fontSize="12" fontWeight="600" fill="var(--text)">{conn.label}</text>
                     </g>
-                )
+                );
             })}
 
-            {/* Supporting Panel */}
-            {data.supportingPanel && (
+            {/* Endpoint handles of the selected connector; drag one onto another node to reconnect */}
+            {selectedConnector && selectedRoute && onConnectorReconnect && !readOnly && !connectDrag && (
+                (['from', 'to'] as const).map(end => {
+                    const p = end === 'from' ? selectedRoute.points[0] : selectedRoute.points[selectedRoute.points.length - 1];
+                    return (
+                        <circle
+                            key={`endpoint-${end}`}
+                            data-editor-only
+                            cx={p.x}
+                            cy={p.y}
+                            r={7}
+                            fill="var(--text-accent)"
+                            stroke="var(--bg-panel)"
+                            strokeWidth={2}
+                            style={{ cursor: 'move' }}
+                            onMouseDown={(e) => startReconnect(selectedConnector, end, e)}
+                            onTouchStart={(e) => startReconnect(selectedConnector, end, e)}
+                        />
+                    );
+                })
+            )}
+
+            {/* Connection Preview */}
+            {connectDrag && (
+                <g data-editor-only pointerEvents="none">
+                    {connectTarget && connectTarget.id !== connectDrag.anchorNodeId && (
+                        <rect
+                            x={connectTarget.position.x - 6} y={connectTarget.position.y - 6}
+                            width={connectTarget.size.w + 12} height={connectTarget.size.h + 12}
+                            rx={12} fill="none" stroke="var(--text-accent)" strokeWidth={3}
+                        />
+                    )}
+                    <path
+                        d={connectDrag.reconnect?.end === 'from'
+                            ? `M ${connectDrag.pointer.x} ${connectDrag.pointer.y} L ${connectDrag.origin.x} ${connectDrag.origin.y}`
+                            : `M ${connectDrag.origin.x} ${connectDrag.origin.y} L ${connectDrag.pointer.x} ${connectDrag.pointer.y}`}
+                        stroke="var(--text-accent)"
+                        strokeWidth={2}
+                        strokeDasharray="6 4"
+                        fill="none"
+                        markerEnd="url(#arrowhead)"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                </g>
+            )}
+
+            {/* Supporting Panels */}
+            {data.supportingPanels?.map(panel => (
                 <DraggableSupportingPanel 
-                    panel={data.supportingPanel} 
+                    key={panel.id}
+                    panel={panel} 
                     nodes={data.nodes} 
-                    onPositionChange={onPanelPositionChange}
+                    onPositionChange={handlePanelPositionChange}
+                    onDoubleClick={onPanelDoubleClick}
+                    onItemDoubleClick={onPanelItemDoubleClick}
                     fontFamily="var(--font)"
                     scale={zoom}
+                    readOnly={readOnly}
+                    snapPosition={snapEnabled ? snapBoxPosition : undefined}
                 />
+            ))}
+
+            {/* Annotations */}
+            {data.annotations?.map(annotation => (
+                <DraggableAnnotation
+                    key={annotation.id}
+                    annotation={annotation}
+                    target={annotation.targetNode ? data.nodes.find(n => n.id === annotation.targetNode) : undefined}
+                    scale={zoom}
+                    readOnly={readOnly}
+                    snapPosition={snapEnabled ? snapBoxPosition : undefined}
+                    onPositionChange={onAnnotationPositionChange && handleAnnotationPositionChange}
+                    onDoubleClick={onAnnotationDoubleClick}
+                />
+            ))}
+
+            {/* Alignment Guides & Equal-Spacing Hints */}
+            {snapFeedback && (
+                <g data-editor-only pointerEvents="none">
+                    {snapFeedback.guides.map((g, i) => (
+                        <line
+                            key={`guide-${i}`}
+                            x1={g.orientation === 'vertical' ? g.position : g.start}
+                            y1={g.orientation === 'vertical' ? g.start : g.position}
+                            x2={g.orientation === 'vertical' ? g.position : g.end}
+                            y2={g.orientation === 'vertical' ? g.end : g.position}
+                            stroke={GUIDE_COLOR} strokeWidth={1} vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                    {snapFeedback.spacing.map((hint, i) => {
+                        const horizontal = hint.axis === 'x';
+                        const tick = 6 / zoom;
+                        return (
+                            <path
+                                key={`spacing-${i}`}
+                                d={horizontal
+                                    ? `M ${hint.from} ${hint.at} H ${hint.to} M ${hint.from} ${hint.at - tick} V ${hint.at + tick} M ${hint.to} ${hint.at - tick} V ${hint.at + tick}`
+                                    : `M ${hint.at} ${hint.from} V ${hint.to} M ${hint.at - tick} ${hint.from} H ${hint.at + tick} M ${hint.at - tick} ${hint.to} H ${hint.at + tick}`}
+                                stroke={GUIDE_COLOR} strokeWidth={1} fill="none" vectorEffect="non-scaling-stroke"
+                            />
+                        );
+                    })}
+                </g>
             )}
             
+            {/* Selection Marquee */}
+            {marqueeRect && (
+                <rect
+                    data-editor-only
+                    x={marqueeRect.x} y={marqueeRect.y} width={marqueeRect.w} height={marqueeRect.h}
+                    fill="var(--text-accent)" fillOpacity={0.08}
+                    stroke="var(--text-accent)" strokeWidth={1} strokeDasharray="4 3"
+                    vectorEffect="non-scaling-stroke"
+                    pointerEvents="none"
+                />
+            )}
+
              {/* Resize Handle */}
-            <circle 
+            {!readOnly && <circle 
+                data-editor-only
                 cx={data.canvas.width} 
                 cy={data.canvas.height} 
                 r={10 / zoom} 
@@ -752,7 +1521,7 @@ const Flowchart: React.FC<FlowchartProps> = ({
                 className="svg-draggable shadow-lg"
                 {...resizeDrag}
                 vectorEffect="non-scaling-stroke"
-            />
+            />}
         </g>
       </svg>
     </div>
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AnnotationKind } from '../types';
+import { ANNOTATION_KINDS, ANNOTATION_LABELS } from '../services/annotations';
+
+interface InsertToolbarProps {
+  onInsertAnnotation: (kind: AnnotationKind) => void;
+  onInsertPanel: () => void;
+  disabled?: boolean;
+}
+
+const ICONS: Record<AnnotationKind | 'panel', string> = {
+  sticky: '🗒️',
+  text: 'T',
+  callout: '💬',
+  panel: '▤',
+};
+
+const buttonClass = 'p-2 w-full text-xs font-bold text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30 flex items-center justify-center';
+
+// Adds free-floating elements to the canvas; double-click one afterwards to edit it.
+const InsertToolbar: React.FC<InsertToolbarProps> = ({ onInsertAnnotation, onInsertPanel, disabled }) => (
+  <div className="bg-[var(--bg-panel)]/90 backdrop-blur-md border border-[var(--border-med)] rounded-xl shadow-lg p-1 flex flex-col items-center">
+      {ANNOTATION_KINDS.map(kind => (
+          <button key={kind} onClick={() => onInsertAnnotation(kind)} disabled={disabled} className={buttonClass} title={`Add ${ANNOTATION_LABELS[kind].toLowerCase()}`}>
+              {ICONS[kind]}
+          </button>
+      ))}
+      <button onClick={onInsertPanel} disabled={disabled} className={buttonClass} title="Add supporting panel">
+          {ICONS.panel}
+      </button>
+  </div>
+);
+
+export default InsertToolbar;
@@ -0,0 +1,120 @@
+import React from 'react';
+
+// Shared frame and form styles for the slide-in inspectors on the right of the canvas.
+
+export const fieldClass = 'w-full px-3 py-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)]';
+// Roomier fields for the inspectors that edit prose (panel items, side boxes).
+export const largeFieldClass = 'w-full px-4 py-3 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-xl focus:outline-none focus:ring-2 focus:ring-[var(--text-accent)] text-[var(--text)]';
+export const labelClass = 'block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider mb-2';
+export const deleteButtonClass = 'w-full py-3 px-4 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 font-semibold rounded-xl transition-colors border border-transparent hover:border-red-200';
+
+export const ACCENT_COLOR_PRESETS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#64748b'];
+export const NOTE_COLOR_PRESETS = ['#fef08a', '#bbf7d0', '#bfdbfe', '#fbcfe8', '#fed7aa', '#e2e8f0'];
+export const LINE_COLOR_PRESETS = ['#64748b', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
+
+interface InspectorShellProps {
+  isOpen: boolean;
+  children?: React.ReactNode;
+}
+
+// The panel sliding in from the right; stays mounted so it can animate out.
+const InspectorShell: React.FC<InspectorShellProps> = ({ isOpen, children }) => (
+  <div className={`fixed inset-y-0 right-0 z-[100] w-96 bg-[var(--bg-panel)]/95 backdrop-blur-xl border-l border-[var(--border-light)] shadow-2xl transform transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+      {children}
+  </div>
+);
+
+interface InspectorBodyProps {
+  title: React.ReactNode;
+  // Shown in small print under the title.
+  subtitle?: React.ReactNode;
+  // Pinned below the fields, usually the save and delete buttons.
+  footer: React.ReactNode;
+  // Disables every field and button below the title; closing still works.
+  readOnly?: boolean;
+  onClose: () => void;
+  children?: React.ReactNode;
+}
+
+export const InspectorBody: React.FC<InspectorBodyProps> = ({ title, subtitle, footer, readOnly, onClose, children }) => (
+  <div className="h-full flex flex-col p-6 overflow-y-auto">
+      <div className={`flex justify-between items-center ${subtitle ? 'mb-2' : 'mb-6'}`}>
+          <h3 className="text-xl font-black uppercase text-[var(--text)] tracking-tight">{title}</h3>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-[var(--bg-alt)] transition-colors">
+              <svg className="w-6 h-6 text-[var(--text-muted)]" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+      </div>
+      {subtitle && <p className="text-xs text-[var(--text-muted)] mb-6 truncate">{subtitle}</p>}
+
+      <fieldset disabled={readOnly} className="flex-grow flex flex-col min-w-0 disabled:opacity-60">
+          <div className="space-y-6 flex-grow">
+              {children}
+          </div>
+
+          <div className="mt-6 space-y-3">
+              {footer}
+          </div>
+      </fieldset>
+  </div>
+);
+
+interface ColorSwatchesProps {
+  value: string | undefined;
+  presets: string[];
+  // Caption of the swatch that clears the color.
+  defaultLabel: string;
+  // What the custom picker shows while no color is set.
+  fallback: string;
+  // `undefined` clears the color.
+  onChange: (color: string | undefined) => void;
+}
+
+export const ColorSwatches: React.FC<ColorSwatchesProps> = ({ value, presets, defaultLabel, fallback, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2">
+      <button
+          onClick={() => onChange(undefined)}
+          className={`px-2 h-6 text-[10px] font-bold rounded-full border ${!value ? 'border-[var(--text-accent)] text-[var(--text-accent)]' : 'border-[var(--border-med)] text-[var(--text-muted)]'}`}
+      >
+          {defaultLabel}
+      </button>
+      {presets.map(color => (
+          <button
+              key={color}
+              onClick={() => onChange(color)}
+              className={`w-6 h-6 rounded-full border transition-transform hover:scale-110 ${value === color ? 'ring-2 ring-offset-1 ring-[var(--text-accent)]' : 'border-[var(--border-med)]'}`}
+              style={{ backgroundColor: color }}
+              title={color}
+          />
+      ))}
+      <input
+          type="color"
+          value={value || fallback}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-6 h-6 rounded-full border-none cursor-pointer bg-transparent"
+          title="Custom color"
+      />
+  </div>
+);
+
+interface EnhanceFieldHeaderProps {
+  htmlFor: string;
+  label: string;
+  isEnhancing: boolean;
+  onEnhance: () => void;
+}
+
+// Label row of a text field that the AI can expand.
+export const EnhanceFieldHeader: React.FC<EnhanceFieldHeaderProps> = ({ htmlFor, label, isEnhancing, onEnhance }) => (
+  <div className="flex justify-between items-center mb-2">
+      <label htmlFor={htmlFor} className="block text-xs font-bold text-[var(--text-muted)] uppercase tracking-wider">{label}</label>
+      <button
+          onClick={onEnhance}
+          disabled={isEnhancing}
+          className="text-xs font-bold text-[var(--text-accent)] hover:underline disabled:opacity-50 flex items-center gap-1"
+      >
+          {isEnhancing ? 'Expanding...' : '✨ Enhance w/ AI'}
+      </button>
+  </div>
+);
+
+export default InspectorShell;
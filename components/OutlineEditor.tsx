@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlowchartData } from '../types';
+import { toOutline } from '../services/outline';
+
+interface OutlineEditorProps {
+  data: FlowchartData;
+  onApply: (text: string) => void;
+}
+
+const APPLY_DELAY_MS = 500;
+const INDENT = '  ';
+
+// Markdown outline of a mind map, kept in sync both ways: typing applies the outline to the
+// diagram after a short pause, and canvas edits rewrite the outline whenever it is not focused
+// (rewriting it mid-typing would move the caret).
+const OutlineEditor: React.FC<OutlineEditorProps> = ({ data, onApply }) => {
+  const [text, setText] = useState(() => toOutline(data));
+  const isFocused = useRef(false);
+  const timer = useRef<number | undefined>(undefined);
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+
+  useEffect(() => {
+    if (!isFocused.current) setText(toOutline(data));
+  }, [data]);
+
+  useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  const scheduleApply = (value: string) => {
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(() => onApplyRef.current(value), APPLY_DELAY_MS);
+  };
+
+  const handleChange = (value: string) => {
+    setText(value);
+    scheduleApply(value);
+  };
+
+  const handleBlur = () => {
+    isFocused.current = false;
+    window.clearTimeout(timer.current);
+    onApplyRef.current(text);
+    setText(toOutline(data));
+  };
+
+  // Tab and Shift+Tab indent and outdent the selected lines, i.e. move items down or up a level.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const area = e.currentTarget;
+    const { selectionStart, selectionEnd } = area;
+    const lineStart = text.lastIndexOf('\n', selectionStart - 1) + 1;
+    const lines = text.slice(lineStart, selectionEnd).split('\n');
+    const changed = lines.map(line => e.shiftKey ? line.replace(/^ {1,2}|^\t/, '') : INDENT + line);
+    const value = text.slice(0, lineStart) + changed.join('\n') + text.slice(lineStart + lines.join('\n').length);
+    const firstDelta = changed[0].length - lines[0].length;
+    const totalDelta = changed.join('\n').length - lines.join('\n').length;
+    handleChange(value);
+    requestAnimationFrame(() => {
+      area.selectionStart = Math.max(lineStart, selectionStart + firstDelta);
+      area.selectionEnd = selectionEnd + totalDelta;
+    });
+  };
+
+  return (
+    <textarea
+        spellCheck="false"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => { isFocused.current = true; }}
+        onBlur={handleBlur}
+        onKeyDown={handleKeyDown}
+        placeholder={'- Central idea: what it is about\n  - Branch: detail'}
+        className="w-full bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-md p-2 font-mono text-xs resize-y min-h-[160px]"
+    />
+  );
+};
+
+export default OutlineEditor;
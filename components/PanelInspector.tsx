@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { SupportingPanel } from '../types';
+import { ICONS } from '../constants';
+import InspectorShell, { InspectorBody, deleteButtonClass, fieldClass, labelClass } from './InspectorShell';
+
+interface PanelInspectorProps {
+  panel: SupportingPanel | null;
+  onChange: (patch: Partial<SupportingPanel>) => void;
+  onAddItem: () => void;
+  onEditItem: (itemId: string) => void;
+  onRemoveItem: (itemId: string) => void;
+  onDelete: () => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const PanelInspector: React.FC<PanelInspectorProps> = ({ panel, onChange, onAddItem, onEditItem, onRemoveItem, onDelete, readOnly, onClose }) => {
+  const [title, setTitle] = useState('');
+
+  useEffect(() => {
+    setTitle(panel?.title || '');
+  }, [panel?.id, panel?.title]);
+
+  const commitTitle = () => {
+    if (!panel || title === panel.title) return;
+    onChange({ title });
+  };
+
+  const commitWidth = (value: number) => {
+    if (!panel || !Number.isFinite(value) || value < 160 || value === panel.size.w) return;
+    onChange({ size: { ...panel.size, w: value } });
+  };
+
+  return (
+    <InspectorShell isOpen={!!panel}>
+        {panel && (
+            <InspectorBody
+                title="Edit Panel"
+                readOnly={readOnly}
+                onClose={onClose}
+                footer={
+                    <button onClick={onDelete} className={deleteButtonClass}>
+                        Delete Panel
+                    </button>
+                }
+            >
+                <div>
+                    <label htmlFor="panel-title" className={labelClass}>Title</label>
+                    <input
+                        id="panel-title"
+                        type="text"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        onBlur={commitTitle}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitTitle(); }}
+                        className={fieldClass}
+                    />
+                </div>
+
+                <div>
+                    <label htmlFor="panel-width" className={labelClass}>Width</label>
+                    <input
+                        key={`${panel.id}-${panel.size.w}`}
+                        id="panel-width"
+                        type="number"
+                        min={160}
+                        defaultValue={panel.size.w}
+                        onBlur={(e) => commitWidth(parseInt(e.target.value, 10))}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitWidth(parseInt(e.currentTarget.value, 10)); }}
+                        className={fieldClass}
+                    />
+                </div>
+
+                <div>
+                    <label className={labelClass}>Items</label>
+                    <div className="space-y-2">
+                        {panel.items.map(item => (
+                            <div key={item.id} className="flex items-center gap-2 p-2 bg-[var(--bg-alt)] border border-[var(--border-med)] rounded-lg">
+                                <span className="w-1 self-stretch rounded-full" style={{ backgroundColor: item.color || '#3b82f6' }} />
+                                <button onClick={() => onEditItem(item.id)} className="flex-1 min-w-0 text-left text-sm text-[var(--text)] hover:text-[var(--text-accent)]" title="Edit item">
+                                    <span className="mr-1">{ICONS[item.icon] || '📄'}</span>
+                                    <span className="font-semibold truncate">{item.title || 'Untitled'}</span>
+                                </button>
+                                <button onClick={() => onRemoveItem(item.id)} className="px-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-xs font-semibold" title="Remove item">
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={onAddItem}
+                            className="w-full py-2 px-4 bg-white dark:bg-slate-700 border border-[var(--border-med)] rounded-lg shadow-sm hover:shadow-md transition-all text-sm font-semibold text-[var(--text-accent)]"
+                        >
+                            + Add Item
+                        </button>
+                    </div>
+                </div>
+            </InspectorBody>
+        )}
+    </InspectorShell>
+  );
+};
+
+export default PanelInspector;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Node, SupportingPanelItem } from '../types';
+import { ICONS } from '../constants';
+import InspectorShell, { InspectorBody, ACCENT_COLOR_PRESETS, ColorSwatches, EnhanceFieldHeader, deleteButtonClass, labelClass, largeFieldClass } from './InspectorShell';
+
+interface PanelItemInspectorProps {
+  item: SupportingPanelItem | null;
+  nodes: Node[];
+  // `undefined` values clear the field.
+  onSave: (patch: Partial<SupportingPanelItem>) => void;
+  onEnhance: (title: string, description: string) => Promise<string>;
+  onDelete: () => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+// Edits one item of a supporting panel. Like the node editor, changes apply on save.
+const PanelItemInspector: React.FC<PanelItemInspectorProps> = ({ item, nodes, onSave, onEnhance, onDelete, readOnly, onClose }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [icon, setIcon] = useState('');
+  const [connectsToNode, setConnectsToNode] = useState('');
+  const [color, setColor] = useState<string | undefined>(undefined);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+
+  // Only a different item resets the form; the diagram re-rendering underneath must not wipe unsaved edits.
+  useEffect(() => {
+    setTitle(item?.title || '');
+    setDescription(item?.description || '');
+    setIcon(item?.icon || '');
+    setConnectsToNode(item?.connectsToNode || '');
+    setColor(item?.color);
+    setEnhanceError(null);
+  }, [item?.id]);
+
+  const handleEnhance = async () => {
+    setIsEnhancing(true);
+    setEnhanceError(null);
+    try {
+      setDescription(await onEnhance(title, description));
+    } catch (err) {
+      setEnhanceError(err instanceof Error ? err.message : 'Failed to enhance the description.');
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave({ title, description, icon, connectsToNode: connectsToNode || undefined, color });
+    onClose();
+  };
+
+  return (
+    <InspectorShell isOpen={!!item}>
+        {item && (
+            <InspectorBody
+                title="Edit Panel Item"
+                readOnly={readOnly}
+                onClose={onClose}
+                footer={
+                    <>
+                        <button
+                            onClick={handleSave}
+                            className="w-full py-3 px-4 bg-[var(--text-accent)] text-white font-bold rounded-xl shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all"
+                        >
+                            Save Changes
+                        </button>
+                        <button onClick={onDelete} className={deleteButtonClass}>
+                            Delete Item
+                        </button>
+                    </>
+                }
+            >
+                <div>
+                    <label htmlFor="item-title" className={labelClass}>Title</label>
+                    <input
+                        autoFocus
+                        id="item-title"
+                        type="text"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        className={`${largeFieldClass} text-lg font-bold`}
+                    />
+                </div>
+
+                <div>
+                    <EnhanceFieldHeader htmlFor="item-desc" label="Description" isEnhancing={isEnhancing} onEnhance={handleEnhance} />
+                    <textarea
+                        id="item-desc"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        className={`${largeFieldClass} h-32 resize-none`}
+                    />
+                    {enhanceError && <p className="mt-2 text-xs text-red-500">{enhanceError}</p>}
+                </div>
+
+                <div>
+                    <label htmlFor="item-icon" className={labelClass}>Icon</label>
+                    <select id="item-icon" value={icon} onChange={(e) => setIcon(e.target.value)} className={largeFieldClass}>
+                        {!ICONS[icon] && <option value={icon}>📄 {icon || 'None'}</option>}
+                        {Object.entries(ICONS).map(([name, emoji]) => <option key={name} value={name}>{emoji} {name}</option>)}
+                    </select>
+                </div>
+
+                <div>
+                    <label htmlFor="item-target" className={labelClass}>Connects To</label>
+                    <select id="item-target" value={connectsToNode} onChange={(e) => setConnectsToNode(e.target.value)} className={largeFieldClass}>
+                        <option value="">Nothing</option>
+                        {nodes.map(n => <option key={n.id} value={n.id}>{n.title || n.id}</option>)}
+                    </select>
+                </div>
+
+                <div>
+                    <label className={labelClass}>Accent Color</label>
+                    <ColorSwatches value={color} presets={ACCENT_COLOR_PRESETS} defaultLabel="Default" fallback="#3b82f6" onChange={setColor} />
+                </div>
+            </InspectorBody>
+        )}
+    </InspectorShell>
+  );
+};
+
+export default PanelItemInspector;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { AlignMode, DistributeAxis } from '../services/selection';
+
+interface SelectionToolbarProps {
+  count: number;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const ALIGN_ACTIONS: { mode: AlignMode; title: string; icon: string }[] = [
+  { mode: 'left', title: 'Align left edges', icon: 'M4 3v18M8 7h10M8 15h6' },
+  { mode: 'center', title: 'Align horizontal centers', icon: 'M12 3v18M6 7h12M8 15h8' },
+  { mode: 'right', title: 'Align right edges', icon: 'M20 3v18M6 7h10M10 15h6' },
+  { mode: 'top', title: 'Align top edges', icon: 'M3 4h18M7 8v10M15 8v6' },
+  { mode: 'middle', title: 'Align vertical centers', icon: 'M3 12h18M7 6v12M15 8v8' },
+  { mode: 'bottom', title: 'Align bottom edges', icon: 'M3 20h18M7 6v10M15 10v6' },
+];
+
+const DISTRIBUTE_ACTIONS: { axis: DistributeAxis; title: string; icon: string }[] = [
+  { axis: 'horizontal', title: 'Space evenly horizontally', icon: 'M4 4v16M20 4v16M10 8v8M14 8v8' },
+  { axis: 'vertical', title: 'Space evenly vertically', icon: 'M4 4h16M4 20h16M8 10h8M8 14h8' },
+];
+
+const buttonClass = 'p-2 text-[var(--text-muted)] hover:text-[var(--text-accent)] hover:bg-[var(--bg-alt)] rounded-lg disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-[var(--text-muted)]';
+
+const ToolbarIcon: React.FC<{ d: string }> = ({ d }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={d} />
+  </svg>
+);
+
+// Floating actions for the current multi-selection, shown above the canvas.
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ count, onAlign, onDistribute, onDuplicate, onDelete, onClear }) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-[var(--bg-panel)]/90 backdrop-blur-md border border-[var(--border-med)] rounded-xl shadow-lg p-1 flex items-center gap-1">
+        <span className="px-2 text-xs font-bold text-[var(--text)] whitespace-nowrap">{count} selected</span>
+        <div className="w-px h-6 bg-[var(--border-med)]" />
+        {ALIGN_ACTIONS.map(action => (
+            <button key={action.mode} onClick={() => onAlign(action.mode)} disabled={count < 2} className={buttonClass} title={action.title}>
+                <ToolbarIcon d={action.icon} />
+            </button>
+        ))}
+        <div className="w-px h-6 bg-[var(--border-med)]" />
+        {DISTRIBUTE_ACTIONS.map(action => (
+            <button key={action.axis} onClick={() => onDistribute(action.axis)} disabled={count < 3} className={buttonClass} title={action.title}>
+                <ToolbarIcon d={action.icon} />
+            </button>
+        ))}
+        <div className="w-px h-6 bg-[var(--border-med)]" />
+        <button onClick={onDuplicate} className={buttonClass} title="Duplicate (Ctrl+D)">
+            <ToolbarIcon d="M8 8h12v12H8zM4 16V4h12" />
+        </button>
+        <button onClick={onDelete} className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg" title="Delete (Del)">
+            <ToolbarIcon d="M6 7h12M9 7V4h6v3M8 7l1 13h6l1-13" />
+        </button>
+        <button onClick={onClear} className={buttonClass} title="Clear selection (Esc)">
+            <ToolbarIcon d="M6 18L18 6M6 6l12 12" />
+        </button>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
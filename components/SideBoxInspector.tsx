@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Node, SideBox, SideBoxSide } from '../types';
+import { SIDE_BOX_SIDES } from '../services/annotations';
+import InspectorShell, { InspectorBody, EnhanceFieldHeader, deleteButtonClass, labelClass, largeFieldClass } from './InspectorShell';
+
+interface SideBoxInspectorProps {
+  box: SideBox | null;
+  // The node the box is attached to; its title gives the AI context.
+  node: Node | null;
+  // `undefined` values clear the field.
+  onSave: (patch: Partial<SideBox>) => void;
+  onEnhance: (title: string, text: string) => Promise<string>;
+  onDelete: () => void;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const SideBoxInspector: React.FC<SideBoxInspectorProps> = ({ box, node, onSave, onEnhance, onDelete, readOnly, onClose }) => {
+  const [text, setText] = useState('');
+  const [side, setSide] = useState<SideBoxSide>('right');
+  const [lineStyle, setLineStyle] = useState<SideBox['lineStyle']>('solid');
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(box?.text || '');
+    setSide(box?.position || 'right');
+    setLineStyle(box?.lineStyle || 'solid');
+    setEnhanceError(null);
+  }, [box?.id]);
+
+  const handleEnhance = async () => {
+    setIsEnhancing(true);
+    setEnhanceError(null);
+    try {
+      setText(await onEnhance(node?.title || '', text));
+    } catch (err) {
+      setEnhanceError(err instanceof Error ? err.message : 'Failed to enhance the text.');
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!box) return;
+    const patch: Partial<SideBox> = { text, lineStyle };
+    // A new side starts from its default spot; the old offset would be meaningless there.
+    if (side !== box.position) Object.assign(patch, { position: side, offset: undefined });
+    onSave(patch);
+    onClose();
+  };
+
+  return (
+    <InspectorShell isOpen={!!box}>
+        {box && (
+            <InspectorBody
+                title="Edit Side Box"
+                readOnly={readOnly}
+                onClose={onClose}
+                footer={
+                    <>
+                        <button
+                            onClick={handleSave}
+                            className="w-full py-3 px-4 bg-[var(--text-accent)] text-white font-bold rounded-xl shadow-lg hover:shadow-xl hover:scale-[1.02] transition-all"
+                        >
+                            Save Changes
+                        </button>
+                        <button onClick={onDelete} className={deleteButtonClass}>
+                            Delete Side Box
+                        </button>
+                    </>
+                }
+            >
+                {node && (
+                    <p className="text-sm text-[var(--text-muted)]">
+                        Attached to <strong className="text-[var(--text)]">{node.title || node.id}</strong>
+                    </p>
+                )}
+
+                <div>
+                    <EnhanceFieldHeader htmlFor="sidebox-text" label="Text" isEnhancing={isEnhancing} onEnhance={handleEnhance} />
+                    <textarea
+                        autoFocus
+                        id="sidebox-text"
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        className={`${largeFieldClass} h-32 resize-none`}
+                    />
+                    {enhanceError && <p className="mt-2 text-xs text-red-500">{enhanceError}</p>}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="sidebox-side" className={labelClass}>Side</label>
+                        <select id="sidebox-side" value={side} onChange={(e) => setSide(e.target.value as SideBoxSide)} className={largeFieldClass}>
+                            {SIDE_BOX_SIDES.map(s => <option key={s} value={s}>{s.charAt(0).toUpperCase() + s.slice(1)}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="sidebox-line" className={labelClass}>Line</label>
+                        <select id="sidebox-line" value={lineStyle} onChange={(e) => setLineStyle(e.target.value as SideBox['lineStyle'])} className={largeFieldClass}>
+                            <option value="solid">Solid</option>
+                            <option value="dotted">Dotted</option>
+                        </select>
+                    </div>
+                </div>
+            </InspectorBody>
+        )}
+    </InspectorShell>
+  );
+};
+
+export default SideBoxInspector;
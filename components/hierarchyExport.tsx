@@ -0,0 +1,128 @@
+import React from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import Flowchart from './Flowchart';
+import { FlowchartData, DiagramType } from '../types';
+import { collectDiagramTree, getDiagramAnchor } from '../services/subDiagrams';
+import { buildStandaloneSvg } from '../services/svgExport';
+import { svgToVectorShapes } from '../services/svgVector';
+import { buildSectionedPdf, PdfExportOptions, PdfSection } from '../services/pdf';
+
+interface HierarchyExportOptions {
+  diagramType: DiagramType;
+  backgroundColor: string;
+  // An empty element inside the themed app. Each diagram is rendered into it for a moment so the
+  // export reads the same computed styles (theme, dark mode, Tailwind) as the canvas.
+  host: HTMLElement;
+}
+
+const noop = () => {};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Mounts the diagram the way the canvas shows it at 100%, hands the live <svg> to `read` and
+// unmounts it again. The frame is sized to the window so the canvas viewBox maps 1:1, and sits
+// off-screen rather than hidden because hidden elements are left out of the export.
+const withRenderedDiagram = async <T,>(
+  host: HTMLElement,
+  data: FlowchartData,
+  diagramType: DiagramType,
+  hrefFor: ((nodeId: string) => string | undefined) | undefined,
+  read: (svg: SVGSVGElement) => T | Promise<T>
+): Promise<T> => {
+  const frame = document.createElement('div');
+  frame.style.cssText = `position: fixed; top: 0; left: ${-2 * window.innerWidth}px; width: ${window.innerWidth}px; height: ${window.innerHeight}px;`;
+  host.appendChild(frame);
+  const root = createRoot(frame);
+  const svgRef = { current: null as SVGSVGElement | null };
+  try {
+    flushSync(() => root.render(
+      <Flowchart
+        data={data}
+        svgRef={svgRef}
+        onPanelPositionChange={noop}
+        onNodePositionChange={noop}
+        onNodeSizeChange={noop}
+        onNodeDoubleClick={noop}
+        onCanvasResize={noop}
+        zoom={1}
+        onZoomChange={noop}
+        pan={{ x: 0, y: 0 }}
+        onPanChange={noop}
+        diagramType={diagramType}
+        readOnly
+        subDiagramHref={hrefFor}
+      />
+    ));
+    if (!svgRef.current) throw new Error('Failed to render diagram for export.');
+    return await read(svgRef.current);
+  } finally {
+    root.unmount();
+    frame.remove();
+  }
+};
+
+// One HTML page with every diagram of the hierarchy. Sub-diagram badges link to the child's
+// section and each section has breadcrumbs back up, so the file can be browsed offline. The
+// diagrams go through the standalone SVG export, so the page needs no stylesheet of the app.
+export const buildHierarchyHtml = async (root: FlowchartData, options: HierarchyExportOptions): Promise<string> => {
+  const entries = collectDiagramTree(root);
+  const pageStyle = getComputedStyle(options.host);
+  const textColor = pageStyle.getPropertyValue('--text').trim() || pageStyle.color;
+  const accentColor = pageStyle.getPropertyValue('--text-accent').trim() || textColor;
+  const font = pageStyle.getPropertyValue('--font').trim() || pageStyle.fontFamily;
+
+  const sections: string[] = [];
+  for (const entry of entries) {
+    const anchor = getDiagramAnchor(entry.path);
+    const hrefFor = (nodeId: string) => {
+      const node = entry.data.nodes.find(n => n.id === nodeId);
+      return node?.subDiagram ? `#${getDiagramAnchor([...entry.path, nodeId])}` : undefined;
+    };
+    const crumbs = entry.titles.slice(0, -1)
+      .map((title, depth) => `<a href="#${getDiagramAnchor(entry.path.slice(0, depth))}">${escapeHtml(title || 'Untitled')}</a>`)
+      .join(' › ');
+    const canvas = { w: entry.data.canvas.width, h: entry.data.canvas.height };
+    const svg = await withRenderedDiagram(options.host, entry.data, entry.data.diagramType || options.diagramType, hrefFor,
+      live => buildStandaloneSvg(live, canvas, { background: options.backgroundColor, embedFont: false }));
+    sections.push(`<section id="${anchor}">
+  ${crumbs ? `<nav>${crumbs} ›</nav>` : ''}
+  <h2>${escapeHtml(entry.data.title || 'Untitled')}</h2>
+  <div class="diagram">${svg.replace(/^<\?xml[^>]*>\s*/, '')}</div>
+</section>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(root.title || 'Diagram')}</title>
+<style>
+  body { margin: 0; padding: 24px; background: ${options.backgroundColor}; font-family: ${font}, system-ui, sans-serif; color: ${textColor}; }
+  section { margin-bottom: 64px; }
+  nav { font-size: 13px; margin-bottom: 4px; }
+  nav a { color: ${accentColor}; text-decoration: none; }
+  h2 { margin: 0 0 12px; }
+  .diagram svg { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>`;
+};
+
+// The same hierarchy as a PDF: every diagram starts on a new page, laid out with the usual PDF
+// options, and its pages are labelled with the path of titles leading to it. PDF links are not
+// written, so the labels take the place of the HTML page's breadcrumbs.
+export const buildHierarchyPdf = async (root: FlowchartData, options: HierarchyExportOptions, pdfOptions: PdfExportOptions): Promise<Uint8Array> => {
+  const sections: PdfSection[] = [];
+  for (const entry of collectDiagramTree(root)) {
+    const content = { w: entry.data.canvas.width, h: entry.data.canvas.height };
+    const shapes = await withRenderedDiagram(options.host, entry.data, entry.data.diagramType || options.diagramType, undefined,
+      live => svgToVectorShapes(live, content, options.backgroundColor));
+    sections.push({ shapes, content, label: entry.titles.map(title => title || 'Untitled').join(' / ') });
+  }
+  return buildSectionedPdf(sections, pdfOptions, root.title);
+};
@@ -23,18 +23,27 @@ export const DEFAULT_FLOWCHART_DATA: FlowchartData = {
   sideBoxes: [
     { id: 's4', text: 'Drives vehicle motion via drivetrain', attachToNode: 'n5', position: 'right', size: { w: 180, h: 38 }, lineStyle: 'solid' }
   ],
-  supportingPanel: {
-    title: 'Key Systems',
-    position: { x: 860, y: 320 },
-    size: { w: 300, h: 280 },
-    items: [
-      { id: 'sp1', title: 'Fuel Delivery System', description: 'Provides precise fuel mixture', icon: 'pump', connectsToNode: 'n1', color: '#2563eb' },
-      { id: 'sp2', title: 'Electrical System', description: 'Generates spark for ignition', icon: 'bolt', connectsToNode: 'n3', color: '#d97706' }
-    ]
-  }
+  supportingPanels: [
+    {
+      id: 'panel-1',
+      title: 'Key Systems',
+      position: { x: 860, y: 320 },
+      size: { w: 300, h: 280 },
+      items: [
+        { id: 'sp1', title: 'Fuel Delivery System', description: 'Provides precise fuel mixture', icon: 'pump', connectsToNode: 'n1', color: '#2563eb' },
+        { id: 'sp2', title: 'Electrical System', description: 'Generates spark for ignition', icon: 'bolt', connectsToNode: 'n3', color: '#d97706' }
+      ]
+    }
+  ]
 };
 
 
+// Icon names the AI and the editors may use, and the emoji each is drawn as. Unknown names fall back to a page.
+export const ICONS: Record<string, string> = {
+  droplet: '💧', spring: '➰', spark: '⚡️', exhaust: '💨', gear: '⚙️', pump: '⛽️',
+  bolt: '⚡️', idea: '💡', check: '✅', warning: '⚠️', search: '🔍',
+};
+
 export const FLOWCHART_SCHEMA = {
   type: Type.OBJECT,
   properties: {
@@ -54,7 +63,7 @@ export const FLOWCHART_SCHEMA = {
         type: Type.OBJECT,
         properties: {
           id: { type: Type.STRING, description: 'Unique ID for this node. Used by connectors.' },
-          type: { type: Type.STRING, description: "'main' or 'output'." },
+          type: { type: Type.STRING, description: "Shape: 'main' (process step), 'output' (final result), 'decision' (yes/no question, diamond), 'terminator' (start/end), 'io' (input/output, parallelogram) or 'data' (data store, cylinder)." },
           title: { type: Type.STRING, description: 'The main text line.' },
           description: { type: Type.STRING, description: 'The smaller text line.' },
           icon: { type: Type.STRING, description: "Icon name (e.g., 'droplet', 'gear', 'spark', 'spring', 'exhaust', 'pump', 'bolt')." },
@@ -70,6 +79,8 @@ export const FLOWCHART_SCHEMA = {
           },
           loop: { type: Type.STRING, description: "'dotted' to draw a small cycle arrow." },
           sideBox: { type: Type.STRING, description: "ID of a sideBox to attach (from 'sideBoxes' array)." },
+          sourceRef: { type: Type.STRING, description: 'When generating from a source document: a short verbatim quote of the passage this node is based on.' },
+          lane: { type: Type.STRING, description: "ID of the swimlane (from 'lanes') whose actor or system performs this step." },
         },
         required: ['id', 'type', 'title', 'description', 'icon', 'position', 'size'],
       },
@@ -90,6 +101,11 @@ export const FLOWCHART_SCHEMA = {
               strokeWidth: { type: Type.NUMBER },
             },
           },
+          label: { type: Type.STRING, description: "Short text on the line, e.g. 'Yes' / 'No' for decision branches or a relationship name." },
+          kind: { type: Type.STRING, description: "'flow' (default), 'dependency', 'association' or 'data'." },
+          arrowStart: { type: Type.STRING, description: "Line start: 'none', 'arrow', 'diamond' or 'circle'. Omit for the kind's default." },
+          arrowEnd: { type: Type.STRING, description: "Line end: 'none', 'arrow', 'diamond' or 'circle'. Omit for the kind's default." },
+          color: { type: Type.STRING, description: 'Optional hex colour for the line.' },
         },
         required: ['id', 'from', 'to', 'type'],
       },
@@ -102,7 +118,7 @@ export const FLOWCHART_SCHEMA = {
           id: { type: Type.STRING, description: 'Unique ID for this sidebox.' },
           text: { type: Type.STRING, description: 'The text to display.' },
           attachToNode: { type: Type.STRING, description: 'Node ID to attach to.' },
-          position: { type: Type.STRING, description: "'right'" },
+          position: { type: Type.STRING, description: "Side of the node: 'top', 'right', 'bottom' or 'left'." },
           size: {
             type: Type.OBJECT,
             properties: { w: { type: Type.INTEGER }, h: { type: Type.INTEGER } },
@@ -113,42 +129,98 @@ export const FLOWCHART_SCHEMA = {
         required: ['id', 'text', 'attachToNode', 'position', 'size', 'lineStyle'],
       },
     },
-    supportingPanel: {
-      type: Type.OBJECT,
-      properties: {
-        title: { type: Type.STRING, description: 'Panel header title.' },
-        position: {
-          type: Type.OBJECT,
-          properties: { x: { type: Type.INTEGER }, y: { type: Type.INTEGER } },
-          required: ['x', 'y'],
-        },
-        size: {
-          type: Type.OBJECT,
-          properties: { w: { type: Type.INTEGER }, h: { type: Type.INTEGER } },
-          required: ['w', 'h'],
-        },
-        items: {
-          type: Type.ARRAY,
-          items: {
+    supportingPanels: {
+      type: Type.ARRAY,
+      description: 'Panels of related concepts placed beside the diagram; usually one.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'Unique ID for this panel.' },
+          title: { type: Type.STRING, description: 'Panel header title.' },
+          position: {
             type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING, description: 'Unique ID.' },
-              title: { type: Type.STRING, description: 'Item title.' },
-              description: { type: Type.STRING, description: 'Item description.' },
-              icon: { type: Type.STRING, description: 'Icon name.' },
-              connectsToNode: { type: Type.STRING, description: 'Node ID to draw a dotted line to.' },
-              color: { type: Type.STRING, description: "A CSS color for the connector line (e.g., '#e53e3e')." },
+            properties: { x: { type: Type.INTEGER }, y: { type: Type.INTEGER } },
+            required: ['x', 'y'],
+          },
+          size: {
+            type: Type.OBJECT,
+            properties: { w: { type: Type.INTEGER }, h: { type: Type.INTEGER } },
+            required: ['w', 'h'],
+          },
+          items: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING, description: 'Unique ID.' },
+                title: { type: Type.STRING, description: 'Item title.' },
+                description: { type: Type.STRING, description: 'Item description.' },
+                icon: { type: Type.STRING, description: 'Icon name.' },
+                connectsToNode: { type: Type.STRING, description: 'Node ID to draw a dotted line to.' },
+                color: { type: Type.STRING, description: "A CSS color for the connector line (e.g., '#e53e3e')." },
+              },
+              required: ['id', 'title', 'description', 'icon'],
             },
-            required: ['id', 'title', 'description', 'icon'],
           },
         },
+        required: ['id', 'title', 'position', 'size', 'items'],
+      },
+    },
+    lanes: {
+      type: Type.ARRAY,
+      description: 'Swimlanes, one per actor, role or system, in display order. Only for processes that hand work between several parties.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'Unique ID for this lane. Used by node.lane.' },
+          title: { type: Type.STRING, description: "The actor or system, e.g. 'Customer' or 'Billing service'." },
+        },
+        required: ['id', 'title'],
+      },
+    },
+    laneOrientation: { type: Type.STRING, description: "'horizontal' (one row per lane, flow left to right) or 'vertical' (one column per lane, flow top to bottom)." },
+    groups: {
+      type: Type.ARRAY,
+      description: 'Labelled frames around closely related nodes, e.g. a phase or subsystem.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'Unique ID for this group.' },
+          title: { type: Type.STRING, description: 'Label shown on the frame.' },
+          nodeIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'IDs of the nodes inside the frame.' },
+        },
+        required: ['id', 'title', 'nodeIds'],
       },
-      required: ['title', 'position', 'size', 'items'],
     },
   },
   required: ['title', 'caption', 'canvas', 'nodes', 'connectors'],
 };
 
+// Schema for conversational edits: the model describes a change set instead of re-sending the whole diagram.
+export const DIAGRAM_DIFF_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'One or two sentences describing the change, addressed to the user.' },
+    title: { type: Type.STRING, description: 'New diagram title, only if it should change.' },
+    caption: { type: Type.STRING, description: 'New caption, only if it should change.' },
+    addedNodes: FLOWCHART_SCHEMA.properties.nodes,
+    removedNodeIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'IDs of nodes to delete.' },
+    modifiedNodes: {
+      type: Type.ARRAY,
+      description: 'Existing nodes to change. Include the id and only the fields that change.',
+      items: { ...FLOWCHART_SCHEMA.properties.nodes.items, required: ['id'] },
+    },
+    addedConnectors: FLOWCHART_SCHEMA.properties.connectors,
+    removedConnectorIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'IDs of connectors to delete.' },
+    modifiedConnectors: {
+      type: Type.ARRAY,
+      description: 'Existing connectors to change. Include the id and only the fields that change.',
+      items: { ...FLOWCHART_SCHEMA.properties.connectors.items, required: ['id'] },
+    },
+  },
+  required: ['summary', 'addedNodes', 'removedNodeIds', 'modifiedNodes', 'addedConnectors', 'removedConnectorIds', 'modifiedConnectors'],
+};
+
 export const THEMES = {
   default: {
     name: 'Ocean (Default)',
@@ -0,0 +1,233 @@
+import { FlowchartData, Node, SideBox, SideBoxSide, SupportingPanel, SupportingPanelItem, Annotation, AnnotationKind, Position, Size } from '../types';
+import { Rect } from './routing';
+import { getNodeAnchor, clipToNodeOutline } from './shapes';
+
+// Everything drawn around the flow rather than in it: supporting panels, side boxes attached to a
+// node, and free-floating sticky notes, text and callouts. Pure helpers shared by the canvas,
+// routing and layout, so all of them agree on where these elements are.
+
+export const SIDE_BOX_SIDES: SideBoxSide[] = ['top', 'right', 'bottom', 'left'];
+export const ANNOTATION_KINDS: AnnotationKind[] = ['sticky', 'text', 'callout'];
+
+export const ANNOTATION_LABELS: Record<AnnotationKind, string> = {
+  sticky: 'Sticky note',
+  text: 'Text',
+  callout: 'Callout',
+};
+
+// Distance between a node and its side box before any offset is applied.
+const SIDE_BOX_GAP = 60;
+const CALLOUT_TAIL_WIDTH = 24;
+const PANEL_GAP = 40;
+
+export const ANNOTATION_DEFAULTS: Record<AnnotationKind, { size: Size; color?: string; text: string }> = {
+  sticky: { size: { w: 180, h: 140 }, color: '#fef08a', text: 'Note' },
+  text: { size: { w: 240, h: 48 }, text: 'Text' },
+  callout: { size: { w: 200, h: 90 }, text: 'Callout' },
+};
+
+export const getSideBoxRect = (box: SideBox, node: Node): Rect => {
+  const { x, y } = node.position;
+  const { w, h } = node.size;
+  const offset = box.offset || { x: 0, y: 0 };
+  let rect: Rect;
+  switch (box.position) {
+    case 'top':
+      rect = { x: x + w / 2 - box.size.w / 2, y: y - SIDE_BOX_GAP - box.size.h, w: box.size.w, h: box.size.h };
+      break;
+    case 'bottom':
+      rect = { x: x + w / 2 - box.size.w / 2, y: y + h + SIDE_BOX_GAP, w: box.size.w, h: box.size.h };
+      break;
+    case 'left':
+      rect = { x: x - SIDE_BOX_GAP - box.size.w, y: y + h / 2 - box.size.h / 2, w: box.size.w, h: box.size.h };
+      break;
+    default:
+      rect = { x: x + w + SIDE_BOX_GAP, y: y + h / 2 - box.size.h / 2, w: box.size.w, h: box.size.h };
+  }
+  return { ...rect, x: rect.x + offset.x, y: rect.y + offset.y };
+};
+
+// The leader line runs from the node's anchor on the box's side to the middle of the facing box edge.
+export const getSideBoxLink = (box: SideBox, node: Node): { from: Position; to: Position } => {
+  const rect = getSideBoxRect(box, node);
+  const from = getNodeAnchor(node, box.position || 'right');
+  switch (box.position) {
+    case 'top': return { from, to: { x: rect.x + rect.w / 2, y: rect.y + rect.h } };
+    case 'bottom': return { from, to: { x: rect.x + rect.w / 2, y: rect.y } };
+    case 'left': return { from, to: { x: rect.x + rect.w, y: rect.y + rect.h / 2 } };
+    default: return { from, to: { x: rect.x, y: rect.y + rect.h / 2 } };
+  }
+};
+
+// Offset that puts the box at `topLeft`, e.g. at the end of a drag.
+export const getSideBoxOffset = (box: SideBox, node: Node, topLeft: Position): Position => {
+  const base = getSideBoxRect({ ...box, offset: undefined }, node);
+  return { x: Math.round(topLeft.x - base.x), y: Math.round(topLeft.y - base.y) };
+};
+
+export const getPanelRects = (data: FlowchartData): Rect[] =>
+  (data.supportingPanels || []).map(panel => ({ ...panel.position, ...panel.size }));
+
+// Moves panels that overlap the diagram to its right, stacked top to bottom. Panels already
+// clear of the diagram stay where the user put them.
+export const placePanelsRightOf = (panels: SupportingPanel[] | undefined, left: number, top: number): SupportingPanel[] | undefined => {
+  if (!panels) return panels;
+  let cursor = top;
+  return panels.map(panel => {
+    if (panel.position.x >= left) return panel;
+    const moved = { ...panel, position: { x: left, y: Math.max(cursor, panel.position.y) } };
+    cursor = moved.position.y + panel.size.h + PANEL_GAP;
+    return moved;
+  });
+};
+
+// Bottom-right corner of the panels, for growing the canvas around them.
+export const getPanelsExtent = (panels: SupportingPanel[] | undefined): Position | null =>
+  panels && panels.length > 0
+    ? {
+        x: Math.max(...panels.map(p => p.position.x + p.size.w)),
+        y: Math.max(...panels.map(p => p.position.y + p.size.h)),
+      }
+    : null;
+
+// Moves the legacy single `supportingPanel` into `supportingPanels`, in sub-diagrams too.
+export const migrateLegacyPanel = (data: FlowchartData): FlowchartData => {
+  const nodes = data.nodes.some(n => n.subDiagram)
+    ? data.nodes.map(n => n.subDiagram ? { ...n, subDiagram: migrateLegacyPanel(n.subDiagram) } : n)
+    : data.nodes;
+  if (!data.supportingPanel) return nodes === data.nodes ? data : { ...data, nodes };
+
+  const { supportingPanel, ...rest } = data;
+  const panels = data.supportingPanels || [];
+  const taken = new Set(panels.map(p => p.id));
+  const legacy = supportingPanel as Partial<SupportingPanel>;
+  let id = legacy.id && !taken.has(legacy.id) ? legacy.id : 'panel-1';
+  for (let n = 2; taken.has(id); n++) id = `panel-${n}`;
+  return { ...rest, nodes, supportingPanels: [{ ...supportingPanel, id }, ...panels] };
+};
+
+// Tail of a callout: two points on the edge of the bubble facing the node, and the tip on the
+// node's outline. Null when the target is missing or the bubble sits on top of the node.
+export const getCalloutTail = (annotation: Annotation, node: Node): Position[] | null => {
+  const { x, y } = annotation.position;
+  const { w, h } = annotation.size;
+  const center = { x: x + w / 2, y: y + h / 2 };
+  const tip = clipToNodeOutline(node, center);
+  const dx = tip.x - center.x;
+  const dy = tip.y - center.y;
+  const half = CALLOUT_TAIL_WIDTH / 2;
+  const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+  if (Math.abs(dx) / w > Math.abs(dy) / h) {
+    const edge = dx > 0 ? x + w : x;
+    if (dx > 0 ? tip.x <= edge : tip.x >= edge) return null;
+    const by = clamp(tip.y, y + half, y + h - half);
+    return [{ x: edge, y: by - half }, tip, { x: edge, y: by + half }];
+  }
+  const edge = dy > 0 ? y + h : y;
+  if (dy > 0 ? tip.y <= edge : tip.y >= edge) return null;
+  const bx = clamp(tip.x, x + half, x + w - half);
+  return [{ x: bx - half, y: edge }, tip, { x: bx + half, y: edge }];
+};
+
+export const createAnnotation = (kind: AnnotationKind, position: Position, targetNode?: string): Annotation => {
+  const defaults = ANNOTATION_DEFAULTS[kind];
+  const annotation: Annotation = {
+    id: `note-${Date.now()}`,
+    kind,
+    text: defaults.text,
+    position: { x: Math.round(position.x), y: Math.round(position.y) },
+    size: { ...defaults.size },
+  };
+  if (defaults.color) annotation.color = defaults.color;
+  if (kind === 'callout' && targetNode) annotation.targetNode = targetNode;
+  return annotation;
+};
+
+export const createSupportingPanel = (position: Position): SupportingPanel => ({
+  id: `panel-${Date.now()}`,
+  title: 'Notes',
+  position: { x: Math.round(position.x), y: Math.round(position.y) },
+  size: { w: 300, h: 200 },
+  items: [],
+});
+
+// Adds a side box to a node. The node keeps pointing at its first side box, as generated diagrams do.
+export const addSideBox = (data: FlowchartData, nodeId: string, text: string, side: SideBoxSide = 'right'): FlowchartData => {
+  const box: SideBox = { id: `sb-${Date.now()}`, text, attachToNode: nodeId, position: side, size: { w: 180, h: 38 }, lineStyle: 'solid' };
+  return {
+    ...data,
+    nodes: data.nodes.map(n => n.id === nodeId && !n.sideBox ? { ...n, sideBox: box.id } : n),
+    sideBoxes: [...(data.sideBoxes || []), box],
+  };
+};
+
+// Cleared (undefined) fields are removed rather than stored.
+const applyPatch = <T extends object>(item: T, patch: Partial<T>): T => {
+  const updated = { ...item, ...patch };
+  (Object.keys(patch) as (keyof T)[]).forEach(key => {
+    if (updated[key] === undefined) delete updated[key];
+  });
+  return updated;
+};
+
+export const updateSideBox = (data: FlowchartData, id: string, patch: Partial<SideBox>): FlowchartData => ({
+  ...data,
+  sideBoxes: (data.sideBoxes || []).map(b => b.id === id ? applyPatch(b, patch) : b),
+});
+
+export const removeSideBox = (data: FlowchartData, id: string): FlowchartData => ({
+  ...data,
+  nodes: data.nodes.map(n => {
+    if (n.sideBox !== id) return n;
+    const { sideBox, ...rest } = n;
+    return rest;
+  }),
+  sideBoxes: (data.sideBoxes || []).filter(b => b.id !== id),
+});
+
+export const updatePanel = (data: FlowchartData, id: string, patch: Partial<SupportingPanel>): FlowchartData => ({
+  ...data,
+  supportingPanels: (data.supportingPanels || []).map(p => p.id === id ? applyPatch(p, patch) : p),
+});
+
+export const removePanel = (data: FlowchartData, id: string): FlowchartData => ({
+  ...data,
+  supportingPanels: (data.supportingPanels || []).filter(p => p.id !== id),
+});
+
+export const createPanelItem = (): SupportingPanelItem => ({
+  id: `item-${Date.now()}`,
+  title: 'New Item',
+  description: '',
+  icon: 'idea',
+});
+
+export const addPanelItem = (data: FlowchartData, panelId: string, item: SupportingPanelItem): FlowchartData => ({
+  ...data,
+  supportingPanels: (data.supportingPanels || []).map(p => p.id === panelId ? { ...p, items: [...p.items, item] } : p),
+});
+
+export const updatePanelItem = (data: FlowchartData, panelId: string, itemId: string, patch: Partial<SupportingPanelItem>): FlowchartData => ({
+  ...data,
+  supportingPanels: (data.supportingPanels || []).map(p =>
+    p.id === panelId ? { ...p, items: p.items.map(item => item.id === itemId ? applyPatch(item, patch) : item) } : p
+  ),
+});
+
+export const removePanelItem = (data: FlowchartData, panelId: string, itemId: string): FlowchartData => ({
+  ...data,
+  supportingPanels: (data.supportingPanels || []).map(p =>
+    p.id === panelId ? { ...p, items: p.items.filter(item => item.id !== itemId) } : p
+  ),
+});
+
+export const updateAnnotation = (data: FlowchartData, id: string, patch: Partial<Annotation>): FlowchartData => ({
+  ...data,
+  annotations: (data.annotations || []).map(a => a.id === id ? applyPatch(a, patch) : a),
+});
+
+export const removeAnnotation = (data: FlowchartData, id: string): FlowchartData => ({
+  ...data,
+  annotations: (data.annotations || []).filter(a => a.id !== id),
+});
@@ -0,0 +1,42 @@
+import { Connector, ConnectorKind, ArrowHead, DiagramType } from '../types';
+
+// Resolves what a connector looks like from its semantic `kind` plus any explicit overrides.
+// Shared by the canvas and the exporters so every output draws the same line ends and dashes.
+
+export const CONNECTOR_KINDS: ConnectorKind[] = ['flow', 'dependency', 'association', 'data'];
+export const ARROW_HEADS: ArrowHead[] = ['none', 'arrow', 'diamond', 'circle'];
+
+export interface ResolvedConnectorStyle {
+  stroke?: string; // Undefined means "use the theme/mind map colour"
+  strokeWidth?: number;
+  strokeDasharray?: string;
+  arrowStart: ArrowHead;
+  arrowEnd: ArrowHead;
+}
+
+const KIND_DEFAULTS: Record<ConnectorKind, { strokeDasharray?: string; arrowStart: ArrowHead; arrowEnd: ArrowHead }> = {
+  flow: { arrowStart: 'none', arrowEnd: 'arrow' },
+  dependency: { strokeDasharray: '6 4', arrowStart: 'none', arrowEnd: 'arrow' },
+  association: { arrowStart: 'none', arrowEnd: 'none' },
+  data: { strokeDasharray: '2 4', arrowStart: 'circle', arrowEnd: 'arrow' },
+};
+
+export const resolveConnectorStyle = (connector: Connector, diagramType?: DiagramType): ResolvedConnectorStyle => {
+  const defaults = KIND_DEFAULTS[connector.kind || 'flow'] || KIND_DEFAULTS.flow;
+  // Mind maps have always been drawn without arrow heads.
+  const isMindMap = diagramType === DiagramType.MINDMAP;
+  return {
+    stroke: connector.color,
+    strokeWidth: connector.style?.strokeWidth,
+    strokeDasharray: connector.style?.strokeDasharray ?? defaults.strokeDasharray,
+    arrowStart: connector.arrowStart ?? (isMindMap ? 'none' : defaults.arrowStart),
+    arrowEnd: connector.arrowEnd ?? (isMindMap ? 'none' : defaults.arrowEnd),
+  };
+};
+
+export const isDashedStyle = (style: ResolvedConnectorStyle) =>
+  !!style.strokeDasharray && style.strokeDasharray.trim() !== '0' && style.strokeDasharray.trim() !== '';
+
+// Stable SVG id for a marker of the given head and colour, e.g. `marker-diamond-ef4444`.
+export const getMarkerId = (head: ArrowHead, color: string) =>
+  `marker-${head}-${color.replace(/[^A-Za-z0-9]/g, '').toLowerCase() || 'default'}`;
@@ -0,0 +1,104 @@
+import { FlowchartData, DiagramDiff, Node, Connector } from '../types';
+import { repairFlowchartData } from './flowchartValidation';
+
+export type DiffHighlight = 'added' | 'modified';
+
+const asArray = <T,>(value: T[] | undefined | null): T[] => (Array.isArray(value) ? value : []);
+
+// Fills in arrays the model may have omitted so callers can rely on the full shape.
+export const normalizeDiagramDiff = (diff: Partial<DiagramDiff>): DiagramDiff => ({
+  summary: typeof diff.summary === 'string' ? diff.summary : '',
+  title: diff.title || undefined,
+  caption: diff.caption || undefined,
+  addedNodes: asArray(diff.addedNodes),
+  removedNodeIds: asArray(diff.removedNodeIds),
+  modifiedNodes: asArray(diff.modifiedNodes),
+  addedConnectors: asArray(diff.addedConnectors),
+  removedConnectorIds: asArray(diff.removedConnectorIds),
+  modifiedConnectors: asArray(diff.modifiedConnectors),
+});
+
+export const isEmptyDiff = (diff: DiagramDiff) =>
+  !diff.title && !diff.caption &&
+  diff.addedNodes.length + diff.removedNodeIds.length + diff.modifiedNodes.length +
+  diff.addedConnectors.length + diff.removedConnectorIds.length + diff.modifiedConnectors.length === 0;
+
+const mergeNode = (node: Node, patch: Partial<Node>): Node => ({
+  ...node,
+  ...patch,
+  id: node.id,
+  position: { ...node.position, ...(patch.position || {}) },
+  size: { ...node.size, ...(patch.size || {}) },
+});
+
+const mergeConnector = (conn: Connector, patch: Partial<Connector>): Connector => ({
+  ...conn,
+  ...patch,
+  id: conn.id,
+  style: patch.style ? { ...(conn.style || {}), ...patch.style } : conn.style,
+});
+
+// Applies a change set and returns a new, validated diagram. New ids that collide with
+// surviving items are renamed (and connectors referring to them are remapped).
+export const applyDiagramDiff = (data: FlowchartData, rawDiff: DiagramDiff): FlowchartData => {
+  const diff = normalizeDiagramDiff(rawDiff);
+  const removedNodes = new Set(diff.removedNodeIds);
+  const removedConnectors = new Set(diff.removedConnectorIds);
+  const nodePatches = new Map(diff.modifiedNodes.map(p => [p.id, p]));
+  const connectorPatches = new Map(diff.modifiedConnectors.map(p => [p.id, p]));
+
+  const nodes = data.nodes
+    .filter(n => !removedNodes.has(n.id))
+    .map(n => (nodePatches.has(n.id) ? mergeNode(n, nodePatches.get(n.id)!) : n));
+
+  const takenNodeIds = new Set(nodes.map(n => n.id));
+  const nodeIdRemap = new Map<string, string>();
+  diff.addedNodes.forEach(added => {
+    const base = added.id || `n-${Date.now()}`;
+    let id = base;
+    let n = 2;
+    while (takenNodeIds.has(id)) id = `${base}-${n++}`;
+    takenNodeIds.add(id);
+    if (id !== added.id) nodeIdRemap.set(added.id, id);
+    nodes.push({ ...added, id });
+  });
+
+  const remapEnd = (id: string) => nodeIdRemap.get(id) ?? id;
+  const connectors = data.connectors
+    .filter(c => !removedConnectors.has(c.id))
+    .map(c => (connectorPatches.has(c.id) ? mergeConnector(c, connectorPatches.get(c.id)!) : c));
+
+  const takenConnectorIds = new Set(connectors.map(c => c.id));
+  diff.addedConnectors.forEach(added => {
+    const base = added.id || `c-${Date.now()}`;
+    let id = base;
+    let n = 2;
+    while (takenConnectorIds.has(id)) id = `${base}-${n++}`;
+    takenConnectorIds.add(id);
+    connectors.push({ ...added, id, from: remapEnd(added.from), to: remapEnd(added.to) });
+  });
+
+  const next: FlowchartData = {
+    ...data,
+    title: diff.title ?? data.title,
+    caption: diff.caption ?? data.caption,
+    nodes,
+    connectors,
+    sideBoxes: data.sideBoxes?.filter(s => !removedNodes.has(s.attachToNode)),
+  };
+
+  // Repair drops connectors that still point at removed nodes and any other inconsistencies.
+  return repairFlowchartData(next).data;
+};
+
+// Which nodes to outline on the canvas while a change set is being previewed.
+export const getDiffHighlights = (before: FlowchartData, diff: DiagramDiff, after: FlowchartData): Record<string, DiffHighlight> => {
+  const highlights: Record<string, DiffHighlight> = {};
+  const previousIds = new Set(before.nodes.map(n => n.id));
+  const modifiedIds = new Set(diff.modifiedNodes.map(p => p.id));
+  after.nodes.forEach(n => {
+    if (!previousIds.has(n.id)) highlights[n.id] = 'added';
+    else if (modifiedIds.has(n.id)) highlights[n.id] = 'modified';
+  });
+  return highlights;
+};
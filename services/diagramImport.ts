@@ -0,0 +1,45 @@
+import { FlowchartData, NodeShape, Size } from '../types';
+import { computeAutoLayout, fitCanvasToNodes, AutoLayoutType } from './layout';
+import { repairFlowchartData } from './flowchartValidation';
+
+// Helpers shared by the importers (Mermaid, draw.io, Graphviz DOT, JSON Canvas).
+
+const nodeWidthFor = (title: string) => Math.min(400, Math.max(200, title.length * 11 + 80));
+
+// Size for a node whose source has none; decisions need the extra height for their diamond.
+export const getImportedNodeSize = (title: string, type: NodeShape): Size => ({
+    w: nodeWidthFor(title),
+    h: type === 'decision' ? 120 : 86,
+});
+
+// First non-empty line is the title, the rest is the description.
+export const splitLabel = (text: string): { title: string; description: string } => {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    return { title: lines[0] || '', description: lines.slice(1).join(' ') };
+};
+
+// Plain text of an HTML label; block breaks become newlines.
+export const htmlToText = (html: string): string =>
+    html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(div|p|li|h[1-6]|tr)>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+
+// Runs the same repair pass as generated diagrams, since source files break the contract too
+// (dangling edges, missing labels). Then keeps the source's coordinates when it has them, otherwise
+// lays the diagram out; either way the nodes end up below the title area with the canvas grown to fit.
+export const placeImportedNodes = (data: FlowchartData, hasPositions: boolean, layout: AutoLayoutType = 'tree'): FlowchartData => {
+    const { data: repaired, repairs } = repairFlowchartData(data);
+    if (repairs.length > 0) {
+        console.warn(`Repaired ${repairs.length} issue(s) in the imported diagram:`, repairs);
+    }
+    return fitCanvasToNodes(hasPositions ? repaired : computeAutoLayout(repaired, layout));
+};
@@ -0,0 +1,100 @@
+import { DiagramDocument } from '../types';
+
+// Local document library backed by IndexedDB. All functions return promises and reject with a
+// readable Error if IndexedDB is unavailable (e.g. some private browsing modes).
+
+const DB_NAME = 'ai-flowchart-generator';
+const DB_VERSION = 1;
+const STORE = 'documents';
+const LAST_DOCUMENT_KEY = 'ai-flowchart-generator:lastDocumentId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open the document library.'));
+  });
+  // Allow a retry on the next call if opening failed.
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const run = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || new Error('Document library transaction failed.'));
+    // Quota errors and other aborts end the transaction without an error event on it.
+    tx.onabort = () => reject(tx.error || new Error('Document library transaction was aborted.'));
+  });
+};
+
+export const createDocumentId = () => `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Most recently updated first.
+export const listDocuments = async (): Promise<DiagramDocument[]> => {
+  const docs = await run<DiagramDocument[]>('readonly', store => store.getAll());
+  return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getDocument = (id: string): Promise<DiagramDocument | undefined> =>
+  run<DiagramDocument | undefined>('readonly', store => store.get(id));
+
+export const saveDocument = async (doc: DiagramDocument): Promise<DiagramDocument> => {
+  await run('readwrite', store => store.put(doc));
+  return doc;
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const renameDocument = async (id: string, name: string): Promise<DiagramDocument> => {
+  const doc = await getDocument(id);
+  if (!doc) throw new Error('Document not found.');
+  return saveDocument({ ...doc, name, updatedAt: Date.now() });
+};
+
+// `latest` carries the open document's unsaved state, which the stored copy can trail by one
+// autosave interval.
+export const duplicateDocument = async (
+  id: string,
+  latest?: Pick<DiagramDocument, 'data' | 'topic' | 'theme' | 'backgroundColor' | 'diagramType'>
+): Promise<DiagramDocument> => {
+  const doc = await getDocument(id);
+  if (!doc) throw new Error('Document not found.');
+  const now = Date.now();
+  return saveDocument({ ...doc, ...latest, id: createDocumentId(), name: `${doc.name} (copy)`, createdAt: now, updatedAt: now });
+};
+
+export const getLastDocumentId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_DOCUMENT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastDocumentId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_DOCUMENT_KEY, id);
+  } catch {
+    // Storage may be disabled; the library still works, we just won't reopen this document on reload.
+  }
+};
@@ -0,0 +1,325 @@
+import { FlowchartData, Node, NodeShape, Connector, NodeGroup, ArrowHead, DiagramType } from '../types';
+import { getImportedNodeSize, splitLabel, htmlToText, placeImportedNodes } from './diagramImport';
+
+// Graphviz DOT to FlowchartData. Handles graph/digraph, node and edge statements with attribute
+// lists, node/edge defaults, subgraphs (clusters become groups) and edge chains such as
+// `a -> {b c} -> d`. Positions come from `pos` attributes when every node has one (a laid-out file
+// from `dot -Tdot`); otherwise the diagram is auto-laid out, left to right for `rankdir=LR`.
+
+type Attrs = Record<string, string>;
+
+interface Token {
+    kind: 'id' | 'html' | 'punct';
+    value: string;
+}
+
+interface Scope {
+    nodeDefaults: Attrs;
+    edgeDefaults: Attrs;
+}
+
+interface ParsedEdge {
+    from: string;
+    to: string;
+    attrs: Attrs;
+}
+
+const POINTS_TO_PX = 96 / 72;
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        const atLineStart = i === 0 || text[i - 1] === '\n';
+        if (/\s/.test(ch)) { i++; continue; }
+        if (text.startsWith('//', i) || (ch === '#' && atLineStart)) {
+            const end = text.indexOf('\n', i);
+            i = end === -1 ? text.length : end;
+            continue;
+        }
+        if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 2;
+            continue;
+        }
+        if (text.startsWith('->', i) || text.startsWith('--', i)) {
+            tokens.push({ kind: 'punct', value: text.slice(i, i + 2) });
+            i += 2;
+            continue;
+        }
+        if ('{}[]=;,:'.includes(ch)) {
+            tokens.push({ kind: 'punct', value: ch });
+            i++;
+            continue;
+        }
+        if (ch === '"') {
+            let value = '';
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && text[i + 1] === '"') { value += '"'; i += 2; continue; }
+                if (text[i] === '\\' && text[i + 1] === '\n') { i += 2; continue; }
+                value += text[i++];
+            }
+            i++;
+            // "a" + "b" concatenates.
+            const last = tokens[tokens.length - 1];
+            const prev = tokens[tokens.length - 2];
+            if (last?.kind === 'punct' && last.value === '+' && prev?.kind === 'id') {
+                tokens.pop();
+                prev.value += value;
+            } else {
+                tokens.push({ kind: 'id', value });
+            }
+            continue;
+        }
+        if (ch === '+') {
+            tokens.push({ kind: 'punct', value: '+' });
+            i++;
+            continue;
+        }
+        if (ch === '<') {
+            let depth = 0;
+            const start = i;
+            do {
+                if (text[i] === '<') depth++;
+                else if (text[i] === '>') depth--;
+                i++;
+            } while (i < text.length && depth > 0);
+            tokens.push({ kind: 'html', value: text.slice(start + 1, i - 1) });
+            continue;
+        }
+        const match = text.slice(i).match(/^(-?(?:\.\d+|\d+(?:\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u);
+        if (!match) throw new Error(`Unexpected "${ch}" in the DOT text.`);
+        tokens.push({ kind: 'id', value: match[0] });
+        i += match[0].length;
+    }
+    return tokens;
+};
+
+// Escapes in DOT labels: \n, \l and \r end a line; \N is the node name.
+const unescapeLabel = (label: string, nodeId: string) =>
+    label.replace(/\\[nlr]/g, '\n').replace(/\\N/g, nodeId).replace(/\\(.)/g, '$1');
+
+const SHAPES: Record<string, NodeShape> = {
+    diamond: 'decision',
+    mdiamond: 'decision',
+    parallelogram: 'io',
+    cylinder: 'data',
+    box3d: 'output',
+    component: 'output',
+    tab: 'output',
+    folder: 'output',
+    ellipse: 'terminator',
+    oval: 'terminator',
+    circle: 'terminator',
+    doublecircle: 'terminator',
+    egg: 'terminator',
+};
+
+const ARROWS: Record<string, ArrowHead> = {
+    none: 'none',
+    diamond: 'diamond',
+    odiamond: 'diamond',
+    ediamond: 'diamond',
+    dot: 'circle',
+    odot: 'circle',
+};
+
+const arrowFor = (value: string | undefined): ArrowHead => (value && ARROWS[value.toLowerCase()]) || 'arrow';
+
+const DASHES: Record<string, string> = { dashed: '6 4', dotted: '2 4' };
+
+export const fromDot = (text: string, fallbackTitle: string = 'Imported Diagram'): FlowchartData => {
+    const tokens = tokenize(text);
+    let pos = 0;
+    const peek = (offset = 0) => tokens[pos + offset];
+    const isPunct = (value: string, offset = 0) => peek(offset)?.kind === 'punct' && peek(offset).value === value;
+    const isKeyword = (value: string) => peek()?.kind === 'id' && peek().value.toLowerCase() === value;
+    const expect = (value: string) => {
+        if (!isPunct(value)) throw new Error(`Expected "${value}" in the DOT text.`);
+        pos++;
+    };
+    const readId = (): Token => {
+        const token = peek();
+        if (!token || token.kind === 'punct') throw new Error('Expected a name in the DOT text.');
+        pos++;
+        return token;
+    };
+
+    if (isKeyword('strict')) pos++;
+    if (!isKeyword('graph') && !isKeyword('digraph')) throw new Error('The text does not start with "graph" or "digraph".');
+    const directed = peek().value.toLowerCase() === 'digraph';
+    pos++;
+    if (!isPunct('{')) readId();
+
+    const nodeAttrs = new Map<string, Attrs>();
+    const nodeOrder: string[] = [];
+    const edges: ParsedEdge[] = [];
+    const graphAttrs: Attrs = {};
+    const groups: NodeGroup[] = [];
+
+    const touchNode = (id: string, attrs: Attrs, scope: Scope) => {
+        if (!nodeAttrs.has(id)) {
+            nodeAttrs.set(id, { ...scope.nodeDefaults });
+            nodeOrder.push(id);
+        }
+        Object.assign(nodeAttrs.get(id)!, attrs);
+    };
+
+    const readAttrList = (): Attrs => {
+        const attrs: Attrs = {};
+        while (isPunct('[')) {
+            pos++;
+            while (!isPunct(']')) {
+                const key = readId().value;
+                expect('=');
+                const value = readId();
+                attrs[key] = value.value;
+                // HTML labels have their markup stripped rather than escapes expanded.
+                if (key === 'label' && value.kind === 'html') attrs.__htmlLabel = '1';
+                if (isPunct(',') || isPunct(';')) pos++;
+            }
+            expect(']');
+        }
+        return attrs;
+    };
+
+    // Returns the ids of every node mentioned in the statements.
+    const readStatements = (scope: Scope, graph: Attrs): string[] => {
+        const mentioned: string[] = [];
+        while (peek() && !isPunct('}')) {
+            if (isPunct(';')) { pos++; continue; }
+
+            if ((isKeyword('graph') || isKeyword('node') || isKeyword('edge')) && isPunct('[', 1)) {
+                const target = readId().value.toLowerCase();
+                const attrs = readAttrList();
+                if (target === 'node') Object.assign(scope.nodeDefaults, attrs);
+                else if (target === 'edge') Object.assign(scope.edgeDefaults, attrs);
+                else Object.assign(graph, attrs);
+                continue;
+            }
+            if (peek().kind !== 'punct' && isPunct('=', 1)) {
+                const key = readId().value;
+                pos++;
+                graph[key] = readId().value;
+                continue;
+            }
+
+            // A node id or subgraph, optionally the start of an edge chain.
+            const readOperand = (): string[] => {
+                if (isKeyword('subgraph') || isPunct('{')) {
+                    let name = '';
+                    if (isKeyword('subgraph')) {
+                        pos++;
+                        if (!isPunct('{')) name = readId().value;
+                    }
+                    expect('{');
+                    const subgraph: Attrs = {};
+                    const ids = readStatements({ nodeDefaults: { ...scope.nodeDefaults }, edgeDefaults: { ...scope.edgeDefaults } }, subgraph);
+                    expect('}');
+                    if (/^cluster/i.test(name) && ids.length > 0) {
+                        groups.push({
+                            id: name,
+                            title: htmlToText(subgraph.label || name.replace(/^cluster_?/i, '')).trim(),
+                            nodeIds: [...new Set(ids)],
+                            ...(subgraph.color ? { color: subgraph.color } : {}),
+                        });
+                    }
+                    return ids;
+                }
+                const id = readId().value;
+                // Ports (`node:port:compass`) are ignored.
+                while (isPunct(':')) { pos++; readId(); }
+                return [id];
+            };
+
+            let operand = readOperand();
+            const chain: string[][] = [operand];
+            while (isPunct('->') || isPunct('--')) {
+                pos++;
+                operand = readOperand();
+                chain.push(operand);
+            }
+            const attrs = readAttrList();
+            if (chain.length === 1) {
+                chain[0].forEach(id => touchNode(id, attrs, scope));
+            } else {
+                chain.flat().forEach(id => touchNode(id, {}, scope));
+                for (let i = 0; i < chain.length - 1; i++) {
+                    chain[i].forEach(from => chain[i + 1].forEach(to => edges.push({ from, to, attrs: { ...scope.edgeDefaults, ...attrs } })));
+                }
+            }
+            mentioned.push(...chain.flat());
+        }
+        return mentioned;
+    };
+
+    expect('{');
+    readStatements({ nodeDefaults: {}, edgeDefaults: {} }, graphAttrs);
+    expect('}');
+
+    if (nodeOrder.length === 0) throw new Error('No nodes found in the DOT text.');
+
+    const nodes: Node[] = nodeOrder.map(id => {
+        const attrs = nodeAttrs.get(id)!;
+        const rawLabel = attrs.label ?? id;
+        const label = attrs.__htmlLabel ? htmlToText(rawLabel) : unescapeLabel(rawLabel, id);
+        const { title, description } = splitLabel(label);
+        const type = SHAPES[(attrs.shape || '').toLowerCase()] || 'main';
+        return { id, type, title: title || id, description, icon: 'document', position: { x: 0, y: 0 }, size: getImportedNodeSize(title || id, type) };
+    });
+
+    // `pos` is the centre in points with y pointing up. Graphviz spaces nodes for its own sizes
+    // (width/height, in inches), so each axis is stretched until our larger nodes fit the same layout.
+    const positions = nodeOrder.map(id => nodeAttrs.get(id)!.pos?.split(',').map(Number));
+    const hasPositions = positions.every(p => p && p.length >= 2 && p.every(v => !isNaN(v)));
+    if (hasPositions) {
+        const maxY = Math.max(...positions.map(p => p![1]));
+        const stretch = (axis: 'width' | 'height', ours: (n: Node) => number) => Math.max(1, ...nodes.map(n => {
+            const source = Number(nodeAttrs.get(n.id)![axis]) * 96;
+            return source > 0 ? ours(n) / source : 1;
+        }));
+        const sx = stretch('width', n => n.size.w);
+        const sy = stretch('height', n => n.size.h);
+        nodes.forEach((node, i) => {
+            const [x, y] = positions[i]!;
+            node.position = { x: x * POINTS_TO_PX * sx - node.size.w / 2, y: (maxY - y) * POINTS_TO_PX * sy - node.size.h / 2 };
+        });
+    }
+
+    const connectors: Connector[] = edges.map((edge, i) => {
+        const { attrs } = edge;
+        const dir = (attrs.dir || (directed ? 'forward' : 'none')).toLowerCase();
+        const arrowEnd: ArrowHead = dir === 'forward' || dir === 'both' ? arrowFor(attrs.arrowhead) : 'none';
+        const arrowStart: ArrowHead = dir === 'back' || dir === 'both' ? arrowFor(attrs.arrowtail) : 'none';
+        const dash = (attrs.style || '').split(',').map(s => DASHES[s.trim().toLowerCase()]).find(Boolean);
+        const rawLabel = attrs.label || attrs.xlabel;
+        const label = rawLabel ? (attrs.__htmlLabel ? htmlToText(rawLabel) : unescapeLabel(rawLabel, '')).replace(/\s*\n\s*/g, ' ').trim() : '';
+        const color = attrs.color?.split(':')[0];
+        return {
+            id: attrs.id || `c${i + 1}`,
+            from: edge.from,
+            to: edge.to,
+            type: 'flow',
+            ...(dash ? { style: { strokeDasharray: dash } } : {}),
+            ...(label ? { label } : {}),
+            ...(arrowStart !== 'none' ? { arrowStart } : {}),
+            ...(arrowEnd !== 'arrow' ? { arrowEnd } : {}),
+            ...(color ? { color } : {}),
+        };
+    });
+
+    const rankdir = (graphAttrs.rankdir || '').toUpperCase();
+    const graphLabel = graphAttrs.label ? htmlToText(graphAttrs.label).trim() : '';
+    const data: FlowchartData = {
+        title: (graphLabel || fallbackTitle).toUpperCase(),
+        caption: 'Imported from Graphviz DOT.',
+        canvas: { width: 1200, height: 1000 },
+        nodes,
+        connectors,
+        diagramType: DiagramType.FLOWCHART,
+        ...(groups.length > 0 ? { groups } : {}),
+    };
+    return placeImportedNodes(data, hasPositions, rankdir === 'LR' || rankdir === 'RL' ? 'horizontal' : 'tree');
+};
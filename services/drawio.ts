@@ -0,0 +1,375 @@
+import { FlowchartData, Node, NodeShape, Connector, ConnectorRouting, NodeGroup, Annotation, ArrowHead, DiagramType, Position } from '../types';
+import { getDefaultRouting } from './routing';
+import { getExportConnectors, getExportSideBoxes, getExportPanels, EXPORT_COLORS, PANEL_HEADER_HEIGHT, escapeXml } from './exportGeometry';
+import { getImportedNodeSize, splitLabel, htmlToText, placeImportedNodes } from './diagramImport';
+
+// Conversion between FlowchartData and draw.io / diagrams.net files (mxGraph XML).
+// Export: nodes, side boxes and panel items become vertices; connectors, side-box leaders and panel
+// links become edges tied to their endpoints, so they follow when shapes are moved in draw.io.
+// Import: vertices become nodes (containers become groups), edges between them become connectors.
+
+// --- Export ---
+
+const SHAPE_STYLES: Record<NodeShape, string> = {
+  main: 'rounded=1;arcSize=10',
+  output: 'shape=process;backgroundOutline=1',
+  decision: 'rhombus',
+  terminator: 'rounded=1;arcSize=50',
+  io: 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1',
+  data: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=12',
+};
+
+const ARROW_STYLES: Record<ArrowHead, string> = {
+  none: 'none',
+  arrow: 'classic',
+  diamond: 'diamond',
+  circle: 'oval',
+};
+
+const style = (entries: Record<string, string | number | undefined>): string =>
+  Object.entries(entries)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => v === '' ? k : `${k}=${v}`)
+    .join(';') + ';';
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const geometry = (x: number, y: number, w: number, h: number) =>
+  `<mxGeometry x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" as="geometry"/>`;
+
+const vertex = (id: string, value: string, cellStyle: string, x: number, y: number, w: number, h: number, parent = '1') =>
+  `<mxCell id="${escapeXml(id)}" value="${escapeXml(value)}" style="${escapeXml(cellStyle)}" vertex="1" parent="${escapeXml(parent)}">${geometry(x, y, w, h)}</mxCell>`;
+
+// Exit/entry point as a fraction of the node's box, so draw.io attaches where the canvas does.
+const relativePoint = (node: Node, p: Position) => ({
+  x: round(Math.min(Math.max((p.x - node.position.x) / node.size.w, 0), 1)),
+  y: round(Math.min(Math.max((p.y - node.position.y) / node.size.h, 0), 1)),
+});
+
+const edge = (id: string, value: string, cellStyle: string, source: string, target: string, waypoints: Position[] = []) => {
+  const points = waypoints.length > 0
+    ? `<Array as="points">${waypoints.map(p => `<mxPoint x="${round(p.x)}" y="${round(p.y)}"/>`).join('')}</Array>`
+    : '';
+  return `<mxCell id="${escapeXml(id)}" value="${escapeXml(value)}" style="${escapeXml(cellStyle)}" edge="1" parent="1" source="${escapeXml(source)}" target="${escapeXml(target)}"><mxGeometry relative="1" as="geometry">${points}</mxGeometry></mxCell>`;
+};
+
+const nodeLabel = (node: Node) =>
+  node.description
+    ? `<b>${escapeHtml(node.title)}</b><br><font color="${EXPORT_COLORS.textMuted}" style="font-size: 11px;">${escapeHtml(node.description)}</font>`
+    : `<b>${escapeHtml(node.title)}</b>`;
+
+export const toDrawioXml = (data: FlowchartData, diagramType?: DiagramType): string => {
+  const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+  const routing = getDefaultRouting(data, diagramType);
+
+  data.nodes.forEach(node => {
+    cells.push(vertex(node.id, nodeLabel(node), style({
+      [SHAPE_STYLES[node.type] || SHAPE_STYLES.main]: '',
+      whiteSpace: 'wrap',
+      html: 1,
+      fillColor: EXPORT_COLORS.nodeFill,
+      strokeColor: EXPORT_COLORS.nodeStroke,
+      fontColor: EXPORT_COLORS.text,
+      fontSize: 13,
+    }), node.position.x, node.position.y, node.size.w, node.size.h));
+  });
+
+  getExportConnectors(data, diagramType).forEach(({ connector, from, to, route, style: resolved, dashed, start, end }) => {
+    const connectorRouting = connector.routing || routing;
+    const exit = relativePoint(from, start);
+    const entry = relativePoint(to, end);
+    cells.push(edge(connector.id, connector.label || '', style({
+      edgeStyle: connectorRouting === 'orthogonal' ? 'orthogonalEdgeStyle' : undefined,
+      curved: connectorRouting === 'curved' ? 1 : undefined,
+      rounded: connectorRouting === 'orthogonal' ? 1 : 0,
+      html: 1,
+      exitX: exit.x, exitY: exit.y, exitDx: 0, exitDy: 0,
+      entryX: entry.x, entryY: entry.y, entryDx: 0, entryDy: 0,
+      startArrow: ARROW_STYLES[resolved.arrowStart],
+      startFill: resolved.arrowStart === 'none' ? undefined : 1,
+      endArrow: ARROW_STYLES[resolved.arrowEnd],
+      endFill: resolved.arrowEnd === 'none' ? undefined : 1,
+      dashed: dashed ? 1 : undefined,
+      dashPattern: dashed ? resolved.strokeDasharray?.trim().replace(/[\s,]+/g, ' ') : undefined,
+      strokeColor: resolved.stroke || EXPORT_COLORS.connector,
+      strokeWidth: resolved.strokeWidth,
+      fontColor: EXPORT_COLORS.text,
+    }), from.id, to.id, route.shape === 'polyline' ? route.points.slice(1, -1) : []));
+  });
+
+  getExportSideBoxes(data).forEach(({ box, node, rect }) => {
+    cells.push(vertex(box.id, escapeHtml(box.text), style({
+      rounded: 1, arcSize: 10, whiteSpace: 'wrap', html: 1,
+      fillColor: EXPORT_COLORS.sideBoxFill, strokeColor: EXPORT_COLORS.sideBoxStroke, fontColor: EXPORT_COLORS.textMuted, fontSize: 11,
+    }), rect.x, rect.y, rect.w, rect.h));
+    cells.push(edge(`${box.id}-link`, '', style({
+      endArrow: 'none', html: 1,
+      dashed: box.lineStyle === 'dotted' ? 1 : undefined,
+      dashPattern: box.lineStyle === 'dotted' ? '3 3' : undefined,
+      strokeColor: EXPORT_COLORS.nodeStroke,
+    }), node.id, box.id));
+  });
+
+  getExportPanels(data).forEach(({ panel, rect, items }) => {
+    // A swimlane container: its header is the title and the items move with it.
+    cells.push(vertex(panel.id, escapeHtml(panel.title.toUpperCase()), style({
+      swimlane: '', startSize: PANEL_HEADER_HEIGHT, html: 1, rounded: 1, arcSize: 4,
+      fillColor: EXPORT_COLORS.panelHeader, swimlaneFillColor: EXPORT_COLORS.panelFill,
+      strokeColor: EXPORT_COLORS.nodeStroke, fontColor: EXPORT_COLORS.panelHeaderText, fontStyle: 1, align: 'left', spacingLeft: 16,
+    }), rect.x, rect.y, rect.w, rect.h));
+    items.forEach(({ item, rect: itemRect, target }) => {
+      const label = item.description
+        ? `<b>${escapeHtml(item.title)}</b><br><font color="${EXPORT_COLORS.textMuted}">${escapeHtml(item.description)}</font>`
+        : `<b>${escapeHtml(item.title)}</b>`;
+      cells.push(vertex(item.id, label, style({
+        rounded: 1, arcSize: 12, whiteSpace: 'wrap', html: 1, align: 'left', spacingLeft: 14,
+        fillColor: EXPORT_COLORS.itemFill, strokeColor: item.color || EXPORT_COLORS.itemAccent, fontColor: EXPORT_COLORS.text, fontSize: 12,
+      }), itemRect.x - rect.x, itemRect.y - rect.y, itemRect.w, itemRect.h, panel.id));
+      if (target) {
+        cells.push(edge(`${item.id}-link`, '', style({
+          curved: 1, html: 1, dashed: 1, dashPattern: '4 4', endArrow: 'classic', endFill: 1, opacity: 50,
+          strokeColor: item.color || EXPORT_COLORS.connector,
+        }), item.id, target.id));
+      }
+    });
+  });
+
+  const title = escapeXml(data.title || 'Diagram');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<mxfile host="ai-flowchart-generator" type="device">`,
+    `<diagram id="diagram-1" name="${title}">`,
+    `<mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="1" pageWidth="${data.canvas.width}" pageHeight="${data.canvas.height}">`,
+    `<root>${cells.join('')}</root>`,
+    '</mxGraphModel>',
+    '</diagram>',
+    '</mxfile>',
+  ].join('\n') + '\n';
+};
+
+// --- Import ---
+
+interface MxCell {
+  id: string;
+  parent: string;
+  value: string;
+  base: string; // Unnamed first style token, e.g. "rhombus" or "text"
+  style: Record<string, string>;
+  vertex: boolean;
+  edge: boolean;
+  source?: string;
+  target?: string;
+  geometry?: { x: number; y: number; w: number; h: number };
+}
+
+const parseStyle = (styleText: string): { base: string; style: Record<string, string> } => {
+  const style: Record<string, string> = {};
+  let base = '';
+  styleText.split(';').map(s => s.trim()).filter(Boolean).forEach((entry, i) => {
+    const eq = entry.indexOf('=');
+    if (eq === -1) {
+      if (i === 0) base = entry;
+      else style[entry] = '1';
+    } else {
+      style[entry.slice(0, eq)] = entry.slice(eq + 1);
+    }
+  });
+  return { base, style };
+};
+
+const shapeFromStyle = (cell: MxCell): NodeShape => {
+  const shape = (cell.style.shape || cell.base).toLowerCase();
+  if (shape === 'rhombus' || shape.includes('decision')) return 'decision';
+  if (shape.includes('parallelogram') || shape === 'mxgraph.flowchart.data') return 'io';
+  if (shape.includes('cylinder') || shape.includes('database') || shape.includes('stored_data') || shape === 'datastore') return 'data';
+  if (shape === 'process' || shape.includes('predefined_process')) return 'output';
+  if (shape === 'ellipse' || shape.includes('terminator') || (cell.style.rounded === '1' && Number(cell.style.arcSize) >= 40)) return 'terminator';
+  return 'main';
+};
+
+const arrowFromStyle = (value: string | undefined, fallback: ArrowHead): ArrowHead => {
+  if (value === undefined) return fallback;
+  const v = value.toLowerCase();
+  if (v === 'none' || v === '') return 'none';
+  if (v.startsWith('diamond') || v.startsWith('erone') || v.startsWith('ermany')) return 'diamond';
+  if (v === 'oval' || v === 'circle' || v === 'dot' || v === 'circleplus') return 'circle';
+  return 'arrow';
+};
+
+const routingFromStyle = (cell: MxCell): ConnectorRouting => {
+  if (cell.style.curved === '1') return 'curved';
+  const edgeStyle = cell.style.edgeStyle || '';
+  return edgeStyle && edgeStyle !== 'none' ? 'orthogonal' : 'straight';
+};
+
+const labelText = (cell: MxCell) => (cell.style.html === '1' ? htmlToText(cell.value) : cell.value).trim();
+
+// Compressed diagrams are base64 of raw-deflated, URI-encoded XML.
+const inflateDiagram = async (encoded: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(encoded.trim()), c => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return decodeURIComponent(await new Response(stream).text());
+};
+
+const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The draw.io file is not valid XML.');
+  return doc;
+};
+
+const findGraphModel = async (text: string): Promise<{ model: Element; name?: string }> => {
+  const doc = parseXml(text);
+  const root = doc.documentElement;
+  if (root.tagName === 'mxGraphModel') return { model: root };
+  const diagram = root.getElementsByTagName('diagram')[0];
+  if (!diagram) throw new Error('No diagram found in the draw.io file.');
+  const name = diagram.getAttribute('name') || undefined;
+  const model = diagram.getElementsByTagName('mxGraphModel')[0];
+  if (model) return { model, name };
+  if (!diagram.textContent?.trim()) throw new Error('The draw.io diagram is empty.');
+  return { model: parseXml(await inflateDiagram(diagram.textContent)).documentElement, name };
+};
+
+const readCells = (model: Element): MxCell[] =>
+  Array.from(model.getElementsByTagName('mxCell')).map(el => {
+    // Cells with custom properties are wrapped in <object>/<UserObject>, which carries the id and label.
+    const wrapper = el.parentElement && /^(object|UserObject)$/.test(el.parentElement.tagName) ? el.parentElement : null;
+    const { base, style } = parseStyle(el.getAttribute('style') || '');
+    const geo = Array.from(el.children).find(c => c.tagName === 'mxGeometry');
+    const num = (name: string) => Number(geo?.getAttribute(name) || 0);
+    return {
+      id: (wrapper || el).getAttribute('id') || '',
+      parent: el.getAttribute('parent') || '',
+      value: (wrapper ? wrapper.getAttribute('label') : el.getAttribute('value')) || '',
+      base,
+      style,
+      vertex: el.getAttribute('vertex') === '1',
+      edge: el.getAttribute('edge') === '1',
+      source: el.getAttribute('source') || undefined,
+      target: el.getAttribute('target') || undefined,
+      geometry: geo && geo.getAttribute('relative') !== '1' && geo.hasAttribute('width')
+        ? { x: num('x'), y: num('y'), w: num('width'), h: num('height') }
+        : undefined,
+    };
+  });
+
+// Parses a .drawio / diagrams.net file (compressed or not). Only the first page is imported.
+export const fromDrawioXml = async (text: string, fallbackTitle: string = 'Imported Diagram'): Promise<FlowchartData> => {
+  const { model, name } = await findGraphModel(text);
+  const cells = readCells(model);
+  const byId = new Map(cells.map(c => [c.id, c]));
+
+  // Child geometry is relative to its container.
+  const absolute = (cell: MxCell): Position => {
+    let x = cell.geometry?.x || 0;
+    let y = cell.geometry?.y || 0;
+    let parent = byId.get(cell.parent);
+    while (parent && parent.vertex) {
+      x += parent.geometry?.x || 0;
+      y += parent.geometry?.y || 0;
+      parent = byId.get(parent.parent);
+    }
+    return { x, y };
+  };
+
+  const edges = cells.filter(c => c.edge);
+  const containerIds = new Set(cells.filter(c => c.vertex && byId.get(c.parent)?.vertex).map(c => c.parent));
+  const connected = new Set(edges.flatMap(e => [e.source, e.target]));
+  const vertices = cells.filter(c => c.vertex && !containerIds.has(c.id) && !byId.get(c.parent)?.edge && c.base !== 'edgeLabel');
+
+  // Loose text shapes are annotations; everything else with a label or an edge is a node.
+  const annotations: Annotation[] = [];
+  const nodes: Node[] = [];
+  vertices.forEach(cell => {
+    const label = labelText(cell);
+    const position = absolute(cell);
+    if (cell.base === 'text' && !connected.has(cell.id)) {
+      if (label && cell.geometry) annotations.push({ id: cell.id, kind: 'text', text: label, position, size: { w: cell.geometry.w, h: cell.geometry.h } });
+      return;
+    }
+    if (!label && !connected.has(cell.id)) return;
+    const type = shapeFromStyle(cell);
+    const { title, description } = splitLabel(label);
+    nodes.push({
+      id: cell.id,
+      type,
+      title,
+      description,
+      icon: 'document',
+      position,
+      size: cell.geometry ? { w: cell.geometry.w, h: cell.geometry.h } : getImportedNodeSize(title, type),
+    });
+  });
+  if (nodes.length === 0) throw new Error('No shapes found in the draw.io diagram.');
+
+  // Edge labels are either the edge's value or child vertices of the edge.
+  const childLabels = (edgeId: string) =>
+    cells.filter(c => c.parent === edgeId && c.vertex).map(labelText).filter(Boolean).join(' ');
+
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const routed = edges.filter(e => e.source && e.target && nodeIds.has(e.source) && nodeIds.has(e.target));
+  const routings = routed.map(routingFromStyle);
+  const sharedRouting = routings.every(r => r === routings[0]) ? routings[0] : undefined;
+
+  const connectors: Connector[] = routed.map((e, i) => {
+    const label = (labelText(e) || childLabels(e.id)).replace(/\s*\n\s*/g, ' ');
+    const arrowStart = arrowFromStyle(e.style.startArrow, 'none');
+    const arrowEnd = arrowFromStyle(e.style.endArrow, 'arrow');
+    const strokeWidth = Number(e.style.strokeWidth);
+    const color = e.style.strokeColor;
+    return {
+      id: e.id || `c${i + 1}`,
+      from: e.source!,
+      to: e.target!,
+      type: 'flow',
+      ...(e.style.dashed === '1' || strokeWidth ? {
+        style: {
+          ...(e.style.dashed === '1' ? { strokeDasharray: (e.style.dashPattern || '6 4').trim() } : {}),
+          ...(strokeWidth ? { strokeWidth } : {}),
+        },
+      } : {}),
+      ...(sharedRouting ? {} : { routing: routings[i] }),
+      ...(label ? { label } : {}),
+      ...(arrowStart !== 'none' ? { arrowStart } : {}),
+      ...(arrowEnd !== 'arrow' ? { arrowEnd } : {}),
+      ...(color && color !== 'none' && color !== 'default' ? { color } : {}),
+    };
+  });
+
+  // Containers (groups, swimlanes) frame the nodes inside them.
+  const groups: NodeGroup[] = [...containerIds].flatMap(id => {
+    const container = byId.get(id)!;
+    const members = nodes.filter(n => {
+      let parent = byId.get(n.id)?.parent;
+      while (parent) {
+        if (parent === id) return true;
+        parent = byId.get(parent)?.parent;
+      }
+      return false;
+    }).map(n => n.id);
+    if (members.length === 0) return [];
+    const color = container.style.fillColor;
+    return [{
+      id,
+      title: splitLabel(labelText(container)).title,
+      nodeIds: members,
+      ...(color && color !== 'none' && color !== 'default' ? { color } : {}),
+    }];
+  });
+
+  const title = name && !/^Page-\d+$/.test(name) ? name : fallbackTitle;
+  const data: FlowchartData = {
+    title: title.toUpperCase(),
+    caption: 'Imported from draw.io.',
+    canvas: { width: 1200, height: 1000 },
+    nodes,
+    connectors,
+    diagramType: DiagramType.FLOWCHART,
+    ...(sharedRouting ? { routing: sharedRouting } : {}),
+    ...(groups.length > 0 ? { groups } : {}),
+    ...(annotations.length > 0 ? { annotations } : {}),
+  };
+  return placeImportedNodes(data, vertices.every(c => c.geometry));
+};
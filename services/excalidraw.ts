@@ -0,0 +1,241 @@
+import { FlowchartData, Node, NodeShape, ArrowHead, DiagramType, Position } from '../types';
+import { Rect } from './routing';
+import { getExportConnectors, getExportSideBoxes, getExportPanels, EXPORT_COLORS, PANEL_HEADER_HEIGHT } from './exportGeometry';
+
+// FlowchartData to an Excalidraw scene (.excalidraw JSON). Text is bound to its container and
+// arrows are bound to the shapes they join, so everything stays connected when edited. Seeds and
+// versions are derived from ids rather than random, so the same diagram always gives the same file.
+
+type ExcalidrawElement = Record<string, unknown> & { id: string; type: string };
+
+const FONT_FAMILY = 2; // Excalidraw's "Normal" (Helvetica) font
+const LINE_HEIGHT = 1.25;
+
+const ARROWHEADS: Record<ArrowHead, string | null> = {
+  none: null,
+  arrow: 'arrow',
+  diamond: 'diamond',
+  circle: 'dot',
+};
+
+// Excalidraw has no parallelogram or cylinder; those fall back to a rectangle.
+const ELEMENT_TYPES: Record<NodeShape, 'rectangle' | 'diamond' | 'ellipse'> = {
+  main: 'rectangle',
+  output: 'rectangle',
+  decision: 'diamond',
+  terminator: 'ellipse',
+  io: 'rectangle',
+  data: 'rectangle',
+};
+
+const hashSeed = (id: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) % 2147483647 || 1;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const baseElement = (id: string, type: string, rect: Rect, extra: Record<string, unknown> = {}): ExcalidrawElement => ({
+  id,
+  type,
+  x: round(rect.x),
+  y: round(rect.y),
+  width: round(rect.w),
+  height: round(rect.h),
+  angle: 0,
+  strokeColor: EXPORT_COLORS.nodeStroke,
+  backgroundColor: 'transparent',
+  fillStyle: 'solid',
+  strokeWidth: 1,
+  strokeStyle: 'solid',
+  roughness: 0,
+  opacity: 100,
+  groupIds: [],
+  frameId: null,
+  roundness: null,
+  seed: hashSeed(id),
+  version: 1,
+  versionNonce: hashSeed(`${id}:nonce`),
+  isDeleted: false,
+  boundElements: null,
+  updated: 1,
+  link: null,
+  locked: false,
+  ...extra,
+});
+
+// Text centred in (and bound to) a container; Excalidraw re-wraps it to the container on load.
+const boundText = (id: string, containerId: string, rect: Rect, text: string, fontSize: number, color: string, align: 'center' | 'left' = 'center'): ExcalidrawElement => {
+  const lines = text.split('\n').length;
+  const height = lines * fontSize * LINE_HEIGHT;
+  return baseElement(id, 'text', { x: rect.x + 8, y: rect.y + rect.h / 2 - height / 2, w: rect.w - 16, h: height }, {
+    strokeColor: color,
+    text,
+    originalText: text,
+    fontSize,
+    fontFamily: FONT_FAMILY,
+    textAlign: align,
+    verticalAlign: 'middle',
+    containerId,
+    lineHeight: LINE_HEIGHT,
+    autoResize: true,
+  });
+};
+
+const nodeText = (node: Node) => node.description ? `${node.title}\n${node.description}` : node.title;
+
+// Excalidraw arrows are point lists relative to their first point; curves are sampled.
+const sampleBezier = (p0: Position, p1: Position, p2: Position, p3: Position, steps = 12): Position[] =>
+  Array.from({ length: steps + 1 }, (_, i) => {
+    const t = i / steps;
+    const u = 1 - t;
+    return {
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    };
+  });
+
+const arrowElement = (id: string, points: Position[], extra: Record<string, unknown>): ExcalidrawElement => {
+  const origin = points[0];
+  const relative = points.map(p => [round(p.x - origin.x), round(p.y - origin.y)]);
+  const xs = relative.map(p => p[0]);
+  const ys = relative.map(p => p[1]);
+  return baseElement(id, 'arrow', {
+    x: origin.x,
+    y: origin.y,
+    w: Math.max(...xs) - Math.min(...xs),
+    h: Math.max(...ys) - Math.min(...ys),
+  }, {
+    points: relative,
+    lastCommittedPoint: null,
+    startArrowhead: null,
+    endArrowhead: null,
+    elbowed: false,
+    ...extra,
+  });
+};
+
+const binding = (elementId: string) => ({ elementId, focus: 0, gap: 1 });
+
+export const toExcalidraw = (data: FlowchartData, diagramType?: DiagramType): string => {
+  const elements: ExcalidrawElement[] = [];
+  const bound: Record<string, { id: string; type: string }[]> = {};
+  const bind = (containerId: string, id: string, type: string) => {
+    (bound[containerId] = bound[containerId] || []).push({ id, type });
+  };
+
+  data.nodes.forEach(node => {
+    const rect = { x: node.position.x, y: node.position.y, w: node.size.w, h: node.size.h };
+    const type = ELEMENT_TYPES[node.type] || 'rectangle';
+    elements.push(baseElement(node.id, type, rect, {
+      backgroundColor: EXPORT_COLORS.nodeFill,
+      strokeWidth: 2,
+      roundness: type === 'rectangle' ? { type: 3 } : null,
+    }));
+    elements.push(boundText(`${node.id}-text`, node.id, rect, nodeText(node), 16, EXPORT_COLORS.text));
+    bind(node.id, `${node.id}-text`, 'text');
+  });
+
+  getExportConnectors(data, diagramType).forEach(({ connector, from, to, route, style, dashed, middle }) => {
+    const points = route.shape === 'bezier'
+      ? sampleBezier(route.points[0], route.points[1], route.points[2], route.points[3])
+      : route.points;
+    const dashPattern = (style.strokeDasharray || '').trim().split(/[\s,]+/).map(Number);
+    elements.push(arrowElement(connector.id, points, {
+      strokeColor: style.stroke || EXPORT_COLORS.connector,
+      strokeWidth: style.strokeWidth || 2,
+      // Short dashes read as dots; Excalidraw only has the two styles.
+      strokeStyle: dashed ? (dashPattern[0] <= 2 ? 'dotted' : 'dashed') : 'solid',
+      roundness: route.shape === 'bezier' || route.routing === 'curved' ? { type: 2 } : null,
+      startArrowhead: ARROWHEADS[style.arrowStart],
+      endArrowhead: ARROWHEADS[style.arrowEnd],
+      startBinding: binding(from.id),
+      endBinding: binding(to.id),
+    }));
+    bind(from.id, connector.id, 'arrow');
+    bind(to.id, connector.id, 'arrow');
+    if (connector.label) {
+      const w = connector.label.length * 8 + 16;
+      const labelRect = { x: middle.x - w / 2, y: middle.y - 12, w, h: 24 };
+      elements.push(boundText(`${connector.id}-label`, connector.id, labelRect, connector.label, 14, EXPORT_COLORS.text));
+      bind(connector.id, `${connector.id}-label`, 'text');
+    }
+  });
+
+  getExportSideBoxes(data).forEach(({ box, node, link, rect }) => {
+    elements.push(baseElement(box.id, 'rectangle', rect, {
+      strokeColor: EXPORT_COLORS.sideBoxStroke,
+      backgroundColor: EXPORT_COLORS.sideBoxFill,
+      roundness: { type: 3 },
+    }));
+    elements.push(boundText(`${box.id}-text`, box.id, rect, box.text, 14, EXPORT_COLORS.textMuted));
+    bind(box.id, `${box.id}-text`, 'text');
+    elements.push(arrowElement(`${box.id}-link`, [link.from, link.to], {
+      strokeColor: EXPORT_COLORS.nodeStroke,
+      strokeStyle: box.lineStyle === 'dotted' ? 'dotted' : 'solid',
+      startBinding: binding(node.id),
+      endBinding: binding(box.id),
+    }));
+    bind(node.id, `${box.id}-link`, 'arrow');
+    bind(box.id, `${box.id}-link`, 'arrow');
+  });
+
+  getExportPanels(data).forEach(({ panel, rect, header, items }) => {
+    // The panel is a background plus a header bar; grouping keeps them moving together.
+    const groupIds = [`${panel.id}-group`];
+    elements.push(baseElement(panel.id, 'rectangle', rect, {
+      backgroundColor: EXPORT_COLORS.panelFill,
+      roundness: { type: 3 },
+      groupIds,
+    }));
+    elements.push(baseElement(`${panel.id}-header`, 'rectangle', header, {
+      strokeColor: EXPORT_COLORS.panelHeader,
+      backgroundColor: EXPORT_COLORS.panelHeader,
+      groupIds,
+    }));
+    elements.push(boundText(`${panel.id}-title`, `${panel.id}-header`, { ...header, h: PANEL_HEADER_HEIGHT }, panel.title.toUpperCase(), 16, EXPORT_COLORS.panelHeaderText, 'left'));
+    bind(`${panel.id}-header`, `${panel.id}-title`, 'text');
+    items.forEach(({ item, rect: itemRect, target }) => {
+      elements.push(baseElement(item.id, 'rectangle', itemRect, {
+        strokeColor: item.color || EXPORT_COLORS.itemAccent,
+        backgroundColor: EXPORT_COLORS.itemFill,
+        roundness: { type: 3 },
+        groupIds,
+      }));
+      const text = [item.icon, item.title].filter(Boolean).join(' ') + (item.description ? `\n${item.description}` : '');
+      elements.push(boundText(`${item.id}-text`, item.id, itemRect, text, 14, EXPORT_COLORS.text, 'left'));
+      bind(item.id, `${item.id}-text`, 'text');
+      if (target) {
+        const start = { x: itemRect.x + itemRect.w, y: itemRect.y + itemRect.h / 2 };
+        const end = { x: target.position.x, y: target.position.y + target.size.h / 2 };
+        elements.push(arrowElement(`${item.id}-link`, [start, end], {
+          strokeColor: item.color || EXPORT_COLORS.connector,
+          strokeStyle: 'dashed',
+          opacity: 50,
+          endArrowhead: 'arrow',
+          startBinding: binding(item.id),
+          endBinding: binding(target.id),
+        }));
+        bind(item.id, `${item.id}-link`, 'arrow');
+        bind(target.id, `${item.id}-link`, 'arrow');
+      }
+    });
+  });
+
+  elements.forEach(el => {
+    if (bound[el.id]) el.boundElements = bound[el.id];
+  });
+
+  return JSON.stringify({
+    type: 'excalidraw',
+    version: 2,
+    source: 'ai-flowchart-generator',
+    elements,
+    appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+    files: {},
+  }, null, 2);
+};
@@ -0,0 +1,121 @@
+import { FlowchartData, Node, Connector, SideBox, SupportingPanel, SupportingPanelItem, DiagramType, Position } from '../types';
+import { routeConnectors, getRouteMidpoint, Rect, RoutedConnector } from './routing';
+import { resolveConnectorStyle, isDashedStyle, ResolvedConnectorStyle } from './connectorStyle';
+import { getSideBoxRect, getSideBoxLink } from './annotations';
+import { AnchorSide } from './shapes';
+
+// Geometry shared by the editable-format exporters (draw.io, Excalidraw, PowerPoint), so each
+// one places connectors, side boxes and panels exactly where the canvas draws them.
+
+// The light theme's colours; the editable formats carry one fixed palette.
+export const EXPORT_COLORS = {
+  nodeFill: '#ffffff',
+  nodeStroke: '#94a3b8',
+  text: '#1e293b',
+  textMuted: '#64748b',
+  connector: '#64748b',
+  sideBoxFill: '#f0f7fb',
+  sideBoxStroke: '#cbd5e1',
+  panelFill: '#ffffff',
+  panelHeader: '#3b82f6',
+  panelHeaderText: '#ffffff',
+  itemFill: '#eff4f8',
+  itemAccent: '#3b82f6',
+};
+
+export interface ExportConnector {
+  connector: Connector;
+  from: Node;
+  to: Node;
+  route: RoutedConnector;
+  style: ResolvedConnectorStyle;
+  dashed: boolean;
+  start: Position;
+  end: Position;
+  // Where the label sits.
+  middle: Position;
+}
+
+export interface ExportSideBox {
+  box: SideBox;
+  node: Node;
+  rect: Rect;
+  link: { from: Position; to: Position };
+}
+
+export interface ExportPanelItem {
+  item: SupportingPanelItem;
+  rect: Rect;
+  target?: Node;
+}
+
+export interface ExportPanel {
+  panel: SupportingPanel;
+  rect: Rect;
+  header: Rect;
+  items: ExportPanelItem[];
+}
+
+// Matches the canvas: a 48px header, then items stacked with 12px gaps.
+export const PANEL_HEADER_HEIGHT = 48;
+const PANEL_ITEM_HEIGHT = 60;
+const PANEL_ITEM_GAP = 12;
+
+export const getExportConnectors = (data: FlowchartData, diagramType?: DiagramType): ExportConnector[] => {
+  const routes = routeConnectors(data, diagramType);
+  return data.connectors.flatMap(connector => {
+    const from = data.nodes.find(n => n.id === connector.from);
+    const to = data.nodes.find(n => n.id === connector.to);
+    const route = routes[connector.id];
+    if (!from || !to || !route || route.points.length < 2) return [];
+    const style = resolveConnectorStyle(connector, diagramType || data.diagramType);
+    return [{
+      connector, from, to, route, style,
+      dashed: isDashedStyle(style),
+      start: route.points[0],
+      end: route.points[route.points.length - 1],
+      middle: getRouteMidpoint(route),
+    }];
+  });
+};
+
+export const getExportSideBoxes = (data: FlowchartData): ExportSideBox[] =>
+  (data.sideBoxes || []).flatMap(box => {
+    const node = data.nodes.find(n => n.id === box.attachToNode);
+    return node ? [{ box, node, rect: getSideBoxRect(box, node), link: getSideBoxLink(box, node) }] : [];
+  });
+
+export const getExportPanels = (data: FlowchartData): ExportPanel[] =>
+  (data.supportingPanels || []).map(panel => {
+    const { x, y } = panel.position;
+    const { w } = panel.size;
+    const items = panel.items.map((item, i) => ({
+      item,
+      rect: { x: x + 12, y: y + PANEL_HEADER_HEIGHT + 8 + i * (PANEL_ITEM_HEIGHT + PANEL_ITEM_GAP), w: w - 24, h: PANEL_ITEM_HEIGHT },
+      target: item.connectsToNode ? data.nodes.find(n => n.id === item.connectsToNode) : undefined,
+    }));
+    const last = items[items.length - 1];
+    const h = Math.max(panel.size.h, last ? last.rect.y + last.rect.h + 20 - y : 0);
+    return { panel, rect: { x, y, w, h }, header: { x, y, w, h: PANEL_HEADER_HEIGHT }, items };
+  });
+
+// Side of a node's bounding box closest to `point`, e.g. where a connector attaches.
+export const getNearestSide = (node: Pick<Node, 'position' | 'size'>, point: Position): AnchorSide => {
+  const { x, y } = node.position;
+  const { w, h } = node.size;
+  const distances: [AnchorSide, number][] = [
+    ['top', Math.abs(point.y - y)],
+    ['bottom', Math.abs(point.y - (y + h))],
+    ['left', Math.abs(point.x - x)],
+    ['right', Math.abs(point.x - (x + w))],
+  ];
+  return distances.reduce((best, d) => d[1] < best[1] ? d : best)[0];
+};
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
@@ -0,0 +1,615 @@
+import { FlowchartData, Node, Connector, SideBox, SupportingPanel, SupportingPanelItem, DiagramType, ConnectorRouting, Size, Position, Lane, LaneOrientation, NodeGroup, Annotation } from '../types';
+import { CONNECTOR_KINDS, ARROW_HEADS } from './connectorStyle';
+import { NODE_SHAPES } from './shapes';
+import { SIDE_BOX_SIDES, ANNOTATION_KINDS } from './annotations';
+
+// Validates the full FlowchartData contract and repairs what can be repaired automatically.
+// Used on every AI response and on hand-edited JSON before it reaches the canvas.
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+  fixable: boolean;
+}
+
+export interface RepairResult {
+  data: FlowchartData;
+  repairs: string[];
+}
+
+const NODE_TYPES: Node['type'][] = NODE_SHAPES;
+const CONNECTOR_TYPES: Connector['type'][] = ['flow'];
+const SIDE_BOX_POSITIONS: SideBox['position'][] = SIDE_BOX_SIDES;
+const LINE_STYLES: SideBox['lineStyle'][] = ['solid', 'dotted'];
+const ROUTING_STYLES: ConnectorRouting[] = ['straight', 'curved', 'orthogonal'];
+const LANE_ORIENTATIONS: LaneOrientation[] = ['horizontal', 'vertical'];
+
+const DEFAULT_CANVAS = { width: 1200, height: 1000 };
+const DEFAULT_NODE_SIZE: Size = { w: 300, h: 86 };
+const DEFAULT_SIDE_BOX_SIZE: Size = { w: 180, h: 38 };
+const DEFAULT_ANNOTATION_SIZE: Size = { w: 180, h: 140 };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isArray = (v: unknown): v is unknown[] => Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isPosition = (v: unknown): v is Position => isObject(v) && isNumber(v.x) && isNumber(v.y);
+const isSize = (v: unknown): v is Size => isObject(v) && isNumber(v.w) && isNumber(v.h) && v.w > 0 && v.h > 0;
+const isOneOf = <T,>(values: readonly T[], v: unknown): v is T => (values as readonly unknown[]).includes(v);
+const isKnownId = (ids: Set<string>, v: unknown): v is string => isString(v) && ids.has(v);
+
+const readCanvas = (v: unknown): FlowchartData['canvas'] | null =>
+  isObject(v) && isNumber(v.width) && isNumber(v.height) && v.width > 0 && v.height > 0 ? { width: v.width, height: v.height } : null;
+
+export const validateFlowchartData = (input: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string, fixable = true) => issues.push({ path, message, severity: 'error', fixable });
+  const warn = (path: string, message: string, fixable = true) => issues.push({ path, message, severity: 'warning', fixable });
+
+  if (!isObject(input)) {
+    error('$', 'Diagram must be a JSON object.', false);
+    return issues;
+  }
+
+  if (!isString(input.title)) error('title', 'Missing or non-string title.');
+  if (!isString(input.caption)) error('caption', 'Missing or non-string caption.');
+  if (input.diagramType !== undefined && !isOneOf(Object.values(DiagramType), input.diagramType)) {
+    error('diagramType', `Unknown diagram type "${input.diagramType}".`);
+  }
+  if (input.routing !== undefined && !isOneOf(ROUTING_STYLES, input.routing)) {
+    warn('routing', `Unknown routing "${input.routing}". Expected one of: ${ROUTING_STYLES.join(', ')}.`);
+  }
+
+  const validCanvas = readCanvas(input.canvas);
+  if (!validCanvas) error('canvas', 'Canvas must have positive numeric width and height.');
+  const canvas = validCanvas || DEFAULT_CANVAS;
+
+  const nodeIds = new Set<string>();
+  if (!isArray(input.nodes)) {
+    error('nodes', 'nodes must be an array.');
+  } else {
+    input.nodes.forEach((node: unknown, i: number) => {
+      const p = `nodes[${i}]`;
+      if (!isObject(node)) {
+        error(p, 'Node must be an object.');
+        return;
+      }
+      if (!isString(node.id) || !node.id) error(`${p}.id`, 'Missing node id.');
+      else if (nodeIds.has(node.id)) error(`${p}.id`, `Duplicate node id "${node.id}".`);
+      else nodeIds.add(node.id);
+
+      if (!isOneOf(NODE_TYPES, node.type)) error(`${p}.type`, `Invalid node type "${node.type}". Expected one of: ${NODE_TYPES.join(', ')}.`);
+      if (!isString(node.title)) error(`${p}.title`, 'Missing or non-string title.');
+      if (!isString(node.description)) error(`${p}.description`, 'Missing or non-string description.');
+      if (!isString(node.icon)) warn(`${p}.icon`, 'Missing icon name.');
+      if (!isPosition(node.position)) error(`${p}.position`, 'Position must have numeric x and y.');
+      if (!isSize(node.size)) error(`${p}.size`, 'Size must have positive numeric w and h.');
+      if (node.loop !== undefined && node.loop !== 'dotted') error(`${p}.loop`, `Invalid loop style "${node.loop}".`);
+      if (node.sourceRef !== undefined && !isString(node.sourceRef)) warn(`${p}.sourceRef`, 'Source reference must be a string.');
+      if (node.collapsed !== undefined && typeof node.collapsed !== 'boolean') warn(`${p}.collapsed`, 'collapsed must be true or false.');
+      if (node.subDiagram !== undefined) {
+        if (!isObject(node.subDiagram)) warn(`${p}.subDiagram`, 'Sub-diagram must be a diagram object.');
+        else validateFlowchartData(node.subDiagram).forEach(issue => issues.push({ ...issue, path: `${p}.subDiagram.${issue.path}` }));
+      }
+
+      if (isPosition(node.position) && isSize(node.size)) {
+        if (node.size.w > canvas.width || node.size.h > canvas.height) {
+          warn(`${p}.size`, 'Node is larger than the canvas.');
+        } else if (node.position.x < 0 || node.position.y < 0 || node.position.x + node.size.w > canvas.width || node.position.y + node.size.h > canvas.height) {
+          warn(`${p}.position`, 'Node lies partly outside the canvas.');
+        }
+      }
+    });
+
+    const sideBoxIds = new Set(isArray(input.sideBoxes) ? input.sideBoxes.filter(isObject).map(s => s.id) : []);
+    input.nodes.forEach((node, i) => {
+      if (isObject(node) && node.sideBox !== undefined && !sideBoxIds.has(node.sideBox)) {
+        error(`nodes[${i}].sideBox`, `References sideBox "${node.sideBox}" which is not defined in sideBoxes.`);
+      }
+    });
+  }
+
+  if (!isArray(input.connectors)) {
+    error('connectors', 'connectors must be an array.');
+  } else {
+    const connectorIds = new Set<string>();
+    input.connectors.forEach((conn: unknown, i: number) => {
+      const p = `connectors[${i}]`;
+      if (!isObject(conn)) {
+        error(p, 'Connector must be an object.');
+        return;
+      }
+      if (!isString(conn.id) || !conn.id) error(`${p}.id`, 'Missing connector id.');
+      else if (connectorIds.has(conn.id)) error(`${p}.id`, `Duplicate connector id "${conn.id}".`);
+      else connectorIds.add(conn.id);
+
+      if (!isKnownId(nodeIds, conn.from)) error(`${p}.from`, `Points from missing node "${conn.from}".`);
+      if (!isKnownId(nodeIds, conn.to)) error(`${p}.to`, `Points to missing node "${conn.to}".`);
+      if (!isOneOf(CONNECTOR_TYPES, conn.type)) error(`${p}.type`, `Invalid connector type "${conn.type}".`);
+      if (conn.label !== undefined && !isString(conn.label)) warn(`${p}.label`, 'Label must be a string.');
+      if (conn.kind !== undefined && !isOneOf(CONNECTOR_KINDS, conn.kind)) warn(`${p}.kind`, `Unknown connector kind "${conn.kind}". Expected one of: ${CONNECTOR_KINDS.join(', ')}.`);
+      (['arrowStart', 'arrowEnd'] as const).forEach(end => {
+        if (conn[end] !== undefined && !isOneOf(ARROW_HEADS, conn[end])) warn(`${p}.${end}`, `Unknown arrow head "${conn[end]}". Expected one of: ${ARROW_HEADS.join(', ')}.`);
+      });
+      if (conn.color !== undefined && !isString(conn.color)) warn(`${p}.color`, 'Color must be a string.');
+      if (conn.routing !== undefined && !isOneOf(ROUTING_STYLES, conn.routing)) warn(`${p}.routing`, `Unknown routing "${conn.routing}". Expected one of: ${ROUTING_STYLES.join(', ')}.`);
+      if (conn.style !== undefined) {
+        if (!isObject(conn.style)) error(`${p}.style`, 'Style must be an object.');
+        else {
+          if (conn.style.strokeDasharray !== undefined && !isString(conn.style.strokeDasharray)) error(`${p}.style.strokeDasharray`, 'strokeDasharray must be a string.');
+          if (conn.style.strokeWidth !== undefined && !isNumber(conn.style.strokeWidth)) error(`${p}.style.strokeWidth`, 'strokeWidth must be a number.');
+        }
+      }
+    });
+
+    // A decision with several branches is unreadable unless each branch says which answer it is.
+    const connectorObjects = input.connectors.filter(isObject);
+    if (isArray(input.nodes)) {
+      input.nodes.forEach((node, i) => {
+        if (!isObject(node) || node.type !== 'decision') return;
+        const outgoing = connectorObjects.filter(c => c.from === node.id);
+        if (outgoing.length > 1 && outgoing.some(c => !isString(c.label) || !c.label.trim())) {
+          warn(`nodes[${i}]`, `Decision "${node.title}" has unlabelled outgoing branches.`, false);
+        }
+      });
+    }
+  }
+
+  if (input.sideBoxes !== undefined) {
+    if (!isArray(input.sideBoxes)) {
+      error('sideBoxes', 'sideBoxes must be an array.');
+    } else {
+      const boxIds = new Set<string>();
+      input.sideBoxes.forEach((box: unknown, i: number) => {
+        const p = `sideBoxes[${i}]`;
+        if (!isObject(box)) {
+          error(p, 'Side box must be an object.');
+          return;
+        }
+        if (!isString(box.id) || !box.id) error(`${p}.id`, 'Missing side box id.');
+        else if (boxIds.has(box.id)) error(`${p}.id`, `Duplicate side box id "${box.id}".`);
+        else boxIds.add(box.id);
+        if (!isString(box.text)) error(`${p}.text`, 'Missing or non-string text.');
+        if (!isKnownId(nodeIds, box.attachToNode)) error(`${p}.attachToNode`, `Attached to missing node "${box.attachToNode}".`);
+        if (!isOneOf(SIDE_BOX_POSITIONS, box.position)) error(`${p}.position`, `Invalid position "${box.position}". Expected one of: ${SIDE_BOX_POSITIONS.join(', ')}.`);
+        if (box.offset !== undefined && !isPosition(box.offset)) warn(`${p}.offset`, 'Offset must have numeric x and y.');
+        if (!isSize(box.size)) error(`${p}.size`, 'Size must have positive numeric w and h.');
+        if (!isOneOf(LINE_STYLES, box.lineStyle)) error(`${p}.lineStyle`, `Invalid line style "${box.lineStyle}".`);
+      });
+    }
+  }
+
+  const validatePanel = (panel: unknown, path: string) => {
+    if (!isObject(panel)) {
+      error(path, 'Supporting panel must be an object.');
+      return;
+    }
+    if (!isString(panel.title)) error(`${path}.title`, 'Missing or non-string title.');
+    if (!isPosition(panel.position)) error(`${path}.position`, 'Position must have numeric x and y.');
+    if (!isSize(panel.size)) error(`${path}.size`, 'Size must have positive numeric w and h.');
+    if (!isArray(panel.items)) {
+      error(`${path}.items`, 'items must be an array.');
+      return;
+    }
+    const itemIds = new Set<string>();
+    panel.items.forEach((item: unknown, i: number) => {
+      const p = `${path}.items[${i}]`;
+      if (!isObject(item)) {
+        error(p, 'Panel item must be an object.');
+        return;
+      }
+      if (!isString(item.id) || !item.id) error(`${p}.id`, 'Missing item id.');
+      else if (itemIds.has(item.id)) error(`${p}.id`, `Duplicate item id "${item.id}".`);
+      else itemIds.add(item.id);
+      if (!isString(item.title)) error(`${p}.title`, 'Missing or non-string title.');
+      if (!isString(item.description)) error(`${p}.description`, 'Missing or non-string description.');
+      if (item.connectsToNode !== undefined && !isKnownId(nodeIds, item.connectsToNode)) {
+        error(`${p}.connectsToNode`, `Connects to missing node "${item.connectsToNode}".`);
+      }
+    });
+  };
+
+  if (input.supportingPanel !== undefined) {
+    warn('supportingPanel', 'supportingPanel is deprecated; it will be moved into supportingPanels.');
+    validatePanel(input.supportingPanel, 'supportingPanel');
+  }
+  if (input.supportingPanels !== undefined) {
+    if (!isArray(input.supportingPanels)) {
+      error('supportingPanels', 'supportingPanels must be an array.');
+    } else {
+      const panelIds = new Set<string>();
+      input.supportingPanels.forEach((panel: unknown, i: number) => {
+        const p = `supportingPanels[${i}]`;
+        validatePanel(panel, p);
+        if (!isObject(panel)) return;
+        if (!isString(panel.id) || !panel.id) error(`${p}.id`, 'Missing panel id.');
+        else if (panelIds.has(panel.id)) error(`${p}.id`, `Duplicate panel id "${panel.id}".`);
+        else panelIds.add(panel.id);
+      });
+    }
+  }
+
+  if (input.annotations !== undefined) {
+    if (!isArray(input.annotations)) {
+      error('annotations', 'annotations must be an array.');
+    } else {
+      const annotationIds = new Set<string>();
+      input.annotations.forEach((note: unknown, i: number) => {
+        const p = `annotations[${i}]`;
+        if (!isObject(note)) {
+          error(p, 'Annotation must be an object.');
+          return;
+        }
+        if (!isString(note.id) || !note.id) error(`${p}.id`, 'Missing annotation id.');
+        else if (annotationIds.has(note.id)) error(`${p}.id`, `Duplicate annotation id "${note.id}".`);
+        else annotationIds.add(note.id);
+        if (!isOneOf(ANNOTATION_KINDS, note.kind)) error(`${p}.kind`, `Invalid annotation kind "${note.kind}". Expected one of: ${ANNOTATION_KINDS.join(', ')}.`);
+        if (!isString(note.text)) error(`${p}.text`, 'Missing or non-string text.');
+        if (!isPosition(note.position)) error(`${p}.position`, 'Position must have numeric x and y.');
+        if (!isSize(note.size)) error(`${p}.size`, 'Size must have positive numeric w and h.');
+        if (note.color !== undefined && !isString(note.color)) warn(`${p}.color`, 'Color must be a string.');
+        if (note.targetNode !== undefined && !isKnownId(nodeIds, note.targetNode)) warn(`${p}.targetNode`, `Points at missing node "${note.targetNode}".`);
+      });
+    }
+  }
+
+  const laneIds = new Set<string>();
+  if (input.lanes !== undefined) {
+    if (!isArray(input.lanes)) {
+      error('lanes', 'lanes must be an array.');
+    } else {
+      input.lanes.forEach((lane: unknown, i: number) => {
+        const p = `lanes[${i}]`;
+        if (!isObject(lane)) {
+          error(p, 'Lane must be an object.');
+          return;
+        }
+        if (!isString(lane.id) || !lane.id) error(`${p}.id`, 'Missing lane id.');
+        else if (laneIds.has(lane.id)) error(`${p}.id`, `Duplicate lane id "${lane.id}".`);
+        else laneIds.add(lane.id);
+        if (!isString(lane.title)) error(`${p}.title`, 'Missing or non-string title.');
+        if (lane.size !== undefined && !(isNumber(lane.size) && lane.size > 0)) warn(`${p}.size`, 'Lane size must be a positive number.');
+      });
+    }
+  }
+  if (input.laneOrientation !== undefined && !isOneOf(LANE_ORIENTATIONS, input.laneOrientation)) {
+    warn('laneOrientation', `Unknown lane orientation "${input.laneOrientation}". Expected one of: ${LANE_ORIENTATIONS.join(', ')}.`);
+  }
+  if (isArray(input.nodes)) {
+    input.nodes.forEach((node, i) => {
+      if (isObject(node) && node.lane !== undefined && !isKnownId(laneIds, node.lane)) {
+        error(`nodes[${i}].lane`, `References lane "${node.lane}" which is not defined in lanes.`);
+      }
+    });
+  }
+
+  if (input.groups !== undefined) {
+    if (!isArray(input.groups)) {
+      error('groups', 'groups must be an array.');
+    } else {
+      const groupIds = new Set<string>();
+      input.groups.forEach((group: unknown, i: number) => {
+        const p = `groups[${i}]`;
+        if (!isObject(group)) {
+          error(p, 'Group must be an object.');
+          return;
+        }
+        if (!isString(group.id) || !group.id) error(`${p}.id`, 'Missing group id.');
+        else if (groupIds.has(group.id)) error(`${p}.id`, `Duplicate group id "${group.id}".`);
+        else groupIds.add(group.id);
+        if (!isString(group.title)) error(`${p}.title`, 'Missing or non-string title.');
+        if (!isArray(group.nodeIds)) error(`${p}.nodeIds`, 'nodeIds must be an array.');
+        else group.nodeIds.forEach((id, j) => {
+          if (!isKnownId(nodeIds, id)) error(`${p}.nodeIds[${j}]`, `References missing node "${id}".`);
+        });
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]) => issues.some(i => i.severity === 'error');
+
+const uniqueId = (base: string, taken: Set<string>) => {
+  let candidate = base;
+  let n = 2;
+  while (taken.has(candidate)) candidate = `${base}-${n++}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+// Returns a new, contract-conforming FlowchartData plus a human-readable log of what changed.
+// Throws only when the input is not an object at all.
+export const repairFlowchartData = (input: unknown): RepairResult => {
+  if (!isObject(input)) {
+    throw new Error('Cannot repair: diagram must be a JSON object.');
+  }
+  const repairs: string[] = [];
+  const raw = input;
+
+  let canvas = readCanvas(raw.canvas) || (repairs.push('Reset invalid canvas size to defaults.'), { ...DEFAULT_CANVAS });
+
+  // Each list is repaired with flatMap so dropped entries leave the remaining indices (and the
+  // paths in the repair log) pointing at the original elements.
+
+  // Nodes. Generated ids must not take an id a later node already has, or connectors aimed at
+  // that node would end up on the repaired one.
+  const rawNodes = isArray(raw.nodes) ? raw.nodes : (repairs.push('Replaced missing nodes array.'), []);
+  const takenNodeIds = new Set(rawNodes.flatMap(n => isObject(n) && isString(n.id) && n.id ? [n.id] : []));
+  const nodeIds = new Set<string>();
+  const nodes: Node[] = rawNodes
+    .flatMap((n, i) => {
+      const p = `nodes[${i}]`;
+      if (!isObject(n)) {
+        repairs.push(`Dropped ${p}: not an object.`);
+        return [];
+      }
+      let id: string = isString(n.id) && n.id ? n.id : '';
+      if (!id) {
+        id = uniqueId(`n${i + 1}`, takenNodeIds);
+        repairs.push(`${p}: assigned missing id "${id}".`);
+      } else if (nodeIds.has(id)) {
+        const renamed = uniqueId(id, takenNodeIds);
+        repairs.push(`${p}: renamed duplicate id "${id}" to "${renamed}".`);
+        id = renamed;
+      }
+      nodeIds.add(id);
+
+      const size: Size = isSize(n.size) ? { ...n.size } : (repairs.push(`${p}: reset invalid size.`), { ...DEFAULT_NODE_SIZE });
+      const position: Position = isPosition(n.position) ? { ...n.position } : (repairs.push(`${p}: reset invalid position.`), { x: 0, y: 0 });
+
+      const node = {
+        ...n,
+        id,
+        type: isOneOf(NODE_TYPES, n.type) ? n.type : (repairs.push(`${p}: replaced invalid type "${n.type}" with "main".`), 'main'),
+        title: isString(n.title) ? n.title : (repairs.push(`${p}: added missing title.`), ''),
+        description: isString(n.description) ? n.description : (repairs.push(`${p}: added missing description.`), ''),
+        icon: isString(n.icon) ? n.icon : 'document',
+        position,
+        size,
+      } as Node;
+      if (n.loop !== undefined && n.loop !== 'dotted') {
+        delete node.loop;
+        repairs.push(`${p}: removed invalid loop style.`);
+      }
+      if (n.sourceRef !== undefined && !isString(n.sourceRef)) {
+        delete node.sourceRef;
+        repairs.push(`${p}: removed invalid source reference.`);
+      }
+      if (n.collapsed !== undefined && typeof n.collapsed !== 'boolean') {
+        delete node.collapsed;
+        repairs.push(`${p}: removed invalid collapsed flag.`);
+      }
+      if (n.subDiagram !== undefined) {
+        if (isObject(n.subDiagram)) {
+          const child = repairFlowchartData(n.subDiagram);
+          node.subDiagram = child.data;
+          repairs.push(...child.repairs.map(r => `${p}.subDiagram: ${r}`));
+        } else {
+          delete node.subDiagram;
+          repairs.push(`${p}: removed invalid sub-diagram.`);
+        }
+      }
+      return [node];
+    });
+
+  // Nodes keep their coordinates; a canvas too small for them grows instead, as imports do.
+  if (nodes.length > 0) {
+    const width = Math.ceil(Math.max(...nodes.map(n => n.position.x + n.size.w)));
+    const height = Math.ceil(Math.max(...nodes.map(n => n.position.y + n.size.h)));
+    if (width > canvas.width || height > canvas.height) {
+      canvas = { width: Math.max(canvas.width, width), height: Math.max(canvas.height, height) };
+      repairs.push(`Grew the canvas to ${canvas.width}×${canvas.height} to fit the nodes.`);
+    }
+  }
+
+  // Side boxes
+  const boxIds = new Set<string>();
+  const sideBoxes: SideBox[] | undefined = raw.sideBoxes === undefined ? undefined : (isArray(raw.sideBoxes) ? raw.sideBoxes : [])
+    .flatMap((b, i) => {
+      const p = `sideBoxes[${i}]`;
+      if (!isObject(b) || !isKnownId(nodeIds, b.attachToNode)) {
+        repairs.push(`Dropped ${p}: not attached to an existing node.`);
+        return [];
+      }
+      const id = isString(b.id) && b.id && !boxIds.has(b.id) ? (boxIds.add(b.id), b.id) : uniqueId(`s${i + 1}`, boxIds);
+      if (id !== b.id) repairs.push(`${p}: assigned unique id "${id}".`);
+      const box = {
+        ...b,
+        id,
+        text: isString(b.text) ? b.text : '',
+        position: isOneOf(SIDE_BOX_POSITIONS, b.position) ? b.position : 'right',
+        size: isSize(b.size) ? b.size : { ...DEFAULT_SIDE_BOX_SIZE },
+        lineStyle: isOneOf(LINE_STYLES, b.lineStyle) ? b.lineStyle : 'solid',
+      } as SideBox;
+      if (box.offset !== undefined && !isPosition(box.offset)) {
+        delete box.offset;
+        repairs.push(`${p}: removed invalid offset.`);
+      }
+      return [box];
+    });
+
+  nodes.forEach(node => {
+    if (node.sideBox !== undefined && !boxIds.has(node.sideBox)) {
+      repairs.push(`Node "${node.id}": removed reference to missing sideBox "${node.sideBox}".`);
+      delete node.sideBox;
+    }
+  });
+
+  // Connectors
+  const connectorIds = new Set<string>();
+  const connectors: Connector[] = (isArray(raw.connectors) ? raw.connectors : (repairs.push('Replaced missing connectors array.'), []))
+    .flatMap((c, i) => {
+      const p = `connectors[${i}]`;
+      if (!isObject(c) || !isKnownId(nodeIds, c.from) || !isKnownId(nodeIds, c.to)) {
+        repairs.push(`Dropped dangling ${p}${isObject(c) ? ` (${c.from} → ${c.to})` : ''}.`);
+        return [];
+      }
+      const id = isString(c.id) && c.id && !connectorIds.has(c.id) ? (connectorIds.add(c.id), c.id) : uniqueId(`c${i + 1}`, connectorIds);
+      if (id !== c.id) repairs.push(`${p}: assigned unique id "${id}".`);
+      const conn = { ...c, id, type: isOneOf(CONNECTOR_TYPES, c.type) ? c.type : 'flow' } as Connector;
+      if (conn.style !== undefined && !isObject(conn.style)) delete conn.style;
+      if (conn.label !== undefined && !isString(conn.label)) {
+        delete conn.label;
+        repairs.push(`${p}: removed non-string label.`);
+      }
+      if (conn.kind !== undefined && !isOneOf(CONNECTOR_KINDS, conn.kind)) {
+        repairs.push(`${p}: replaced unknown kind "${c.kind}" with "flow".`);
+        conn.kind = 'flow';
+      }
+      (['arrowStart', 'arrowEnd'] as const).forEach(end => {
+        if (conn[end] !== undefined && !isOneOf(ARROW_HEADS, conn[end])) {
+          repairs.push(`${p}: removed unknown ${end} "${c[end]}".`);
+          delete conn[end];
+        }
+      });
+      if (conn.color !== undefined && !isString(conn.color)) delete conn.color;
+      if (conn.routing !== undefined && !isOneOf(ROUTING_STYLES, conn.routing)) {
+        delete conn.routing;
+        repairs.push(`${p}: removed unknown routing "${c.routing}".`);
+      }
+      return [conn];
+    });
+
+  // Supporting panels; a legacy single `supportingPanel` becomes the first one.
+  const rawPanels: unknown[] = isArray(raw.supportingPanels) ? [...raw.supportingPanels] : [];
+  if (raw.supportingPanels !== undefined && !isArray(raw.supportingPanels)) repairs.push('Removed invalid supportingPanels.');
+  if (isObject(raw.supportingPanel)) {
+    rawPanels.unshift(raw.supportingPanel);
+    repairs.push('Moved supportingPanel into supportingPanels.');
+  } else if (raw.supportingPanel !== undefined) {
+    repairs.push('Removed invalid supportingPanel.');
+  }
+  const panelIds = new Set<string>();
+  const supportingPanels: SupportingPanel[] = rawPanels.flatMap((panel, i) => {
+    const p = `supportingPanels[${i}]`;
+    if (!isObject(panel)) {
+      repairs.push(`Dropped ${p}: not an object.`);
+      return [];
+    }
+    const id = isString(panel.id) && panel.id && !panelIds.has(panel.id) ? (panelIds.add(panel.id), panel.id) : uniqueId(`panel-${i + 1}`, panelIds);
+    if (id !== panel.id) repairs.push(`${p}: assigned unique id "${id}".`);
+    const itemIds = new Set<string>();
+    const items = (isArray(panel.items) ? panel.items : []).flatMap((item, j) => {
+      if (!isObject(item)) {
+        repairs.push(`Dropped ${p}.items[${j}]: not an object.`);
+        return [];
+      }
+      const itemId = isString(item.id) && item.id && !itemIds.has(item.id) ? (itemIds.add(item.id), item.id) : uniqueId(`sp${j + 1}`, itemIds);
+      const fixed = { ...item, id: itemId, title: isString(item.title) ? item.title : '', description: isString(item.description) ? item.description : '', icon: isString(item.icon) ? item.icon : 'document' } as SupportingPanelItem;
+      if (fixed.connectsToNode !== undefined && !nodeIds.has(fixed.connectsToNode)) {
+        repairs.push(`${p}.items[${j}]: removed link to missing node "${fixed.connectsToNode}".`);
+        delete fixed.connectsToNode;
+      }
+      return [fixed];
+    });
+    return [{
+      ...panel,
+      id,
+      title: isString(panel.title) ? panel.title : '',
+      position: isPosition(panel.position) ? panel.position : { x: 0, y: 0 },
+      size: isSize(panel.size) ? panel.size : { w: 300, h: 280 },
+      items,
+    } as SupportingPanel];
+  });
+
+  // Annotations
+  const annotationIds = new Set<string>();
+  const annotations: Annotation[] | undefined = raw.annotations === undefined ? undefined : (isArray(raw.annotations) ? raw.annotations : [])
+    .flatMap((a, i) => {
+      const p = `annotations[${i}]`;
+      if (!isObject(a) || !isPosition(a.position)) {
+        repairs.push(`Dropped ${p}: not an object with a position.`);
+        return [];
+      }
+      const id = isString(a.id) && a.id && !annotationIds.has(a.id) ? (annotationIds.add(a.id), a.id) : uniqueId(`note${i + 1}`, annotationIds);
+      if (id !== a.id) repairs.push(`${p}: assigned unique id "${id}".`);
+      const kind = isOneOf(ANNOTATION_KINDS, a.kind) ? a.kind : (repairs.push(`${p}: replaced invalid kind "${a.kind}" with "sticky".`), 'sticky');
+      const note = { ...a, id, kind, text: isString(a.text) ? a.text : '', size: isSize(a.size) ? a.size : { ...DEFAULT_ANNOTATION_SIZE } } as Annotation;
+      if (note.color !== undefined && !isString(note.color)) delete note.color;
+      if (note.targetNode !== undefined && !nodeIds.has(note.targetNode)) {
+        repairs.push(`${p}: removed pointer to missing node "${note.targetNode}".`);
+        delete note.targetNode;
+      }
+      return [note];
+    });
+
+  // Lanes and groups
+  const laneIds = new Set<string>();
+  let lanes: Lane[] | undefined;
+  if (isArray(raw.lanes)) {
+    lanes = raw.lanes.flatMap((l, i) => {
+      if (!isObject(l)) {
+        repairs.push(`Dropped lanes[${i}]: not an object.`);
+        return [];
+      }
+      const id = isString(l.id) && l.id && !laneIds.has(l.id) ? (laneIds.add(l.id), l.id) : uniqueId(`lane${i + 1}`, laneIds);
+      if (id !== l.id) repairs.push(`lanes[${i}]: assigned unique id "${id}".`);
+      const lane = { ...l, id, title: isString(l.title) ? l.title : '' } as Lane;
+      if (lane.size !== undefined && !(isNumber(lane.size) && lane.size > 0)) delete lane.size;
+      return [lane];
+    });
+  } else if (raw.lanes !== undefined) {
+    repairs.push('Removed invalid lanes.');
+  }
+  nodes.forEach(node => {
+    if (node.lane !== undefined && !laneIds.has(node.lane)) {
+      repairs.push(`Node "${node.id}": removed reference to missing lane "${node.lane}".`);
+      delete node.lane;
+    }
+  });
+
+  let groups: NodeGroup[] | undefined;
+  if (isArray(raw.groups)) {
+    const groupIds = new Set<string>();
+    groups = raw.groups.flatMap((g, i) => {
+      if (!isObject(g)) {
+        repairs.push(`Dropped groups[${i}]: not an object.`);
+        return [];
+      }
+      const id = isString(g.id) && g.id && !groupIds.has(g.id) ? (groupIds.add(g.id), g.id) : uniqueId(`g${i + 1}`, groupIds);
+      if (id !== g.id) repairs.push(`groups[${i}]: assigned unique id "${id}".`);
+      const members = (isArray(g.nodeIds) ? g.nodeIds : []).filter((n): n is string => isKnownId(nodeIds, n));
+      if (!isArray(g.nodeIds) || members.length !== g.nodeIds.length) repairs.push(`groups[${i}]: removed references to missing nodes.`);
+      return [{ ...g, id, title: isString(g.title) ? g.title : '', nodeIds: members } as NodeGroup];
+    });
+  } else if (raw.groups !== undefined) {
+    repairs.push('Removed invalid groups.');
+  }
+
+  const data = {
+    ...raw,
+    title: isString(raw.title) ? raw.title : (repairs.push('Added missing title.'), 'Untitled Diagram'),
+    caption: isString(raw.caption) ? raw.caption : '',
+    canvas,
+    nodes,
+    connectors,
+  } as FlowchartData;
+  if (sideBoxes !== undefined) data.sideBoxes = sideBoxes;
+  delete data.supportingPanel;
+  if (supportingPanels.length > 0) data.supportingPanels = supportingPanels;
+  else delete data.supportingPanels;
+  if (annotations !== undefined) data.annotations = annotations;
+  if (data.diagramType !== undefined && !Object.values(DiagramType).includes(data.diagramType)) {
+    repairs.push(`Removed unknown diagram type "${data.diagramType}".`);
+    delete data.diagramType;
+  }
+  if (data.routing !== undefined && !ROUTING_STYLES.includes(data.routing)) {
+    repairs.push(`Removed unknown routing "${data.routing}".`);
+    delete data.routing;
+  }
+  if (lanes) data.lanes = lanes;
+  else delete data.lanes;
+  if (data.laneOrientation !== undefined && !LANE_ORIENTATIONS.includes(data.laneOrientation)) {
+    repairs.push(`Removed unknown lane orientation "${data.laneOrientation}".`);
+    delete data.laneOrientation;
+  }
+  if (groups) data.groups = groups;
+  else delete data.groups;
+
+  return { data, repairs };
+};
@@ -0,0 +1,155 @@
+import { FlowchartData } from '../types';
+
+// Collapsible branches. A node with `collapsed: true` stays visible but hides everything that is
+// only reachable through it; nodes still reachable along another open path stay visible.
+
+const buildChildren = (data: FlowchartData) => {
+  const children = new Map<string, string[]>();
+  data.connectors.forEach(c => {
+    if (!children.has(c.from)) children.set(c.from, []);
+    children.get(c.from)!.push(c.to);
+  });
+  return children;
+};
+
+const walk = (starts: string[], children: Map<string, string[]>, stopAt?: (id: string) => boolean) => {
+  const seen = new Set<string>(starts);
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (stopAt?.(id)) continue;
+    (children.get(id) || []).forEach(child => {
+      if (!seen.has(child)) {
+        seen.add(child);
+        queue.push(child);
+      }
+    });
+  }
+  return seen;
+};
+
+export const getHiddenNodeIds = (data: FlowchartData): Set<string> => {
+  const collapsed = new Set(data.nodes.filter(n => n.collapsed).map(n => n.id));
+  if (collapsed.size === 0) return new Set();
+
+  const children = buildChildren(data);
+  const incoming = new Set(data.connectors.map(c => c.to));
+  const roots = data.nodes.filter(n => !incoming.has(n.id)).map(n => n.id);
+  // A diagram that is one big cycle has no natural root; treat the first node as the entry point.
+  if (roots.length === 0 && data.nodes.length > 0) roots.push(data.nodes[0].id);
+
+  const open = walk(roots, children, id => collapsed.has(id));
+  const folded = walk([...collapsed].flatMap(id => children.get(id) || []), children);
+
+  return new Set([...folded].filter(id => !open.has(id)));
+};
+
+// Number of hidden nodes below each collapsed node, for the "+N" badges.
+export const getHiddenCounts = (data: FlowchartData): Record<string, number> => {
+  const hidden = getHiddenNodeIds(data);
+  if (hidden.size === 0) return {};
+  const children = buildChildren(data);
+  const counts: Record<string, number> = {};
+  data.nodes.filter(n => n.collapsed && !hidden.has(n.id)).forEach(n => {
+    const below = walk(children.get(n.id) || [], children);
+    counts[n.id] = [...below].filter(id => hidden.has(id)).length;
+  });
+  return counts;
+};
+
+// The ids plus every hidden node below any of them, so folded content travels with its parent.
+export const withHiddenDescendants = (data: FlowchartData, ids: string[]): string[] => {
+  const hidden = getHiddenNodeIds(data);
+  if (hidden.size === 0) return ids;
+  const children = buildChildren(data);
+  const result = new Set(ids);
+  const queue = [...ids];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (children.get(id) || []).forEach(child => {
+      if (hidden.has(child) && !result.has(child)) {
+        result.add(child);
+        queue.push(child);
+      }
+    });
+  }
+  return [...result];
+};
+
+// What is actually drawn and exported: hidden nodes and everything attached to them are left out.
+export const getVisibleDiagram = (data: FlowchartData): FlowchartData => {
+  const hidden = getHiddenNodeIds(data);
+  if (hidden.size === 0) return data;
+  return {
+    ...data,
+    nodes: data.nodes.filter(n => !hidden.has(n.id)),
+    connectors: data.connectors.filter(c => !hidden.has(c.from) && !hidden.has(c.to)),
+    sideBoxes: data.sideBoxes?.filter(s => !hidden.has(s.attachToNode)),
+    supportingPanels: data.supportingPanels?.map(panel => ({
+      ...panel,
+      items: panel.items.map(item =>
+        item.connectsToNode && hidden.has(item.connectsToNode) ? { ...item, connectsToNode: undefined } : item),
+    })),
+    annotations: data.annotations?.map(a => a.targetNode && hidden.has(a.targetNode) ? { ...a, targetNode: undefined } : a),
+  };
+};
+
+export const toggleCollapsed = (data: FlowchartData, id: string): FlowchartData => ({
+  ...data,
+  nodes: data.nodes.map(n => {
+    if (n.id !== id) return n;
+    if (n.collapsed) {
+      const { collapsed, ...expanded } = n;
+      return expanded;
+    }
+    return { ...n, collapsed: true };
+  }),
+});
+
+// Runs a layout over the visible diagram only. Hidden nodes keep their offset from the collapsed
+// node that hides them, so expanding a branch later shows it next to its parent again.
+export const layoutVisibleDiagram = (
+  data: FlowchartData,
+  layout: (visible: FlowchartData) => FlowchartData
+): FlowchartData => {
+  const hidden = getHiddenNodeIds(data);
+  if (hidden.size === 0) return layout(data);
+
+  const laidOut = layout(getVisibleDiagram(data));
+  const moved = new Map(laidOut.nodes.map(n => [n.id, n]));
+  const children = buildChildren(data);
+
+  // Each hidden node follows the first collapsed, visible ancestor found above it.
+  const owner = new Map<string, string>();
+  data.nodes.filter(n => n.collapsed && !hidden.has(n.id)).forEach(n => {
+    walk(children.get(n.id) || [], children).forEach(id => {
+      if (hidden.has(id) && !owner.has(id)) owner.set(id, n.id);
+    });
+  });
+
+  const nodes = data.nodes.map(n => {
+    if (moved.has(n.id)) return { ...n, position: moved.get(n.id)!.position };
+    const anchorId = owner.get(n.id);
+    const before = anchorId ? data.nodes.find(a => a.id === anchorId) : undefined;
+    const after = anchorId ? moved.get(anchorId) : undefined;
+    if (!before || !after) return n;
+    return {
+      ...n,
+      position: {
+        x: n.position.x + after.position.x - before.position.x,
+        y: n.position.y + after.position.y - before.position.y,
+      },
+    };
+  });
+
+  // Only the panels' positions come from the layout; their links to hidden nodes must survive.
+  const supportingPanels = data.supportingPanels?.map(panel => {
+    const placed = laidOut.supportingPanels?.find(p => p.id === panel.id);
+    return placed ? { ...panel, position: placed.position } : panel;
+  });
+
+  const result: FlowchartData = { ...data, canvas: laidOut.canvas, supportingPanels, nodes };
+  // Lane layouts also resize the lanes.
+  if (laidOut.lanes) result.lanes = laidOut.lanes;
+  return result;
+};
@@ -1,87 +1,66 @@
-
-import { GoogleGenAI, Type } from '@google/genai';
-import { FLOWCHART_SCHEMA } from '../constants';
-import { FlowchartData, DepthLevel, DiagramType, Node } from '../types';
-
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+import { FlowchartData, DepthLevel, DiagramType, DiagramDiff, Node } from '../types';
+import { getDiagramAIProvider, SubnodeSuggestion } from './providers';
+import { repairFlowchartData } from './flowchartValidation';
+import { extractPartialFlowchart } from './partialJson';
+import { normalizeDiagramDiff } from './diagramDiff';
+import { computeLayeredLayout, hasOverlappingNodes } from './layeredLayout';
+import { computeLaneLayout } from './lanes';
+
+export interface GenerateFlowchartOptions {
+  signal?: AbortSignal;
+  // Receives a renderable preview each time more nodes or connectors have streamed in.
+  onPartial?: (data: FlowchartData) => void;
+  // Extract the diagram from this document instead of generating it from the topic alone.
+  sourceText?: string;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-export const generateFlowchartJson = async (topic: string, depth: DepthLevel, type: DiagramType, nodeCount?: number): Promise<FlowchartData> => {
-  const systemInstruction = `You are an expert at creating diagram data structures in JSON format. You will be given a topic, a diagram type (Flowchart or Mind Map), and a desired level of detail. Your response must strictly adhere to the provided JSON schema. Do not add any explanatory text or markdown formatting around the JSON output.`;
-
-  let layoutInstructions = '';
-
-  if (type === DiagramType.FLOWCHART) {
-      layoutInstructions = `
-      **Layout Strategy: VERTICAL FLOWCHART**
-      - The overall flow must be strictly vertical, from top-to-bottom.
-      - Nodes should be centered horizontally (e.g., x: ~260 if width is 680 and canvas is 1200).
-      - **IMPORTANT**: Start the first node at y: 320 or lower to leave ample space for the large title banner.
-      - Provide at least 80-100 units of vertical space between each node's bottom edge and the next node's top edge.
-      - Use a standard width for main nodes (e.g., w: 680, h: 86).
-      - Use 'supportingPanel' to explain key concepts, placed to the right of the main vertical chain (e.g., x: 900+).
-      - Connectors should flow downwards.
-      `;
-  } else if (type === DiagramType.MINDMAP) {
-      const targetNodes = nodeCount || 15;
-      layoutInstructions = `
-      **Layout Strategy: MIND MAP**
-      - **Canvas Size**: STRICTLY set canvas width to 1700 and height to 1700.
-      - **Structure**: Central Root Node -> Branches (Level 1) -> Sub-branches (Level 2).
-      - **Node Count**: You MUST generate approximately **${targetNodes} nodes** in total. Distribute them logically across branches.
-      - **Positions**: Place the **Main Topic** node strictly in the center of the canvas (x: 850, y: 850).
-      - **Radial Layout**: Radiate Level 1 nodes outwards in a circle around the center. Place Level 2 nodes further out from their parents.
-      - **Sizing**: 
-          - **Width**: Approx formula: (title_chars * 11) + 80. Min: 200, Max: 400.
-          - **Height**: Start with 100.
-      - **Visuals**: Nodes will be rendered as rounded rectangles.
-      - **Connectors**: Use straight lines connecting Parent to Child. Do NOT use arrows.
-      - **Cleanliness**: Do NOT use 'supportingPanel' or 'sideBoxes'.
-      - **Spacing**: Spread nodes out significantly to fill the 1700x1700 canvas. Avoid overlapping.
-      `;
-  }
-
-  const userPrompt = `
-    Generate a "${type}" for the topic: "${topic}".
-    The level of detail should be "${depth}".
-    
-    Create a catchy, short title for the diagram in the 'title' field.
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
 
-    ${layoutInstructions}
+// Public entry points used by the UI. The actual model call is delegated to the configured
+// DiagramAIProvider (Gemini, an OpenAI-compatible endpoint, or the offline mock).
 
-    **General Constraints:**
-    - For 'Simple', use fewer nodes.
-    - For 'Detailed' or 'Expert', increase the complexity.
-  `;
+export const generateFlowchartJson = async (topic: string, depth: DepthLevel, type: DiagramType, nodeCount?: number, options: GenerateFlowchartOptions = {}): Promise<FlowchartData> => {
+  const { signal, onPartial, sourceText } = options;
+  let lastPreviewKey = '';
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: userPrompt,
-      config: {
-        systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: FLOWCHART_SCHEMA,
-      },
+    const raw = await getDiagramAIProvider().generateFlowchart({ topic, depth, type, nodeCount, sourceText }, {
+      signal,
+      onText: onPartial && ((text) => {
+        const preview = extractPartialFlowchart(text, type);
+        if (!preview) return;
+        // Only re-render when something new became visible.
+        const key = `${preview.nodes.length}:${preview.connectors.length}:${preview.title}`;
+        if (key !== lastPreviewKey) {
+          lastPreviewKey = key;
+          onPartial(preview);
+        }
+      }),
     });
-
-    const jsonText = response.text.trim();
-    if (!jsonText) {
-      throw new Error("API returned an empty response.");
+    // Models occasionally emit dangling connectors or duplicate ids; fix them before they reach the canvas.
+    const { data: repaired, repairs } = repairFlowchartData(raw);
+    if (repairs.length > 0) {
+      console.warn(`Repaired ${repairs.length} issue(s) in the generated diagram:`, repairs);
     }
-    
-    // The API should return a valid JSON object because of responseSchema
-    const data = JSON.parse(jsonText) as FlowchartData;
+    // The model's own coordinates are kept unless nodes collide; then the layered layout takes over.
+    // Swimlane diagrams are always laid out here, since the model doesn't know the lane geometry.
+    const data = repaired.lanes && repaired.lanes.length > 0
+      ? computeLaneLayout(repaired)
+      : type === DiagramType.FLOWCHART && hasOverlappingNodes(repaired, 10)
+        ? computeLayeredLayout(repaired, { headerSpace: 320 })
+        : repaired;
     // Inject the diagram type into the data
     data.diagramType = type;
     return data;
 
   } catch (error) {
-    console.error("Error generating flowchart from Gemini:", error);
+    if (signal?.aborted || isAbortError(error)) {
+        const cancelled = new Error('Generation cancelled.');
+        cancelled.name = 'AbortError';
+        throw cancelled;
+    }
+    console.error("Error generating flowchart:", error);
     if (error instanceof Error) {
         // Provide a more user-friendly message for common transient API issues.
         if (error.message.includes('xhr error') || error.message.includes('500')) {
@@ -94,68 +73,28 @@ export const generateFlowchartJson = async (topic: string, depth: DepthLevel, ty
 };
 
 export const generateEnhancedDescription = async (nodeTitle: string, currentDescription: string, topic: string): Promise<string> => {
-  const prompt = `
-    I have a node in a diagram about "${topic}".
-    Node Title: "${nodeTitle}"
-    Current Description: "${currentDescription}"
-    
-    Please expand on the description for this node to provide more depth and detail, in simple text, in few sentences.
-    Maintain the tone of the original diagram.
-  `;
-
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-    });
-
-    return response.text.trim();
+    return await getDiagramAIProvider().enhanceDescription(nodeTitle, currentDescription, topic);
   } catch (error) {
     console.error("Error expanding description:", error);
     throw new Error("Failed to generate expanded description.");
   }
 };
 
-export const generateSubnodes = async (parentNode: Node, topic: string, aspect?: string): Promise<{ title: string; description: string; icon: string }[]> => {
-    let specificInstruction = "";
-    if (aspect && aspect.trim().length > 0) {
-        specificInstruction = `Focus the generated sub-concepts specifically on this aspect or perspective: "${aspect}".`;
-    }
-
-    const prompt = `
-      I have a Mind Map/Flowchart about "${topic}".
-      I want to expand on the specific node: "${parentNode.title}" (Description: ${parentNode.description}).
-      ${specificInstruction}
-      
-      Generate 3 to 5 new sub-concepts (child nodes) that stem from this node.
-      Return them as a JSON array of objects.
-    `;
-
-    const schema = {
-        type: Type.ARRAY,
-        items: {
-            type: Type.OBJECT,
-            properties: {
-                title: { type: Type.STRING },
-                description: { type: Type.STRING },
-                icon: { type: Type.STRING, description: "One of: droplet, spring, spark, exhaust, gear, pump, bolt, idea, check, warning, search, or document" }
-            },
-            required: ['title', 'description', 'icon']
-        }
-    };
-
+export const generateSubnodes = async (parentNode: Node, topic: string, aspect?: string): Promise<SubnodeSuggestion[]> => {
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: schema
-            }
-        });
-        return JSON.parse(response.text.trim());
+        return await getDiagramAIProvider().generateSubnodes(parentNode, topic, aspect);
     } catch (error) {
         console.error("Error generating subnodes:", error);
         throw new Error("Failed to generate subnodes.");
     }
-}
\ No newline at end of file
+}
+
+export const generateDiagramRefinement = async (data: FlowchartData, instruction: string): Promise<DiagramDiff> => {
+    try {
+        return normalizeDiagramDiff(await getDiagramAIProvider().refineDiagram(data, instruction));
+    } catch (error) {
+        console.error("Error refining diagram:", error);
+        throw new Error("Failed to apply the instruction. Please try rephrasing it.");
+    }
+};
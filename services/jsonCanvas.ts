@@ -0,0 +1,143 @@
+import { FlowchartData, Node, Connector, NodeGroup, DiagramType } from '../types';
+import { getImportedNodeSize, splitLabel, placeImportedNodes } from './diagramImport';
+
+// JSON Canvas (Obsidian's .canvas format, jsoncanvas.org) to FlowchartData. Text, file and link
+// cards become nodes, group cards become groups around the cards inside them, edges become connectors.
+
+interface CanvasNode {
+    id: string;
+    type: 'text' | 'file' | 'link' | 'group';
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    color?: string;
+    text?: string;
+    file?: string;
+    subpath?: string;
+    url?: string;
+    label?: string;
+}
+
+interface CanvasEdge {
+    id?: string;
+    fromNode: string;
+    toNode: string;
+    fromEnd?: 'none' | 'arrow';
+    toEnd?: 'none' | 'arrow';
+    color?: string;
+    label?: string;
+}
+
+// The six preset colours, numbered as in the spec.
+const PRESET_COLORS: Record<string, string> = {
+    '1': '#fb464c',
+    '2': '#e9973f',
+    '3': '#e0de71',
+    '4': '#44cf6e',
+    '5': '#53dfdd',
+    '6': '#a882ff',
+};
+
+const resolveColor = (color?: string) => color ? PRESET_COLORS[color] || color : undefined;
+
+// Markdown syntax that would show up literally in a title or description.
+const stripMarkdown = (text: string) =>
+    text
+        .replace(/^\s{0,3}(#{1,6}\s+|>\s?|[-*+]\s+(\[[ xX]\]\s+)?|\d+\.\s+)/gm, '')
+        .replace(/!?\[\[([^\]|]+)(\|([^\]]+))?\]\]/g, (_, target, __, alias) => alias || target)
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/(\*\*|__|~~|`)(.+?)\1/g, '$2')
+        .replace(/(^|\W)[*_](\S.*?)[*_](?=\W|$)/g, '$1$2');
+
+const cardLabel = (card: CanvasNode): string => {
+    if (card.type === 'file') {
+        const name = (card.file || '').split('/').pop() || card.file || '';
+        return `${name.replace(/\.md$/i, '')}${card.subpath ? `\n${card.subpath.replace(/^#\^?/, '')}` : ''}`;
+    }
+    if (card.type === 'link') return card.url || '';
+    return stripMarkdown(card.text || '');
+};
+
+const hasCoordinates = (card: CanvasNode) =>
+    [card.x, card.y, card.width, card.height].every(v => typeof v === 'number' && isFinite(v));
+
+const contains = (group: CanvasNode, card: CanvasNode) =>
+    card.x! >= group.x! && card.y! >= group.y! &&
+    card.x! + card.width! <= group.x! + group.width! && card.y! + card.height! <= group.y! + group.height!;
+
+export const fromJsonCanvas = (text: string, fallbackTitle: string = 'Imported Canvas'): FlowchartData => {
+    let parsed: { nodes?: CanvasNode[]; edges?: CanvasEdge[] };
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The canvas file is not valid JSON.');
+    }
+    if (!parsed || !Array.isArray(parsed.nodes)) throw new Error('The file is not a JSON Canvas (no "nodes" list).');
+
+    const cards = parsed.nodes.filter(n => n && typeof n.id === 'string' && n.type !== 'group');
+    const groupCards = parsed.nodes.filter(n => n && typeof n.id === 'string' && n.type === 'group');
+    if (cards.length === 0) throw new Error('The canvas has no cards to import.');
+    const hasPositions = cards.every(hasCoordinates);
+
+    // Hand-edited canvases can repeat an id. Later cards get a fresh one; edges naming the
+    // repeated id attach to the first card that had it.
+    const cardIds = new Map<CanvasNode, string>();
+    const firstCardId = new Map<string, string>();
+    const takenIds = new Set<string>();
+    cards.forEach(card => {
+        let id = card.id;
+        for (let n = 2; takenIds.has(id); n++) id = `${card.id}-${n}`;
+        takenIds.add(id);
+        cardIds.set(card, id);
+        if (!firstCardId.has(card.id)) firstCardId.set(card.id, id);
+    });
+
+    const nodes: Node[] = cards.map(card => {
+        const { title, description } = splitLabel(cardLabel(card));
+        return {
+            id: cardIds.get(card)!,
+            type: 'main',
+            title,
+            description,
+            icon: 'document',
+            position: hasPositions ? { x: card.x!, y: card.y! } : { x: 0, y: 0 },
+            size: hasPositions ? { w: card.width!, h: card.height! } : getImportedNodeSize(title, 'main'),
+        };
+    });
+
+    const connectors: Connector[] = (parsed.edges || [])
+        .filter(e => e && firstCardId.has(e.fromNode) && firstCardId.has(e.toNode))
+        .map((edge, i) => {
+            const color = resolveColor(edge.color);
+            return {
+                id: edge.id || `c${i + 1}`,
+                from: firstCardId.get(edge.fromNode)!,
+                to: firstCardId.get(edge.toNode)!,
+                type: 'flow',
+                ...(edge.label ? { label: edge.label } : {}),
+                ...(edge.fromEnd === 'arrow' ? { arrowStart: 'arrow' as const } : {}),
+                ...(edge.toEnd === 'none' ? { arrowEnd: 'none' as const } : {}),
+                ...(color ? { color } : {}),
+            };
+        });
+
+    // Group membership is spatial in JSON Canvas, so it needs the source coordinates.
+    const groups: NodeGroup[] = groupCards.filter(hasCoordinates).flatMap(group => {
+        const members = cards.filter(card => hasCoordinates(card) && contains(group, card)).map(card => cardIds.get(card)!);
+        if (members.length === 0) return [];
+        const color = resolveColor(group.color);
+        return [{ id: group.id, title: group.label || '', nodeIds: members, ...(color ? { color } : {}) }];
+    });
+
+    const data: FlowchartData = {
+        title: fallbackTitle.toUpperCase(),
+        caption: 'Imported from JSON Canvas.',
+        canvas: { width: 1200, height: 1000 },
+        nodes,
+        connectors,
+        diagramType: DiagramType.FLOWCHART,
+        ...(groups.length > 0 ? { groups } : {}),
+    };
+    return placeImportedNodes(data, hasPositions);
+};
@@ -0,0 +1,180 @@
+import { FlowchartData, Lane, NodeGroup, Position } from '../types';
+import { Rect } from './routing';
+import { computeLayeredLayout } from './layeredLayout';
+import { placePanelsRightOf, getPanelsExtent } from './annotations';
+
+// Swimlanes and group frames. Lanes are bands stacked below the title banner, one per actor or
+// system; each band is as thick as its `size` and as long as the nodes inside the lanes need.
+// Groups have no geometry of their own: their frame always wraps the member nodes.
+
+export const LANE_HEADER = 44; // Strip holding the lane title
+export const DEFAULT_LANE_SIZE = 220;
+const LANE_ORIGIN = { x: 40, y: 180 };
+const LANE_PADDING = 40;
+const MIN_LANE_LENGTH = 600;
+const GROUP_PADDING = 24;
+const GROUP_TITLE_SPACE = 26;
+// Gap between nodes that share both a lane and a layer.
+const STACK_GAP = 30;
+
+export interface LaneBand {
+  lane: Lane;
+  rect: Rect;
+  header: Rect;
+}
+
+export const isHorizontalLanes = (data: FlowchartData) => (data.laneOrientation || 'horizontal') === 'horizontal';
+
+export const getLaneBands = (data: FlowchartData): LaneBand[] => {
+  if (!data.lanes || data.lanes.length === 0) return [];
+  const horizontal = isHorizontalLanes(data);
+
+  // Bands reach just past the furthest node along the flow.
+  const origin = horizontal ? LANE_ORIGIN.x : LANE_ORIGIN.y;
+  const furthest = Math.max(0, ...data.nodes.map(n => horizontal ? n.position.x + n.size.w : n.position.y + n.size.h));
+  const length = Math.max(MIN_LANE_LENGTH, furthest + LANE_PADDING - origin);
+
+  let cursor = horizontal ? LANE_ORIGIN.y : LANE_ORIGIN.x;
+  return data.lanes.map(lane => {
+    const size = lane.size ?? DEFAULT_LANE_SIZE;
+    const rect = horizontal
+      ? { x: LANE_ORIGIN.x, y: cursor, w: length, h: size }
+      : { x: cursor, y: LANE_ORIGIN.y, w: size, h: length };
+    const header = horizontal
+      ? { x: rect.x, y: rect.y, w: LANE_HEADER, h: rect.h }
+      : { x: rect.x, y: rect.y, w: rect.w, h: LANE_HEADER };
+    cursor += size;
+    return { lane, rect, header };
+  });
+};
+
+// Lane whose band contains the point, if any.
+export const findLaneAt = (data: FlowchartData, p: Position): string | undefined =>
+  getLaneBands(data).find(({ rect }) => p.x >= rect.x && p.x <= rect.x + rect.w && p.y >= rect.y && p.y <= rect.y + rect.h)?.lane.id;
+
+// After a drag, nodes take the lane their centre was dropped in. Nodes dropped outside every
+// band keep their lane so a stray drag can't silently unassign them.
+export const assignLanesByPosition = (data: FlowchartData, ids: Iterable<string>): FlowchartData => {
+  if (!data.lanes || data.lanes.length === 0) return data;
+  const moved = new Set(ids);
+  let changed = false;
+  const nodes = data.nodes.map(n => {
+    if (!moved.has(n.id)) return n;
+    const lane = findLaneAt(data, { x: n.position.x + n.size.w / 2, y: n.position.y + n.size.h / 2 });
+    if (!lane || lane === n.lane) return n;
+    changed = true;
+    return { ...n, lane };
+  });
+  return changed ? { ...data, nodes } : data;
+};
+
+export const getGroupFrame = (data: FlowchartData, group: NodeGroup): Rect | null => {
+  const members = data.nodes.filter(n => group.nodeIds.includes(n.id));
+  if (members.length === 0) return null;
+  const x = Math.min(...members.map(n => n.position.x)) - GROUP_PADDING;
+  const y = Math.min(...members.map(n => n.position.y)) - GROUP_PADDING - GROUP_TITLE_SPACE;
+  const right = Math.max(...members.map(n => n.position.x + n.size.w)) + GROUP_PADDING;
+  const bottom = Math.max(...members.map(n => n.position.y + n.size.h)) + GROUP_PADDING;
+  return { x, y, w: right - x, h: bottom - y };
+};
+
+// Layered layout that keeps every node inside its lane. The flow runs along the lanes (left to
+// right for horizontal lanes, top to bottom for vertical ones); the layered engine decides the
+// order along the flow, and nodes sharing a lane and a layer are stacked across the lane.
+// Nodes without a lane are laid out after the last lane.
+export const computeLaneLayout = (data: FlowchartData): FlowchartData => {
+  if (!data.lanes || data.lanes.length === 0 || data.nodes.length === 0) return data;
+  const horizontal = isHorizontalLanes(data);
+  const base = computeLayeredLayout(data, { direction: horizontal ? 'LR' : 'TB' });
+
+  const main = (p: Position) => horizontal ? p.x : p.y;
+  const cross = (p: Position) => horizontal ? p.y : p.x;
+  const mainSize = (id: string) => { const n = base.nodes.find(b => b.id === id)!; return horizontal ? n.size.w : n.size.h; };
+  const crossSize = (id: string) => { const n = base.nodes.find(b => b.id === id)!; return horizontal ? n.size.h : n.size.w; };
+
+  const laneIds = data.lanes.map(l => l.id);
+  const bucketOf = (laneId: string | undefined) => laneId && laneIds.includes(laneId) ? laneId : '';
+  const buckets = [...laneIds, ''];
+
+  // Layers are recovered from the layered result: nodes of one layer overlap along the flow,
+  // consecutive layers are separated by the layer gap.
+  const layerOf = new Map<string, number>();
+  let layer = -1;
+  let layerEnd = -Infinity;
+  [...base.nodes]
+    .sort((a, b) => main(a.position) - main(b.position))
+    .forEach(n => {
+      if (main(n.position) >= layerEnd) {
+        layer++;
+        layerEnd = -Infinity;
+      }
+      layerEnd = Math.max(layerEnd, main(n.position) + mainSize(n.id));
+      layerOf.set(n.id, layer);
+    });
+
+  const stacks = new Map<string, Map<number, string[]>>();
+  buckets.forEach(b => stacks.set(b, new Map()));
+  [...base.nodes]
+    .sort((a, b) => cross(a.position) - cross(b.position))
+    .forEach(n => {
+      const byLayer = stacks.get(bucketOf(n.lane))!;
+      const key = layerOf.get(n.id)!;
+      if (!byLayer.has(key)) byLayer.set(key, []);
+      byLayer.get(key)!.push(n.id);
+    });
+
+  const stackExtent = (ids: string[]) => ids.reduce((sum, id) => sum + crossSize(id), 0) + STACK_GAP * (ids.length - 1);
+
+  // Lane thickness: the tallest stack plus padding, never smaller than the header needs.
+  const thickness = new Map<string, number>();
+  buckets.forEach(b => {
+    const widest = Math.max(0, ...[...stacks.get(b)!.values()].map(stackExtent));
+    thickness.set(b, Math.max(horizontal ? 120 : LANE_HEADER + 80, widest + 2 * LANE_PADDING + (horizontal ? 0 : LANE_HEADER)));
+  });
+
+  // Along the flow, shift everything clear of the lane headers.
+  const minMain = Math.min(...base.nodes.map(n => main(n.position)));
+  const mainShift = (horizontal ? LANE_ORIGIN.x + LANE_HEADER : LANE_ORIGIN.y + LANE_HEADER) + LANE_PADDING - minMain;
+
+  const positions = new Map<string, Position>();
+  let laneStart = horizontal ? LANE_ORIGIN.y : LANE_ORIGIN.x;
+  buckets.forEach(b => {
+    const size = thickness.get(b)!;
+    const inner = horizontal ? size : size - LANE_HEADER;
+    const innerStart = laneStart + (horizontal ? 0 : LANE_HEADER);
+    stacks.get(b)!.forEach(ids => {
+      let c = innerStart + (inner - stackExtent(ids)) / 2;
+      ids.forEach(id => {
+        const n = base.nodes.find(bn => bn.id === id)!;
+        const m = main(n.position) + mainShift;
+        positions.set(id, horizontal ? { x: Math.round(m), y: Math.round(c) } : { x: Math.round(c), y: Math.round(m) });
+        c += crossSize(id) + STACK_GAP;
+      });
+    });
+    if (b !== '' || stacks.get(b)!.size > 0) laneStart += size;
+  });
+
+  const nodes = base.nodes.map(n => ({ ...n, position: positions.get(n.id) || n.position }));
+  const lanes = data.lanes.map(l => ({ ...l, size: thickness.get(l.id) }));
+  const laidOut: FlowchartData = { ...base, nodes, lanes };
+
+  // Grow the canvas around the bands and keep the supporting panels beside them.
+  const bands = getLaneBands(laidOut);
+  const lanesRight = Math.max(...bands.map(b => b.rect.x + b.rect.w), ...nodes.map(n => n.position.x + n.size.w));
+  const lanesBottom = Math.max(...bands.map(b => b.rect.y + b.rect.h), ...nodes.map(n => n.position.y + n.size.h));
+  // Panels are always restacked: any spot left of the bands' end would cover a lane.
+  const unplaced = laidOut.supportingPanels?.map(p => ({ ...p, position: { x: 0, y: 0 } }));
+  const placed = placePanelsRightOf(unplaced, lanesRight + 60, LANE_ORIGIN.y);
+  const panels = getPanelsExtent(placed);
+  const right = panels ? panels.x : lanesRight;
+  const bottom = panels ? Math.max(lanesBottom, panels.y) : lanesBottom;
+
+  return {
+    ...laidOut,
+    supportingPanels: placed,
+    canvas: {
+      width: Math.max(data.canvas.width, Math.ceil(right + LANE_ORIGIN.x)),
+      height: Math.max(data.canvas.height, Math.ceil(bottom + LANE_ORIGIN.x)),
+    },
+  };
+};
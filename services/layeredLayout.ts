@@ -0,0 +1,355 @@
+import { FlowchartData, Node } from '../types';
+import { getSideBoxRect, placePanelsRightOf, getPanelsExtent } from './annotations';
+
+// Sugiyama-style layered layout:
+//   1. break cycles by reversing DFS back edges,
+//   2. assign layers by longest path (sources pulled down next to their successors),
+//   3. split long edges with dummy nodes,
+//   4. reduce crossings with barycenter sweeps,
+//   5. assign coordinates that respect every node's size.
+// Only node positions (and, if needed, the canvas and supporting panels) change.
+
+export type LayoutDirection = 'TB' | 'LR';
+
+export interface LayeredLayoutOptions {
+  direction?: LayoutDirection;
+  // Gap between two neighbours in the same layer.
+  nodeGap?: number;
+  // Gap between consecutive layers.
+  layerGap?: number;
+  margin?: number;
+  // Space kept free above the diagram for the title banner.
+  headerSpace?: number;
+}
+
+interface LayoutItem {
+  id: string;
+  // Extent along the layer (cross) axis and across layers (main) axis.
+  cross: number;
+  main: number;
+  // Extra room after the node on the cross axis (TB) or main axis (LR), e.g. for a side box.
+  trailing: number;
+}
+
+const DUMMY_EXTENT = 24;
+const CROSSING_SWEEPS = 12;
+const COORDINATE_SWEEPS = 8;
+
+// Splits the edges into a DAG over `ids` and the back edges found by DFS (stored reversed).
+// Self loops are dropped.
+const breakCycles = (ids: string[], edges: [string, string][]): { forward: [string, string][]; back: [string, string][] } => {
+  const out = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([from, to]) => out.get(from)!.push(to));
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reversed = new Set<string>();
+  const incoming = new Set(edges.map(([, to]) => to));
+  // Start from sources so the "natural" direction of the diagram survives.
+  const starts = [...ids.filter(id => !incoming.has(id)), ...ids];
+
+  starts.forEach(start => {
+    if (state.has(start)) return;
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 'visiting');
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      const targets = out.get(frame.id)!;
+      if (frame.next >= targets.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      const target = targets[frame.next++];
+      const targetState = state.get(target);
+      if (targetState === 'visiting') reversed.add(`${frame.id}\u0000${target}`);
+      else if (!targetState) {
+        state.set(target, 'visiting');
+        stack.push({ id: target, next: 0 });
+      }
+    }
+  });
+
+  const seen = new Set<string>();
+  const forward: [string, string][] = [];
+  const back: [string, string][] = [];
+  edges.forEach(([from, to]) => {
+    if (from === to) return;
+    const isBack = reversed.has(`${from}\u0000${to}`);
+    const edge: [string, string] = isBack ? [to, from] : [from, to];
+    const key = `${edge[0]}\u0000${edge[1]}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    (isBack ? back : forward).push(edge);
+  });
+  return { forward, back };
+};
+
+const assignLayers = (ids: string[], edges: [string, string][]): Map<string, number> => {
+  const preds = new Map<string, string[]>(ids.map(id => [id, []]));
+  const succs = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(([from, to]) => {
+    succs.get(from)!.push(to);
+    preds.get(to)!.push(from);
+  });
+
+  // Kahn's algorithm keeps the original node order among independent nodes.
+  const indegree = new Map(ids.map(id => [id, preds.get(id)!.length]));
+  const queue = ids.filter(id => indegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    succs.get(id)!.forEach(s => {
+      indegree.set(s, indegree.get(s)! - 1);
+      if (indegree.get(s) === 0) queue.push(s);
+    });
+  }
+
+  const layer = new Map<string, number>();
+  order.forEach(id => {
+    const p = preds.get(id)!;
+    layer.set(id, p.length ? Math.max(...p.map(pid => layer.get(pid)! + 1)) : 0);
+  });
+
+  // Sources with successors deep down would otherwise leave long edges from layer 0.
+  [...order].reverse().forEach(id => {
+    if (preds.get(id)!.length > 0) return;
+    const s = succs.get(id)!;
+    if (s.length) layer.set(id, Math.min(...s.map(sid => layer.get(sid)!)) - 1);
+  });
+
+  return layer;
+};
+
+const countCrossings = (upper: string[], lower: string[], edges: [string, string][]): number => {
+  const upperIndex = new Map(upper.map((id, i) => [id, i]));
+  const lowerIndex = new Map(lower.map((id, i) => [id, i]));
+  const pairs = edges
+    .filter(([a, b]) => upperIndex.has(a) && lowerIndex.has(b))
+    .map(([a, b]) => [upperIndex.get(a)!, lowerIndex.get(b)!]);
+  let crossings = 0;
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = i + 1; j < pairs.length; j++) {
+      if ((pairs[i][0] - pairs[j][0]) * (pairs[i][1] - pairs[j][1]) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+const totalCrossings = (layers: string[][], edges: [string, string][]) =>
+  layers.slice(1).reduce((sum, layer, i) => sum + countCrossings(layers[i], layer, edges), 0);
+
+const reduceCrossings = (layers: string[][], edges: [string, string][]): string[][] => {
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  edges.forEach(([from, to]) => {
+    (down.get(from) || down.set(from, []).get(from)!).push(to);
+    (up.get(to) || up.set(to, []).get(to)!).push(from);
+  });
+
+  let best = layers.map(l => [...l]);
+  let bestCrossings = totalCrossings(best, edges);
+  let current = best.map(l => [...l]);
+
+  const reorder = (layer: string[], reference: string[], neighbours: Map<string, string[]>) => {
+    const refIndex = new Map(reference.map((id, i) => [id, i]));
+    const weights = new Map(layer.map((id, i) => {
+      const adjacent = (neighbours.get(id) || []).filter(n => refIndex.has(n));
+      // Nodes without neighbours keep their current slot.
+      return [id, adjacent.length ? adjacent.reduce((s, n) => s + refIndex.get(n)!, 0) / adjacent.length : i];
+    }));
+    return [...layer].sort((a, b) => weights.get(a)! - weights.get(b)!);
+  };
+
+  for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < current.length; i++) current[i] = reorder(current[i], current[i - 1], up);
+    } else {
+      for (let i = current.length - 2; i >= 0; i--) current[i] = reorder(current[i], current[i + 1], down);
+    }
+    const crossings = totalCrossings(current, edges);
+    if (crossings < bestCrossings) {
+      best = current.map(l => [...l]);
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+};
+
+// Places the items of one layer as close as possible to their desired centres without overlaps.
+// Averaging a left-packed and a right-packed pass keeps the order and the minimum separation.
+const packLayer = (desired: number[], separation: number[]): number[] => {
+  const n = desired.length;
+  if (n === 0) return [];
+  const left = [...desired];
+  for (let i = 1; i < n; i++) left[i] = Math.max(desired[i], left[i - 1] + separation[i - 1]);
+  const right = [...desired];
+  for (let i = n - 2; i >= 0; i--) right[i] = Math.min(desired[i], right[i + 1] - separation[i]);
+  return left.map((l, i) => (l + right[i]) / 2);
+};
+
+export const computeLayeredLayout = (data: FlowchartData, options: LayeredLayoutOptions = {}): FlowchartData => {
+  const { direction = 'TB', margin = 100, headerSpace = 200 } = options;
+  const nodeGap = options.nodeGap ?? (direction === 'TB' ? 80 : 50);
+  const layerGap = options.layerGap ?? (direction === 'TB' ? 100 : 140);
+  if (data.nodes.length === 0) return data;
+
+  const horizontal = direction === 'LR';
+  const nodeIds = data.nodes.map(n => n.id);
+  const known = new Set(nodeIds);
+  const rawEdges = data.connectors
+    .filter(c => known.has(c.from) && known.has(c.to))
+    .map(c => [c.from, c.to] as [string, string]);
+
+  const { forward, back } = breakCycles(nodeIds, rawEdges);
+  const layerOf = assignLayers(nodeIds, [...forward, ...back]);
+
+  // Side boxes on the right of their node need room too; boxes on other sides are left where the user put them.
+  const sideBoxExtent = new Map<string, number>();
+  data.sideBoxes?.forEach(box => {
+    const node = data.nodes.find(n => n.id === box.attachToNode);
+    if (!node || box.position !== 'right') return;
+    const rect = getSideBoxRect(box, node);
+    const extent = Math.max(0, rect.x + rect.w - node.position.x - node.size.w);
+    sideBoxExtent.set(box.attachToNode, Math.max(sideBoxExtent.get(box.attachToNode) || 0, extent));
+  });
+
+  const items = new Map<string, LayoutItem>();
+  data.nodes.forEach(node => {
+    items.set(node.id, {
+      id: node.id,
+      cross: horizontal ? node.size.h : node.size.w,
+      main: horizontal ? node.size.w : node.size.h,
+      trailing: sideBoxExtent.get(node.id) || 0,
+    });
+  });
+
+  // Split edges spanning several layers so crossing reduction and spacing see them.
+  // Back edges (loops such as "retry from step 1") are routed around the diagram instead,
+  // so they don't push the main chain sideways.
+  const layerCount = Math.max(...[...layerOf.values()]) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  nodeIds.forEach(id => layers[layerOf.get(id)!].push(id));
+  const segments: [string, string][] = [];
+  forward.forEach(([from, to], edgeIndex) => {
+    let previous = from;
+    for (let l = layerOf.get(from)! + 1; l < layerOf.get(to)!; l++) {
+      const dummyId = `\u0000dummy-${edgeIndex}-${l}`;
+      items.set(dummyId, { id: dummyId, cross: DUMMY_EXTENT, main: 0, trailing: 0 });
+      layers[l].push(dummyId);
+      segments.push([previous, dummyId]);
+      previous = dummyId;
+    }
+    segments.push([previous, to]);
+  });
+  back.forEach(([from, to]) => {
+    if (layerOf.get(to)! - layerOf.get(from)! === 1) segments.push([from, to]);
+  });
+
+  const ordered = reduceCrossings(layers, segments);
+
+  // Main axis: every layer is as thick as its largest node.
+  const layerStart: number[] = [];
+  const layerThickness: number[] = [];
+  let cursor = 0;
+  ordered.forEach((layer, i) => {
+    layerStart[i] = cursor;
+    const thickness = Math.max(0, ...layer.map(id => {
+      const item = items.get(id)!;
+      return item.main + (horizontal ? item.trailing : 0);
+    }));
+    layerThickness[i] = thickness;
+    cursor += thickness + layerGap;
+  });
+
+  // Cross axis: start packed, then pull each node towards the barycentre of its neighbours.
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  segments.forEach(([from, to]) => {
+    (down.get(from) || down.set(from, []).get(from)!).push(to);
+    (up.get(to) || up.set(to, []).get(to)!).push(from);
+  });
+  const separationFor = (layer: string[]) => layer.slice(1).map((id, i) => {
+    const a = items.get(layer[i])!;
+    const b = items.get(id)!;
+    return a.cross / 2 + (horizontal ? 0 : a.trailing) + nodeGap + b.cross / 2;
+  });
+
+  const center = new Map<string, number>();
+  ordered.forEach(layer => {
+    const separation = separationFor(layer);
+    let x = 0;
+    layer.forEach((id, i) => {
+      if (i > 0) x += separation[i - 1];
+      center.set(id, x);
+    });
+    const offset = x / 2;
+    layer.forEach(id => center.set(id, center.get(id)! - offset));
+  });
+
+  for (let sweep = 0; sweep < COORDINATE_SWEEPS; sweep++) {
+    const downwards = sweep % 2 === 0;
+    const indices = ordered.map((_, i) => i);
+    if (!downwards) indices.reverse();
+    indices.forEach(i => {
+      const layer = ordered[i];
+      const neighbours = downwards ? up : down;
+      const desired = layer.map(id => {
+        const adjacent = neighbours.get(id) || [];
+        return adjacent.length ? adjacent.reduce((s, n) => s + center.get(n)!, 0) / adjacent.length : center.get(id)!;
+      });
+      packLayer(desired, separationFor(layer)).forEach((c, idx) => center.set(layer[idx], c));
+    });
+  }
+
+  // Convert centres to top-left positions and move everything into the canvas.
+  const raw = new Map<string, { x: number; y: number }>();
+  data.nodes.forEach(node => {
+    const item = items.get(node.id)!;
+    const layerIndex = layerOf.get(node.id)!;
+    const crossStart = center.get(node.id)! - item.cross / 2;
+    // Nodes are centred within their layer (side boxes hang off the end in LR).
+    const mainStart = layerStart[layerIndex] + (layerThickness[layerIndex] - item.main - (horizontal ? item.trailing : 0)) / 2;
+    raw.set(node.id, horizontal ? { x: mainStart, y: crossStart } : { x: crossStart, y: mainStart });
+  });
+
+  const extentRight = (node: Node) => node.size.w + (sideBoxExtent.get(node.id) || 0);
+  const minX = Math.min(...data.nodes.map(n => raw.get(n.id)!.x));
+  const minY = Math.min(...data.nodes.map(n => raw.get(n.id)!.y));
+  const width = Math.max(...data.nodes.map(n => raw.get(n.id)!.x - minX + extentRight(n)));
+  const height = Math.max(...data.nodes.map(n => raw.get(n.id)!.y - minY + n.size.h));
+
+  const panelSpace = data.supportingPanels && data.supportingPanels.length > 0 ? Math.max(...data.supportingPanels.map(p => p.size.w)) + 80 : 0;
+  const canvasWidth = Math.max(data.canvas.width, Math.ceil(width + 2 * margin + panelSpace));
+  const canvasHeight = Math.max(data.canvas.height, Math.ceil(height + headerSpace + margin));
+  // Centre the diagram in the space left of the supporting panel.
+  const dx = Math.max(margin, (canvasWidth - panelSpace - width) / 2) - minX;
+  const dy = headerSpace - minY;
+
+  const nodes = data.nodes.map(node => {
+    const p = raw.get(node.id)!;
+    return { ...node, position: { x: Math.round(p.x + dx), y: Math.round(p.y + dy) } };
+  });
+
+  const right = Math.max(...nodes.map(n => n.position.x + extentRight(n)));
+  const supportingPanels = placePanelsRightOf(data.supportingPanels, right + 80, headerSpace);
+  const panels = getPanelsExtent(supportingPanels);
+
+  return {
+    ...data,
+    nodes,
+    supportingPanels,
+    canvas: {
+      width: panels ? Math.max(canvasWidth, Math.ceil(panels.x + margin)) : canvasWidth,
+      height: panels ? Math.max(canvasHeight, Math.ceil(panels.y + margin)) : canvasHeight,
+    },
+  };
+};
+
+// True when any two nodes overlap; used to decide whether a generated diagram needs a layout pass.
+export const hasOverlappingNodes = (data: FlowchartData, padding: number = 0): boolean =>
+  data.nodes.some((a, i) => data.nodes.slice(i + 1).some(b =>
+    a.position.x < b.position.x + b.size.w + padding &&
+    b.position.x < a.position.x + a.size.w + padding &&
+    a.position.y < b.position.y + b.size.h + padding &&
+    b.position.y < a.position.y + a.size.h + padding));
@@ -0,0 +1,116 @@
+import { FlowchartData, Position } from '../types';
+import { computeLayeredLayout } from './layeredLayout';
+import { layoutVisibleDiagram } from './folding';
+import { computeLaneLayout } from './lanes';
+
+export type AutoLayoutType = 'radial' | 'tree' | 'horizontal';
+
+// Pure version of the Auto Layout buttons: returns a copy of the diagram with new node positions.
+// Tree and horizontal use the layered engine; radial keeps the concentric BFS rings for mind maps.
+// Collapsed branches are left out of the layout and travel with the node that folds them.
+// Swimlane diagrams always use the lane layout so nodes stay inside their lanes.
+export const computeAutoLayout = (data: FlowchartData, type: AutoLayoutType): FlowchartData =>
+      layoutVisibleDiagram(data, visible => layoutAll(visible, type));
+
+const layoutAll = (data: FlowchartData, type: AutoLayoutType): FlowchartData => {
+      const nodes = [...data.nodes];
+      if (nodes.length === 0) return data;
+      if (data.lanes && data.lanes.length > 0) return computeLaneLayout(data);
+      if (type === 'tree') return computeLayeredLayout(data, { direction: 'TB' });
+      if (type === 'horizontal') return computeLayeredLayout(data, { direction: 'LR' });
+
+      // Build Adjacency List
+      const adj: Record<string, string[]> = {};
+      data.connectors.forEach(c => {
+          if (!adj[c.from]) adj[c.from] = [];
+          adj[c.from].push(c.to);
+      });
+
+      // Find Root (Simplistic: first node or node with 0 incoming)
+      const incoming = new Set(data.connectors.map(c => c.to));
+      const roots = nodes.filter(n => !incoming.has(n.id));
+      const rootId = roots.length > 0 ? roots[0].id : nodes[0].id;
+
+      const visited = new Set<string>();
+      const newPositions: Record<string, Position> = {};
+
+      // BFS for Levels
+      const queue: { id: string, level: number, parentId: string | null }[] = [{ id: rootId, level: 0, parentId: null }];
+      const levels: Record<number, string[]> = {};
+
+      while (queue.length > 0) {
+          const { id, level } = queue.shift()!;
+          if (visited.has(id)) continue;
+          visited.add(id);
+
+          if (!levels[level]) levels[level] = [];
+          levels[level].push(id);
+
+          if (adj[id]) {
+              adj[id].forEach(childId => {
+                  queue.push({ id: childId, level: level + 1, parentId: id });
+              });
+          }
+      }
+
+      const centerX = data.canvas.width / 2;
+      const centerY = data.canvas.height / 2;
+
+      // Apply Layouts
+      if (type === 'radial') {
+          // Concentric Circles
+          newPositions[rootId] = { x: centerX - 150, y: centerY - 50 }; // Root Center
+
+          Object.keys(levels).forEach(lvlKey => {
+              const lvl = parseInt(lvlKey);
+              if (lvl === 0) return;
+
+              const radius = lvl * 350;
+              const nodesInLevel = levels[lvl];
+              const angleStep = (2 * Math.PI) / nodesInLevel.length;
+
+              nodesInLevel.forEach((nid, idx) => {
+                  const angle = idx * angleStep;
+                  newPositions[nid] = {
+                      x: centerX + Math.cos(angle) * radius - 150,
+                      y: centerY + Math.sin(angle) * radius - 50
+                  };
+              });
+          });
+      }
+
+      // Update Nodes
+      const updatedNodes = nodes.map(n => {
+          if (newPositions[n.id]) {
+              return { ...n, position: newPositions[n.id] };
+          }
+          return n;
+      });
+
+      return { ...data, nodes: updatedNodes };
+};
+
+// Shifts all nodes (and free annotations) so they start at `margin` and grows the canvas to contain them.
+// Used after laying out diagrams that did not come with a canvas size (imports).
+export const fitCanvasToNodes = (data: FlowchartData, margin: number = 100, headerSpace: number = 200): FlowchartData => {
+    if (data.nodes.length === 0) return data;
+    const placed = [...data.nodes, ...(data.annotations || [])];
+    const minX = Math.min(...placed.map(n => n.position.x));
+    const minY = Math.min(...placed.map(n => n.position.y));
+    const dx = margin - minX;
+    const dy = headerSpace - minY;
+    const nodes = data.nodes.map(n => ({ ...n, position: { x: n.position.x + dx, y: n.position.y + dy } }));
+    const annotations = data.annotations?.map(a => ({ ...a, position: { x: a.position.x + dx, y: a.position.y + dy } }));
+    const shifted = [...nodes, ...(annotations || [])];
+    const maxX = Math.max(...shifted.map(n => n.position.x + n.size.w));
+    const maxY = Math.max(...shifted.map(n => n.position.y + n.size.h));
+    return {
+        ...data,
+        nodes,
+        ...(annotations ? { annotations } : {}),
+        canvas: {
+            width: Math.max(data.canvas.width, Math.ceil(maxX + margin)),
+            height: Math.max(data.canvas.height, Math.ceil(maxY + margin)),
+        },
+    };
+};
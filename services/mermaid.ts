@@ -0,0 +1,309 @@
+import { FlowchartData, Node, Connector, DiagramType } from '../types';
+import { getImportedNodeSize, placeImportedNodes } from './diagramImport';
+import { resolveConnectorStyle, isDashedStyle } from './connectorStyle';
+
+// Conversion between FlowchartData and Mermaid text (`flowchart TD` and `mindmap`).
+// Descriptions travel as a second label line (`Title<br/>Description`) so they survive a round trip.
+
+const LABEL_BREAK = '<br/>';
+
+const escapeLabel = (text: string) => text.replace(/"/g, '#quot;').replace(/\n/g, ' ');
+const unescapeLabel = (text: string) => text.replace(/#quot;/g, '"').replace(/#124;/g, '|').replace(/^"(.*)"$/, '$1').trim();
+
+const mermaidId = (id: string) => id.replace(/[^A-Za-z0-9_]/g, '_');
+
+// Sanitising can merge distinct ids (`a-b` and `a_b`), so later ones get a numeric suffix.
+const getMermaidIds = (data: FlowchartData): Map<string, string> => {
+    const ids = new Map<string, string>();
+    const taken = new Set<string>();
+    data.nodes.forEach(node => {
+        const base = mermaidId(node.id);
+        let id = base;
+        for (let k = 2; taken.has(id); k++) id = `${base}_${k}`;
+        taken.add(id);
+        ids.set(node.id, id);
+    });
+    return ids;
+};
+
+const nodeLabel = (node: Node) =>
+    escapeLabel(node.description ? `${node.title}${LABEL_BREAK}${node.description}` : node.title);
+
+// --- Export ---
+
+const FLOWCHART_SHAPES: Record<Node['type'], [string, string]> = {
+    main: ['(', ')'],
+    output: ['[[', ']]'],
+    decision: ['{', '}'],
+    terminator: ['([', '])'],
+    io: ['[/', '/]'],
+    data: ['[(', ')]'],
+};
+
+// Mermaid has no line-end shapes beyond arrow/none, so diamonds and circles export as arrows.
+const mermaidArrow = (conn: Connector): string => {
+    const style = resolveConnectorStyle(conn, DiagramType.FLOWCHART);
+    const dashed = isDashedStyle(style);
+    const head = style.arrowEnd !== 'none' ? '>' : '';
+    const tail = style.arrowStart !== 'none' && head ? '<' : '';
+    if (dashed) return `${tail}-.-${head}`;
+    return `${tail}--${head || '-'}`;
+};
+
+const escapeEdgeLabel = (text: string) => escapeLabel(text).replace(/\|/g, '#124;');
+
+// A diagram counts as left-to-right when most connectors run more across than down.
+const isHorizontalFlow = (data: FlowchartData): boolean => {
+    const byId = new Map(data.nodes.map(n => [n.id, n]));
+    let across = 0;
+    data.connectors.forEach(c => {
+        const from = byId.get(c.from);
+        const to = byId.get(c.to);
+        if (!from || !to) return;
+        const dx = (to.position.x + to.size.w / 2) - (from.position.x + from.size.w / 2);
+        const dy = (to.position.y + to.size.h / 2) - (from.position.y + from.size.h / 2);
+        across += Math.abs(dx) > Math.abs(dy) ? 1 : -1;
+    });
+    return across > 0;
+};
+
+const toMermaidFlowchart = (data: FlowchartData): string => {
+    const ids = getMermaidIds(data);
+    const ref = (id: string) => ids.get(id) || mermaidId(id);
+    const lines = [isHorizontalFlow(data) ? 'flowchart LR' : 'flowchart TD'];
+    data.nodes.forEach(node => {
+        const [open, close] = FLOWCHART_SHAPES[node.type] || FLOWCHART_SHAPES.main;
+        lines.push(`    ${ref(node.id)}${open}"${nodeLabel(node)}"${close}`);
+    });
+    data.connectors.forEach(conn => {
+        const label = conn.label ? `|"${escapeEdgeLabel(conn.label)}"|` : '';
+        lines.push(`    ${ref(conn.from)} ${mermaidArrow(conn)}${label} ${ref(conn.to)}`);
+    });
+    return lines.join('\n') + '\n';
+};
+
+const toMermaidMindmap = (data: FlowchartData): string => {
+    const lines = ['mindmap'];
+    if (data.nodes.length === 0) return lines.join('\n') + '\n';
+
+    const children: Record<string, string[]> = {};
+    const incoming = new Set<string>();
+    data.connectors.forEach(c => {
+        (children[c.from] = children[c.from] || []).push(c.to);
+        incoming.add(c.to);
+    });
+    const byId = new Map(data.nodes.map(n => [n.id, n]));
+    const ids = getMermaidIds(data);
+    const root = data.nodes.find(n => !incoming.has(n.id)) || data.nodes[0];
+    const visited = new Set<string>();
+
+    const visit = (id: string, depth: number) => {
+        const node = byId.get(id);
+        if (!node || visited.has(id)) return;
+        visited.add(id);
+        // Quoted like flowchart labels, so brackets in a title do not end the shape.
+        const label = `"${escapeLabel(node.title)}"`;
+        const indent = '  '.repeat(depth + 1);
+        lines.push(depth === 0 ? `${indent}${ids.get(node.id)}((${label}))` : `${indent}${ids.get(node.id)}(${label})`);
+        (children[id] || []).forEach(child => visit(child, depth + 1));
+    };
+    visit(root.id, 0);
+    // Anything not reachable from the root hangs directly off it so nothing is lost.
+    data.nodes.filter(n => !visited.has(n.id)).forEach(n => visit(n.id, 1));
+    return lines.join('\n') + '\n';
+};
+
+export const toMermaid = (data: FlowchartData): string =>
+    data.diagramType === DiagramType.MINDMAP ? toMermaidMindmap(data) : toMermaidFlowchart(data);
+
+// --- Import ---
+
+const SHAPE_PATTERNS: { pattern: RegExp; type: Node['type'] }[] = [
+    { pattern: /^\(\[(.*)\]\)$/, type: 'terminator' },
+    { pattern: /^\[\[(.*)\]\]$/, type: 'output' },
+    { pattern: /^\(\((.*)\)\)$/, type: 'main' },
+    { pattern: /^\[\((.*)\)\]$/, type: 'data' },
+    { pattern: /^\{\{(.*)\}\}$/, type: 'main' },
+    { pattern: /^\[\/(.*)\/\]$/, type: 'io' },
+    { pattern: /^\[\\(.*)\\\]$/, type: 'io' },
+    { pattern: /^\[(.*)\]$/, type: 'main' },
+    { pattern: /^\((.*)\)$/, type: 'main' },
+    { pattern: /^\{(.*)\}$/, type: 'decision' },
+    { pattern: /^>(.*)\]$/, type: 'main' },
+];
+
+const parseShape = (shape: string): { label: string; type: Node['type'] } | null => {
+    for (const { pattern, type } of SHAPE_PATTERNS) {
+        const match = shape.match(pattern);
+        if (match) return { label: unescapeLabel(match[1]), type };
+    }
+    return null;
+};
+
+interface ParsedNode {
+    id: string;
+    label?: string;
+    type?: Node['type'];
+}
+
+// Node reference with an optional shape, e.g. `A`, `A[Text]`, `B(["Out"])`.
+const NODE_REF = /^\s*([A-Za-z0-9_]+(?:-[A-Za-z0-9_]+)*)\s*((?:\(\[|\[\[|\(\(|\[\(|\{\{|\[\/|\[\\|\[|\(|\{|>)(?:"[^"]*"|[^\]\)\}])*?(?:\]\)|\]\]|\)\)|\)\]|\}\}|\/\]|\\\]|\]|\)|\}))?/;
+// Link between nodes, e.g. `-->`, `-.->`, `==>`, `---`, `-- text -->`, `-->|text|`.
+const LINK = /^\s*(?:(--|==|-\.)\s*([^-=.>|][^>]*?)\s*)?(<?(?:-{2,}|={2,}|-\.+-)>?|<?-\.->?)\s*(?:\|("[^"]*"|[^|]*)\|)?/;
+
+// Statements may be separated by `;`, but entity escapes like `#quot;` also end in one.
+const splitStatements = (line: string): string[] => line.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)(?<!#\w+;)/);
+
+interface ParsedEdge {
+    from: string;
+    to: string;
+    dashed: boolean;
+    label?: string;
+    arrowStart?: boolean;
+    arrowEnd?: boolean;
+}
+
+const parseFlowchart = (lines: string[]): { nodes: ParsedNode[]; edges: ParsedEdge[] } => {
+    const nodes = new Map<string, ParsedNode>();
+    const edges: ParsedEdge[] = [];
+
+    const touch = (ref: ParsedNode) => {
+        const existing = nodes.get(ref.id);
+        if (!existing) nodes.set(ref.id, ref);
+        else if (ref.label !== undefined) nodes.set(ref.id, { ...existing, ...ref });
+    };
+
+    const readNodeGroup = (text: string): { refs: ParsedNode[]; rest: string } | null => {
+        const refs: ParsedNode[] = [];
+        let rest = text;
+        while (true) {
+            const match = rest.match(NODE_REF);
+            if (!match) return refs.length ? { refs, rest } : null;
+            const shape = match[2] ? parseShape(match[2]) : null;
+            refs.push({ id: match[1], ...(shape ? { label: shape.label, type: shape.type } : {}) });
+            rest = rest.slice(match[0].length);
+            const amp = rest.match(/^\s*&\s*/);
+            if (!amp) return { refs, rest };
+            rest = rest.slice(amp[0].length);
+        }
+    };
+
+    lines.forEach(rawLine => {
+        splitStatements(rawLine).forEach(statement => {
+            const line = statement.trim();
+            if (!line || /^(subgraph|end|classDef|class|style|linkStyle|click|direction)\b/.test(line)) return;
+
+            let group = readNodeGroup(line);
+            if (!group) return;
+            group.refs.forEach(touch);
+
+            while (group && group.rest.trim()) {
+                const link = group.rest.match(LINK);
+                if (!link || !link[3]) break;
+                const dashed = link[3].includes('.') || link[1] === '-.';
+                const rawLabel = (link[4] ?? link[2])?.trim();
+                const label = rawLabel ? unescapeLabel(rawLabel) : undefined;
+                const arrowStart = link[3].startsWith('<');
+                const arrowEnd = link[3].endsWith('>');
+                const next = readNodeGroup(group.rest.slice(link[0].length));
+                if (!next) break;
+                next.refs.forEach(touch);
+                group.refs.forEach(from => next.refs.forEach(to => edges.push({ from: from.id, to: to.id, dashed, label, arrowStart, arrowEnd })));
+                group = next;
+            }
+        });
+    });
+
+    return { nodes: [...nodes.values()], edges };
+};
+
+const parseMindmap = (lines: string[]): { nodes: ParsedNode[]; edges: ParsedEdge[] } => {
+    const nodes: ParsedNode[] = [];
+    const edges: ParsedEdge[] = [];
+    const stack: { indent: number; id: string }[] = [];
+    const usedIds = new Set<string>();
+
+    lines.forEach(line => {
+        if (!line.trim() || /^\s*(::icon|:::)/.test(line)) return;
+        const indent = line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+        const text = line.trim();
+
+        const match = text.match(/^([A-Za-z0-9_\-]+)?\s*((?:\(\(|\)\)|\(|\[|\{\{|\)).*)$/);
+        const shape = match && match[2] ? parseShape(match[2]) : null;
+        let id = (shape && match![1]) || `m${nodes.length + 1}`;
+        while (usedIds.has(id)) id = `${id}_`;
+        usedIds.add(id);
+        nodes.push({ id, label: shape ? shape.label : unescapeLabel(text), type: 'main' });
+
+        while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+        if (stack.length) edges.push({ from: stack[stack.length - 1].id, to: id, dashed: false });
+        stack.push({ indent, id });
+    });
+
+    return { nodes, edges };
+};
+
+// Parses Mermaid `flowchart`/`graph` or `mindmap` text. Positions are assigned by the tree auto
+// layout, or the horizontal one for `LR`/`RL` flowcharts.
+export const fromMermaid = (text: string): FlowchartData => {
+    const lines = text
+        .replace(/^```(?:mermaid)?\s*$/gm, '')
+        .split('\n')
+        .filter(l => !l.trim().startsWith('%%'));
+    const headerIndex = lines.findIndex(l => l.trim().length > 0);
+    if (headerIndex === -1) throw new Error('Mermaid text is empty.');
+
+    const header = lines[headerIndex].trim();
+    const body = lines.slice(headerIndex + 1);
+    let diagramType: DiagramType;
+    let parsed: { nodes: ParsedNode[]; edges: ParsedEdge[] };
+    const isHorizontal = /^(flowchart|graph)\s+(LR|RL)\b/i.test(header);
+
+    if (/^(flowchart|graph)\b/i.test(header)) {
+        diagramType = DiagramType.FLOWCHART;
+        parsed = parseFlowchart(body);
+    } else if (/^mindmap\b/i.test(header)) {
+        diagramType = DiagramType.MINDMAP;
+        parsed = parseMindmap(body);
+    } else {
+        throw new Error(`Unsupported Mermaid diagram "${header}". Only flowchart/graph and mindmap are supported.`);
+    }
+
+    if (parsed.nodes.length === 0) throw new Error('No nodes found in the Mermaid text.');
+
+    const nodes: Node[] = parsed.nodes.map(p => {
+        const [title, ...rest] = (p.label ?? p.id).split(/<br\s*\/?>/i);
+        return {
+            id: p.id,
+            type: p.type || 'main',
+            title: title.trim(),
+            description: rest.join(' ').trim(),
+            icon: 'document',
+            position: { x: 0, y: 0 },
+            size: getImportedNodeSize(title.trim(), p.type || 'main'),
+        };
+    });
+
+    const connectors: Connector[] = parsed.edges.map((e, i) => ({
+        id: `c${i + 1}`,
+        from: e.from,
+        to: e.to,
+        type: 'flow',
+        ...(e.dashed ? { style: { strokeDasharray: '6 6' } } : {}),
+        ...(e.label ? { label: e.label } : {}),
+        ...(e.arrowStart ? { arrowStart: 'arrow' as const } : {}),
+        ...(diagramType === DiagramType.FLOWCHART && e.arrowEnd === false ? { arrowEnd: 'none' as const } : {}),
+    }));
+
+    const rootTitle = diagramType === DiagramType.MINDMAP ? nodes[0].title : 'Imported Diagram';
+    const data: FlowchartData = {
+        title: rootTitle.toUpperCase(),
+        caption: 'Imported from Mermaid.',
+        canvas: { width: 1200, height: 1000 },
+        nodes,
+        connectors,
+        diagramType,
+    };
+
+    return placeImportedNodes(data, false, isHorizontal ? 'horizontal' : 'tree');
+};
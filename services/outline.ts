@@ -0,0 +1,189 @@
+import { FlowchartData, Node, Connector } from '../types';
+import { computeAutoLayout } from './layout';
+import { removeNodes } from './selection';
+import { getImportedNodeSize } from './diagramImport';
+
+// Two-way conversion between a mind map and a Markdown outline: one bullet per node, nested under
+// its parent, written as `- Title: Description`. Applying an edited outline keeps every node the
+// outline still mentions (with its id, position and styling), so only the edited parts change.
+
+export interface OutlineItem {
+  title: string;
+  description: string;
+  parent: number | null; // Index of the parent item
+}
+
+interface TreeEntry {
+  node: Node;
+  parentId: string | null;
+  depth: number;
+}
+
+// A node's parent is the source of its first incoming connector; any further incoming connectors
+// are cross links. Walks depth-first from the roots, children in connector order. Nodes only
+// reachable through a cycle are treated as extra roots so none go missing.
+const getOutlineTree = (data: FlowchartData): { entries: TreeEntry[]; treeConnectorIds: Set<string> } => {
+  const byId = new Map(data.nodes.map(n => [n.id, n]));
+  const parentConnector = new Map<string, Connector>();
+  const children = new Map<string, Connector[]>();
+  data.connectors.forEach(c => {
+    if (!byId.has(c.from) || !byId.has(c.to) || c.from === c.to || parentConnector.has(c.to)) return;
+    parentConnector.set(c.to, c);
+    children.set(c.from, [...(children.get(c.from) || []), c]);
+  });
+
+  const entries: TreeEntry[] = [];
+  const treeConnectorIds = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (node: Node, parentId: string | null, depth: number) => {
+    visited.add(node.id);
+    entries.push({ node, parentId, depth });
+    (children.get(node.id) || []).forEach(c => {
+      if (visited.has(c.to)) return;
+      treeConnectorIds.add(c.id);
+      visit(byId.get(c.to)!, node.id, depth + 1);
+    });
+  };
+  data.nodes.filter(n => !parentConnector.has(n.id)).forEach(n => visit(n, null, 0));
+  data.nodes.forEach(n => { if (!visited.has(n.id)) visit(n, null, 0); });
+  return { entries, treeConnectorIds };
+};
+
+// One bullet per node, so line breaks become spaces.
+const flatten = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export const toOutline = (data: FlowchartData): string =>
+  getOutlineTree(data).entries
+    .map(({ node, depth }) => {
+      const description = flatten(node.description);
+      return `${'  '.repeat(depth)}- ${flatten(node.title).replace(/:/g, '\\:')}${description ? `: ${description}` : ''}`;
+    })
+    .join('\n') + '\n';
+
+// Bullets may be -, * or + or numbered; nesting follows indentation, whatever its width.
+// Lines whose title is still empty (a bullet being typed) are skipped.
+export const parseOutline = (text: string): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  const stack: { indent: number; index: number }[] = [];
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const indent = line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+    const content = line.trim().replace(/^([-*+]|\d+[.)])(\s+|$)/, '');
+    // The first colon followed by a space (or the end) ends the title; `\:` is a literal colon.
+    const split = content.match(/^((?:[^:\\]|\\.|:(?=\S))*?):(?:\s+|$)(.*)$/);
+    const title = (split ? split[1] : content).replace(/\\:/g, ':').trim();
+    if (!title) return;
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+    items.push({ title, description: split ? split[2].trim() : '', parent: stack.length ? stack[stack.length - 1].index : null });
+    stack.push({ indent, index: items.length - 1 });
+  });
+  return items;
+};
+
+// Pairs old and new items: equal titles are matched by longest common subsequence, and unmatched
+// items left between two matches are paired in order, which is how a rename shows up.
+const alignItems = (oldTitles: string[], newTitles: string[]): Map<number, number> => {
+  const n = oldTitles.length;
+  const m = newTitles.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldTitles[i] === newTitles[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const pairs = new Map<number, number>(); // new index -> old index
+  const pairGap = (oldFrom: number, oldTo: number, newFrom: number, newTo: number) => {
+    for (let k = 0; k < Math.min(oldTo - oldFrom, newTo - newFrom); k++) pairs.set(newFrom + k, oldFrom + k);
+  };
+  let i = 0;
+  let j = 0;
+  let gapOld = 0;
+  let gapNew = 0;
+  while (i < n && j < m) {
+    if (oldTitles[i] === newTitles[j]) {
+      pairGap(gapOld, i, gapNew, j);
+      pairs.set(j, i);
+      i++;
+      j++;
+      gapOld = i;
+      gapNew = j;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  pairGap(gapOld, n, gapNew, m);
+  return pairs;
+};
+
+const uniqueId = (prefix: string, taken: Set<string>) => {
+  let k = 1;
+  while (taken.has(`${prefix}${k}`)) k++;
+  const id = `${prefix}${k}`;
+  taken.add(id);
+  return id;
+};
+
+// Rebuilds the diagram's tree from an edited outline. Renamed and moved items keep their node;
+// removed items delete their node; new items become nodes placed by the radial layout. Connectors
+// that are not part of the tree (cross links) are kept while both of their ends still exist.
+export const applyOutline = (data: FlowchartData, text: string): FlowchartData => {
+  const items = parseOutline(text);
+  // An emptied editor is far more likely a slip than a request to delete the whole map.
+  if (items.length === 0) return data;
+  const { entries, treeConnectorIds } = getOutlineTree(data);
+  const key = (title: string) => title.trim().toLowerCase();
+  const pairs = alignItems(entries.map(e => key(e.node.title)), items.map(item => key(item.title)));
+
+  const takenIds = new Set([...data.nodes.map(n => n.id), ...data.connectors.map(c => c.id)]);
+  const itemIds = items.map((_, idx) => pairs.has(idx) ? entries[pairs.get(idx)!].node.id : uniqueId('n', takenIds));
+  const kept = new Set(itemIds);
+  const updates = new Map(items.map((item, idx) => [itemIds[idx], item]));
+
+  const remaining = removeNodes(data, data.nodes.filter(n => !kept.has(n.id)).map(n => n.id));
+  const existingIds = new Set(remaining.nodes.map(n => n.id));
+  const nodes: Node[] = [
+    ...remaining.nodes.map(n => {
+      // Unchanged lines leave the node alone, including line breaks the outline cannot show.
+      const item = updates.get(n.id)!;
+      return {
+        ...n,
+        title: item.title === flatten(n.title) ? n.title : item.title,
+        description: item.description === flatten(n.description) ? n.description : item.description,
+      };
+    }),
+    ...items.flatMap((item, idx) => existingIds.has(itemIds[idx]) ? [] : [{
+      id: itemIds[idx],
+      type: 'main' as const,
+      title: item.title,
+      description: item.description,
+      icon: 'document',
+      position: { x: 0, y: 0 },
+      size: getImportedNodeSize(item.title, 'main'),
+    }]),
+  ];
+
+  // Tree connectors go first, in outline order, so each one stays its node's first incoming
+  // connector. A cross link into a top-level item would make it a child again, so it is dropped.
+  const treeEdges = items.flatMap((item, idx) => item.parent === null ? [] : [{ from: itemIds[item.parent], to: itemIds[idx] }]);
+  const isTreeEdge = (c: Connector) => treeEdges.some(e => e.from === c.from && e.to === c.to);
+  const roots = new Set(items.flatMap((item, idx) => item.parent === null ? [itemIds[idx]] : []));
+  const connectors: Connector[] = [
+    ...treeEdges.map(e =>
+      remaining.connectors.find(c => c.from === e.from && c.to === e.to)
+        || { id: uniqueId('c', takenIds), from: e.from, to: e.to, type: 'flow' as const }),
+    ...remaining.connectors.filter(c => !isTreeEdge(c) && !treeConnectorIds.has(c.id) && !roots.has(c.to)),
+  ];
+
+  const result = { ...remaining, nodes, connectors };
+  if (toOutline(result) === toOutline(data)) return data;
+  if (nodes.length === remaining.nodes.length) return result;
+  // New items take their spot from a radial layout; nodes already on the map stay where they are.
+  const laidOut = new Map(computeAutoLayout(result, 'radial').nodes.map(n => [n.id, n.position]));
+  return {
+    ...result,
+    nodes: nodes.map(n => existingIds.has(n.id) ? n : { ...n, position: laidOut.get(n.id) || n.position }),
+  };
+};
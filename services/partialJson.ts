@@ -0,0 +1,119 @@
+import { FlowchartData, Node, Connector, DiagramType } from '../types';
+import { repairFlowchartData } from './flowchartValidation';
+
+// Best-effort parsing of a JSON document that is still being streamed. The text is closed off
+// (open strings and containers terminated) and, if that is not yet valid JSON, cut back to the
+// previous structural boundary until it parses.
+
+const MAX_BACKTRACK_ATTEMPTS = 64;
+
+const closeJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+
+  let closed = text;
+  if (inString) closed += escaped ? '\\"' : '"';
+  // A dangling separator or key cannot be closed meaningfully; drop it.
+  closed = closed.replace(/[,:\s]+$/, '').replace(/,\s*"[^"]*"\s*$/, '').replace(/([{[])\s*"[^"]*"\s*$/, '$1');
+  return closed + stack.reverse().join('');
+};
+
+// Indices (outside strings) where the document can be cut without splitting a value.
+const boundaries = (text: string): number[] => {
+  const result: number[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === ',') result.push(i);
+    else if (ch === '{' || ch === '[') result.push(i + 1);
+  }
+  return result;
+};
+
+export const parsePartialJson = (text: string): unknown | undefined => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '');
+  if (!trimmed) return undefined;
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to repair
+  }
+
+  try {
+    return JSON.parse(closeJson(trimmed));
+  } catch {
+    // fall through to backtracking
+  }
+
+  const cuts = boundaries(trimmed);
+  for (let attempt = 0; attempt < MAX_BACKTRACK_ATTEMPTS && cuts.length > 0; attempt++) {
+    const cut = cuts.pop()!;
+    try {
+      return JSON.parse(closeJson(trimmed.slice(0, cut)));
+    } catch {
+      // keep backing off
+    }
+  }
+  return undefined;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number';
+
+const isCompleteNode = (n: unknown): n is Node =>
+  isObject(n) && typeof n.id === 'string' && typeof n.title === 'string' &&
+  isObject(n.position) && isNumber(n.position.x) && isNumber(n.position.y) &&
+  isObject(n.size) && isNumber(n.size.w) && isNumber(n.size.h);
+
+const isCompleteConnector = (c: unknown): c is Connector =>
+  isObject(c) && typeof c.id === 'string' && typeof c.from === 'string' && typeof c.to === 'string';
+
+// Turns a partially streamed diagram into something renderable: only nodes whose geometry has
+// fully arrived, and connectors between such nodes. Returns null until there is something to show.
+export const extractPartialFlowchart = (text: string, type: DiagramType): FlowchartData | null => {
+  const parsed = parsePartialJson(text);
+  if (!isObject(parsed) || !Array.isArray(parsed.nodes)) return null;
+
+  const nodes = (parsed.nodes as unknown[]).filter(isCompleteNode);
+  if (nodes.length === 0) return null;
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const connectors = Array.isArray(parsed.connectors)
+    ? (parsed.connectors as unknown[]).filter(isCompleteConnector).filter(c => nodeIds.has(c.from) && nodeIds.has(c.to))
+    : [];
+
+  const { data } = repairFlowchartData({
+    title: typeof parsed.title === 'string' ? parsed.title : '',
+    caption: typeof parsed.caption === 'string' ? parsed.caption : '',
+    canvas: isObject(parsed.canvas) && isNumber(parsed.canvas.width) && isNumber(parsed.canvas.height)
+      ? parsed.canvas
+      : { width: type === DiagramType.MINDMAP ? 1700 : 1200, height: type === DiagramType.MINDMAP ? 1700 : 1000 },
+    nodes,
+    connectors,
+  });
+  data.diagramType = type;
+  return data;
+};
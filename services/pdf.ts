@@ -0,0 +1,303 @@
+import { Size } from '../types';
+
+// A small, dependency-free PDF writer for diagram export. It draws vector paths and real text
+// (the built-in Helvetica fonts, so nothing is embedded) and lays the diagram out either scaled
+// onto one page or tiled at print size across several pages with crop marks for trimming.
+
+export type PdfPageSize = 'a4' | 'letter' | 'a3';
+export type PdfOrientation = 'portrait' | 'landscape';
+export type PdfLayout = 'fit' | 'tile';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  layout: PdfLayout;
+  cropMarks: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = { pageSize: 'a4', orientation: 'landscape', layout: 'fit', cropMarks: false };
+
+// Portrait dimensions in points (1/72 in).
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; w: number; h: number }> = {
+  a4: { label: 'A4', w: 595.28, h: 841.89 },
+  letter: { label: 'Letter', w: 612, h: 792 },
+  a3: { label: 'A3', w: 841.89, h: 1190.55 },
+};
+
+export interface PdfColor { r: number; g: number; b: number } // 0-255
+
+export type PathCommand =
+  | { op: 'M' | 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+// Shapes in diagram coordinates (CSS pixels, y pointing down).
+export interface VectorPath {
+  kind: 'path';
+  commands: PathCommand[];
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  strokeWidth: number;
+  dash?: number[];
+  opacity: number;
+}
+
+export interface VectorText {
+  kind: 'text';
+  text: string;
+  x: number; // Start of the baseline
+  y: number;
+  size: number;
+  bold: boolean;
+  color: PdfColor;
+  opacity: number;
+  angle?: number; // Radians, clockwise like SVG rotations
+  width?: number; // Width the text had on screen; Helvetica is stretched or squeezed to match
+}
+
+export type VectorShape = VectorPath | VectorText;
+
+// Where one page shows which part of the diagram.
+export interface PdfPagePlan {
+  pageW: number;
+  pageH: number;
+  // The diagram area shown, in diagram units...
+  source: { x: number; y: number; w: number; h: number };
+  // ...and where it lands on the page, in points from the top-left corner.
+  target: { x: number; y: number; w: number; h: number };
+  scale: number;
+  label?: string;
+}
+
+const MARGIN = 36;
+const PX_TO_PT = 72 / 96;
+const CROP_MARK_LENGTH = 18;
+const CROP_MARK_GAP = 6;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126. Other characters use the width of 'n'.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs about this much wider on average.
+const BOLD_WIDTH_FACTOR = 1.07;
+
+export const measureHelvetica = (text: string, size: number, bold = false): number => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+};
+
+// Characters outside ASCII that the standard fonts' WinAnsi encoding places elsewhere.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Encodes text as a PDF string literal. Characters the standard fonts can't show (emoji, CJK)
+// are dropped.
+const encodeText = (text: string): string => {
+  let out = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = char.length === 1 && ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) ? code : WIN_ANSI_EXTRAS[char];
+    if (byte === undefined) continue;
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (byte > 126) out += `\\${byte.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(byte);
+  }
+  return out;
+};
+
+const num = (n: number): string => {
+  const rounded = Math.round(n * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const color = (c: PdfColor): string => `${num(c.r / 255)} ${num(c.g / 255)} ${num(c.b / 255)}`;
+
+export const getPageDimensions = (options: PdfExportOptions): { w: number; h: number } => {
+  const { w, h } = PDF_PAGE_SIZES[options.pageSize];
+  return options.orientation === 'landscape' ? { w: h, h: w } : { w, h };
+};
+
+// Fit scales the whole diagram onto one page. Tile prints it at its on-screen size
+// (96 px per inch) across as many pages as it needs, left to right, top to bottom.
+export const planPdfPages = (content: Size, options: PdfExportOptions): PdfPagePlan[] => {
+  const { w: pageW, h: pageH } = getPageDimensions(options);
+  const areaW = pageW - MARGIN * 2;
+  const areaH = pageH - MARGIN * 2;
+
+  if (options.layout === 'fit') {
+    const scale = Math.min(areaW / content.w, areaH / content.h);
+    const w = content.w * scale;
+    const h = content.h * scale;
+    return [{
+      pageW, pageH, scale,
+      source: { x: 0, y: 0, w: content.w, h: content.h },
+      target: { x: (pageW - w) / 2, y: (pageH - h) / 2, w, h },
+    }];
+  }
+
+  const tileW = areaW / PX_TO_PT;
+  const tileH = areaH / PX_TO_PT;
+  const cols = Math.max(1, Math.ceil(content.w / tileW - 0.001));
+  const rows = Math.max(1, Math.ceil(content.h / tileH - 0.001));
+  const pages: PdfPagePlan[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const source = { x: col * tileW, y: row * tileH, w: Math.min(tileW, content.w - col * tileW), h: Math.min(tileH, content.h - row * tileH) };
+      pages.push({
+        pageW, pageH, scale: PX_TO_PT, source,
+        target: { x: MARGIN, y: MARGIN, w: source.w * PX_TO_PT, h: source.h * PX_TO_PT },
+        label: rows * cols > 1 ? `Row ${row + 1}, column ${col + 1} (page ${pages.length + 1} of ${rows * cols})` : undefined,
+      });
+    }
+  }
+  return pages;
+};
+
+const pathOps = (commands: PathCommand[]): string =>
+  commands.map(c => {
+    switch (c.op) {
+      case 'M': return `${num(c.x)} ${num(c.y)} m`;
+      case 'L': return `${num(c.x)} ${num(c.y)} l`;
+      case 'C': return `${num(c.x1)} ${num(c.y1)} ${num(c.x2)} ${num(c.y2)} ${num(c.x)} ${num(c.y)} c`;
+      default: return 'h';
+    }
+  }).join('\n');
+
+// Short marks just outside each corner of the printed area, in page space (y up).
+const cropMarkOps = (x: number, y: number, w: number, h: number): string => {
+  const lines: string[] = [];
+  [[x, y], [x + w, y], [x, y + h], [x + w, y + h]].forEach(([cx, cy]) => {
+    const sx = cx === x ? -1 : 1;
+    const sy = cy === y ? -1 : 1;
+    lines.push(`${num(cx + sx * CROP_MARK_GAP)} ${num(cy)} m ${num(cx + sx * (CROP_MARK_GAP + CROP_MARK_LENGTH))} ${num(cy)} l S`);
+    lines.push(`${num(cx)} ${num(cy + sy * CROP_MARK_GAP)} m ${num(cx)} ${num(cy + sy * (CROP_MARK_GAP + CROP_MARK_LENGTH))} l S`);
+  });
+  return `q 0 0 0 RG 0.5 w [] 0 d\n${lines.join('\n')}\nQ`;
+};
+
+const pageContent = (shapes: VectorShape[], page: PdfPagePlan, options: PdfExportOptions, gstate: (alpha: number) => string | null): string => {
+  const { source, target, scale, pageH } = page;
+  // Page space has y pointing up; flip it so the shapes can use diagram coordinates.
+  const left = target.x;
+  const bottom = pageH - target.y - target.h;
+  const out: string[] = [
+    'q',
+    `${num(left)} ${num(bottom)} ${num(target.w)} ${num(target.h)} re W n`,
+    `${num(scale)} 0 0 ${num(-scale)} ${num(left - source.x * scale)} ${num(pageH - target.y + source.y * scale)} cm`,
+  ];
+
+  shapes.forEach(shape => {
+    const gs = gstate(shape.opacity);
+    if (shape.kind === 'path') {
+      if (!shape.fill && !shape.stroke) return;
+      out.push('q');
+      if (gs) out.push(`${gs} gs`);
+      if (shape.fill) out.push(`${color(shape.fill)} rg`);
+      if (shape.stroke) out.push(`${color(shape.stroke)} RG ${num(shape.strokeWidth)} w [${(shape.dash || []).map(num).join(' ')}] 0 d 1 j`);
+      out.push(pathOps(shape.commands));
+      out.push(shape.fill && shape.stroke ? 'B' : shape.fill ? 'f' : 'S');
+      out.push('Q');
+      return;
+    }
+
+    const text = encodeText(shape.text);
+    if (!text.trim()) return;
+    const angle = shape.angle || 0;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const natural = measureHelvetica(shape.text, shape.size, shape.bold);
+    const stretch = shape.width && natural > 0 ? Math.min(Math.max(shape.width / natural, 0.7), 1.3) : 1;
+    out.push('q');
+    if (gs) out.push(`${gs} gs`);
+    // The text matrix undoes the flip so glyphs stand upright.
+    out.push(`BT /${shape.bold ? 'F2' : 'F1'} ${num(shape.size)} Tf ${color(shape.color)} rg ${num(stretch * 100)} Tz`);
+    out.push(`${num(cos)} ${num(sin)} ${num(sin)} ${num(-cos)} ${num(shape.x)} ${num(shape.y)} Tm (${text}) Tj ET`);
+    out.push('Q');
+  });
+  out.push('Q');
+
+  if (options.cropMarks) out.push(cropMarkOps(left, bottom, target.w, target.h));
+  if (page.label) {
+    out.push(`BT /F1 8 Tf 0.4 0.4 0.4 rg ${num(MARGIN)} ${num(MARGIN / 2)} Td (${encodeText(page.label)}) Tj ET`);
+  }
+  return out.join('\n');
+};
+
+// One diagram of a multi-diagram PDF; its pages are labelled with `label`.
+export interface PdfSection {
+  shapes: VectorShape[];
+  content: Size;
+  label?: string;
+}
+
+// Builds the PDF file. `content` is the diagram's size in the same units as the shapes.
+export const buildPdf = (shapes: VectorShape[], content: Size, options: PdfExportOptions, title = 'Diagram'): Uint8Array =>
+  buildSectionedPdf([{ shapes, content }], options, title);
+
+// Several diagrams in one file, each starting on a new page and laid out on its own.
+export const buildSectionedPdf = (sections: PdfSection[], options: PdfExportOptions, title = 'Diagram'): Uint8Array => {
+  const pages = sections.flatMap(section => planPdfPages(section.content, options).map(page => ({
+    ...page,
+    shapes: section.shapes,
+    label: [section.label, page.label].filter(Boolean).join(' · ') || undefined,
+  })));
+
+  // One graphics state per distinct opacity.
+  const alphas: number[] = [];
+  const gstate = (alpha: number): string | null => {
+    if (alpha >= 0.999) return null;
+    const rounded = Math.round(alpha * 100) / 100;
+    let index = alphas.indexOf(rounded);
+    if (index === -1) index = alphas.push(rounded) - 1;
+    return `/GS${index}`;
+  };
+  const contents = pages.map(page => pageContent(page.shapes, page, options, gstate));
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then graphics states, then a page and its content per page.
+  const objects: string[] = [];
+  const firstGs = 6;
+  const firstPage = firstGs + alphas.length;
+  const pageIds = pages.map((_, i) => firstPage + i * 2);
+  const gsResources = alphas.map((_, i) => `/GS${i} ${firstGs + i} 0 R`).join(' ');
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  objects.push(`<< /Title (${encodeText(title)}) /Producer (AI Flowchart Generator) >>`);
+  alphas.forEach(alpha => objects.push(`<< /Type /ExtGState /ca ${num(alpha)} /CA ${num(alpha)} >>`));
+  pages.forEach((page, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.pageW)} ${num(page.pageH)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /ExtGState << ${gsResources} >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${contents[i].length} >>\nstream\n${contents[i]}\nendstream`);
+  });
+
+  // Everything above is plain ASCII, so string offsets are byte offsets.
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,342 @@
+import { FlowchartData, Node, NodeShape, ArrowHead, DiagramType, Position } from '../types';
+import { Rect } from './routing';
+import { AnchorSide } from './shapes';
+import { getExportConnectors, getExportSideBoxes, getExportPanels, getNearestSide, EXPORT_COLORS, escapeXml } from './exportGeometry';
+import { createZip } from './zip';
+
+// FlowchartData to a one-slide PowerPoint file. Nodes are native preset shapes and connectors are
+// native connector shapes glued to them, so PowerPoint keeps them attached when shapes are moved.
+// The slide is the canvas size (1px = 1/96in), scaled down only if it exceeds PowerPoint's limit.
+
+const EMU_PER_PX = 9525;
+const MAX_SLIDE_EMU = 51206400;
+const MIN_SLIDE_EMU = 914400;
+
+const NS = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const PRESET_SHAPES: Record<NodeShape, string> = {
+  main: 'roundRect',
+  output: 'flowChartPredefinedProcess',
+  decision: 'flowChartDecision',
+  terminator: 'flowChartTerminator',
+  io: 'flowChartInputOutput',
+  data: 'flowChartMagneticDisk',
+};
+
+const LINE_ENDS: Record<ArrowHead, string> = {
+  none: 'none',
+  arrow: 'triangle',
+  diamond: 'diamond',
+  circle: 'oval',
+};
+
+// Connection sites of the rectangular presets used here, counter-clockwise from the top.
+const CONNECTION_SITES: Record<AnchorSide, number> = { top: 0, left: 1, bottom: 2, right: 3 };
+const OPPOSITE_SIDES: Record<AnchorSide, AnchorSide> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+const srgb = (color: string | undefined, fallback: string, alpha?: number): string => {
+  let hex = (color || '').trim();
+  if (/^#[0-9a-f]{3}$/i.test(hex)) hex = '#' + hex.slice(1).split('').map(c => c + c).join('');
+  if (!/^#[0-9a-f]{6}$/i.test(hex)) hex = fallback;
+  const value = hex.slice(1).toUpperCase();
+  return alpha === undefined
+    ? `<a:srgbClr val="${value}"/>`
+    : `<a:srgbClr val="${value}"><a:alpha val="${Math.round(alpha * 100000)}"/></a:srgbClr>`;
+};
+
+interface TextRun {
+  text: string;
+  size: number; // px
+  color: string;
+  bold?: boolean;
+}
+
+interface LineOptions {
+  color: string;
+  alpha?: number;
+  width?: number; // px
+  dash?: 'dash' | 'sysDot';
+  head?: ArrowHead;
+  tail?: ArrowHead;
+}
+
+interface Glue {
+  shape: string;
+  side: AnchorSide;
+}
+
+type ConnectorGeometry = 'straightConnector1' | 'bentConnector2' | 'bentConnector3' | 'curvedConnector3';
+
+interface SlideWriter {
+  addShape: (key: string, name: string, rect: Rect, preset: string, fill: { color: string; alpha?: number } | null, line: LineOptions | null, text?: TextRun[], align?: 'ctr' | 'l', textBox?: boolean) => void;
+  addConnector: (name: string, start: Position, end: Position, geometry: ConnectorGeometry, leavesVertically: boolean, line: LineOptions, from?: Glue, to?: Glue, bend?: Position) => void;
+  toXml: () => string;
+}
+
+const createSlideWriter = (scale: number): SlideWriter => {
+  const shapes: string[] = [];
+  const shapeIds: Record<string, number> = {};
+  let nextId = 2;
+
+  const emu = (px: number) => Math.round(px * EMU_PER_PX * scale);
+  // Font sizes are in hundredths of a point; 1px = 0.75pt.
+  const fontSize = (px: number) => Math.max(100, Math.round(px * 75 * scale));
+
+  const lineXml = ({ color, alpha, width = 1, dash, head, tail }: LineOptions) =>
+    `<a:ln w="${emu(width)}"><a:solidFill>${srgb(color, EXPORT_COLORS.connector, alpha)}</a:solidFill>`
+    + (dash ? `<a:prstDash val="${dash}"/>` : '')
+    + (head && head !== 'none' ? `<a:headEnd type="${LINE_ENDS[head]}"/>` : '')
+    + (tail && tail !== 'none' ? `<a:tailEnd type="${LINE_ENDS[tail]}"/>` : '')
+    + '</a:ln>';
+
+  const textBody = (paragraphs: TextRun[], align: 'ctr' | 'l', inset = 6) => {
+    const ins = emu(inset);
+    const body = paragraphs
+      .flatMap(run => run.text.split('\n').map(text => ({ ...run, text })))
+      .map(run => `<a:p><a:pPr algn="${align}"/><a:r><a:rPr lang="en-US" sz="${fontSize(run.size)}"${run.bold ? ' b="1"' : ''} dirty="0">`
+        + `<a:solidFill>${srgb(run.color, EXPORT_COLORS.text)}</a:solidFill><a:latin typeface="Arial"/></a:rPr>`
+        + `<a:t>${escapeXml(run.text)}</a:t></a:r></a:p>`)
+      .join('');
+    return `<p:txBody><a:bodyPr wrap="square" lIns="${ins}" tIns="${ins}" rIns="${ins}" bIns="${ins}" rtlCol="0" anchor="ctr"><a:normAutofit/></a:bodyPr><a:lstStyle/>${body || '<a:p><a:endParaRPr lang="en-US"/></a:p>'}</p:txBody>`;
+  };
+
+  const addShape: SlideWriter['addShape'] = (key, name, rect, preset, fill, line, text = [], align = 'ctr', textBox = false) => {
+    const id = nextId++;
+    shapeIds[key] = id;
+    shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvSpPr${textBox ? ' txBox="1"' : ''}/><p:nvPr/></p:nvSpPr>`
+      + `<p:spPr><a:xfrm><a:off x="${emu(rect.x)}" y="${emu(rect.y)}"/><a:ext cx="${emu(rect.w)}" cy="${emu(rect.h)}"/></a:xfrm>`
+      + `<a:prstGeom prst="${preset}"><a:avLst/></a:prstGeom>`
+      + (fill ? `<a:solidFill>${srgb(fill.color, EXPORT_COLORS.nodeFill, fill.alpha)}</a:solidFill>` : '<a:noFill/>')
+      + (line ? lineXml(line) : '<a:ln><a:noFill/></a:ln>')
+      + `</p:spPr>${textBody(text, align)}</p:sp>`,
+    );
+  };
+
+  // PowerPoint's connectors always leave along their local x axis, so one that leaves vertically
+  // is drawn rotated a quarter turn with its box swapped.
+  const addConnector: SlideWriter['addConnector'] = (name, start, end, geometry, leavesVertically, line, from, to, bend) => {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const prst = Math.abs(dx) < 0.5 || Math.abs(dy) < 0.5 ? 'straightConnector1' : geometry;
+    const rotate = leavesVertically && prst !== 'straightConnector1';
+    const cx = (start.x + end.x) / 2;
+    const cy = (start.y + end.y) / 2;
+    const w = rotate ? Math.abs(dy) : Math.abs(dx);
+    const h = rotate ? Math.abs(dx) : Math.abs(dy);
+    const flipH = rotate ? dy < 0 : dx < 0;
+    const flipV = rotate ? dx > 0 : dy < 0;
+
+    let adjust = '';
+    if (prst === 'bentConnector3' && bend) {
+      const along = rotate ? (bend.y - start.y) / dy : (bend.x - start.x) / dx;
+      adjust = `<a:gd name="adj1" fmla="val ${Math.round(Math.min(Math.max(along, -1), 2) * 100000)}"/>`;
+    }
+    const glue = (tag: string, g?: Glue) => g && shapeIds[g.shape] !== undefined
+      ? `<a:${tag} id="${shapeIds[g.shape]}" idx="${CONNECTION_SITES[g.side]}"/>`
+      : '';
+
+    const id = nextId++;
+    shapes.push(
+      `<p:cxnSp><p:nvCxnSpPr><p:cNvPr id="${id}" name="${escapeXml(name)}"/><p:cNvCxnSpPr>${glue('stCxn', from)}${glue('endCxn', to)}</p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr>`
+      + `<p:spPr><a:xfrm${rotate ? ' rot="5400000"' : ''}${flipH ? ' flipH="1"' : ''}${flipV ? ' flipV="1"' : ''}>`
+      + `<a:off x="${emu(cx - w / 2)}" y="${emu(cy - h / 2)}"/><a:ext cx="${emu(w)}" cy="${emu(h)}"/></a:xfrm>`
+      + `<a:prstGeom prst="${prst}"><a:avLst>${adjust}</a:avLst></a:prstGeom>${lineXml(line)}</p:spPr></p:cxnSp>`,
+    );
+  };
+
+  const toXml = () =>
+    XML_HEADER
+    + `<p:sld ${NS}><p:cSld><p:spTree>`
+    + '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+    + '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+    + shapes.join('')
+    + '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+
+  return { addShape, addConnector, toXml };
+};
+
+const isVertical = (a: Position, b: Position) => Math.abs(b.y - a.y) > Math.abs(b.x - a.x);
+
+const nodeRect = (node: Node): Rect => ({ x: node.position.x, y: node.position.y, w: node.size.w, h: node.size.h });
+
+const EMPTY_TREE = '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree>';
+
+const relationships = (rels: [string, string][]) =>
+  XML_HEADER + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + rels.map(([type, target], i) => `<Relationship Id="rId${i + 1}" Type="${type}" Target="${target}"/>`).join('')
+  + '</Relationships>';
+
+const THEME_XML = XML_HEADER
+  + '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="Flowchart"><a:themeElements>'
+  + '<a:clrScheme name="Flowchart">'
+  + '<a:dk1><a:srgbClr val="1E293B"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>'
+  + '<a:dk2><a:srgbClr val="334155"/></a:dk2><a:lt2><a:srgbClr val="F1F5F9"/></a:lt2>'
+  + '<a:accent1><a:srgbClr val="3B82F6"/></a:accent1><a:accent2><a:srgbClr val="10B981"/></a:accent2>'
+  + '<a:accent3><a:srgbClr val="F59E0B"/></a:accent3><a:accent4><a:srgbClr val="EF4444"/></a:accent4>'
+  + '<a:accent5><a:srgbClr val="8B5CF6"/></a:accent5><a:accent6><a:srgbClr val="EC4899"/></a:accent6>'
+  + '<a:hlink><a:srgbClr val="2563EB"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink>'
+  + '</a:clrScheme>'
+  + '<a:fontScheme name="Flowchart">'
+  + '<a:majorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>'
+  + '<a:minorFont><a:latin typeface="Arial"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>'
+  + '</a:fontScheme>'
+  + '<a:fmtScheme name="Flowchart">'
+  + '<a:fillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3) + '</a:fillStyleLst>'
+  + '<a:lnStyleLst>' + [9525, 19050, 28575].map(w => `<a:ln w="${w}"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`).join('') + '</a:lnStyleLst>'
+  + '<a:effectStyleLst>' + '<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3) + '</a:effectStyleLst>'
+  + '<a:bgFillStyleLst>' + '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3) + '</a:bgFillStyleLst>'
+  + '</a:fmtScheme>'
+  + '</a:themeElements></a:theme>';
+
+const CLR_MAP = 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+
+const REL_TYPES = {
+  officeDocument: `${REL_NS}/officeDocument`,
+  slideMaster: `${REL_NS}/slideMaster`,
+  slideLayout: `${REL_NS}/slideLayout`,
+  slide: `${REL_NS}/slide`,
+  theme: `${REL_NS}/theme`,
+  presProps: `${REL_NS}/presProps`,
+  viewProps: `${REL_NS}/viewProps`,
+  tableStyles: `${REL_NS}/tableStyles`,
+};
+
+const CONTENT_TYPES = XML_HEADER
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + [
+    ['/ppt/presentation.xml', 'presentationml.presentation.main+xml'],
+    ['/ppt/slideMasters/slideMaster1.xml', 'presentationml.slideMaster+xml'],
+    ['/ppt/slideLayouts/slideLayout1.xml', 'presentationml.slideLayout+xml'],
+    ['/ppt/slides/slide1.xml', 'presentationml.slide+xml'],
+    ['/ppt/theme/theme1.xml', 'theme+xml'],
+    ['/ppt/presProps.xml', 'presentationml.presProps+xml'],
+    ['/ppt/viewProps.xml', 'presentationml.viewProps+xml'],
+    ['/ppt/tableStyles.xml', 'presentationml.tableStyles+xml'],
+  ].map(([part, type]) => `<Override PartName="${part}" ContentType="application/vnd.openxmlformats-officedocument.${type}"/>`).join('')
+  + '</Types>';
+
+const buildSlide = (data: FlowchartData, diagramType: DiagramType | undefined, scale: number): string => {
+  const slide = createSlideWriter(scale);
+
+  data.nodes.forEach(node => {
+    const text: TextRun[] = [{ text: node.title, size: 14, color: EXPORT_COLORS.text, bold: true }];
+    if (node.description) text.push({ text: node.description, size: 11, color: EXPORT_COLORS.textMuted });
+    slide.addShape(node.id, node.title, nodeRect(node), PRESET_SHAPES[node.type] || PRESET_SHAPES.main,
+      { color: EXPORT_COLORS.nodeFill }, { color: EXPORT_COLORS.nodeStroke, width: 2 }, text);
+  });
+
+  getExportConnectors(data, diagramType).forEach(({ connector, from, to, route, style, dashed, start, end, middle }) => {
+    const dashes = (style.strokeDasharray || '').trim().split(/[\s,]+/).map(Number);
+    const geometry: ConnectorGeometry = route.shape === 'bezier'
+      ? 'curvedConnector3'
+      : route.points.length <= 2
+        ? 'straightConnector1'
+        : isVertical(route.points[0], route.points[1]) === isVertical(route.points[route.points.length - 2], end) ? 'bentConnector3' : 'bentConnector2';
+    slide.addConnector(connector.label || `${from.title} to ${to.title}`, start, end, geometry, isVertical(route.points[0], route.points[1]), {
+      color: style.stroke || EXPORT_COLORS.connector,
+      width: style.strokeWidth || 2,
+      dash: dashed ? (dashes[0] <= 2 ? 'sysDot' : 'dash') : undefined,
+      head: style.arrowStart,
+      tail: style.arrowEnd,
+    }, { shape: from.id, side: getNearestSide(from, start) }, { shape: to.id, side: getNearestSide(to, end) }, route.points[1]);
+    if (connector.label) {
+      const w = connector.label.length * 8 + 24;
+      slide.addShape(`${connector.id}-label`, connector.label, { x: middle.x - w / 2, y: middle.y - 12, w, h: 24 }, 'rect',
+        { color: EXPORT_COLORS.nodeFill }, null, [{ text: connector.label, size: 12, color: EXPORT_COLORS.text }], 'ctr', true);
+    }
+  });
+
+  getExportSideBoxes(data).forEach(({ box, node, rect, link }) => {
+    const side = box.position || 'right';
+    slide.addShape(box.id, 'Side box', rect, 'roundRect', { color: EXPORT_COLORS.sideBoxFill }, { color: EXPORT_COLORS.sideBoxStroke },
+      [{ text: box.text, size: 12, color: EXPORT_COLORS.textMuted }]);
+    slide.addConnector('Side box link', link.from, link.to, 'straightConnector1', false, {
+      color: EXPORT_COLORS.nodeStroke,
+      dash: box.lineStyle === 'dotted' ? 'sysDot' : undefined,
+    }, { shape: node.id, side }, { shape: box.id, side: OPPOSITE_SIDES[side] });
+  });
+
+  getExportPanels(data).forEach(({ panel, rect, header, items }) => {
+    slide.addShape(panel.id, panel.title, rect, 'rect', { color: EXPORT_COLORS.panelFill }, { color: EXPORT_COLORS.nodeStroke });
+    slide.addShape(`${panel.id}-header`, `${panel.title} header`, header, 'rect', { color: EXPORT_COLORS.panelHeader }, null,
+      [{ text: panel.title.toUpperCase(), size: 16, color: EXPORT_COLORS.panelHeaderText, bold: true }], 'l');
+    items.forEach(({ item, rect: itemRect, target }) => {
+      const text: TextRun[] = [{ text: [item.icon, item.title].filter(Boolean).join(' '), size: 13, color: EXPORT_COLORS.text, bold: true }];
+      if (item.description) text.push({ text: item.description, size: 11, color: EXPORT_COLORS.textMuted });
+      slide.addShape(item.id, item.title, itemRect, 'roundRect', { color: EXPORT_COLORS.itemFill }, { color: item.color || EXPORT_COLORS.itemAccent }, text, 'l');
+      if (target) {
+        const start = { x: itemRect.x + itemRect.w, y: itemRect.y + itemRect.h / 2 };
+        const end = { x: target.position.x, y: target.position.y + target.size.h / 2 };
+        slide.addConnector(`${item.title} link`, start, end, 'curvedConnector3', false, {
+          color: item.color || EXPORT_COLORS.connector,
+          alpha: 0.5,
+          dash: 'dash',
+          tail: 'arrow',
+        }, { shape: item.id, side: 'right' }, { shape: target.id, side: 'left' });
+      }
+    });
+  });
+
+  return slide.toXml();
+};
+
+export const toPptx = (data: FlowchartData, diagramType?: DiagramType): Uint8Array => {
+  const width = Math.max(data.canvas.width, 1);
+  const height = Math.max(data.canvas.height, 1);
+  const scale = Math.min(1, MAX_SLIDE_EMU / (width * EMU_PER_PX), MAX_SLIDE_EMU / (height * EMU_PER_PX));
+  const slideSize = (px: number) => Math.min(Math.max(Math.round(px * EMU_PER_PX * scale), MIN_SLIDE_EMU), MAX_SLIDE_EMU);
+
+  const presentation = XML_HEADER
+    + `<p:presentation ${NS} saveSubsetFonts="1">`
+    + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+    + '<p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst>'
+    + `<p:sldSz cx="${slideSize(width)}" cy="${slideSize(height)}"/>`
+    + '<p:notesSz cx="6858000" cy="9144000"/>'
+    + '</p:presentation>';
+
+  const master = XML_HEADER
+    + `<p:sldMaster ${NS}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill><a:effectLst/></p:bgPr></p:bg>${EMPTY_TREE}</p:cSld>`
+    + `<p:clrMap ${CLR_MAP}/>`
+    + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+    + '<p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles>'
+    + '</p:sldMaster>';
+
+  const layout = XML_HEADER
+    + `<p:sldLayout ${NS} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld>`
+    + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: relationships([[REL_TYPES.officeDocument, 'ppt/presentation.xml']]) },
+    { name: 'ppt/presentation.xml', data: presentation },
+    {
+      name: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        [REL_TYPES.slideMaster, 'slideMasters/slideMaster1.xml'],
+        [REL_TYPES.slide, 'slides/slide1.xml'],
+        [REL_TYPES.presProps, 'presProps.xml'],
+        [REL_TYPES.viewProps, 'viewProps.xml'],
+        [REL_TYPES.theme, 'theme/theme1.xml'],
+        [REL_TYPES.tableStyles, 'tableStyles.xml'],
+      ]),
+    },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: master },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([[REL_TYPES.slideLayout, '../slideLayouts/slideLayout1.xml'], [REL_TYPES.theme, '../theme/theme1.xml']]),
+    },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: layout },
+    { name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: relationships([[REL_TYPES.slideMaster, '../slideMasters/slideMaster1.xml']]) },
+    { name: 'ppt/slides/slide1.xml', data: buildSlide(data, diagramType, scale) },
+    { name: 'ppt/slides/_rels/slide1.xml.rels', data: relationships([[REL_TYPES.slideLayout, '../slideLayouts/slideLayout1.xml']]) },
+    { name: 'ppt/theme/theme1.xml', data: THEME_XML },
+    { name: 'ppt/presProps.xml', data: XML_HEADER + `<p:presentationPr ${NS}/>` },
+    { name: 'ppt/viewProps.xml', data: XML_HEADER + `<p:viewPr ${NS}/>` },
+    { name: 'ppt/tableStyles.xml', data: XML_HEADER + '<a:tblStyleLst xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>' },
+  ]);
+};
@@ -0,0 +1,78 @@
+import { GoogleGenAI } from '@google/genai';
+import { FLOWCHART_SCHEMA, DIAGRAM_DIFF_SCHEMA } from '../../constants';
+import { FlowchartData, DiagramDiff } from '../../types';
+import { DiagramAIProvider, SubnodeSuggestion } from './types';
+import {
+  FLOWCHART_SYSTEM_INSTRUCTION,
+  REFINE_SYSTEM_INSTRUCTION,
+  SUBNODES_SCHEMA,
+  buildEnhanceDescriptionPrompt,
+  buildFlowchartPrompt,
+  buildRefinePrompt,
+  buildSubnodesPrompt,
+  parseModelJson,
+} from './prompts';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
+
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): DiagramAIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+
+    generateFlowchart: async (request, options = {}) => {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: buildFlowchartPrompt(request),
+        config: {
+          systemInstruction: FLOWCHART_SYSTEM_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema: FLOWCHART_SCHEMA,
+          abortSignal: options.signal,
+        },
+      });
+
+      let text = '';
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        options.onText?.(text);
+      }
+      return parseModelJson<FlowchartData>(text);
+    },
+
+    enhanceDescription: async (nodeTitle, currentDescription, topic) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildEnhanceDescriptionPrompt(nodeTitle, currentDescription, topic),
+      });
+      return (response.text || '').trim();
+    },
+
+    generateSubnodes: async (parentNode, topic, aspect) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildSubnodesPrompt(parentNode, topic, aspect),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: SUBNODES_SCHEMA,
+        },
+      });
+      return parseModelJson<SubnodeSuggestion[]>(response.text);
+    },
+
+    refineDiagram: async (data, instruction) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildRefinePrompt(data, instruction),
+        config: {
+          systemInstruction: REFINE_SYSTEM_INSTRUCTION,
+          responseMimeType: 'application/json',
+          responseSchema: DIAGRAM_DIFF_SCHEMA,
+        },
+      });
+      return parseModelJson<DiagramDiff>(response.text);
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { DiagramAIProvider } from './types';
+
+export type { DiagramAIProvider, FlowchartRequest, GenerationOptions, SubnodeSuggestion } from './types';
+export { createGeminiProvider, createOpenAICompatibleProvider, createMockProvider };
+export { MAX_SOURCE_TEXT_CHARS } from './prompts';
+
+// Selection order:
+//   AI_PROVIDER=gemini|openai|mock picks explicitly;
+//   otherwise Gemini when API_KEY is set, and the offline mock when it is not.
+const resolveProvider = (): DiagramAIProvider => {
+  const requested = (process.env.AI_PROVIDER || '').toLowerCase();
+  const geminiKey = process.env.API_KEY;
+
+  if (requested === 'mock') return createMockProvider();
+
+  if (requested === 'openai') {
+    const baseUrl = process.env.AI_BASE_URL;
+    const model = process.env.AI_MODEL;
+    if (!baseUrl || !model) {
+      console.warn('AI_PROVIDER=openai requires AI_BASE_URL and AI_MODEL. Falling back to the offline mock provider.');
+      return createMockProvider();
+    }
+    return createOpenAICompatibleProvider({ baseUrl, model, apiKey: process.env.AI_API_KEY });
+  }
+
+  if (geminiKey) return createGeminiProvider(geminiKey, process.env.AI_MODEL || DEFAULT_GEMINI_MODEL);
+
+  if (requested === 'gemini') {
+    console.warn('AI_PROVIDER=gemini but API_KEY is not set. Falling back to the offline mock provider.');
+  }
+  return createMockProvider();
+};
+
+let activeProvider: DiagramAIProvider | null = null;
+
+export const getDiagramAIProvider = (): DiagramAIProvider => {
+  if (!activeProvider) activeProvider = resolveProvider();
+  return activeProvider;
+};
+
+// Allows swapping the backend at runtime (e.g. from a settings screen or a test harness).
+export const setDiagramAIProvider = (provider: DiagramAIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,184 @@
+import { DEFAULT_FLOWCHART_DATA } from '../../constants';
+import { DiagramType, FlowchartData, DiagramDiff, Node, Connector } from '../../types';
+import { DiagramAIProvider, FlowchartRequest } from './types';
+
+// Deterministic offline backend: same input, same diagram. Lets the app boot and be demoed
+// without any API key, and gives a stable fixture when working on the UI.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNKS = 40;
+
+const MIND_MAP_BRANCHES = [
+  { title: 'Origins', icon: 'search' },
+  { title: 'Key Concepts', icon: 'idea' },
+  { title: 'Processes', icon: 'gear' },
+  { title: 'Benefits', icon: 'check' },
+  { title: 'Risks', icon: 'warning' },
+  { title: 'Resources', icon: 'document' },
+];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Generation cancelled.', 'AbortError'));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Generation cancelled.', 'AbortError'));
+  }, { once: true });
+});
+
+const buildMockFlowchart = (topic: string): FlowchartData => {
+  const data: FlowchartData = JSON.parse(JSON.stringify(DEFAULT_FLOWCHART_DATA));
+  data.title = topic.toUpperCase();
+  data.caption = `Offline sample diagram for "${topic}". Configure an AI provider to generate real content.`;
+  return data;
+};
+
+const buildMockMindMap = (topic: string, nodeCount: number): FlowchartData => {
+  const center = { x: 850, y: 850 };
+  const nodes: Node[] = [{
+    id: 'n1', type: 'main', title: topic, description: 'Central topic', icon: 'idea',
+    position: { x: center.x - 150, y: center.y - 50 }, size: { w: 300, h: 100 },
+  }];
+  const connectors: Connector[] = [];
+
+  const branchCount = Math.min(MIND_MAP_BRANCHES.length, Math.max(2, Math.round((nodeCount - 1) / 3)));
+  const leafCount = Math.max(0, nodeCount - 1 - branchCount);
+
+  MIND_MAP_BRANCHES.slice(0, branchCount).forEach((branch, bIdx) => {
+    const angle = (bIdx / branchCount) * Math.PI * 2;
+    const branchId = `n${nodes.length + 1}`;
+    nodes.push({
+      id: branchId, type: 'main', title: branch.title, description: `${branch.title} of ${topic}`, icon: branch.icon,
+      position: { x: center.x + Math.cos(angle) * 380 - 130, y: center.y + Math.sin(angle) * 380 - 50 }, size: { w: 260, h: 100 },
+    });
+    connectors.push({ id: `c${connectors.length + 1}`, from: 'n1', to: branchId, type: 'flow' });
+
+    const leaves = Math.floor(leafCount / branchCount) + (bIdx < leafCount % branchCount ? 1 : 0);
+    for (let lIdx = 0; lIdx < leaves; lIdx++) {
+      const leafAngle = angle + (lIdx - (leaves - 1) / 2) * 0.35;
+      const leafId = `n${nodes.length + 1}`;
+      nodes.push({
+        id: leafId, type: 'main', title: `${branch.title} ${lIdx + 1}`, description: `Detail ${lIdx + 1} of ${branch.title.toLowerCase()}`, icon: branch.icon,
+        position: { x: center.x + Math.cos(leafAngle) * 700 - 110, y: center.y + Math.sin(leafAngle) * 700 - 50 }, size: { w: 220, h: 100 },
+      });
+      connectors.push({ id: `c${connectors.length + 1}`, from: branchId, to: leafId, type: 'flow' });
+    }
+  });
+
+  return {
+    title: topic.toUpperCase(),
+    caption: `Offline sample mind map for "${topic}".`,
+    canvas: { width: 1700, height: 1700 },
+    nodes,
+    connectors,
+  };
+};
+
+// Each heading, list item or paragraph of the document becomes one node, in document order.
+const splitSourcePassages = (sourceText: string): string[] =>
+  sourceText
+    .split(/\n\s*\n|\n(?=\s*(?:#|[-*+]\s|\d+[.)]\s))|(?<=^\s*#.*)\n/m)
+    .map(passage => passage.replace(/^\s*(?:#+|[-*+]|\d+[.)])\s*/, '').replace(/\s+/g, ' ').trim())
+    .filter(passage => passage.length > 0);
+
+const passageToNode = (passage: string, index: number): Node => {
+  const words = passage.split(' ');
+  const title = words.slice(0, 5).join(' ') + (words.length > 5 ? '…' : '');
+  return {
+    id: `n${index + 1}`, type: 'main', title, description: words.slice(5, 25).join(' '), icon: 'document',
+    position: { x: 0, y: 0 }, size: { w: 680, h: 86 },
+    sourceRef: passage.length > 200 ? `${passage.slice(0, 200)}…` : passage,
+  };
+};
+
+const buildMockSourceDiagram = (sourceText: string, topic: string, type: DiagramType, nodeCount: number): FlowchartData => {
+  const passages = splitSourcePassages(sourceText).slice(0, type === DiagramType.MINDMAP ? nodeCount : 8);
+  const nodes = passages.map(passageToNode);
+  const connectors: Connector[] = [];
+  const title = (topic || nodes[0]?.title || 'Source document').toUpperCase();
+
+  if (type === DiagramType.MINDMAP) {
+    const center = { x: 850, y: 850 };
+    nodes.forEach((node, i) => {
+      node.size = { w: 260, h: 100 };
+      if (i === 0) {
+        node.position = { x: center.x - 130, y: center.y - 50 };
+        return;
+      }
+      const angle = ((i - 1) / Math.max(1, nodes.length - 1)) * Math.PI * 2;
+      node.position = { x: center.x + Math.cos(angle) * 500 - 130, y: center.y + Math.sin(angle) * 500 - 50 };
+      connectors.push({ id: `c${i}`, from: nodes[0].id, to: node.id, type: 'flow' });
+    });
+    return { title, caption: 'Offline mind map extracted from the pasted document.', canvas: { width: 1700, height: 1700 }, nodes, connectors };
+  }
+
+  nodes.forEach((node, i) => {
+    node.position = { x: 260, y: 320 + i * 186 };
+    if (i > 0) connectors.push({ id: `c${i}`, from: nodes[i - 1].id, to: node.id, type: 'flow' });
+  });
+  if (nodes.length > 0) nodes[nodes.length - 1].type = 'output';
+  return {
+    title,
+    caption: 'Offline flowchart extracted from the pasted document.',
+    canvas: { width: 1200, height: Math.max(1000, 420 + nodes.length * 186) },
+    nodes,
+    connectors,
+  };
+};
+
+export const buildMockDiagram = ({ topic, type, nodeCount, sourceText }: FlowchartRequest): FlowchartData => {
+  if (sourceText && sourceText.trim()) return buildMockSourceDiagram(sourceText, topic, type, nodeCount || 15);
+  return type === DiagramType.MINDMAP ? buildMockMindMap(topic, nodeCount || 15) : buildMockFlowchart(topic);
+};
+
+export const createMockProvider = (): DiagramAIProvider => ({
+  id: 'mock',
+  label: 'Offline mock',
+
+  generateFlowchart: async (request, options = {}) => {
+    // Emit the fixture in chunks so progressive rendering can be exercised offline.
+    const text = JSON.stringify(buildMockDiagram(request), null, 2);
+    const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await delay(MOCK_LATENCY_MS / 8, options.signal);
+      options.onText?.(text.slice(0, end));
+    }
+    return JSON.parse(text);
+  },
+
+  enhanceDescription: async (nodeTitle, currentDescription) => {
+    await delay(MOCK_LATENCY_MS);
+    return `${currentDescription.trim()} In more detail, "${nodeTitle}" is explained here by the offline mock provider.`.trim();
+  },
+
+  generateSubnodes: async (parentNode, _topic, aspect) => {
+    await delay(MOCK_LATENCY_MS);
+    const focus = aspect && aspect.trim().length > 0 ? aspect.trim() : 'Aspect';
+    return ['search', 'idea', 'check'].map((icon, idx) => ({
+      title: `${focus} ${idx + 1}`,
+      description: `${focus} ${idx + 1} of ${parentNode.title}`,
+      icon,
+    }));
+  },
+
+  // Appends one node after the last node, titled from the instruction.
+  refineDiagram: async (data, instruction) => {
+    await delay(MOCK_LATENCY_MS);
+    const last = data.nodes[data.nodes.length - 1];
+    const id = `n-mock-${data.nodes.length + 1}`;
+    const diff: DiagramDiff = {
+      summary: `Offline mock: added a step for "${instruction}". Configure an AI provider for real edits.`,
+      addedNodes: [{
+        id, type: 'main', title: instruction.slice(0, 40), description: 'Added by the offline mock provider.', icon: 'idea',
+        position: last ? { x: last.position.x, y: last.position.y + last.size.h + 80 } : { x: 100, y: 320 },
+        size: last ? { ...last.size } : { w: 600, h: 86 },
+      }],
+      removedNodeIds: [],
+      modifiedNodes: [],
+      addedConnectors: last ? [{ id: `c-mock-${data.connectors.length + 1}`, from: last.id, to: id, type: 'flow' }] : [],
+      removedConnectorIds: [],
+      modifiedConnectors: [],
+    };
+    return diff;
+  },
+});
@@ -0,0 +1,135 @@
+import { FLOWCHART_SCHEMA, DIAGRAM_DIFF_SCHEMA } from '../../constants';
+import { FlowchartData, DiagramDiff } from '../../types';
+import { DiagramAIProvider, GenerationOptions, SubnodeSuggestion } from './types';
+import {
+  FLOWCHART_SYSTEM_INSTRUCTION,
+  REFINE_SYSTEM_INSTRUCTION,
+  SUBNODES_SCHEMA,
+  buildEnhanceDescriptionPrompt,
+  buildFlowchartPrompt,
+  buildRefinePrompt,
+  buildSubnodesPrompt,
+  parseModelJson,
+  toJsonSchema,
+} from './prompts';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+// Works with any server exposing the OpenAI `/chat/completions` contract
+// (vLLM, Ollama, LM Studio, llama.cpp server, OpenRouter, ...).
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): DiagramAIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (messages: ChatMessage[], expectJson: boolean, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages,
+        stream,
+        ...(expectJson ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const complete = async (messages: ChatMessage[], expectJson: boolean): Promise<string> => {
+    const payload = await (await request(messages, expectJson, false)).json();
+    return payload?.choices?.[0]?.message?.content ?? '';
+  };
+
+  // Reads a server-sent-events body of `chat.completion.chunk` objects.
+  const completeStreaming = async (messages: ChatMessage[], options: GenerationOptions): Promise<string> => {
+    const response = await request(messages, true, true, options.signal);
+    if (!response.body) return complete(messages, true);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        let delta: unknown;
+        try {
+          delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        } catch {
+          // Keep-alive comments and malformed chunks carry no text; skip them.
+          continue;
+        }
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          options.onText?.(text);
+        }
+      }
+    }
+    return text;
+  };
+
+  // Not every server honours JSON schemas, so the schema is also spelled out in the prompt.
+  const withSchema = (prompt: string, schema: unknown) =>
+    `${prompt}\n\nRespond with JSON only, matching this JSON schema:\n${JSON.stringify(toJsonSchema(schema))}`;
+
+  return {
+    id: 'openai',
+    label: `OpenAI-compatible (${model})`,
+
+    generateFlowchart: async (flowchartRequest, options = {}) => {
+      const text = await completeStreaming([
+        { role: 'system', content: FLOWCHART_SYSTEM_INSTRUCTION },
+        { role: 'user', content: withSchema(buildFlowchartPrompt(flowchartRequest), FLOWCHART_SCHEMA) },
+      ], options);
+      return parseModelJson<FlowchartData>(text);
+    },
+
+    enhanceDescription: async (nodeTitle, currentDescription, topic) => {
+      const text = await complete([
+        { role: 'user', content: buildEnhanceDescriptionPrompt(nodeTitle, currentDescription, topic) },
+      ], false);
+      return text.trim();
+    },
+
+    generateSubnodes: async (parentNode, topic, aspect) => {
+      // json_object mode requires a top-level object, so the array is wrapped.
+      const text = await complete([
+        { role: 'user', content: withSchema(buildSubnodesPrompt(parentNode, topic, aspect), { type: 'OBJECT', properties: { items: SUBNODES_SCHEMA }, required: ['items'] }) },
+      ], true);
+      const parsed = parseModelJson<{ items: SubnodeSuggestion[] } | SubnodeSuggestion[]>(text);
+      return Array.isArray(parsed) ? parsed : parsed.items;
+    },
+
+    refineDiagram: async (data, instruction) => {
+      const text = await complete([
+        { role: 'system', content: REFINE_SYSTEM_INSTRUCTION },
+        { role: 'user', content: withSchema(buildRefinePrompt(data, instruction), DIAGRAM_DIFF_SCHEMA) },
+      ], true);
+      return parseModelJson<DiagramDiff>(text);
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import { Type } from '@google/genai';
+import { DiagramType, FlowchartData, Node } from '../../types';
+import { FlowchartRequest } from './types';
+
+// Prompts are shared by every provider so that switching backends changes the model, not the instructions.
+
+export const FLOWCHART_SYSTEM_INSTRUCTION = `You are an expert at creating diagram data structures in JSON format. You will be given a topic, a diagram type (Flowchart or Mind Map), and a desired level of detail. Your response must strictly adhere to the provided JSON schema. Do not add any explanatory text or markdown formatting around the JSON output.`;
+
+// Long documents are cut off rather than rejected; roughly 15k tokens leaves room for the response.
+export const MAX_SOURCE_TEXT_CHARS = 60000;
+
+const buildSourceInstructions = (sourceText: string): string => {
+  const truncated = sourceText.length > MAX_SOURCE_TEXT_CHARS;
+  const text = truncated ? sourceText.slice(0, MAX_SOURCE_TEXT_CHARS) : sourceText;
+  return `
+    **Source Document**
+    Build the diagram ONLY from the document between the markers below. Stay faithful to it:
+    - Use its own steps, concepts and terminology, in the order it presents them.
+    - Do not add steps, facts or branches that the document does not support.
+    - For EVERY node, set 'sourceRef' to a short verbatim quote (at most ~200 characters) of the passage the node is based on.
+    ${truncated ? '- The document was truncated; only diagram the part that is included.' : ''}
+
+    <<<SOURCE
+    ${text}
+    SOURCE>>>
+  `;
+};
+
+export const buildFlowchartPrompt = ({ topic, depth, type, nodeCount, sourceText }: FlowchartRequest): string => {
+  let layoutInstructions = '';
+
+  if (type === DiagramType.FLOWCHART) {
+      layoutInstructions = `
+      **Layout Strategy: VERTICAL FLOWCHART**
+      - The overall flow must be strictly vertical, from top-to-bottom.
+      - Nodes should be centered horizontally (e.g., x: ~260 if width is 680 and canvas is 1200).
+      - **IMPORTANT**: Start the first node at y: 320 or lower to leave ample space for the large title banner.
+      - Provide at least 80-100 units of vertical space between each node's bottom edge and the next node's top edge.
+      - Use a standard width for main nodes (e.g., w: 680, h: 86).
+      - Use one entry in 'supportingPanels' to explain key concepts, placed to the right of the main vertical chain (e.g., x: 900+).
+      - Connectors should flow downwards.
+      - Use standard flowchart shapes via the node 'type': 'terminator' for the start and end, 'main' for process steps,
+        'decision' for questions that branch, 'io' for inputs/outputs and 'data' for data stores. Keep 'output' for a highlighted final result.
+      - Make 'decision' nodes about w: 280, h: 140, and give each of their outgoing connectors a short 'label' (e.g. 'Yes' / 'No').
+      - When any other step branches, label its outgoing connectors too.
+      - When the process is handed between several actors, roles or systems (e.g. customer, support, billing),
+        define one entry per actor in 'lanes' and set each node's 'lane' to the actor performing it.
+        Swimlane diagrams are laid out automatically, so their positions only need to be roughly in flow order.
+      - Use 'groups' to frame a few closely related steps (e.g. a phase), never to repeat the lanes.
+      `;
+  } else if (type === DiagramType.MINDMAP) {
+      const targetNodes = nodeCount || 15;
+      layoutInstructions = `
+      **Layout Strategy: MIND MAP**
+      - **Canvas Size**: STRICTLY set canvas width to 1700 and height to 1700.
+      - **Structure**: Central Root Node -> Branches (Level 1) -> Sub-branches (Level 2).
+      - **Node Count**: You MUST generate approximately **${targetNodes} nodes** in total. Distribute them logically across branches.
+      - **Positions**: Place the **Main Topic** node strictly in the center of the canvas (x: 850, y: 850).
+      - **Radial Layout**: Radiate Level 1 nodes outwards in a circle around the center. Place Level 2 nodes further out from their parents.
+      - **Sizing**:
+          - **Width**: Approx formula: (title_chars * 11) + 80. Min: 200, Max: 400.
+          - **Height**: Start with 100.
+      - **Visuals**: Nodes will be rendered as rounded rectangles.
+      - **Connectors**: Use straight lines connecting Parent to Child. Do NOT use arrows.
+      - **Cleanliness**: Do NOT use 'supportingPanels', 'sideBoxes' or 'lanes'.
+      - **Spacing**: Spread nodes out significantly to fill the 1700x1700 canvas. Avoid overlapping.
+      `;
+  }
+
+  const hasSource = !!sourceText && sourceText.trim().length > 0;
+  const subject = hasSource
+    ? `the source document below${topic ? ` (${topic})` : ''}`
+    : `the topic: "${topic}"`;
+
+  return `
+    Generate a "${type}" for ${subject}.
+    The level of detail should be "${depth}".
+
+    Create a catchy, short title for the diagram in the 'title' field.
+
+    ${layoutInstructions}
+
+    **General Constraints:**
+    - For 'Simple', use fewer nodes.
+    - For 'Detailed' or 'Expert', increase the complexity.
+    ${hasSource ? buildSourceInstructions(sourceText!) : ''}
+  `;
+};
+
+export const buildEnhanceDescriptionPrompt = (nodeTitle: string, currentDescription: string, topic: string): string => `
+    I have a node in a diagram about "${topic}".
+    Node Title: "${nodeTitle}"
+    Current Description: "${currentDescription}"
+
+    Please expand on the description for this node to provide more depth and detail, in simple text, in few sentences.
+    Maintain the tone of the original diagram.
+  `;
+
+export const buildSubnodesPrompt = (parentNode: Node, topic: string, aspect?: string): string => {
+    let specificInstruction = "";
+    if (aspect && aspect.trim().length > 0) {
+        specificInstruction = `Focus the generated sub-concepts specifically on this aspect or perspective: "${aspect}".`;
+    }
+
+    return `
+      I have a Mind Map/Flowchart about "${topic}".
+      I want to expand on the specific node: "${parentNode.title}" (Description: ${parentNode.description}).
+      ${specificInstruction}
+
+      Generate 3 to 5 new sub-concepts (child nodes) that stem from this node.
+      Return them as a JSON array of objects.
+    `;
+};
+
+export const REFINE_SYSTEM_INSTRUCTION = `You edit existing diagrams. You receive the current diagram as JSON and an instruction from the user. Respond only with a change set that strictly follows the provided JSON schema: list added nodes and connectors in full, list removed items by id, and for modified items give the id plus only the fields that change. Keep existing ids stable, give new items ids that do not collide with existing ones, and keep the layout tidy by giving new nodes positions and sizes consistent with their neighbours.`;
+
+export const buildRefinePrompt = (data: FlowchartData, instruction: string): string => {
+    // The header image is a large data URL and irrelevant for structural edits.
+    const { headerImage, ...diagram } = data;
+    return `
+      Current diagram (${data.diagramType || DiagramType.FLOWCHART}):
+      ${JSON.stringify(diagram)}
+
+      Instruction: "${instruction}"
+
+      Return the change set that applies this instruction. If nothing needs to change, return empty arrays and explain why in 'summary'.
+    `;
+};
+
+export const SUBNODES_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            icon: { type: Type.STRING, description: "One of: droplet, spring, spark, exhaust, gear, pump, bolt, idea, check, warning, search, or document" }
+        },
+        required: ['title', 'description', 'icon']
+    }
+};
+
+// Gemini schemas use upper-case `Type` enum values; plain JSON Schema (as understood by
+// OpenAI-compatible servers) expects lower-case type names.
+export const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, unknown> = {};
+  Object.entries(schema as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(Object.entries(value).map(([prop, propSchema]) => [prop, toJsonSchema(propSchema)]));
+    } else {
+      result[key] = toJsonSchema(value);
+    }
+  });
+  return result;
+};
+
+// Self-hosted models frequently wrap JSON in markdown fences even when told not to.
+export const parseModelJson = <T,>(text: string | undefined): T => {
+  const trimmed = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) {
+    throw new Error("API returned an empty response.");
+  }
+  return JSON.parse(trimmed) as T;
+};
@@ -0,0 +1,34 @@
+import { FlowchartData, DepthLevel, DiagramType, DiagramDiff, Node } from '../../types';
+
+export interface FlowchartRequest {
+  topic: string;
+  depth: DepthLevel;
+  type: DiagramType;
+  nodeCount?: number;
+  // A pasted or uploaded document the diagram must be extracted from; `topic` then only names it.
+  sourceText?: string;
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  // Called with the accumulated response text every time a new chunk arrives.
+  onText?: (text: string) => void;
+}
+
+export interface SubnodeSuggestion {
+  title: string;
+  description: string;
+  icon: string;
+}
+
+// Every backend (hosted, self-hosted or offline) implements the same calls,
+// so the rest of the app never needs to know which model is answering.
+// Diagram generation is always streamed and must honour `options.signal`.
+export interface DiagramAIProvider {
+  id: 'gemini' | 'openai' | 'mock';
+  label: string;
+  generateFlowchart: (request: FlowchartRequest, options?: GenerationOptions) => Promise<FlowchartData>;
+  enhanceDescription: (nodeTitle: string, currentDescription: string, topic: string) => Promise<string>;
+  generateSubnodes: (parentNode: Node, topic: string, aspect?: string) => Promise<SubnodeSuggestion[]>;
+  refineDiagram: (data: FlowchartData, instruction: string) => Promise<DiagramDiff>;
+}
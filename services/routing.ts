@@ -0,0 +1,464 @@
+import { FlowchartData, Connector, ConnectorRouting, DiagramType, Node, Position } from '../types';
+import { getNodeAnchor, clipToNodeOutline, AnchorSide } from './shapes';
+import { getSideBoxRect, getPanelRects } from './annotations';
+
+// Connector routing shared by the canvas and every exporter, so what is exported matches what is drawn.
+//   straight   - one segment between the node borders (no avoidance, the user asked for a line);
+//   curved     - the classic bezier; falls back to a smoothed detour when the curve would cross an obstacle;
+//   orthogonal - elbow segments found by A* on a sparse grid built from the obstacle edges.
+// Obstacles are all nodes, side boxes and supporting panels.
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface RoutedConnector {
+  id: string;
+  routing: ConnectorRouting;
+  // SVG path data.
+  d: string;
+  // 'bezier': points are start, two control points and end; 'polyline': the corners of the route.
+  shape: 'polyline' | 'bezier';
+  points: Position[];
+}
+
+type Side = AnchorSide;
+
+const OBSTACLE_PADDING = 16;
+const STUB_LENGTH = OBSTACLE_PADDING + 8;
+const BEND_PENALTY = 40;
+const CORNER_RADIUS = 8;
+const SMOOTH_CORNER_RADIUS = 28;
+
+export const getDefaultRouting = (data: FlowchartData, diagramType?: DiagramType): ConnectorRouting =>
+  data.routing || ((diagramType || data.diagramType) === DiagramType.MINDMAP ? 'straight' : 'curved');
+
+const nodeRect = (node: Node): Rect => ({ x: node.position.x, y: node.position.y, w: node.size.w, h: node.size.h });
+
+export const getSideBoxRects = (data: FlowchartData): Rect[] =>
+  (data.sideBoxes || []).flatMap(box => {
+    const node = data.nodes.find(n => n.id === box.attachToNode);
+    return node ? [getSideBoxRect(box, node)] : [];
+  });
+
+const getObstacles = (data: FlowchartData): Rect[] => [
+  ...data.nodes.map(nodeRect),
+  ...getSideBoxRects(data),
+  ...getPanelRects(data),
+];
+
+const pad = (r: Rect, p: number): Rect => ({ x: r.x - p, y: r.y - p, w: r.w + 2 * p, h: r.h + 2 * p });
+
+const strictlyInside = (p: Position, r: Rect) => p.x > r.x && p.x < r.x + r.w && p.y > r.y && p.y < r.y + r.h;
+
+const center = (r: Rect): Position => ({ x: r.x + r.w / 2, y: r.y + r.h / 2 });
+
+const SIDE_VECTORS: Record<Side, Position> = {
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const offset = (p: Position, side: Side, distance: number): Position => ({
+  x: p.x + SIDE_VECTORS[side].x * distance,
+  y: p.y + SIDE_VECTORS[side].y * distance,
+});
+
+// First bend point outside the padded bounding box, straight out from the anchor.
+const stubFor = (r: Rect, anchor: Position, side: Side): Position => {
+  switch (side) {
+    case 'top': return { x: anchor.x, y: r.y - STUB_LENGTH };
+    case 'bottom': return { x: anchor.x, y: r.y + r.h + STUB_LENGTH };
+    case 'left': return { x: r.x - STUB_LENGTH, y: anchor.y };
+    case 'right': return { x: r.x + r.w + STUB_LENGTH, y: anchor.y };
+  }
+};
+
+// Same conventions as the original renderer: downward flow leaves the bottom and enters the top,
+// edges going back up loop around the right-hand side, side-by-side nodes connect left/right.
+// Decisions send branches that go off to one side out of their left/right corners.
+const choosePorts = (from: Rect, to: Rect, fromType: Node['type']): [Side, Side] => {
+  const horizontallyApart = from.x + from.w < to.x || to.x + to.w < from.x;
+  const dx = center(to).x - center(from).x;
+  const dy = center(to).y - center(from).y;
+  if (horizontallyApart && Math.abs(dx) > Math.abs(dy)) return dx > 0 ? ['right', 'left'] : ['left', 'right'];
+  if (to.y >= from.y + from.h - 10) {
+    if (fromType === 'decision' && Math.abs(dx) > from.w / 4) return [dx > 0 ? 'right' : 'left', 'top'];
+    return ['bottom', 'top'];
+  }
+  if (to.y + to.h <= from.y + 50) return ['right', 'right'];
+  return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Polyline with rounded corners; radius is clamped so short segments still render cleanly.
+export const roundedPolylinePath = (points: Position[], radius: number = CORNER_RADIUS): string => {
+  if (points.length === 0) return '';
+  let d = `M ${round(points[0].x)} ${round(points[0].y)}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1];
+    const p = points[i];
+    const next = points[i + 1];
+    const inLen = Math.hypot(p.x - prev.x, p.y - prev.y);
+    const outLen = Math.hypot(next.x - p.x, next.y - p.y);
+    const r = Math.min(radius, inLen / 2, outLen / 2);
+    if (r <= 0) continue;
+    const a = { x: p.x - ((p.x - prev.x) / inLen) * r, y: p.y - ((p.y - prev.y) / inLen) * r };
+    const b = { x: p.x + ((next.x - p.x) / outLen) * r, y: p.y + ((next.y - p.y) / outLen) * r };
+    d += ` L ${round(a.x)} ${round(a.y)} Q ${round(p.x)} ${round(p.y)} ${round(b.x)} ${round(b.y)}`;
+  }
+  const last = points[points.length - 1];
+  return `${d} L ${round(last.x)} ${round(last.y)}`;
+};
+
+const simplify = (points: Position[]): Position[] =>
+  points.filter((p, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const prev = points[i - 1];
+    const next = points[i + 1];
+    if (p.x === prev.x && p.y === prev.y) return false;
+    return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+  });
+
+// --- Orthogonal search ---
+
+interface Grid {
+  xs: number[];
+  ys: number[];
+  blocked: (xi: number, yi: number) => boolean;
+  segmentBlocked: (xi: number, yi: number, dir: number) => boolean;
+}
+
+const DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+const buildGrid = (obstacles: Rect[], extraPoints: Position[]): Grid => {
+  const xSet = new Set<number>();
+  const ySet = new Set<number>();
+  obstacles.forEach(o => {
+    xSet.add(o.x); xSet.add(o.x + o.w);
+    ySet.add(o.y); ySet.add(o.y + o.h);
+  });
+  extraPoints.forEach(p => { xSet.add(p.x); ySet.add(p.y); });
+  // An outer ring so routes can always go around everything.
+  const xs0 = [...xSet];
+  const ys0 = [...ySet];
+  xSet.add(Math.min(...xs0) - STUB_LENGTH); xSet.add(Math.max(...xs0) + STUB_LENGTH);
+  ySet.add(Math.min(...ys0) - STUB_LENGTH); ySet.add(Math.max(...ys0) + STUB_LENGTH);
+
+  const xs = [...xSet].sort((a, b) => a - b);
+  const ys = [...ySet].sort((a, b) => a - b);
+  const pointBlocked = new Uint8Array(xs.length * ys.length);
+  // Horizontal segment (xi -> xi+1) and vertical segment (yi -> yi+1) blocked flags. Obstacle edges are
+  // grid lines, so a segment between neighbouring grid lines is blocked exactly when its midpoint is.
+  const hBlocked = new Uint8Array(xs.length * ys.length);
+  const vBlocked = new Uint8Array(xs.length * ys.length);
+
+  for (let xi = 0; xi < xs.length; xi++) {
+    for (let yi = 0; yi < ys.length; yi++) {
+      const idx = yi * xs.length + xi;
+      const p = { x: xs[xi], y: ys[yi] };
+      const h = xi + 1 < xs.length ? { x: (xs[xi] + xs[xi + 1]) / 2, y: ys[yi] } : null;
+      const v = yi + 1 < ys.length ? { x: xs[xi], y: (ys[yi] + ys[yi + 1]) / 2 } : null;
+      for (const o of obstacles) {
+        if (!pointBlocked[idx] && strictlyInside(p, o)) pointBlocked[idx] = 1;
+        if (h && !hBlocked[idx] && strictlyInside(h, o)) hBlocked[idx] = 1;
+        if (v && !vBlocked[idx] && strictlyInside(v, o)) vBlocked[idx] = 1;
+      }
+    }
+  }
+
+  return {
+    xs,
+    ys,
+    blocked: (xi, yi) => pointBlocked[yi * xs.length + xi] === 1,
+    segmentBlocked: (xi, yi, dir) => {
+      const [dx, dy] = DIRECTIONS[dir];
+      if (dx !== 0) return hBlocked[yi * xs.length + (dx > 0 ? xi : xi - 1)] === 1;
+      return vBlocked[(dy > 0 ? yi : yi - 1) * xs.length + xi] === 1;
+    },
+  };
+};
+
+// A* over (grid point, incoming direction) so bends can be penalised.
+const searchOrthogonal = (grid: Grid, start: Position, goal: Position, startDir: number): Position[] | null => {
+  const { xs, ys } = grid;
+  const sx = xs.indexOf(start.x);
+  const sy = ys.indexOf(start.y);
+  const gx = xs.indexOf(goal.x);
+  const gy = ys.indexOf(goal.y);
+  if (sx < 0 || sy < 0 || gx < 0 || gy < 0) return null;
+
+  const stateCount = xs.length * ys.length * 4;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const parent = new Int32Array(stateCount).fill(-1);
+  const key = (xi: number, yi: number, dir: number) => (yi * xs.length + xi) * 4 + dir;
+  const heuristic = (xi: number, yi: number) => Math.abs(xs[xi] - xs[gx]) + Math.abs(ys[yi] - ys[gy]);
+
+  // Binary heap of [priority, state].
+  const heap: [number, number][] = [];
+  const push = (item: [number, number]) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (heap[p][0] <= heap[i][0]) break;
+      [heap[p], heap[i]] = [heap[i], heap[p]];
+      i = p;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < heap.length && heap[l][0] < heap[m][0]) m = l;
+        if (r < heap.length && heap[r][0] < heap[m][0]) m = r;
+        if (m === i) break;
+        [heap[m], heap[i]] = [heap[i], heap[m]];
+        i = m;
+      }
+    }
+    return top;
+  };
+
+  const startKey = key(sx, sy, startDir);
+  cost[startKey] = 0;
+  push([heuristic(sx, sy), startKey]);
+
+  while (heap.length) {
+    const [, state] = pop();
+    const dir = state % 4;
+    const cell = (state - dir) / 4;
+    const xi = cell % xs.length;
+    const yi = (cell - xi) / xs.length;
+    if (xi === gx && yi === gy) {
+      const path: Position[] = [];
+      for (let s = state; s !== -1; s = parent[s]) {
+        const c = (s - (s % 4)) / 4;
+        path.push({ x: xs[c % xs.length], y: ys[Math.floor(c / xs.length)] });
+      }
+      return path.reverse();
+    }
+    for (let nd = 0; nd < 4; nd++) {
+      // Never reverse straight back.
+      if (DIRECTIONS[nd][0] === -DIRECTIONS[dir][0] && DIRECTIONS[nd][1] === -DIRECTIONS[dir][1]) continue;
+      const nx = xi + DIRECTIONS[nd][0];
+      const ny = yi + DIRECTIONS[nd][1];
+      if (nx < 0 || ny < 0 || nx >= xs.length || ny >= ys.length) continue;
+      if (grid.segmentBlocked(xi, yi, nd)) continue;
+      if (grid.blocked(nx, ny) && !(nx === gx && ny === gy)) continue;
+      const step = Math.abs(xs[nx] - xs[xi]) + Math.abs(ys[ny] - ys[yi]);
+      const nextCost = cost[state] + step + (nd === dir ? 0 : BEND_PENALTY);
+      const nextKey = key(nx, ny, nd);
+      if (nextCost < cost[nextKey]) {
+        cost[nextKey] = nextCost;
+        parent[nextKey] = state;
+        push([nextCost + heuristic(nx, ny), nextKey]);
+      }
+    }
+  }
+  return null;
+};
+
+const directionIndex = (side: Side) => DIRECTIONS.findIndex(([dx, dy]) => dx === SIDE_VECTORS[side].x && dy === SIDE_VECTORS[side].y);
+
+// Simple three-segment elbow used when the search finds no way through.
+const fallbackElbow = (a: Position, b: Position, fromSide: Side): Position[] => {
+  if (fromSide === 'top' || fromSide === 'bottom') {
+    const midY = (a.y + b.y) / 2;
+    return [a, { x: a.x, y: midY }, { x: b.x, y: midY }, b];
+  }
+  const midX = (a.x + b.x) / 2;
+  return [a, { x: midX, y: a.y }, { x: midX, y: b.y }, b];
+};
+
+// --- Curves ---
+
+const bezierPoint = (p0: Position, p1: Position, p2: Position, p3: Position, t: number): Position => {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+};
+
+const curveControlDistance = (fromSide: Side, toSide: Side) => (fromSide === toSide ? 100 : 60);
+
+// --- Public API ---
+
+interface Router {
+  route: (connector: Connector) => RoutedConnector | null;
+}
+
+export const createRouter = (data: FlowchartData, diagramType?: DiagramType): Router => {
+  const defaultRouting = getDefaultRouting(data, diagramType);
+  const nodesById = new Map(data.nodes.map(n => [n.id, n]));
+  const rawObstacles = getObstacles(data);
+  const obstacles = rawObstacles.map(o => pad(o, OBSTACLE_PADDING));
+  let grid: Grid | null = null;
+
+  const endpoints = (connector: Connector) => {
+    const fromNode = nodesById.get(connector.from);
+    const toNode = nodesById.get(connector.to);
+    if (!fromNode || !toNode) return null;
+    const from = nodeRect(fromNode);
+    const to = nodeRect(toNode);
+    const [fromSide, toSide] = choosePorts(from, to, fromNode.type);
+    const start = getNodeAnchor(fromNode, fromSide);
+    const end = getNodeAnchor(toNode, toSide);
+    return { fromNode, toNode, from, to, fromSide, toSide, start, end, startStub: stubFor(from, start, fromSide), endStub: stubFor(to, end, toSide) };
+  };
+
+  // The grid is only needed once some connector actually has to detour; build it lazily, once.
+  const getGrid = () => {
+    if (!grid) {
+      const stubs = data.connectors.flatMap(c => {
+        const e = endpoints(c);
+        return e ? [e.startStub, e.endStub] : [];
+      });
+      grid = buildGrid(obstacles, stubs);
+    }
+    return grid;
+  };
+
+  const orthogonalPoints = (e: NonNullable<ReturnType<typeof endpoints>>): Position[] => {
+    const path = searchOrthogonal(getGrid(), e.startStub, e.endStub, directionIndex(e.fromSide));
+    const middle = path || fallbackElbow(e.startStub, e.endStub, e.fromSide);
+    return simplify([e.start, ...middle, e.end]);
+  };
+
+  const crossesObstacle = (points: Position[], exclude: Rect[]) => {
+    const others = rawObstacles
+      .filter(o => !exclude.some(x => x.x === o.x && x.y === o.y && x.w === o.w && x.h === o.h))
+      .map(o => pad(o, 4));
+    return points.some(p => others.some(o => strictlyInside(p, o)));
+  };
+
+  const route = (connector: Connector): RoutedConnector | null => {
+    const e = endpoints(connector);
+    if (!e) return null;
+    const routing = connector.routing || defaultRouting;
+
+    if (routing === 'straight') {
+      const a = clipToNodeOutline(e.fromNode, center(e.to));
+      const b = clipToNodeOutline(e.toNode, center(e.from));
+      return { id: connector.id, routing, d: `M ${round(a.x)} ${round(a.y)} L ${round(b.x)} ${round(b.y)}`, shape: 'polyline', points: [a, b] };
+    }
+
+    if (routing === 'curved') {
+      const dist = curveControlDistance(e.fromSide, e.toSide);
+      const c1 = offset(e.start, e.fromSide, dist);
+      const c2 = offset(e.end, e.toSide, dist);
+      const samples = Array.from({ length: 24 }, (_, i) => bezierPoint(e.start, c1, c2, e.end, (i + 1) / 25));
+      if (!crossesObstacle(samples, [e.from, e.to])) {
+        return {
+          id: connector.id,
+          routing,
+          d: `M ${round(e.start.x)} ${round(e.start.y)} C ${round(c1.x)} ${round(c1.y)}, ${round(c2.x)} ${round(c2.y)}, ${round(e.end.x)} ${round(e.end.y)}`,
+          shape: 'bezier',
+          points: [e.start, c1, c2, e.end],
+        };
+      }
+      const points = orthogonalPoints(e);
+      return { id: connector.id, routing, d: roundedPolylinePath(points, SMOOTH_CORNER_RADIUS), shape: 'polyline', points };
+    }
+
+    const points = orthogonalPoints(e);
+    return { id: connector.id, routing, d: roundedPolylinePath(points), shape: 'polyline', points };
+  };
+
+  return { route };
+};
+
+// Halfway along the route, by arc length for polylines. Connector labels are centred here.
+export const getRouteMidpoint = (route: RoutedConnector): Position => {
+  const { points } = route;
+  if (route.shape === 'bezier') return bezierPoint(points[0], points[1], points[2], points[3], 0.5);
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((a, b) => a + b, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+};
+
+const rectKey = (r: Rect) => `${r.x},${r.y},${r.w},${r.h}`;
+
+const intersects = (a: Rect, b: Rect) => a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+const boundsOf = (rects: Rect[], points: Position[]): Rect => {
+  const xs = [...rects.flatMap(r => [r.x, r.x + r.w]), ...points.map(p => p.x)];
+  const ys = [...rects.flatMap(r => [r.y, r.y + r.h]), ...points.map(p => p.y)];
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+interface CachedRoute {
+  endsKey: string;
+  area: Rect; // Ends plus the route, padded; only obstacles in here can affect it
+  obstaclesKey: string;
+  route: RoutedConnector;
+}
+
+// Routing every connector on every drag frame is too slow for large diagrams, so the canvas keeps
+// a cache: a connector is routed again only when its ends or routing change, or when an obstacle
+// enters, leaves or moves within the area around its current route.
+export const createRouteCache = () => {
+  let cache = new Map<string, CachedRoute>();
+
+  return (data: FlowchartData, diagramType?: DiagramType): Record<string, RoutedConnector> => {
+    const defaultRouting = getDefaultRouting(data, diagramType);
+    const nodesById = new Map(data.nodes.map(n => [n.id, n]));
+    const obstacles = getObstacles(data);
+    const obstaclesKey = (area: Rect) => obstacles.filter(o => intersects(o, area)).map(rectKey).join(';');
+    let router: Router | null = null;
+
+    const next = new Map<string, CachedRoute>();
+    const routes: Record<string, RoutedConnector> = {};
+    data.connectors.forEach(c => {
+      const fromNode = nodesById.get(c.from);
+      const toNode = nodesById.get(c.to);
+      if (!fromNode || !toNode) return;
+      const endsKey = [c.routing || defaultRouting, fromNode.type, rectKey(nodeRect(fromNode)), toNode.type, rectKey(nodeRect(toNode))].join('|');
+      const previous = cache.get(c.id);
+      if (previous && previous.endsKey === endsKey && previous.obstaclesKey === obstaclesKey(previous.area)) {
+        next.set(c.id, previous);
+        routes[c.id] = previous.route;
+        return;
+      }
+      if (!router) router = createRouter(data, diagramType);
+      const route = router.route(c);
+      if (!route) return;
+      const area = pad(boundsOf([nodeRect(fromNode), nodeRect(toNode)], route.points), STUB_LENGTH);
+      next.set(c.id, { endsKey, area, obstaclesKey: obstaclesKey(area), route });
+      routes[c.id] = route;
+    });
+    cache = next;
+    return routes;
+  };
+};
+
+export const routeConnectors = (data: FlowchartData, diagramType?: DiagramType): Record<string, RoutedConnector> => {
+  const router = createRouter(data, diagramType);
+  const routes: Record<string, RoutedConnector> = {};
+  data.connectors.forEach(c => {
+    const routed = router.route(c);
+    if (routed) routes[c.id] = routed;
+  });
+  return routes;
+};
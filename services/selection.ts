@@ -0,0 +1,181 @@
+import { FlowchartData, Node, Connector, SideBox, Position } from '../types';
+import { Rect } from './routing';
+
+// Pure helpers behind multi-selection: hit testing, group edits, clipboard and alignment.
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// A copied slice of a diagram: the nodes plus the connectors and side boxes that only touch them.
+export interface DiagramClipboard {
+  nodes: Node[];
+  connectors: Connector[];
+  sideBoxes: SideBox[];
+}
+
+// Normalises a rectangle dragged in any direction.
+export const rectFromPoints = (a: Position, b: Position): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  w: Math.abs(a.x - b.x),
+  h: Math.abs(a.y - b.y),
+});
+
+// Nodes touched by the marquee; partial overlap is enough, like most drawing tools.
+export const getNodesInRect = (nodes: Node[], rect: Rect): string[] =>
+  nodes
+    .filter(n =>
+      n.position.x < rect.x + rect.w && n.position.x + n.size.w > rect.x &&
+      n.position.y < rect.y + rect.h && n.position.y + n.size.h > rect.y)
+    .map(n => n.id);
+
+export const moveNodes = (data: FlowchartData, ids: Iterable<string>, dx: number, dy: number): FlowchartData => {
+  const moving = new Set(ids);
+  return {
+    ...data,
+    nodes: data.nodes.map(n => moving.has(n.id) ? { ...n, position: { x: n.position.x + dx, y: n.position.y + dy } } : n),
+  };
+};
+
+// Removes nodes together with everything attached to them.
+export const removeNodes = (data: FlowchartData, ids: Iterable<string>): FlowchartData => {
+  const removed = new Set(ids);
+  return {
+    ...data,
+    nodes: data.nodes.filter(n => !removed.has(n.id)),
+    connectors: data.connectors.filter(c => !removed.has(c.from) && !removed.has(c.to)),
+    sideBoxes: data.sideBoxes ? data.sideBoxes.filter(s => !removed.has(s.attachToNode)) : [],
+    supportingPanels: data.supportingPanels?.map(panel => ({
+      ...panel,
+      items: panel.items.map(item => {
+        if (!item.connectsToNode || !removed.has(item.connectsToNode)) return item;
+        const { connectsToNode, ...rest } = item;
+        return rest;
+      }),
+    })),
+    annotations: data.annotations?.map(a => {
+      if (!a.targetNode || !removed.has(a.targetNode)) return a;
+      const { targetNode, ...rest } = a;
+      return rest;
+    }),
+    groups: data.groups?.map(g => ({ ...g, nodeIds: g.nodeIds.filter(id => !removed.has(id)) })),
+  };
+};
+
+export const copyNodes = (data: FlowchartData, ids: Iterable<string>): DiagramClipboard | null => {
+  const copied = new Set(ids);
+  const nodes = data.nodes.filter(n => copied.has(n.id));
+  if (nodes.length === 0) return null;
+  return {
+    nodes,
+    connectors: data.connectors.filter(c => copied.has(c.from) && copied.has(c.to)),
+    sideBoxes: (data.sideBoxes || []).filter(s => copied.has(s.attachToNode)),
+  };
+};
+
+// Inserts a copy of the clipboard shifted by `offset`, with fresh ids. Returns the new node ids
+// so the caller can select what was just pasted.
+export const pasteClipboard = (
+  data: FlowchartData,
+  clipboard: DiagramClipboard,
+  offset: Position
+): { data: FlowchartData; nodeIds: string[] } => {
+  const stamp = Date.now();
+  const taken = new Set<string>([
+    ...data.nodes.map(n => n.id),
+    ...data.connectors.map(c => c.id),
+    ...(data.sideBoxes || []).map(s => s.id),
+  ]);
+  const freshId = (prefix: string, i: number) => {
+    let id = `${prefix}-${stamp}-${i}`;
+    let n = 2;
+    while (taken.has(id)) id = `${prefix}-${stamp}-${i}-${n++}`;
+    taken.add(id);
+    return id;
+  };
+
+  const idMap = new Map<string, string>();
+  const nodes = clipboard.nodes.map((node, i) => {
+    const id = freshId('n', i);
+    idMap.set(node.id, id);
+    return { ...node, id, position: { x: node.position.x + offset.x, y: node.position.y + offset.y } };
+  });
+  const connectors = clipboard.connectors.map((conn, i) => ({
+    ...conn,
+    id: freshId('c', i),
+    from: idMap.get(conn.from)!,
+    to: idMap.get(conn.to)!,
+  }));
+  const sideBoxes = clipboard.sideBoxes.map((box, i) => ({
+    ...box,
+    id: freshId('sb', i),
+    attachToNode: idMap.get(box.attachToNode)!,
+  }));
+
+  return {
+    data: {
+      ...data,
+      nodes: [...data.nodes, ...nodes],
+      connectors: [...data.connectors, ...connectors],
+      sideBoxes: [...(data.sideBoxes || []), ...sideBoxes],
+    },
+    nodeIds: nodes.map(n => n.id),
+  };
+};
+
+export const alignNodes = (data: FlowchartData, ids: Iterable<string>, mode: AlignMode): FlowchartData => {
+  const selected = new Set(ids);
+  const targets = data.nodes.filter(n => selected.has(n.id));
+  if (targets.length < 2) return data;
+
+  const left = Math.min(...targets.map(n => n.position.x));
+  const right = Math.max(...targets.map(n => n.position.x + n.size.w));
+  const top = Math.min(...targets.map(n => n.position.y));
+  const bottom = Math.max(...targets.map(n => n.position.y + n.size.h));
+
+  const place = (n: Node): Position => {
+    switch (mode) {
+      case 'left': return { x: left, y: n.position.y };
+      case 'center': return { x: (left + right) / 2 - n.size.w / 2, y: n.position.y };
+      case 'right': return { x: right - n.size.w, y: n.position.y };
+      case 'top': return { x: n.position.x, y: top };
+      case 'middle': return { x: n.position.x, y: (top + bottom) / 2 - n.size.h / 2 };
+      case 'bottom': return { x: n.position.x, y: bottom - n.size.h };
+    }
+  };
+
+  return { ...data, nodes: data.nodes.map(n => selected.has(n.id) ? { ...n, position: place(n) } : n) };
+};
+
+// Keeps the outermost nodes in place and spreads the rest so the gaps between them are equal.
+export const distributeNodes = (data: FlowchartData, ids: Iterable<string>, axis: DistributeAxis): FlowchartData => {
+  const selected = new Set(ids);
+  const horizontal = axis === 'horizontal';
+  const start = (n: Node) => horizontal ? n.position.x : n.position.y;
+  const extent = (n: Node) => horizontal ? n.size.w : n.size.h;
+
+  const targets = data.nodes.filter(n => selected.has(n.id)).sort((a, b) => start(a) - start(b));
+  if (targets.length < 3) return data;
+
+  const first = targets[0];
+  const last = targets[targets.length - 1];
+  const span = start(last) + extent(last) - start(first);
+  const occupied = targets.reduce((sum, n) => sum + extent(n), 0);
+  const gap = (span - occupied) / (targets.length - 1);
+
+  const placed = new Map<string, number>();
+  let cursor = start(first);
+  targets.forEach(n => {
+    placed.set(n.id, cursor);
+    cursor += extent(n) + gap;
+  });
+
+  return {
+    ...data,
+    nodes: data.nodes.map(n => {
+      if (!placed.has(n.id)) return n;
+      const value = placed.get(n.id)!;
+      return { ...n, position: horizontal ? { x: value, y: n.position.y } : { x: n.position.x, y: value } };
+    }),
+  };
+};
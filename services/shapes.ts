@@ -0,0 +1,119 @@
+import { Node, NodeShape, Position } from '../types';
+
+// Geometry of every node shape in local coordinates (0,0 = top-left of the node's bounding box).
+// The renderer draws `getNodeShapePath`, places text in `getNodeContentBox`, and routing attaches
+// connectors to `getNodeAnchor`, so lines always meet the visible outline.
+
+export type AnchorSide = 'top' | 'right' | 'bottom' | 'left';
+
+export const NODE_SHAPES: NodeShape[] = ['main', 'output', 'decision', 'terminator', 'io', 'data'];
+
+export const NODE_SHAPE_LABELS: Record<NodeShape, string> = {
+  main: 'Process',
+  output: 'Output',
+  decision: 'Decision',
+  terminator: 'Start / End',
+  io: 'Input / Output',
+  data: 'Data Store',
+};
+
+// Horizontal slant of the I/O parallelogram.
+const ioSlant = (w: number, h: number) => Math.min(h * 0.35, w * 0.15);
+// Vertical radius of the data store's top and bottom ellipses.
+const cylinderRadius = (h: number) => Math.min(14, h * 0.15);
+
+export const getNodeShapePath = (type: NodeShape, w: number, h: number, cornerRadius: number = 8): string => {
+  switch (type) {
+    case 'decision':
+      return `M ${w / 2} 0 L ${w} ${h / 2} L ${w / 2} ${h} L 0 ${h / 2} Z`;
+    case 'terminator': {
+      const r = h / 2;
+      return `M ${r} 0 L ${w - r} 0 A ${r} ${r} 0 0 1 ${w - r} ${h} L ${r} ${h} A ${r} ${r} 0 0 1 ${r} 0 Z`;
+    }
+    case 'io': {
+      const s = ioSlant(w, h);
+      return `M ${s} 0 L ${w} 0 L ${w - s} ${h} L 0 ${h} Z`;
+    }
+    case 'data': {
+      const ry = cylinderRadius(h);
+      return `M 0 ${ry} A ${w / 2} ${ry} 0 0 1 ${w} ${ry} L ${w} ${h - ry} A ${w / 2} ${ry} 0 0 1 0 ${h - ry} Z`;
+    }
+    default: {
+      const r = Math.min(cornerRadius, w / 2, h / 2);
+      return `M ${r} 0 L ${w - r} 0 Q ${w} 0 ${w} ${r} L ${w} ${h - r} Q ${w} ${h} ${w - r} ${h} L ${r} ${h} Q 0 ${h} 0 ${h - r} L 0 ${r} Q 0 0 ${r} 0 Z`;
+    }
+  }
+};
+
+// Extra strokes drawn on top of the outline (the visible front rim of the cylinder's lid).
+export const getNodeShapeDetailPath = (type: NodeShape, w: number, h: number): string | null => {
+  if (type !== 'data') return null;
+  const ry = cylinderRadius(h);
+  return `M 0 ${ry} A ${w / 2} ${ry} 0 0 0 ${w} ${ry}`;
+};
+
+export interface ContentBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  // Diamonds are too narrow at the sides for the index badge.
+  showIndex: boolean;
+}
+
+export const getNodeContentBox = (type: NodeShape, w: number, h: number): ContentBox => {
+  switch (type) {
+    case 'decision':
+      return { x: w * 0.2, y: h * 0.22, w: w * 0.6, h: h * 0.56, showIndex: false };
+    case 'terminator':
+      return { x: h * 0.2, y: 0, w: w - h * 0.4, h, showIndex: true };
+    case 'io': {
+      const s = ioSlant(w, h);
+      return { x: s * 0.6, y: 0, w: w - s * 1.2, h, showIndex: true };
+    }
+    case 'data': {
+      const ry = cylinderRadius(h);
+      return { x: 0, y: ry * 2, w, h: h - ry * 3, showIndex: true };
+    }
+    default:
+      return { x: 0, y: 0, w, h, showIndex: true };
+  }
+};
+
+// Smallest node height that fits text of the given rendered height.
+export const getHeightForContent = (type: NodeShape, contentHeight: number): number => {
+  switch (type) {
+    case 'decision':
+      return Math.max(120, Math.ceil((contentHeight + 8) / 0.56));
+    case 'data':
+      return Math.max(100, contentHeight + 40 + 3 * 14);
+    default:
+      return Math.max(86, contentHeight + 40);
+  }
+};
+
+// Point on the outline where a connector leaving/entering through `side` attaches, in canvas coordinates.
+export const getNodeAnchor = (node: Pick<Node, 'type' | 'position' | 'size'>, side: AnchorSide): Position => {
+  const { x, y } = node.position;
+  const { w, h } = node.size;
+  const inset = node.type === 'io' ? ioSlant(w, h) / 2 : 0;
+  switch (side) {
+    case 'top': return { x: x + w / 2, y };
+    case 'bottom': return { x: x + w / 2, y: y + h };
+    case 'left': return { x: x + inset, y: y + h / 2 };
+    case 'right': return { x: x + w - inset, y: y + h / 2 };
+  }
+};
+
+// Where the ray from the node's centre towards `target` crosses its outline.
+export const clipToNodeOutline = (node: Pick<Node, 'type' | 'position' | 'size'>, target: Position): Position => {
+  const { w, h } = node.size;
+  const c = { x: node.position.x + w / 2, y: node.position.y + h / 2 };
+  const dx = target.x - c.x;
+  const dy = target.y - c.y;
+  if (dx === 0 && dy === 0) return c;
+  const scale = node.type === 'decision'
+    ? 1 / (Math.abs(dx) / (w / 2) + Math.abs(dy) / (h / 2))
+    : 1 / Math.max(Math.abs(dx) / (w / 2), Math.abs(dy) / (h / 2));
+  return scale >= 1 ? target : { x: c.x + dx * scale, y: c.y + dy * scale };
+};
@@ -0,0 +1,114 @@
+import { FlowchartData, DiagramType } from '../types';
+import { THEMES } from '../constants';
+import { validateFlowchartData, hasBlockingIssues } from './flowchartValidation';
+import { migrateLegacyPanel } from './annotations';
+
+// Share links carry a whole diagram in the URL fragment (`#share=...`): the bundle below as JSON,
+// raw-deflated and base64url-encoded. The fragment never reaches a server, so nothing is uploaded.
+// Diagrams too big for a link are shared as a `.flow.json` file holding the same bundle.
+
+export interface ShareBundle {
+  data: FlowchartData;
+  theme: string;
+  backgroundColor: string;
+  diagramType: DiagramType;
+}
+
+const SHARE_PREFIX = '#share=';
+const BUNDLE_FORMAT = 'flow-diagram';
+const BUNDLE_VERSION = 1;
+
+// Longer links get cut off by chat apps, mail clients and some browsers.
+export const MAX_SHARE_URL_LENGTH = 8000;
+
+export const SHARE_BUNDLE_EXTENSION = '.flow.json';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large diagrams stay within the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+};
+
+const serializeBundle = (bundle: ShareBundle) =>
+  JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, ...bundle });
+
+// Checks a decoded bundle the same way the JSON editor checks pasted data; an unknown theme or
+// diagram type falls back to the default rather than failing the whole link.
+const parseBundle = (value: unknown): ShareBundle => {
+  const bundle = value as Partial<ShareBundle> & { format?: string; version?: number };
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('This is not a shared diagram.');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > BUNDLE_VERSION) {
+    throw new Error('This diagram was shared from a newer version of the app.');
+  }
+  if (hasBlockingIssues(validateFlowchartData(bundle.data))) {
+    throw new Error('The shared diagram is damaged and cannot be opened.');
+  }
+  return {
+    data: migrateLegacyPanel(bundle.data!),
+    theme: typeof bundle.theme === 'string' && bundle.theme in THEMES ? bundle.theme : 'default',
+    backgroundColor: typeof bundle.backgroundColor === 'string' ? bundle.backgroundColor : '#f8fafc',
+    diagramType: Object.values(DiagramType).includes(bundle.diagramType as DiagramType)
+      ? bundle.diagramType!
+      : DiagramType.FLOWCHART,
+  };
+};
+
+// Full URL of the current page with the bundle in its fragment. The header image is a data URL
+// far bigger than any link can hold, so links go without it; bundle files keep it.
+export const createShareUrl = async (bundle: ShareBundle, baseUrl: string): Promise<string> => {
+  const { headerImage, ...data } = bundle.data;
+  const bytes = new TextEncoder().encode(serializeBundle({ ...bundle, data }));
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  return `${baseUrl.replace(/#.*$/, '')}${SHARE_PREFIX}${toBase64Url(compressed)}`;
+};
+
+export const isShareFragment = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+// Drops the link's fragment from the address bar once the diagram is no longer shown as shared,
+// so a reload opens the document library instead of the shared diagram again.
+export const clearShareFragment = () => {
+  if (!isShareFragment(window.location.hash)) return;
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+};
+
+export const readShareFragment = async (hash: string): Promise<ShareBundle> => {
+  if (!isShareFragment(hash)) throw new Error('This is not a shared diagram.');
+  let value: unknown;
+  try {
+    const bytes = fromBase64Url(decodeURIComponent(hash.slice(SHARE_PREFIX.length)));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    value = JSON.parse(await new Response(stream).text());
+  } catch {
+    throw new Error('The share link is incomplete or damaged. Ask for the link again.');
+  }
+  return parseBundle(value);
+};
+
+// The `.flow.json` file offered when a diagram is too big for a link.
+export const toShareBundleFile = (bundle: ShareBundle): string => serializeBundle(bundle);
+
+// Browsers rename repeated downloads (`flowchart.flow (1).json`), so the content decides too;
+// the format marker is always the first key.
+export const isShareBundleFile = (fileName: string, text: string) =>
+  fileName.toLowerCase().endsWith(SHARE_BUNDLE_EXTENSION) || text.trimStart().startsWith(`{"format":"${BUNDLE_FORMAT}"`);
+
+export const fromShareBundleFile = (text: string): ShareBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The diagram file is not valid JSON.');
+  }
+  return parseBundle(parsed);
+};
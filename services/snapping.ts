@@ -0,0 +1,176 @@
+import { Position } from '../types';
+import { Rect } from './routing';
+
+// Grid snapping plus "smart guides": while a box is dragged, its edges and centre lines are
+// matched against the other boxes on the canvas, and equal gaps to neighbours are detected.
+
+export interface SnapSettings {
+  showGrid: boolean;
+  snapToGrid: boolean;
+  showGuides: boolean; // Also enables snapping to the guides
+  gridSize: number;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  showGrid: false,
+  snapToGrid: false,
+  showGuides: true,
+  gridSize: 20,
+};
+
+export const GRID_SIZES = [10, 20, 40, 80];
+
+// A line drawn across the canvas where two boxes share an edge or centre.
+export interface AlignmentGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  start: number;
+  end: number;
+}
+
+// One of the equal gaps found between the dragged box and its neighbours.
+export interface SpacingHint {
+  axis: 'x' | 'y';
+  from: number;
+  to: number;
+  at: number; // Cross-axis coordinate the hint is drawn at
+}
+
+export interface SnapResult {
+  position: Position;
+  guides: AlignmentGuide[];
+  spacing: SpacingHint[];
+}
+
+export const snapValueToGrid = (value: number, gridSize: number) =>
+  gridSize > 0 ? Math.round(value / gridSize) * gridSize : value;
+
+type Axis = 'x' | 'y';
+
+const start = (r: Rect, axis: Axis) => axis === 'x' ? r.x : r.y;
+const extent = (r: Rect, axis: Axis) => axis === 'x' ? r.w : r.h;
+const cross = (axis: Axis): Axis => axis === 'x' ? 'y' : 'x';
+
+// Left/centre/right (or top/middle/bottom) of a box along one axis.
+const stops = (r: Rect, axis: Axis) => {
+  const s = start(r, axis);
+  const e = extent(r, axis);
+  return [s, s + e / 2, s + e];
+};
+
+const overlapsOnCross = (a: Rect, b: Rect, axis: Axis) => {
+  const c = cross(axis);
+  return start(a, c) < start(b, c) + extent(b, c) && start(b, c) < start(a, c) + extent(a, c);
+};
+
+// Smallest shift along `axis` that lines up one of the moving box's stops with another box's stop.
+const findAlignment = (moving: Rect, others: Rect[], axis: Axis, threshold: number): number | null => {
+  let best: number | null = null;
+  stops(moving, axis).forEach(m => {
+    others.forEach(o => {
+      stops(o, axis).forEach(t => {
+        const delta = t - m;
+        if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+      });
+    });
+  });
+  return best;
+};
+
+const buildGuides = (moving: Rect, others: Rect[], axis: Axis): AlignmentGuide[] => {
+  const guides: AlignmentGuide[] = [];
+  const c = cross(axis);
+  stops(moving, axis).forEach(m => {
+    const matched = others.filter(o => stops(o, axis).some(t => Math.abs(t - m) < 0.5));
+    if (matched.length === 0) return;
+    const all = [moving, ...matched];
+    guides.push({
+      orientation: axis === 'x' ? 'vertical' : 'horizontal',
+      position: m,
+      start: Math.min(...all.map(r => start(r, c))),
+      end: Math.max(...all.map(r => start(r, c) + extent(r, c))),
+    });
+  });
+  return guides;
+};
+
+// Candidate positions (start coordinate along `axis`) that would make the gaps to the neighbours
+// on that axis equal, each with the gaps it would produce.
+const spacingCandidates = (moving: Rect, others: Rect[], axis: Axis) => {
+  const row = others.filter(o => overlapsOnCross(o, moving, axis));
+  const size = extent(moving, axis);
+  const mStart = start(moving, axis);
+  const before = row.filter(o => start(o, axis) + extent(o, axis) <= mStart + size / 2)
+    .sort((a, b) => (start(b, axis) + extent(b, axis)) - (start(a, axis) + extent(a, axis)));
+  const after = row.filter(o => start(o, axis) >= mStart + size / 2)
+    .sort((a, b) => start(a, axis) - start(b, axis));
+
+  const candidates: { value: number; gaps: [number, number][] }[] = [];
+  const endOf = (r: Rect) => start(r, axis) + extent(r, axis);
+
+  if (before[0] && after[0]) {
+    const gap = (start(after[0], axis) - endOf(before[0]) - size) / 2;
+    if (gap > 0) {
+      const value = endOf(before[0]) + gap;
+      candidates.push({ value, gaps: [[endOf(before[0]), value], [value + size, start(after[0], axis)]] });
+    }
+  }
+  if (before[0] && before[1]) {
+    const gap = start(before[0], axis) - endOf(before[1]);
+    if (gap > 0) {
+      const value = endOf(before[0]) + gap;
+      candidates.push({ value, gaps: [[endOf(before[1]), start(before[0], axis)], [endOf(before[0]), value]] });
+    }
+  }
+  if (after[0] && after[1]) {
+    const gap = start(after[1], axis) - endOf(after[0]);
+    if (gap > 0) {
+      const value = start(after[0], axis) - gap - size;
+      candidates.push({ value, gaps: [[value + size, start(after[0], axis)], [endOf(after[0]), start(after[1], axis)]] });
+    }
+  }
+  return candidates;
+};
+
+// Snaps `moving` (already at its raw dragged position) against `others`. Alignment guides win
+// over equal spacing, which wins over the grid; each axis is resolved independently.
+export const computeSnap = (moving: Rect, others: Rect[], settings: SnapSettings, threshold: number): SnapResult => {
+  const position = { x: moving.x, y: moving.y };
+  const guides: AlignmentGuide[] = [];
+  const spacing: SpacingHint[] = [];
+
+  (['x', 'y'] as Axis[]).forEach(axis => {
+    if (settings.showGuides) {
+      const delta = findAlignment(moving, others, axis, threshold);
+      if (delta !== null) {
+        position[axis] = start(moving, axis) + delta;
+        return;
+      }
+      const best = spacingCandidates(moving, others, axis)
+        .filter(c => Math.abs(c.value - start(moving, axis)) <= threshold)
+        .sort((a, b) => Math.abs(a.value - start(moving, axis)) - Math.abs(b.value - start(moving, axis)))[0];
+      if (best) {
+        position[axis] = best.value;
+        const c = cross(axis);
+        const at = start(moving, c) + extent(moving, c) / 2;
+        best.gaps.forEach(([from, to]) => spacing.push({ axis, from, to, at }));
+        return;
+      }
+    }
+    if (settings.snapToGrid) {
+      position[axis] = snapValueToGrid(start(moving, axis), settings.gridSize);
+    }
+  });
+
+  if (settings.showGuides) {
+    const snapped = { ...moving, ...position };
+    guides.push(...buildGuides(snapped, others, 'x'), ...buildGuides(snapped, others, 'y'));
+    // Spacing hints were measured before the other axis moved; keep them on the final centre line.
+    spacing.forEach(hint => {
+      const c = cross(hint.axis);
+      hint.at = start(snapped, c) + extent(snapped, c) / 2;
+    });
+  }
+
+  return { position, guides, spacing };
+};
@@ -0,0 +1,65 @@
+import { FlowchartData } from '../types';
+
+// Nested sub-diagrams: any node may own a child diagram in `subDiagram`. While the user is inside a
+// child, the app keeps the chain of parents as a trail and folds edits back into the root on demand.
+
+export interface DiagramTrailEntry {
+  nodeId: string; // Node in `data` whose sub-diagram was entered
+  data: FlowchartData; // The parent diagram as it was when the user drilled in
+  history: FlowchartData[]; // The parent's undo history, ending at `data`; restored on the way back up
+}
+
+export interface DiagramTreeEntry {
+  path: string[]; // Node ids from the root down to this diagram; empty for the root
+  titles: string[]; // Diagram titles along the path, root first
+  data: FlowchartData;
+}
+
+export const setSubDiagram = (data: FlowchartData, nodeId: string, child: FlowchartData | undefined): FlowchartData => ({
+  ...data,
+  nodes: data.nodes.map(n => {
+    if (n.id !== nodeId) return n;
+    if (child) return { ...n, subDiagram: child };
+    const { subDiagram, ...rest } = n;
+    return rest;
+  }),
+});
+
+// Writes `current` back into the trail from the innermost parent outwards. With `depth` given, stops
+// once the diagram at that trail index has been rebuilt (0 = the root).
+export const foldTrail = (trail: DiagramTrailEntry[], current: FlowchartData, depth: number = 0): FlowchartData => {
+  let data = current;
+  for (let i = trail.length - 1; i >= depth; i--) {
+    data = setSubDiagram(trail[i].data, trail[i].nodeId, data);
+  }
+  return data;
+};
+
+// Depth-first list of every diagram in the hierarchy, root first.
+export const collectDiagramTree = (root: FlowchartData): DiagramTreeEntry[] => {
+  const entries: DiagramTreeEntry[] = [];
+  const visit = (data: FlowchartData, path: string[], titles: string[]) => {
+    const here = [...titles, data.title];
+    entries.push({ path, titles: here, data });
+    data.nodes.forEach(n => {
+      if (n.subDiagram) visit(n.subDiagram, [...path, n.id], here);
+    });
+  };
+  visit(root, [], []);
+  return entries;
+};
+
+export const hasSubDiagrams = (data: FlowchartData) => data.nodes.some(n => n.subDiagram);
+
+// Any character other than a letter or digit is written as `_<hex code>_`, so `-` only ever
+// separates path segments and different paths cannot share an anchor.
+const encodeAnchorSegment = (id: string) =>
+  id.replace(/[^A-Za-z0-9]/gu, ch => `_${ch.codePointAt(0)!.toString(16)}_`);
+
+// Stable HTML id for a diagram in the hierarchy export, e.g. `diagram-n2-n5`.
+export const getDiagramAnchor = (path: string[]) =>
+  path.length === 0 ? 'diagram-root' : `diagram-${path.map(encodeAnchorSegment).join('-')}`;
+
+// Prompt topic for generating a node's sub-diagram, keeping the parent diagram as context.
+export const buildSubDiagramTopic = (parent: FlowchartData, nodeTitle: string, nodeDescription: string) =>
+  `${nodeTitle} (a step in "${parent.title}")${nodeDescription ? `: ${nodeDescription}` : ''}`;
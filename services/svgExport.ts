@@ -0,0 +1,237 @@
+import { Size } from '../types';
+import { getHtmlTextLines, parseCssColor, BASELINE_BELOW_MIDDLE } from './svgVector';
+
+// Builds a standalone SVG file from the rendered diagram. The canvas relies on CSS variables,
+// Tailwind classes and HTML inside foreignObjects, none of which survive outside the app; here
+// every computed style is written back as a plain presentation attribute, the HTML is replaced by
+// wrapped <text>/<tspan> elements, and the font can be embedded so the file looks the same in
+// Inkscape, Illustrator or a wiki page.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Properties children inherit; written only where they differ from the parent.
+const INHERITED_PROPS = [
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-dashoffset',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-opacity', 'marker-start', 'marker-mid', 'marker-end',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'letter-spacing', 'visibility',
+];
+
+// Properties that apply to the element alone, with the value that needs no attribute.
+const OWN_PROPS: Record<string, string> = {
+  'opacity': '1',
+  'stop-color': 'rgb(0, 0, 0)',
+  'stop-opacity': '1',
+  'flood-color': 'rgb(0, 0, 0)',
+  'flood-opacity': '1',
+  'filter': 'none',
+  'clip-path': 'none',
+  'mask': 'none',
+  'display': 'inline',
+};
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+const EMOJI_FONTS = "'Apple Color Emoji', 'Segoe UI Emoji', 'Noto Color Emoji'";
+const GENERIC_FONTS = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif', '-apple-system', 'blinkmacsystemfont']);
+
+export interface StandaloneSvgOptions {
+  background: string;
+  embedFont: boolean;
+}
+
+// Computed values point url() references at the page; the file needs bare fragment ids.
+const normalizeValue = (value: string): string =>
+  value
+    .replace(/url\(\s*["']?[^"')#]*#([^"')\s]+)["']?\s*\)/g, 'url(#$1)')
+    .replace(/(\d)px\b/g, '$1');
+
+const copyComputedStyles = (live: Element, clone: Element, parentStyle: CSSStyleDeclaration | null) => {
+  const style = getComputedStyle(live);
+  INHERITED_PROPS.forEach(prop => {
+    const value = style.getPropertyValue(prop);
+    if (value && (!parentStyle || parentStyle.getPropertyValue(prop) !== value)) clone.setAttribute(prop, normalizeValue(value));
+    else clone.removeAttribute(prop);
+  });
+  Object.entries(OWN_PROPS).forEach(([prop, initial]) => {
+    const value = style.getPropertyValue(prop);
+    if (value && value !== initial) clone.setAttribute(prop, normalizeValue(value));
+    else clone.removeAttribute(prop);
+  });
+  return style;
+};
+
+// Attributes that only mean something inside the app.
+const stripAppAttributes = (el: Element) => {
+  Array.from(el.attributes).forEach(attr => {
+    if (attr.name === 'class' || attr.name === 'style' || attr.name.startsWith('data-') || attr.name === 'pointer-events') {
+      el.removeAttribute(attr.name);
+    }
+  });
+};
+
+const fontFamilyFor = (family: string, text: string) => EMOJI.test(text) ? `${family}, ${EMOJI_FONTS}` : family;
+
+// Redraws a foreignObject's HTML as SVG: box backgrounds and borders as rects, text as one <text>
+// per styled element with a <tspan> per wrapped line. Coordinates are the foreignObject's own.
+const convertForeignObject = (fo: SVGForeignObjectElement): SVGGElement => {
+  const group = document.createElementNS(SVG_NS, 'g');
+  const screen = fo.getScreenCTM();
+  if (!screen) return group;
+  const toLocal = screen.inverse();
+  const local = (x: number, y: number) => ({ x: toLocal.a * x + toLocal.c * y + toLocal.e, y: toLocal.b * x + toLocal.d * y + toLocal.f });
+  const scale = Math.sqrt(Math.abs(toLocal.a * toLocal.d - toLocal.b * toLocal.c));
+  const round = (n: number) => String(Math.round(n * 100) / 100);
+
+  fo.querySelectorAll('*').forEach(el => {
+    if (!(el instanceof HTMLElement) || el.closest('[data-editor-only]')) return;
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+    const background = parseCssColor(style.backgroundColor);
+    const borderWidth = parseFloat(style.borderTopWidth) || 0;
+    const border = borderWidth > 0 && style.borderTopStyle !== 'none' ? parseCssColor(style.borderTopColor) : null;
+    if (!background && !border) return;
+    const r = el.getBoundingClientRect();
+    const topLeft = local(r.left, r.top);
+    const w = r.width * scale;
+    const h = r.height * scale;
+    const radius = style.borderTopLeftRadius.endsWith('%')
+      ? (parseFloat(style.borderTopLeftRadius) / 100) * Math.min(w, h)
+      : parseFloat(style.borderTopLeftRadius) || 0;
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', round(topLeft.x));
+    rect.setAttribute('y', round(topLeft.y));
+    rect.setAttribute('width', round(w));
+    rect.setAttribute('height', round(h));
+    if (radius > 0) rect.setAttribute('rx', round(Math.min(radius, w / 2, h / 2)));
+    rect.setAttribute('fill', background ? style.backgroundColor : 'none');
+    if (border) {
+      rect.setAttribute('stroke', style.borderTopColor);
+      rect.setAttribute('stroke-width', round(borderWidth));
+    }
+    group.appendChild(rect);
+  });
+
+  let text: SVGTextElement | null = null;
+  let textElement: Element | null = null;
+  getHtmlTextLines(fo).forEach(line => {
+    const style = getComputedStyle(line.element);
+    const size = parseFloat(style.fontSize) || 12;
+    if (!text || textElement !== line.element) {
+      text = document.createElementNS(SVG_NS, 'text');
+      text.setAttribute('font-family', fontFamilyFor(style.fontFamily, line.element.textContent || ''));
+      text.setAttribute('font-size', round(size));
+      text.setAttribute('font-weight', style.fontWeight);
+      if (style.fontStyle !== 'normal') text.setAttribute('font-style', style.fontStyle);
+      text.setAttribute('fill', style.color);
+      group.appendChild(text);
+      textElement = line.element;
+    }
+    const start = local(line.left, (line.top + line.bottom) / 2);
+    const tspan = document.createElementNS(SVG_NS, 'tspan');
+    tspan.setAttribute('x', round(start.x));
+    tspan.setAttribute('y', round(start.y + size * BASELINE_BELOW_MIDDLE));
+    tspan.textContent = line.text;
+    text.appendChild(tspan);
+  });
+  return group;
+};
+
+// Walks the live element and its clone side by side, so styles and layout can be read from the
+// live one while the clone is rewritten.
+const inlineTree = (live: Element, clone: Element, parentStyle: CSSStyleDeclaration | null) => {
+  if (live instanceof SVGForeignObjectElement) {
+    const group = convertForeignObject(live);
+    const opacity = getComputedStyle(live).opacity;
+    if (opacity !== '1') group.setAttribute('opacity', opacity);
+    clone.replaceWith(group);
+    return;
+  }
+
+  const style = copyComputedStyles(live, clone, parentStyle);
+  stripAppAttributes(clone);
+
+  if (live instanceof SVGTextContentElement && live.children.length === 0) {
+    const content = live.textContent || '';
+    if (style.textTransform === 'uppercase') clone.textContent = content.toUpperCase();
+    else if (style.textTransform === 'lowercase') clone.textContent = content.toLowerCase();
+    if (EMOJI.test(content)) clone.setAttribute('font-family', fontFamilyFor(style.fontFamily, content));
+  }
+
+  const liveChildren = Array.from(live.children);
+  const cloneChildren = Array.from(clone.children);
+  liveChildren.forEach((child, i) => {
+    const cloneChild = cloneChildren[i];
+    if (!cloneChild) return;
+    if (child.hasAttribute('data-editor-only')) {
+      cloneChild.remove();
+      return;
+    }
+    inlineTree(child, cloneChild, style);
+  });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// First non-generic family in a font-family list, e.g. "Inter" from "Inter, system-ui, sans-serif".
+export const getPrimaryFontFamily = (fontFamily: string): string | null => {
+  const family = fontFamily
+    .split(',')
+    .map(f => f.trim().replace(/^["']|["']$/g, ''))
+    .find(f => f && !GENERIC_FONTS.has(f.toLowerCase()));
+  return family || null;
+};
+
+// @font-face rules for `family` with the font files inlined as data URLs. The font comes from
+// Google Fonts, limited to the Latin subset and the weights the diagram uses.
+const buildEmbeddedFontCss = async (family: string, weights: string[]): Promise<string> => {
+  const query = `family=${encodeURIComponent(family).replace(/%20/g, '+')}:wght@${weights.join(';')}&display=swap`;
+  const response = await fetch(`https://fonts.googleapis.com/css2?${query}`);
+  if (!response.ok) throw new Error(`The font "${family}" could not be found for embedding.`);
+  const css = await response.text();
+
+  const faces = css.split(/(?=\/\*\s*[\w-]+\s*\*\/)/).filter(block => /^\/\*\s*latin\s*\*\//.test(block.trim()));
+  const inlined = await Promise.all(faces.map(async face => {
+    const url = face.match(/url\((https:[^)]+)\)/)?.[1];
+    if (!url) return face;
+    const font = await fetch(url);
+    if (!font.ok) throw new Error(`The font "${family}" could not be downloaded for embedding.`);
+    return face.replace(url, await blobToDataUrl(await font.blob()));
+  }));
+  return inlined.join('\n');
+};
+
+export const buildStandaloneSvg = async (svg: SVGSVGElement, canvas: Size, options: StandaloneSvgOptions): Promise<string> => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineTree(svg, clone, null);
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(canvas.w));
+  clone.setAttribute('height', String(canvas.h));
+  clone.setAttribute('viewBox', `0 0 ${canvas.w} ${canvas.h}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', String(canvas.w));
+  background.setAttribute('height', String(canvas.h));
+  background.setAttribute('fill', options.background);
+  const defs = clone.querySelector('defs');
+  clone.insertBefore(background, defs ? defs.nextSibling : clone.firstChild);
+
+  if (options.embedFont) {
+    const family = getPrimaryFontFamily(getComputedStyle(svg).fontFamily);
+    if (!family) throw new Error('The diagram uses a system font, which cannot be embedded.');
+    const weights = new Set(['400']);
+    clone.querySelectorAll('[font-weight]').forEach(el => weights.add(el.getAttribute('font-weight')!));
+    const sorted = [...weights].filter(w => /^\d+$/.test(w)).sort((a, b) => Number(a) - Number(b));
+    const style = document.createElementNS(SVG_NS, 'style');
+    style.textContent = await buildEmbeddedFontCss(family, sorted);
+    const target = clone.querySelector('defs') || clone.insertBefore(document.createElementNS(SVG_NS, 'defs'), clone.firstChild);
+    target.prepend(style);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+};
@@ -0,0 +1,520 @@
+import { Position, Size } from '../types';
+import { PathCommand, PdfColor, VectorShape, VectorText } from './pdf';
+
+// Turns the rendered diagram SVG into plain vector shapes for the PDF writer. It reads the live
+// DOM rather than the diagram data, so everything that is drawn ends up in the export: colors come
+// from computed styles (CSS variables resolved), arrowheads from their markers, and the HTML text
+// inside foreignObjects is measured line by line so it can be redrawn as real text.
+// Filters (shadows, glows) are skipped and gradients fall back to their first stop.
+
+// Elements that are never painted directly. Markers are drawn where they are referenced.
+const SKIPPED_TAGS = new Set(['defs', 'marker', 'pattern', 'clippath', 'mask', 'style', 'title', 'desc', 'lineargradient', 'radialgradient', 'filter', 'symbol', 'script']);
+
+// Control-point distance for a quarter circle drawn with one cubic bezier.
+const KAPPA = 0.5523;
+
+const point = (m: DOMMatrix, x: number, y: number): Position => ({ x: m.a * x + m.c * y + m.e, y: m.b * x + m.d * y + m.f });
+
+const matrixScale = (m: DOMMatrix): number => Math.sqrt(Math.abs(m.a * m.d - m.b * m.c));
+
+// --- Path data ---
+
+const PATH_TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+const arcToCurves = (x1: number, y1: number, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, x2: number, y2: number): PathCommand[] => {
+  if (x1 === x2 && y1 === y2) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [{ op: 'L', x: x2, y: y2 }];
+
+  // Endpoint to center parameterization (SVG spec, appendix F.6.5).
+  const phi = (rotation * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  // At most a quarter turn per bezier.
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const at = (t: number) => ({ x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi, y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi });
+  const tangent = (t: number) => ({ x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi, y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi });
+
+  const curves: PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta + i * step;
+    const t2 = t1 + step;
+    const p1 = at(t1);
+    const p2 = i === segments - 1 ? { x: x2, y: y2 } : at(t2);
+    const d1 = tangent(t1);
+    const d2 = tangent(t2);
+    curves.push({ op: 'C', x1: p1.x + k * d1.x, y1: p1.y + k * d1.y, x2: p2.x - k * d2.x, y2: p2.y - k * d2.y, x: p2.x, y: p2.y });
+  }
+  return curves;
+};
+
+// Parses SVG path data into absolute moves, lines and cubic curves.
+export const parsePathData = (d: string): PathCommand[] => {
+  const tokens = d.match(PATH_TOKEN) || [];
+  const out: PathCommand[] = [];
+  let i = 0;
+  let command = '';
+  let cx = 0, cy = 0, startX = 0, startY = 0;
+  // Last control points, for the S and T shorthands.
+  let cubic: Position | null = null;
+  let quad: Position | null = null;
+
+  const isCommand = (token: string) => /[a-z]/i.test(token);
+  const read = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (isCommand(tokens[i])) command = tokens[i++];
+    else if (!command) { i++; continue; }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? cx : 0;
+    const oy = relative ? cy : 0;
+    const upper = command.toUpperCase();
+    const args = { 'M': 2, 'L': 2, 'H': 1, 'V': 1, 'C': 6, 'S': 4, 'Q': 4, 'T': 2, 'A': 7, 'Z': 0 }[upper] ?? 0;
+    if (i + args > tokens.length || tokens.slice(i, i + args).some(isCommand)) break;
+
+    let nextCubic: Position | null = null;
+    let nextQuad: Position | null = null;
+    switch (upper) {
+      case 'M':
+        cx = ox + read(); cy = oy + read();
+        startX = cx; startY = cy;
+        out.push({ op: 'M', x: cx, y: cy });
+        // Further coordinate pairs are implicit line-tos.
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        cx = ox + read(); cy = oy + read();
+        out.push({ op: 'L', x: cx, y: cy });
+        break;
+      case 'H':
+        cx = ox + read();
+        out.push({ op: 'L', x: cx, y: cy });
+        break;
+      case 'V':
+        cy = oy + read();
+        out.push({ op: 'L', x: cx, y: cy });
+        break;
+      case 'C':
+      case 'S': {
+        const c1 = upper === 'C'
+          ? { x: ox + read(), y: oy + read() }
+          : cubic ? { x: 2 * cx - cubic.x, y: 2 * cy - cubic.y } : { x: cx, y: cy };
+        const c2 = { x: ox + read(), y: oy + read() };
+        cx = ox + read(); cy = oy + read();
+        out.push({ op: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: cx, y: cy });
+        nextCubic = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const q = upper === 'Q'
+          ? { x: ox + read(), y: oy + read() }
+          : quad ? { x: 2 * cx - quad.x, y: 2 * cy - quad.y } : { x: cx, y: cy };
+        const x = ox + read();
+        const y = oy + read();
+        out.push({ op: 'C', x1: cx + (2 / 3) * (q.x - cx), y1: cy + (2 / 3) * (q.y - cy), x2: x + (2 / 3) * (q.x - x), y2: y + (2 / 3) * (q.y - y), x, y });
+        cx = x; cy = y;
+        nextQuad = q;
+        break;
+      }
+      case 'A': {
+        const rx = read(), ry = read(), rotation = read(), largeArc = read() !== 0, sweep = read() !== 0;
+        const x = ox + read();
+        const y = oy + read();
+        out.push(...arcToCurves(cx, cy, rx, ry, rotation, largeArc, sweep, x, y));
+        cx = x; cy = y;
+        break;
+      }
+      default:
+        out.push({ op: 'Z' });
+        cx = startX; cy = startY;
+        // Numbers directly after a close are invalid; skip them.
+        command = '';
+    }
+    cubic = nextCubic;
+    quad = nextQuad;
+  }
+  return out;
+};
+
+const transformCommands = (commands: PathCommand[], m: DOMMatrix): PathCommand[] =>
+  commands.map(c => {
+    if (c.op === 'Z') return c;
+    const p = point(m, c.x, c.y);
+    if (c.op !== 'C') return { op: c.op, ...p };
+    const c1 = point(m, c.x1, c.y1);
+    const c2 = point(m, c.x2, c.y2);
+    return { op: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: p.x, y: p.y };
+  });
+
+const roundedRect = (x: number, y: number, w: number, h: number, rx: number, ry: number): PathCommand[] => {
+  rx = Math.min(rx, w / 2);
+  ry = Math.min(ry, h / 2);
+  if (rx <= 0 || ry <= 0) {
+    return [{ op: 'M', x, y }, { op: 'L', x: x + w, y }, { op: 'L', x: x + w, y: y + h }, { op: 'L', x, y: y + h }, { op: 'Z' }];
+  }
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { op: 'M', x: x + rx, y },
+    { op: 'L', x: x + w - rx, y },
+    { op: 'C', x1: x + w - rx + kx, y1: y, x2: x + w, y2: y + ry - ky, x: x + w, y: y + ry },
+    { op: 'L', x: x + w, y: y + h - ry },
+    { op: 'C', x1: x + w, y1: y + h - ry + ky, x2: x + w - rx + kx, y2: y + h, x: x + w - rx, y: y + h },
+    { op: 'L', x: x + rx, y: y + h },
+    { op: 'C', x1: x + rx - kx, y1: y + h, x2: x, y2: y + h - ry + ky, x, y: y + h - ry },
+    { op: 'L', x, y: y + ry },
+    { op: 'C', x1: x, y1: y + ry - ky, x2: x + rx - kx, y2: y, x: x + rx, y },
+    { op: 'Z' },
+  ];
+};
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number): PathCommand[] =>
+  rx > 0 && ry > 0 ? roundedRect(cx - rx, cy - ry, rx * 2, ry * 2, rx, ry) : [];
+
+const pointsToCommands = (points: SVGPointList, close: boolean): PathCommand[] => {
+  const commands: PathCommand[] = Array.from(points).map((p, i) => ({ op: i === 0 ? 'M' : 'L', x: p.x, y: p.y }) as PathCommand);
+  if (close && commands.length > 0) commands.push({ op: 'Z' });
+  return commands;
+};
+
+// Outline of a basic shape or path in its own user space.
+const getGeometry = (el: Element): PathCommand[] => {
+  if (el instanceof SVGRectElement) {
+    const rx = el.rx.baseVal.value;
+    const ry = el.ry.baseVal.value;
+    // An unset radius takes the value of the other one.
+    const hasRx = el.hasAttribute('rx');
+    const hasRy = el.hasAttribute('ry');
+    return roundedRect(el.x.baseVal.value, el.y.baseVal.value, el.width.baseVal.value, el.height.baseVal.value, hasRx ? rx : ry, hasRy ? ry : rx);
+  }
+  if (el instanceof SVGCircleElement) return ellipse(el.cx.baseVal.value, el.cy.baseVal.value, el.r.baseVal.value, el.r.baseVal.value);
+  if (el instanceof SVGEllipseElement) return ellipse(el.cx.baseVal.value, el.cy.baseVal.value, el.rx.baseVal.value, el.ry.baseVal.value);
+  if (el instanceof SVGLineElement) {
+    return [{ op: 'M', x: el.x1.baseVal.value, y: el.y1.baseVal.value }, { op: 'L', x: el.x2.baseVal.value, y: el.y2.baseVal.value }];
+  }
+  if (el instanceof SVGPolygonElement) return pointsToCommands(el.points, true);
+  if (el instanceof SVGPolylineElement) return pointsToCommands(el.points, false);
+  if (el instanceof SVGPathElement) return parsePathData(el.getAttribute('d') || '');
+  return [];
+};
+
+// --- Colors ---
+
+interface Paint { color: PdfColor; alpha: number }
+
+export const parseCssColor = (value: string): Paint | null => {
+  const v = value.trim();
+  if (!v || v === 'none' || v === 'transparent') return null;
+  const hex = v.match(/^#([0-9a-f]{3,8})$/i);
+  if (hex) {
+    let h = hex[1];
+    if (h.length === 3 || h.length === 4) h = h.split('').map(c => c + c).join('');
+    const alpha = h.length === 8 ? parseInt(h.slice(6, 8), 16) / 255 : 1;
+    return { color: { r: parseInt(h.slice(0, 2), 16), g: parseInt(h.slice(2, 4), 16), b: parseInt(h.slice(4, 6), 16) }, alpha };
+  }
+  const rgb = v.match(/^rgba?\(([^)]+)\)$/i);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    const channel = (s: string) => s.endsWith('%') ? (parseFloat(s) / 100) * 255 : parseFloat(s);
+    const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+    if (alpha <= 0) return null;
+    return { color: { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]) }, alpha };
+  }
+  return null;
+};
+
+const getReferencedId = (value: string): string | null => value.match(/url\(\s*["']?#([^"')\s]+)["']?\s*\)/)?.[1] || null;
+
+const lookup = (svg: SVGSVGElement, id: string): Element | null => svg.querySelector(`#${CSS.escape(id)}`);
+
+// Solid paint for a fill or stroke value; gradients use their first stop.
+const resolvePaint = (svg: SVGSVGElement, value: string): Paint | null => {
+  const ref = getReferencedId(value);
+  if (!ref) return parseCssColor(value);
+  const stop = lookup(svg, ref)?.querySelector('stop');
+  if (!stop) return null;
+  const style = getComputedStyle(stop);
+  const paint = parseCssColor(style.stopColor);
+  return paint && { ...paint, alpha: paint.alpha * parseFloat(style.stopOpacity || '1') };
+};
+
+// --- HTML text ---
+
+export interface TextLine {
+  text: string;
+  // Client (screen) coordinates.
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  // The element the text is styled by.
+  element: Element;
+}
+
+// Line boxes are centered on the glyphs; the baseline sits about a third of an em below the middle.
+export const BASELINE_BELOW_MIDDLE = 0.35;
+
+// Splits the text nodes under `root` into the lines the browser wrapped them into, skipping
+// words clipped away by an `overflow: hidden` ancestor.
+export const getHtmlTextLines = (root: Element): TextLine[] => {
+  const lines: TextLine[] = [];
+  const range = document.createRange();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const element = node.parentElement;
+    const value = node.textContent || '';
+    if (!element || !value.trim()) continue;
+    const style = getComputedStyle(element);
+    if (style.visibility === 'hidden' || element.closest('[data-editor-only]')) continue;
+
+    // Only vertical clipping matters: it is how long descriptions get cut off.
+    const rootRect = root.getBoundingClientRect();
+    let clipTop = rootRect.top;
+    let clipBottom = rootRect.bottom;
+    for (let el: Element | null = element; el && el !== root; el = el.parentElement) {
+      if (getComputedStyle(el).overflow === 'visible') continue;
+      const r = el.getBoundingClientRect();
+      clipTop = Math.max(clipTop, r.top);
+      clipBottom = Math.min(clipBottom, r.bottom);
+    }
+
+    const transform = style.textTransform;
+    let current: TextLine | null = null;
+    for (const match of value.matchAll(/\S+/g)) {
+      range.setStart(node, match.index!);
+      range.setEnd(node, match.index! + match[0].length);
+      const rect = range.getClientRects()[0];
+      if (!rect || rect.width === 0) continue;
+      const midY = rect.top + rect.height / 2;
+      if (midY < clipTop || midY > clipBottom) continue;
+      const word = transform === 'uppercase' ? match[0].toUpperCase() : transform === 'lowercase' ? match[0].toLowerCase() : match[0];
+      if (current && Math.abs(rect.top - current.top) < rect.height / 2) {
+        current.text += ` ${word}`;
+        current.right = rect.right;
+      } else {
+        current = { text: word, left: rect.left, right: rect.right, top: rect.top, bottom: rect.bottom, element };
+        lines.push(current);
+      }
+    }
+  }
+  range.detach();
+  return lines;
+};
+
+// --- Walker ---
+
+interface WalkContext {
+  svg: SVGSVGElement;
+  // Screen coordinates to diagram coordinates, for measured HTML.
+  fromScreen: DOMMatrix;
+  shapes: VectorShape[];
+}
+
+const ownTransform = (el: Element): DOMMatrix => {
+  const m = el instanceof SVGGraphicsElement ? el.transform.baseVal.consolidate()?.matrix : null;
+  return m ? new DOMMatrix([m.a, m.b, m.c, m.d, m.e, m.f]) : new DOMMatrix();
+};
+
+const parseDashes = (value: string, scale: number): number[] | undefined => {
+  if (!value || value === 'none') return undefined;
+  const dashes = value.split(/[\s,]+/).map(parseFloat).filter(n => Number.isFinite(n) && n >= 0);
+  return dashes.length > 0 && dashes.some(n => n > 0) ? dashes.map(n => n * scale) : undefined;
+};
+
+const directionAngle = (from: Position, to: Position) => Math.atan2(to.y - from.y, to.x - from.x);
+
+const drawMarker = (ctx: WalkContext, value: string, at: Position, angle: number, isStart: boolean, strokeWidth: number, opacity: number) => {
+  const id = getReferencedId(value);
+  const marker = id ? lookup(ctx.svg, id) : null;
+  if (!(marker instanceof SVGMarkerElement)) return;
+  const orient = marker.getAttribute('orient') || '0';
+  const rotation = orient === 'auto' ? angle
+    : orient === 'auto-start-reverse' ? angle + (isStart ? Math.PI : 0)
+    : (parseFloat(orient) * Math.PI) / 180 || 0;
+  const scale = marker.getAttribute('markerUnits') === 'userSpaceOnUse' ? 1 : strokeWidth;
+  const m = new DOMMatrix()
+    .translate(at.x, at.y)
+    .rotate((rotation * 180) / Math.PI)
+    .scale(scale)
+    .translate(-marker.refX.baseVal.value, -marker.refY.baseVal.value);
+  Array.from(marker.children).forEach(child => walk(ctx, child, m, opacity, true));
+};
+
+const drawGeometry = (ctx: WalkContext, el: Element, style: CSSStyleDeclaration, matrix: DOMMatrix, opacity: number) => {
+  const commands = transformCommands(getGeometry(el), matrix);
+  if (commands.length === 0) return;
+  const fill = el instanceof SVGLineElement ? null : resolvePaint(ctx.svg, style.fill);
+  const stroke = resolvePaint(ctx.svg, style.stroke);
+  const strokeScale = style.vectorEffect === 'non-scaling-stroke' ? 1 : matrixScale(matrix);
+  const strokeWidth = (parseFloat(style.strokeWidth) || 0) * strokeScale;
+  const fillAlpha = fill ? fill.alpha * parseFloat(style.fillOpacity || '1') * opacity : 0;
+  const strokeAlpha = stroke && strokeWidth > 0 ? stroke.alpha * parseFloat(style.strokeOpacity || '1') * opacity : 0;
+  const dash = parseDashes(style.strokeDasharray, strokeScale);
+
+  if (fillAlpha > 0 && strokeAlpha > 0 && Math.abs(fillAlpha - strokeAlpha) < 0.01) {
+    ctx.shapes.push({ kind: 'path', commands, fill: fill.color, stroke: stroke.color, strokeWidth, dash, opacity: fillAlpha });
+  } else {
+    if (fillAlpha > 0) ctx.shapes.push({ kind: 'path', commands, fill: fill.color, strokeWidth: 0, opacity: fillAlpha });
+    if (strokeAlpha > 0) ctx.shapes.push({ kind: 'path', commands, stroke: stroke.color, strokeWidth, dash, opacity: strokeAlpha });
+  }
+
+  // Arrowheads and other markers at the path ends.
+  if (strokeWidth <= 0 || (style.markerStart === 'none' && style.markerEnd === 'none')) return;
+  const points = commands.flatMap(c => c.op === 'Z' ? [] : c.op === 'C' ? [{ x: c.x1, y: c.y1 }, { x: c.x2, y: c.y2 }, { x: c.x, y: c.y }] : [{ x: c.x, y: c.y }]);
+  if (points.length < 2) return;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const afterFirst = points.find(p => p.x !== first.x || p.y !== first.y) || last;
+  const beforeLast = [...points].reverse().find(p => p.x !== last.x || p.y !== last.y) || first;
+  if (style.markerStart && style.markerStart !== 'none') drawMarker(ctx, style.markerStart, first, directionAngle(first, afterFirst), true, strokeWidth, opacity);
+  if (style.markerEnd && style.markerEnd !== 'none') drawMarker(ctx, style.markerEnd, last, directionAngle(beforeLast, last), false, strokeWidth, opacity);
+};
+
+const isBold = (style: CSSStyleDeclaration) => (parseInt(style.fontWeight, 10) || 400) >= 600 || style.fontWeight === 'bold';
+
+const drawSvgText = (ctx: WalkContext, el: SVGTextContentElement, style: CSSStyleDeclaration, matrix: DOMMatrix, opacity: number) => {
+  // Each tspan is placed on its own; plain text elements are one run.
+  const runs = Array.from(el.children).filter((c): c is SVGTSpanElement => c instanceof SVGTSpanElement);
+  if (runs.length > 0) {
+    runs.forEach(run => {
+      const runStyle = getComputedStyle(run);
+      if (runStyle.display !== 'none') drawSvgText(ctx, run, runStyle, matrix.multiply(ownTransform(run)), opacity);
+    });
+    return;
+  }
+  const paint = resolvePaint(ctx.svg, style.fill);
+  if (!paint || el.getNumberOfChars() === 0) return;
+  const raw = el.textContent || '';
+  const text = style.textTransform === 'uppercase' ? raw.toUpperCase() : raw;
+  const start = el.getStartPositionOfChar(0);
+  const p = point(matrix, start.x, start.y);
+  const scale = matrixScale(matrix);
+  ctx.shapes.push({
+    kind: 'text',
+    text,
+    x: p.x,
+    y: p.y,
+    size: (parseFloat(style.fontSize) || 16) * scale,
+    bold: isBold(style),
+    color: paint.color,
+    opacity: paint.alpha * parseFloat(style.fillOpacity || '1') * opacity,
+    angle: Math.atan2(matrix.b, matrix.a),
+    width: el.getComputedTextLength() * scale,
+  });
+};
+
+// HTML inside a foreignObject: box backgrounds and borders, then the wrapped text lines.
+const drawForeignObject = (ctx: WalkContext, fo: SVGForeignObjectElement, matrix: DOMMatrix, opacity: number) => {
+  const toDiagram = (x: number, y: number) => point(ctx.fromScreen, x, y);
+  const screenScale = matrixScale(ctx.fromScreen);
+
+  fo.querySelectorAll('*').forEach(el => {
+    if (!(el instanceof HTMLElement) || el.closest('[data-editor-only]')) return;
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+    const background = parseCssColor(style.backgroundColor);
+    const borderWidth = parseFloat(style.borderTopWidth) || 0;
+    const border = borderWidth > 0 && style.borderTopStyle !== 'none' ? parseCssColor(style.borderTopColor) : null;
+    if (!background && !border) return;
+    const r = el.getBoundingClientRect();
+    const topLeft = toDiagram(r.left, r.top);
+    const w = r.width * screenScale;
+    const h = r.height * screenScale;
+    const rawRadius = style.borderTopLeftRadius;
+    const radius = rawRadius.endsWith('%')
+      ? (parseFloat(rawRadius) / 100) * Math.min(w, h)
+      : (parseFloat(rawRadius) || 0) * matrixScale(matrix);
+    const commands = roundedRect(topLeft.x, topLeft.y, w, h, radius, radius);
+    if (background) ctx.shapes.push({ kind: 'path', commands, fill: background.color, strokeWidth: 0, opacity: background.alpha * opacity });
+    if (border) ctx.shapes.push({ kind: 'path', commands, stroke: border.color, strokeWidth: borderWidth * matrixScale(matrix), opacity: border.alpha * opacity });
+  });
+
+  getHtmlTextLines(fo).forEach(line => {
+    const style = getComputedStyle(line.element);
+    const paint = parseCssColor(style.color);
+    if (!paint) return;
+    const size = (parseFloat(style.fontSize) || 12) * matrixScale(matrix);
+    const mid = toDiagram(line.left, (line.top + line.bottom) / 2);
+    const text: VectorText = {
+      kind: 'text',
+      text: line.text,
+      x: mid.x,
+      y: mid.y + size * BASELINE_BELOW_MIDDLE,
+      size,
+      bold: isBold(style),
+      color: paint.color,
+      opacity: paint.alpha * opacity,
+      width: (line.right - line.left) * screenScale,
+    };
+    ctx.shapes.push(text);
+  });
+};
+
+// `inDefs` marks content drawn from a marker, which has no layout of its own to check.
+const walk = (ctx: WalkContext, el: Element, parent: DOMMatrix, opacity: number, inDefs = false) => {
+  if (el.hasAttribute('data-editor-only')) return;
+  const tag = el.tagName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return;
+  const style = getComputedStyle(el);
+  if (style.display === 'none') return;
+  const alpha = opacity * parseFloat(style.opacity || '1');
+  if (alpha <= 0.001) return;
+  const matrix = parent.multiply(ownTransform(el));
+
+  if (tag === 'foreignobject' && !inDefs) {
+    drawForeignObject(ctx, el as SVGForeignObjectElement, matrix, alpha);
+    return;
+  }
+  if (style.visibility !== 'hidden') {
+    if (el instanceof SVGTextElement) {
+      drawSvgText(ctx, el, style, matrix, alpha);
+      return;
+    }
+    if (el instanceof SVGGeometryElement) {
+      drawGeometry(ctx, el, style, matrix, alpha);
+      return;
+    }
+  }
+  Array.from(el.children).forEach(child => walk(ctx, child, matrix, alpha, inDefs));
+};
+
+// Vector shapes for the diagram drawn in `svg`, in diagram coordinates, with an optional
+// background covering the canvas.
+export const svgToVectorShapes = (svg: SVGSVGElement, canvas: Size, background?: string): VectorShape[] => {
+  const screen = svg.getScreenCTM();
+  // The viewBox pans and zooms the diagram; its user space is the diagram's own coordinates.
+  const ctx: WalkContext = { svg, fromScreen: screen ? screen.inverse() : new DOMMatrix(), shapes: [] };
+  const paint = background ? parseCssColor(background) : null;
+  if (paint) ctx.shapes.push({ kind: 'path', commands: roundedRect(0, 0, canvas.w, canvas.h, 0, 0), fill: paint.color, strokeWidth: 0, opacity: paint.alpha });
+  Array.from(svg.children).forEach(child => walk(ctx, child, new DOMMatrix(), 1));
+  return ctx.shapes;
+};
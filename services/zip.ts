@@ -0,0 +1,78 @@
+// Minimal ZIP writer (store method, no compression) for the Office Open XML exports. The parts are
+// small XML files, so compressing them would not be worth a dependency.
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01 00:00, so the same input always zips to the same bytes.
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+const UTF8_FLAG = 0x0800;
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  const u16 = (v: number) => { view.setUint16(pos, v, true); pos += 2; };
+  const u32 = (v: number) => { view.setUint32(pos, v, true); pos += 4; };
+  const bytes = (b: Uint8Array) => { out.set(b, pos); pos += b.length; };
+
+  const offsets: number[] = [];
+  files.forEach(f => {
+    offsets.push(pos);
+    u32(0x04034b50);
+    u16(20); u16(UTF8_FLAG); u16(0);
+    u16(DOS_TIME); u16(DOS_DATE);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0);
+    bytes(f.name);
+    bytes(f.data);
+  });
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20); u16(20); u16(UTF8_FLAG); u16(0);
+    u16(DOS_TIME); u16(DOS_DATE);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0); u16(0); u16(0); u16(0);
+    u32(0);
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  u32(0x06054b50);
+  u16(0); u16(0);
+  u16(files.length); u16(files.length);
+  u32(centralSize);
+  u32(centralStart);
+  u16(0);
+  return out;
+};
@@ -9,9 +9,11 @@ export interface Size {
   h: number;
 }
 
+export type NodeShape = 'main' | 'output' | 'decision' | 'terminator' | 'io' | 'data';
+
 export interface Node {
   id: string;
-  type: 'main' | 'output';
+  type: NodeShape;
   title: string;
   description: string;
   icon: string;
@@ -19,8 +21,16 @@ export interface Node {
   size: Size;
   loop?: 'dotted';
   sideBox?: string;
+  sourceRef?: string; // Verbatim excerpt of the source document this node was derived from
+  collapsed?: boolean; // Hides the branch below this node (see services/folding.ts)
+  subDiagram?: FlowchartData; // Child diagram the user can drill into (see services/subDiagrams.ts)
+  lane?: string; // Id of the swimlane this node belongs to
 }
 
+export type ConnectorRouting = 'straight' | 'curved' | 'orthogonal';
+export type ConnectorKind = 'flow' | 'dependency' | 'association' | 'data';
+export type ArrowHead = 'none' | 'arrow' | 'diamond' | 'circle';
+
 export interface Connector {
   id: string;
   from: string;
@@ -30,15 +40,24 @@ export interface Connector {
     strokeDasharray?: string;
     strokeWidth?: number;
   };
+  routing?: ConnectorRouting; // Overrides the diagram-wide routing
+  label?: string; // e.g. "Yes" / "No" on decision branches
+  kind?: ConnectorKind; // Semantic meaning; picks default dashes and arrow heads
+  arrowStart?: ArrowHead;
+  arrowEnd?: ArrowHead;
+  color?: string;
 }
 
+export type SideBoxSide = 'top' | 'right' | 'bottom' | 'left';
+
 export interface SideBox {
   id: string;
   text: string;
   attachToNode: string;
-  position: 'right';
+  position: SideBoxSide; // Side of the node the box sits on
   size: Size;
   lineStyle: 'solid' | 'dotted';
+  offset?: Position; // Dragged away from its default spot beside the node
 }
 
 export interface SupportingPanelItem {
@@ -51,12 +70,44 @@ export interface SupportingPanelItem {
 }
 
 export interface SupportingPanel {
+  id: string;
   title: string;
   position: Position;
   size: Size;
   items: SupportingPanelItem[];
 }
 
+export type AnnotationKind = 'sticky' | 'text' | 'callout';
+
+// Free-floating note on the canvas, not part of the flow.
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  text: string;
+  position: Position;
+  size: Size;
+  color?: string;
+  targetNode?: string; // Node a callout points at
+}
+
+export type LaneOrientation = 'horizontal' | 'vertical';
+
+// One actor or system in a swimlane diagram. Lanes are stacked in array order.
+export interface Lane {
+  id: string;
+  title: string;
+  color?: string;
+  size?: number; // Thickness across the lane; grown by the layout to fit its nodes
+}
+
+// Labelled frame drawn around related nodes; it always wraps its members.
+export interface NodeGroup {
+  id: string;
+  title: string;
+  nodeIds: string[];
+  color?: string;
+}
+
 export enum DiagramType {
   FLOWCHART = 'Flowchart',
   MINDMAP = 'Mind Map',
@@ -73,12 +124,44 @@ export interface FlowchartData {
   nodes: Node[];
   connectors: Connector[];
   sideBoxes?: SideBox[];
-  supportingPanel?: SupportingPanel;
+  supportingPanels?: SupportingPanel[];
+  supportingPanel?: Omit<SupportingPanel, 'id'>; // Legacy single panel; moved into supportingPanels on load
+  annotations?: Annotation[];
   diagramType?: DiagramType;
+  routing?: ConnectorRouting; // Defaults to 'curved' for flowcharts and 'straight' for mind maps
+  lanes?: Lane[];
+  laneOrientation?: LaneOrientation; // Defaults to 'horizontal' (one row per lane)
+  groups?: NodeGroup[];
 }
 
 export enum DepthLevel {
   SIMPLE = 'Simple',
   DETAILED = 'Detailed',
   EXPERT = 'Expert',
-}
\ No newline at end of file
+}
+
+// A saved diagram in the local document library, together with the view settings it was saved with.
+export interface DiagramDocument {
+  id: string;
+  name: string;
+  data: FlowchartData;
+  topic?: string;
+  theme: string;
+  backgroundColor: string;
+  diagramType: DiagramType;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Structured change set returned by the model for a natural-language edit instruction.
+export interface DiagramDiff {
+  summary: string;
+  title?: string;
+  caption?: string;
+  addedNodes: Node[];
+  removedNodeIds: string[];
+  modifiedNodes: (Partial<Node> & { id: string })[];
+  addedConnectors: Connector[];
+  removedConnectorIds: string[];
+  modifiedConnectors: (Partial<Connector> & { id: string })[];
+}